@@ -0,0 +1,66 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_indexed_bottom_up_aggregation } from "../aggregation/indexed_bottom_up";
+
+// === INDEXED BOTTOM-UP AGGREGATION TESTS ===
+
+// Indexed form of the diamond A→B, A→C, B→D, C→D (as built by graph_build_indexed_graph)
+const diamond_graph = {
+  node_count: 4n,
+  edge_count: 4n,
+  node_ids: ["A", "B", "C", "D"],
+  node_types: ["source", "process", "process", "sink"],
+  node_index: new Map([["A", 0n], ["B", 1n], ["C", 2n], ["D", 3n]]),
+  edge_types: ["flow"],
+  out_offsets: [0n, 2n, 3n, 4n, 4n],
+  out_targets: [1n, 2n, 3n, 3n],
+  out_edge_types: [0n, 0n, 0n, 0n],
+  in_offsets: [0n, 0n, 1n, 2n, 4n],
+  in_sources: [0n, 0n, 1n, 2n],
+  in_edge_types: [0n, 0n, 0n, 0n]
+};
+
+// Diamond aggregation test (D contributes through both branches, as in graph_bottom_up_aggregation)
+const indexed_bottom_up_diamond_test = new UnitTestBuilder("indexed_bottom_up_diamond")
+  .procedure(graph_indexed_bottom_up_aggregation)
+  .test(
+    {
+      graph: diamond_graph,
+      nodes: [
+        { id: "A", value: 1.0, weight: null },
+        { id: "B", value: 2.0, weight: null },
+        { id: "C", value: 3.0, weight: null },
+        { id: "D", value: 4.0, weight: null }
+      ]
+    },
+    [
+      { id: "A", aggregated_value: 14.0, contributing_nodes: ["A", "B", "D", "C", "D"] }, // 1 + (2+4) + (3+4)
+      { id: "B", aggregated_value: 6.0, contributing_nodes: ["B", "D"] },
+      { id: "C", aggregated_value: 7.0, contributing_nodes: ["C", "D"] },
+      { id: "D", aggregated_value: 4.0, contributing_nodes: ["D"] }
+    ]
+  );
+
+// Value node outside the indexed graph aggregates only itself
+const indexed_bottom_up_unknown_node_test = new UnitTestBuilder("indexed_bottom_up_unknown_node")
+  .procedure(graph_indexed_bottom_up_aggregation)
+  .test(
+    {
+      graph: diamond_graph,
+      nodes: [
+        { id: "B", value: 2.0, weight: null },
+        { id: "D", value: 4.0, weight: null },
+        { id: "E", value: 5.0, weight: null }
+      ]
+    },
+    [
+      { id: "B", aggregated_value: 6.0, contributing_nodes: ["B", "D"] },
+      { id: "D", aggregated_value: 4.0, contributing_nodes: ["D"] },
+      { id: "E", aggregated_value: 5.0, contributing_nodes: ["E"] }
+    ]
+  );
+
+export default Template(
+  indexed_bottom_up_diamond_test,
+  indexed_bottom_up_unknown_node_test
+);
@@ -0,0 +1,64 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_group_by_fingerprint } from "../analysis/fingerprint_groups";
+
+// Two structurally identical networks and one different network
+const fingerprint_groups_basic_test = new UnitTestBuilder("fingerprint_groups_basic")
+  .procedure(graph_group_by_fingerprint)
+  .test(
+    {
+      graphs: [
+        {
+          nodes: [{ id: "A", type: "batch" }, { id: "B", type: "lot" }],
+          edges: [{ from: "A", to: "B", type: "mix" }]
+        },
+        {
+          nodes: [{ id: "C", type: "batch" }, { id: "D", type: "lot" }, { id: "E", type: "pallet" }],
+          edges: [{ from: "C", to: "D", type: "mix" }, { from: "D", to: "E", type: "pack" }]
+        },
+        {
+          nodes: [{ id: "X", type: "batch" }, { id: "Y", type: "lot" }],
+          edges: [{ from: "X", to: "Y", type: "mix" }]
+        }
+      ],
+      iterations: 3n
+    },
+    [
+      {
+        fingerprint: "V2E1:1429996669-1715283374",
+        representative_index: 0n,
+        representative: {
+          nodes: [{ id: "A", type: "batch" }, { id: "B", type: "lot" }],
+          edges: [{ from: "A", to: "B", type: "mix" }]
+        },
+        member_count: 2n,
+        member_indices: [0n, 2n]
+      },
+      {
+        fingerprint: "V3E2:590045892-82874292",
+        representative_index: 1n,
+        representative: {
+          nodes: [{ id: "C", type: "batch" }, { id: "D", type: "lot" }, { id: "E", type: "pallet" }],
+          edges: [{ from: "C", to: "D", type: "mix" }, { from: "D", to: "E", type: "pack" }]
+        },
+        member_count: 1n,
+        member_indices: [1n]
+      }
+    ]
+  );
+
+// Empty collection - no groups
+const fingerprint_groups_empty_test = new UnitTestBuilder("fingerprint_groups_empty")
+  .procedure(graph_group_by_fingerprint)
+  .test(
+    {
+      graphs: [],
+      iterations: 3n
+    },
+    []
+  );
+
+export default Template(
+  fingerprint_groups_basic_test,
+  fingerprint_groups_empty_test
+);
@@ -0,0 +1,255 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_fingerprint } from "../analysis/fingerprint";
+
+// Typed chain - labels are already distinct after one round
+const fingerprint_chain_test = new UnitTestBuilder("fingerprint_chain")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "pallet" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "mix" },
+        { from: "B", to: "C", type: "pack" }
+      ],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V3E2:590045892-82874292",
+      node_count: 3n,
+      edge_count: 2n,
+      iterations: 1n
+    }
+  );
+
+// Same chain with different IDs and input order - identical fingerprint
+const fingerprint_relabelled_test = new UnitTestBuilder("fingerprint_relabelled")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "Z", type: "pallet" },
+        { id: "Y", type: "lot" },
+        { id: "X", type: "batch" }
+      ],
+      edges: [
+        { from: "Y", to: "Z", type: "pack" },
+        { from: "X", to: "Y", type: "mix" }
+      ],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V3E2:590045892-82874292",
+      node_count: 3n,
+      edge_count: 2n,
+      iterations: 1n
+    }
+  );
+
+// Same types and counts, different shape - fan-out
+const fingerprint_fan_out_test = new UnitTestBuilder("fingerprint_fan_out")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "C", type: "flow" }
+      ],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V3E2:12517352-341808545",
+      node_count: 3n,
+      edge_count: 2n,
+      iterations: 2n
+    }
+  );
+
+// Same types and counts, different shape - chain
+const fingerprint_untyped_chain_test = new UnitTestBuilder("fingerprint_untyped_chain")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" }
+      ],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V3E2:1064242580-2081047277",
+      node_count: 3n,
+      edge_count: 2n,
+      iterations: 2n
+    }
+  );
+
+// Dangling edges are ignored; round limit is respected
+const fingerprint_dangling_edge_test = new UnitTestBuilder("fingerprint_dangling_edge")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "X", type: "flow" }
+      ],
+      iterations: 1n
+    },
+    {
+      fingerprint: "V2E1:288963082-1384727468",
+      node_count: 2n,
+      edge_count: 1n,
+      iterations: 1n
+    }
+  );
+
+// Types containing the transcript delimiters are escaped - this graph and the next must not collide
+const fingerprint_delimiter_types_test = new UnitTestBuilder("fingerprint_delimiter_types")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "a*1,b" },
+        { id: "B", type: "c" }
+      ],
+      edges: [],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V2E0:2122274569-366842805",
+      node_count: 2n,
+      edge_count: 0n,
+      iterations: 1n
+    }
+  );
+
+const fingerprint_delimiter_types_swapped_test = new UnitTestBuilder("fingerprint_delimiter_types_swapped")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "a" },
+        { id: "B", type: "b*1,c" }
+      ],
+      edges: [],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V2E0:1163674137-1682744543",
+      node_count: 2n,
+      edge_count: 0n,
+      iterations: 1n
+    }
+  );
+
+// Types differing only in non-ASCII characters - this graph and the next must not collide
+const fingerprint_non_ascii_types_test = new UnitTestBuilder("fingerprint_non_ascii_types")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "Käse" }
+      ],
+      edges: [],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V1E0:292870349-301271639",
+      node_count: 1n,
+      edge_count: 0n,
+      iterations: 1n
+    }
+  );
+
+const fingerprint_non_ascii_types_variant_test = new UnitTestBuilder("fingerprint_non_ascii_types_variant")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "Kåse" }
+      ],
+      edges: [],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V1E0:1976128550-1486959165",
+      node_count: 1n,
+      edge_count: 0n,
+      iterations: 1n
+    }
+  );
+
+// Edge types in a CJK script - this graph and the next must not collide
+const fingerprint_cjk_edge_types_test = new UnitTestBuilder("fingerprint_cjk_edge_types")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "批次" }
+      ],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V2E1:589620851-1839174682",
+      node_count: 2n,
+      edge_count: 1n,
+      iterations: 2n
+    }
+  );
+
+const fingerprint_cjk_edge_types_variant_test = new UnitTestBuilder("fingerprint_cjk_edge_types_variant")
+  .procedure(graph_fingerprint)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "批号" }
+      ],
+      iterations: 3n
+    },
+    {
+      fingerprint: "V2E1:1676836410-2066475800",
+      node_count: 2n,
+      edge_count: 1n,
+      iterations: 2n
+    }
+  );
+
+export default Template(
+  fingerprint_chain_test,
+  fingerprint_relabelled_test,
+  fingerprint_fan_out_test,
+  fingerprint_untyped_chain_test,
+  fingerprint_dangling_edge_test,
+  fingerprint_delimiter_types_test,
+  fingerprint_delimiter_types_swapped_test,
+  fingerprint_non_ascii_types_test,
+  fingerprint_non_ascii_types_variant_test,
+  fingerprint_cjk_edge_types_test,
+  fingerprint_cjk_edge_types_variant_test
+);
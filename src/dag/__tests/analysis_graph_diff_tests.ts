@@ -0,0 +1,134 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_diff } from "../analysis/graph_diff";
+
+// Added, removed and re-typed nodes and edges
+const diff_basic_test = new UnitTestBuilder("diff_basic")
+  .procedure(graph_diff)
+  .test(
+    {
+      old_nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      old_edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" }
+      ],
+      new_nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "bin" },  // Type changed
+        { id: "D", type: "lot" }   // Added
+      ],
+      new_edges: [
+        { from: "A", to: "B", type: "transfer" }, // Type changed
+        { from: "B", to: "D", type: "move" },
+        { from: "A", to: "D", type: "flow" }
+      ]
+    },
+    {
+      added_nodes: [{ id: "D", type: "lot" }],
+      removed_nodes: [{ id: "C", type: "lot" }],
+      node_type_changes: [{ id: "B", old_type: "lot", new_type: "bin" }],
+      added_edges: [
+        { from: "B", to: "D", type: "move" },
+        { from: "A", to: "D", type: "flow" }
+      ],
+      removed_edges: [{ from: "B", to: "C", type: "flow" }],
+      edge_type_changes: [{ from: "A", to: "B", old_type: "flow", new_type: "transfer" }],
+      node_type_summary: [
+        { type: "batch", before_count: 1n, after_count: 1n, added_count: 0n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 0n },
+        { type: "bin", before_count: 0n, after_count: 1n, added_count: 0n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 1n },
+        { type: "lot", before_count: 2n, after_count: 1n, added_count: 1n, removed_count: 1n, retyped_from_count: 1n, retyped_to_count: 0n }
+      ],
+      edge_type_summary: [
+        { type: "flow", before_count: 2n, after_count: 1n, added_count: 1n, removed_count: 1n, retyped_from_count: 1n, retyped_to_count: 0n },
+        { type: "move", before_count: 0n, after_count: 1n, added_count: 1n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 0n },
+        { type: "transfer", before_count: 0n, after_count: 1n, added_count: 0n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 1n }
+      ]
+    }
+  );
+
+// Parallel edges - differing type sets are reported as added and removed edges
+const diff_parallel_edges_test = new UnitTestBuilder("diff_parallel_edges")
+  .procedure(graph_diff)
+  .test(
+    {
+      old_nodes: [
+        { id: "A", type: "vessel" },
+        { id: "B", type: "vessel" }
+      ],
+      old_edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "B", type: "sample" }
+      ],
+      new_nodes: [
+        { id: "A", type: "vessel" },
+        { id: "B", type: "vessel" }
+      ],
+      new_edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "B", type: "flow" }, // Exact duplicate (counted once)
+        { from: "A", to: "B", type: "audit" }
+      ]
+    },
+    {
+      added_nodes: [],
+      removed_nodes: [],
+      node_type_changes: [],
+      added_edges: [{ from: "A", to: "B", type: "audit" }],
+      removed_edges: [{ from: "A", to: "B", type: "sample" }],
+      edge_type_changes: [],
+      node_type_summary: [
+        { type: "vessel", before_count: 2n, after_count: 2n, added_count: 0n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 0n }
+      ],
+      edge_type_summary: [
+        { type: "audit", before_count: 0n, after_count: 1n, added_count: 1n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 0n },
+        { type: "flow", before_count: 1n, after_count: 1n, added_count: 0n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 0n },
+        { type: "sample", before_count: 1n, after_count: 0n, added_count: 0n, removed_count: 1n, retyped_from_count: 0n, retyped_to_count: 0n }
+      ]
+    }
+  );
+
+// Colon-containing IDs - edges A:B -> C and A -> B:C are distinct pairs
+const diff_colon_ids_test = new UnitTestBuilder("diff_colon_ids")
+  .procedure(graph_diff)
+  .test(
+    {
+      old_nodes: [
+        { id: "A", type: "item" },
+        { id: "A:B", type: "item" },
+        { id: "B:C", type: "item" },
+        { id: "C", type: "item" }
+      ],
+      old_edges: [{ from: "A:B", to: "C", type: "flow" }],
+      new_nodes: [
+        { id: "A", type: "item" },
+        { id: "A:B", type: "item" },
+        { id: "B:C", type: "item" },
+        { id: "C", type: "item" }
+      ],
+      new_edges: [{ from: "A", to: "B:C", type: "flow" }]
+    },
+    {
+      added_nodes: [],
+      removed_nodes: [],
+      node_type_changes: [],
+      added_edges: [{ from: "A", to: "B:C", type: "flow" }],
+      removed_edges: [{ from: "A:B", to: "C", type: "flow" }],
+      edge_type_changes: [],
+      node_type_summary: [
+        { type: "item", before_count: 4n, after_count: 4n, added_count: 0n, removed_count: 0n, retyped_from_count: 0n, retyped_to_count: 0n }
+      ],
+      edge_type_summary: [
+        { type: "flow", before_count: 1n, after_count: 1n, added_count: 1n, removed_count: 1n, retyped_from_count: 0n, retyped_to_count: 0n }
+      ]
+    }
+  );
+
+export default Template(
+  diff_basic_test,
+  diff_parallel_edges_test,
+  diff_colon_ids_test
+);
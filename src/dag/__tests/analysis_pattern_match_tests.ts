@@ -0,0 +1,182 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_match_pattern } from "../analysis/pattern_match";
+
+// Mixers fed by two vessels and feeding a filter
+const mixer_nodes = [
+  { id: "V1", type: "vessel" },
+  { id: "V2", type: "vessel" },
+  { id: "V3", type: "vessel" },
+  { id: "M1", type: "mixer" },
+  { id: "M2", type: "mixer" },
+  { id: "F1", type: "filter" },
+  { id: "F2", type: "filter" }
+];
+
+const mixer_edges = [
+  { from: "V1", to: "M1", type: "transfer" },
+  { from: "V2", to: "M1", type: "transfer" },
+  { from: "V3", to: "M2", type: "transfer" },
+  { from: "M1", to: "F1", type: "feed" },
+  { from: "M2", to: "F2", type: "feed" }
+];
+
+const mixer_pattern = {
+  nodes: [
+    { id: "v1", type: "vessel" },
+    { id: "v2", type: "vessel" },
+    { id: "m", type: "mixer" },
+    { id: "f", type: "filter" }
+  ],
+  edges: [
+    { from: "v1", to: "m", type: "transfer" },
+    { from: "v2", to: "m", type: "transfer" },
+    { from: "m", to: "f", type: "feed" }
+  ]
+};
+
+// All embeddings, including the symmetric vessel swap; M2 has a single transfer
+const pattern_match_basic_test = new UnitTestBuilder("pattern_match_basic")
+  .procedure(graph_match_pattern)
+  .test(
+    {
+      nodes: mixer_nodes,
+      edges: mixer_edges,
+      pattern: mixer_pattern,
+      limit: null
+    },
+    {
+      matches: [
+        { mapping: new Map([["f", "F1"], ["m", "M1"], ["v1", "V1"], ["v2", "V2"]]) },
+        { mapping: new Map([["f", "F1"], ["m", "M1"], ["v1", "V2"], ["v2", "V1"]]) }
+      ],
+      match_count: 2n,
+      truncated: false
+    }
+  );
+
+// Limit below the number of embeddings truncates the result
+const pattern_match_limit_test = new UnitTestBuilder("pattern_match_limit")
+  .procedure(graph_match_pattern)
+  .test(
+    {
+      nodes: mixer_nodes,
+      edges: mixer_edges,
+      pattern: mixer_pattern,
+      limit: 1n
+    },
+    {
+      matches: [
+        { mapping: new Map([["f", "F1"], ["m", "M1"], ["v1", "V1"], ["v2", "V2"]]) }
+      ],
+      match_count: 1n,
+      truncated: true
+    }
+  );
+
+// Limit equal to the number of embeddings is not truncated
+const pattern_match_exact_limit_test = new UnitTestBuilder("pattern_match_exact_limit")
+  .procedure(graph_match_pattern)
+  .test(
+    {
+      nodes: mixer_nodes,
+      edges: mixer_edges,
+      pattern: mixer_pattern,
+      limit: 2n
+    },
+    {
+      matches: [
+        { mapping: new Map([["f", "F1"], ["m", "M1"], ["v1", "V1"], ["v2", "V2"]]) },
+        { mapping: new Map([["f", "F1"], ["m", "M1"], ["v1", "V2"], ["v2", "V1"]]) }
+      ],
+      match_count: 2n,
+      truncated: false
+    }
+  );
+
+// Wildcard node and edge types
+const pattern_match_wildcard_test = new UnitTestBuilder("pattern_match_wildcard")
+  .procedure(graph_match_pattern)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "pallet" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "mix" },
+        { from: "B", to: "C", type: "pack" },
+        { from: "A", to: "C", type: "ship" }
+      ],
+      pattern: {
+        nodes: [{ id: "x", type: "batch" }, { id: "y", type: "*" }],
+        edges: [{ from: "x", to: "y", type: "*" }]
+      },
+      limit: null
+    },
+    {
+      matches: [
+        { mapping: new Map([["x", "A"], ["y", "B"]]) },
+        { mapping: new Map([["x", "A"], ["y", "C"]]) }
+      ],
+      match_count: 2n,
+      truncated: false
+    }
+  );
+
+// Edge types must match when not a wildcard
+const pattern_match_no_match_test = new UnitTestBuilder("pattern_match_no_match")
+  .procedure(graph_match_pattern)
+  .test(
+    {
+      nodes: mixer_nodes,
+      edges: mixer_edges,
+      pattern: {
+        nodes: [{ id: "v", type: "vessel" }, { id: "f", type: "filter" }],
+        edges: [{ from: "v", to: "f", type: "transfer" }]
+      },
+      limit: null
+    },
+    {
+      matches: [],
+      match_count: 0n,
+      truncated: false
+    }
+  );
+
+// Colon-containing IDs - the edge A:B -> C does not imply an edge A -> B:C
+const pattern_match_colon_ids_test = new UnitTestBuilder("pattern_match_colon_ids")
+  .procedure(graph_match_pattern)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "A:B", type: "lot" },
+        { id: "B:C", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [{ from: "A:B", to: "C", type: "flow" }],
+      pattern: {
+        nodes: [{ id: "x", type: "lot" }, { id: "y", type: "lot" }],
+        edges: [{ from: "x", to: "y", type: "flow" }]
+      },
+      limit: null
+    },
+    {
+      matches: [
+        { mapping: new Map([["x", "A:B"], ["y", "C"]]) }
+      ],
+      match_count: 1n,
+      truncated: false
+    }
+  );
+
+export default Template(
+  pattern_match_basic_test,
+  pattern_match_limit_test,
+  pattern_match_exact_limit_test,
+  pattern_match_wildcard_test,
+  pattern_match_no_match_test,
+  pattern_match_colon_ids_test
+);
@@ -0,0 +1,88 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_condensation } from "../connectivity/condensation";
+
+// Chain with a two-node cycle in the middle
+const condensation_cycle_test = new UnitTestBuilder("condensation_cycle")
+  .procedure(graph_condensation)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "next" },
+        { from: "B", to: "C", type: "next" },
+        { from: "C", to: "B", type: "retry" },
+        { from: "C", to: "D", type: "next" }
+      ]
+    },
+    {
+      components: [["A"], ["B", "C"], ["D"]],
+      component_of: new Map([["A", 0n], ["B", 1n], ["C", 1n], ["D", 2n]]),
+      edges: [{ from: 0n, to: 1n }, { from: 1n, to: 2n }],
+      cyclic: true
+    }
+  );
+
+// Parallel edges between components collapse; a self-loop makes the graph cyclic
+const condensation_self_loop_test = new UnitTestBuilder("condensation_self_loop")
+  .procedure(graph_condensation)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" },
+        { id: "E", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "next" },
+        { from: "B", to: "C", type: "next" },
+        { from: "C", to: "A", type: "next" },
+        { from: "D", to: "E", type: "next" },
+        { from: "C", to: "D", type: "next" },
+        { from: "A", to: "D", type: "next" },
+        { from: "E", to: "E", type: "retry" }
+      ]
+    },
+    {
+      components: [["A", "B", "C"], ["D"], ["E"]],
+      component_of: new Map([["A", 0n], ["B", 0n], ["C", 0n], ["D", 1n], ["E", 2n]]),
+      edges: [{ from: 1n, to: 2n }, { from: 0n, to: 1n }],
+      cyclic: true
+    }
+  );
+
+// Acyclic graph - one component per node in topological order
+const condensation_acyclic_test = new UnitTestBuilder("condensation_acyclic")
+  .procedure(graph_condensation)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "C", type: "next" },
+        { from: "B", to: "C", type: "next" }
+      ]
+    },
+    {
+      components: [["B"], ["A"], ["C"]],
+      component_of: new Map([["A", 1n], ["B", 0n], ["C", 2n]]),
+      edges: [{ from: 1n, to: 2n }, { from: 0n, to: 2n }],
+      cyclic: false
+    }
+  );
+
+export default Template(
+  condensation_cycle_test,
+  condensation_self_loop_test,
+  condensation_acyclic_test
+);
@@ -0,0 +1,95 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_dominators } from "../connectivity/dominators";
+
+// Two routes from S merge at C; every unit passes through C and D
+const dominators_diamond_test = new UnitTestBuilder("dominators_diamond")
+  .procedure(graph_dominators)
+  .test(
+    {
+      nodes: [
+        { id: "S", type: "source" },
+        { id: "A", type: "process" },
+        { id: "B", type: "process" },
+        { id: "C", type: "mixer" },
+        { id: "D", type: "filter" },
+        { id: "T", type: "sink" }
+      ],
+      edges: [
+        { from: "S", to: "A", type: "flow" },
+        { from: "S", to: "B", type: "flow" },
+        { from: "A", to: "C", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" },
+        { from: "D", to: "T", type: "flow" }
+      ],
+      root: "S"
+    },
+    {
+      root: "S",
+      nodes: [
+        { id: "S", immediate_dominator: null, depth: 0n, children: ["A", "B", "C"], frontier: [] },
+        { id: "A", immediate_dominator: "S", depth: 1n, children: [], frontier: ["C"] },
+        { id: "B", immediate_dominator: "S", depth: 1n, children: [], frontier: ["C"] },
+        { id: "C", immediate_dominator: "S", depth: 1n, children: ["D"], frontier: [] },
+        { id: "D", immediate_dominator: "C", depth: 2n, children: ["T"], frontier: [] },
+        { id: "T", immediate_dominator: "D", depth: 3n, children: [], frontier: [] }
+      ],
+      unreachable: []
+    }
+  );
+
+// Loop H↔B: the loop header is in its own frontier; U cannot be reached from S
+const dominators_loop_test = new UnitTestBuilder("dominators_loop")
+  .procedure(graph_dominators)
+  .test(
+    {
+      nodes: [
+        { id: "S", type: "task" },
+        { id: "H", type: "task" },
+        { id: "B", type: "task" },
+        { id: "X", type: "task" },
+        { id: "U", type: "task" }
+      ],
+      edges: [
+        { from: "S", to: "H", type: "next" },
+        { from: "H", to: "B", type: "next" },
+        { from: "B", to: "H", type: "retry" },
+        { from: "H", to: "X", type: "next" },
+        { from: "U", to: "X", type: "next" }
+      ],
+      root: "S"
+    },
+    {
+      root: "S",
+      nodes: [
+        { id: "S", immediate_dominator: null, depth: 0n, children: ["H"], frontier: [] },
+        { id: "H", immediate_dominator: "S", depth: 1n, children: ["B", "X"], frontier: ["H"] },
+        { id: "B", immediate_dominator: "H", depth: 2n, children: [], frontier: ["H"] },
+        { id: "X", immediate_dominator: "H", depth: 2n, children: [], frontier: [] }
+      ],
+      unreachable: ["U"]
+    }
+  );
+
+// Unknown root - nothing is reachable
+const dominators_unknown_root_test = new UnitTestBuilder("dominators_unknown_root")
+  .procedure(graph_dominators)
+  .test(
+    {
+      nodes: [{ id: "A", type: "task" }, { id: "B", type: "task" }],
+      edges: [{ from: "A", to: "B", type: "next" }],
+      root: "Z"
+    },
+    {
+      root: "Z",
+      nodes: [],
+      unreachable: ["A", "B"]
+    }
+  );
+
+export default Template(
+  dominators_diamond_test,
+  dominators_loop_test,
+  dominators_unknown_root_test
+);
@@ -0,0 +1,44 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_post_dominators } from "../connectivity/post_dominators";
+
+// Every route to T passes through C and D; the split at S controls A and B
+const post_dominators_diamond_test = new UnitTestBuilder("post_dominators_diamond")
+  .procedure(graph_post_dominators)
+  .test(
+    {
+      nodes: [
+        { id: "S", type: "source" },
+        { id: "A", type: "process" },
+        { id: "B", type: "process" },
+        { id: "C", type: "mixer" },
+        { id: "D", type: "filter" },
+        { id: "T", type: "sink" }
+      ],
+      edges: [
+        { from: "S", to: "A", type: "flow" },
+        { from: "S", to: "B", type: "flow" },
+        { from: "A", to: "C", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" },
+        { from: "D", to: "T", type: "flow" }
+      ],
+      sink: "T"
+    },
+    {
+      root: "T",
+      nodes: [
+        { id: "S", immediate_dominator: "C", depth: 3n, children: [], frontier: [] },
+        { id: "A", immediate_dominator: "C", depth: 3n, children: [], frontier: ["S"] },
+        { id: "B", immediate_dominator: "C", depth: 3n, children: [], frontier: ["S"] },
+        { id: "C", immediate_dominator: "D", depth: 2n, children: ["S", "A", "B"], frontier: [] },
+        { id: "D", immediate_dominator: "T", depth: 1n, children: ["C"], frontier: [] },
+        { id: "T", immediate_dominator: null, depth: 0n, children: ["D"], frontier: [] }
+      ],
+      unreachable: []
+    }
+  );
+
+export default Template(
+  post_dominators_diamond_test
+);
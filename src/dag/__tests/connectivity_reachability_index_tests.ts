@@ -0,0 +1,89 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_build_reachability_index } from "../connectivity/reachability_index";
+
+// Diamond - the non-tree edge B→D gives B a second interval
+const reachability_index_diamond_test = new UnitTestBuilder("reachability_index_diamond")
+  .procedure(graph_build_reachability_index)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" },
+        { id: "D", type: "pallet" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "split" },
+        { from: "A", to: "C", type: "split" },
+        { from: "B", to: "D", type: "pack" },
+        { from: "C", to: "D", type: "pack" }
+      ]
+    },
+    {
+      component_of: new Map([["A", 0n], ["B", 2n], ["C", 1n], ["D", 3n]]),
+      post_order: [3n, 1n, 2n, 0n],
+      intervals: [
+        [{ start: 0n, end: 3n }],
+        [{ start: 0n, end: 1n }],
+        [{ start: 0n, end: 0n }, { start: 2n, end: 2n }],
+        [{ start: 0n, end: 0n }]
+      ],
+      interval_count: 5n
+    }
+  );
+
+// Cycle B↔C shares one component; two forest roots (E, A)
+const reachability_index_cycle_test = new UnitTestBuilder("reachability_index_cycle")
+  .procedure(graph_build_reachability_index)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" },
+        { id: "E", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "next" },
+        { from: "B", to: "C", type: "next" },
+        { from: "C", to: "B", type: "retry" },
+        { from: "C", to: "D", type: "next" },
+        { from: "E", to: "D", type: "next" }
+      ]
+    },
+    {
+      component_of: new Map([["A", 1n], ["B", 2n], ["C", 2n], ["D", 3n], ["E", 0n]]),
+      post_order: [1n, 3n, 2n, 0n],
+      intervals: [
+        [{ start: 0n, end: 1n }],
+        [{ start: 0n, end: 0n }, { start: 2n, end: 3n }],
+        [{ start: 0n, end: 0n }, { start: 2n, end: 2n }],
+        [{ start: 0n, end: 0n }]
+      ],
+      interval_count: 6n
+    }
+  );
+
+// Empty graph
+const reachability_index_empty_test = new UnitTestBuilder("reachability_index_empty")
+  .procedure(graph_build_reachability_index)
+  .test(
+    {
+      nodes: [],
+      edges: []
+    },
+    {
+      component_of: new Map(),
+      post_order: [],
+      intervals: [],
+      interval_count: 0n
+    }
+  );
+
+export default Template(
+  reachability_index_diamond_test,
+  reachability_index_cycle_test,
+  reachability_index_empty_test
+);
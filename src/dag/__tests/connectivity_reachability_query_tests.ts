@@ -0,0 +1,81 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_reachability_query } from "../connectivity/reachability_query";
+
+// Index of the diamond A→B→D, A→C→D (see connectivity_reachability_index_tests)
+const diamond_index = {
+  component_of: new Map([["A", 0n], ["B", 2n], ["C", 1n], ["D", 3n]]),
+  post_order: [3n, 1n, 2n, 0n],
+  intervals: [
+    [{ start: 0n, end: 3n }],
+    [{ start: 0n, end: 1n }],
+    [{ start: 0n, end: 0n }, { start: 2n, end: 2n }],
+    [{ start: 0n, end: 0n }]
+  ],
+  interval_count: 5n
+};
+
+// Batch of pairs, including reflexive, reverse, sibling and unknown nodes
+const reachability_query_diamond_test = new UnitTestBuilder("reachability_query_diamond")
+  .procedure(graph_reachability_query)
+  .test(
+    {
+      index: diamond_index,
+      pairs: [
+        { from: "A", to: "D" },
+        { from: "B", to: "D" },
+        { from: "B", to: "C" },
+        { from: "C", to: "B" },
+        { from: "D", to: "A" },
+        { from: "C", to: "C" },
+        { from: "A", to: "X" },
+        { from: "X", to: "X" }
+      ]
+    },
+    [
+      { from: "A", to: "D", reachable: true },
+      { from: "B", to: "D", reachable: true },
+      { from: "B", to: "C", reachable: false },
+      { from: "C", to: "B", reachable: false },
+      { from: "D", to: "A", reachable: false },
+      { from: "C", to: "C", reachable: true },
+      { from: "A", to: "X", reachable: false },
+      { from: "X", to: "X", reachable: false }
+    ]
+  );
+
+// Nodes in the same strongly connected component reach each other
+const reachability_query_cycle_test = new UnitTestBuilder("reachability_query_cycle")
+  .procedure(graph_reachability_query)
+  .test(
+    {
+      index: {
+        component_of: new Map([["A", 1n], ["B", 2n], ["C", 2n], ["D", 3n], ["E", 0n]]),
+        post_order: [1n, 3n, 2n, 0n],
+        intervals: [
+          [{ start: 0n, end: 1n }],
+          [{ start: 0n, end: 0n }, { start: 2n, end: 3n }],
+          [{ start: 0n, end: 0n }, { start: 2n, end: 2n }],
+          [{ start: 0n, end: 0n }]
+        ],
+        interval_count: 6n
+      },
+      pairs: [
+        { from: "C", to: "B" },
+        { from: "A", to: "D" },
+        { from: "E", to: "B" },
+        { from: "E", to: "D" }
+      ]
+    },
+    [
+      { from: "C", to: "B", reachable: true },
+      { from: "A", to: "D", reachable: true },
+      { from: "E", to: "B", reachable: false },
+      { from: "E", to: "D", reachable: true }
+    ]
+  );
+
+export default Template(
+  reachability_query_diamond_test,
+  reachability_query_cycle_test
+);
@@ -0,0 +1,124 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_transitive_reduction } from "../connectivity/transitive_reduction";
+
+const chain_nodes = [
+  { id: "A", type: "task" },
+  { id: "B", type: "task" },
+  { id: "C", type: "task" },
+  { id: "D", type: "task" }
+];
+
+// Shortcut edges implied by the chain A→B→C→D are removed
+const transitive_reduction_chain_test = new UnitTestBuilder("transitive_reduction_chain")
+  .procedure(graph_transitive_reduction)
+  .test(
+    {
+      nodes: chain_nodes,
+      edges: [
+        { from: "A", to: "B", type: "dep" },
+        { from: "B", to: "C", type: "dep" },
+        { from: "B", to: "D", type: "dep" },
+        { from: "A", to: "C", type: "dep" },
+        { from: "C", to: "D", type: "dep" },
+        { from: "A", to: "D", type: "dep" }
+      ],
+      cycle_policy: "error"
+    },
+    {
+      edges: [
+        { from: "A", to: "B", type: "dep" },
+        { from: "B", to: "C", type: "dep" },
+        { from: "C", to: "D", type: "dep" }
+      ],
+      removed_edges: [
+        { from: "B", to: "D", type: "dep" },
+        { from: "A", to: "C", type: "dep" },
+        { from: "A", to: "D", type: "dep" }
+      ],
+      cyclic: false
+    }
+  );
+
+// Parallel edges keep the first occurrence
+const transitive_reduction_parallel_test = new UnitTestBuilder("transitive_reduction_parallel")
+  .procedure(graph_transitive_reduction)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "pallet" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "mix" },
+        { from: "A", to: "B", type: "ship" },
+        { from: "B", to: "C", type: "pack" }
+      ],
+      cycle_policy: "error"
+    },
+    {
+      edges: [
+        { from: "A", to: "B", type: "mix" },
+        { from: "B", to: "C", type: "pack" }
+      ],
+      removed_edges: [
+        { from: "A", to: "B", type: "ship" }
+      ],
+      cyclic: false
+    }
+  );
+
+// Cyclic graph reduced over its condensation; edges inside the cycle are kept
+const transitive_reduction_condense_test = new UnitTestBuilder("transitive_reduction_condense")
+  .procedure(graph_transitive_reduction)
+  .test(
+    {
+      nodes: chain_nodes,
+      edges: [
+        { from: "A", to: "B", type: "dep" },
+        { from: "B", to: "C", type: "dep" },
+        { from: "C", to: "B", type: "dep" },
+        { from: "C", to: "D", type: "dep" },
+        { from: "A", to: "D", type: "dep" },
+        { from: "B", to: "D", type: "dep" }
+      ],
+      cycle_policy: "condense"
+    },
+    {
+      edges: [
+        { from: "A", to: "B", type: "dep" },
+        { from: "B", to: "C", type: "dep" },
+        { from: "C", to: "B", type: "dep" },
+        { from: "C", to: "D", type: "dep" }
+      ],
+      removed_edges: [
+        { from: "A", to: "D", type: "dep" },
+        { from: "B", to: "D", type: "dep" }
+      ],
+      cyclic: true
+    }
+  );
+
+// Empty graph
+const transitive_reduction_empty_test = new UnitTestBuilder("transitive_reduction_empty")
+  .procedure(graph_transitive_reduction)
+  .test(
+    {
+      nodes: [],
+      edges: [],
+      cycle_policy: "error"
+    },
+    {
+      edges: [],
+      removed_edges: [],
+      cyclic: false
+    }
+  );
+
+export default Template(
+  transitive_reduction_chain_test,
+  transitive_reduction_parallel_test,
+  transitive_reduction_condense_test,
+  transitive_reduction_empty_test
+);
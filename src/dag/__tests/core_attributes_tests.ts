@@ -0,0 +1,43 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_strip_attributes } from "../core/attributes";
+
+// Attributes removed, order and duplicates preserved
+const strip_attributes_test = new UnitTestBuilder("strip_attributes")
+  .procedure(graph_strip_attributes)
+  .test(
+    {
+      nodes: [
+        {
+          id: "A",
+          type: "lot",
+          attributes: {
+            strings: new Map([["location", "Plant 1"]]),
+            floats: new Map([["quantity", 12.5]]),
+            integers: new Map(),
+            datetimes: new Map([["produced_at", new Date("2024-01-01T09:00:00Z")]]),
+            booleans: new Map([["on_hold", false]])
+          }
+        },
+        { id: "B", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 5.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 3.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ]
+    },
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "B", type: "flow" }
+      ]
+    }
+  );
+
+export default Template(
+  strip_attributes_test
+);
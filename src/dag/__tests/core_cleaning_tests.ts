@@ -0,0 +1,204 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_clean } from "../core/cleaning";
+
+// Test 1: All repairs applied - duplicates, stubbed dangling edge, collapsed edge, dropped orphan
+const clean_all_repairs_test = new UnitTestBuilder("clean_all_repairs")
+  .procedure(graph_clean)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "input" },
+        { id: "B", type: "process" },
+        { id: "A", type: "input_copy" }, // Duplicate
+        { id: "D", type: "orphan" }      // Orphaned
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "B", type: "flow" }, // Duplicate
+        { from: "B", to: "X", type: "flow" }  // X missing
+      ],
+      policy: {
+        duplicate_nodes: "keep_first",
+        dangling_edges: "stub",
+        stub_node_type: "unknown",
+        duplicate_edges: "collapse",
+        orphaned_nodes: "drop"
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "input" },
+        { id: "B", type: "process" },
+        { id: "X", type: "unknown" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "X", type: "flow" }
+      ],
+      changes: [
+        { action: "removed", reason: "duplicate_node", node: { id: "A", type: "input_copy" }, edge: null },
+        { action: "created", reason: "stub_node", node: { id: "X", type: "unknown" }, edge: { from: "B", to: "X", type: "flow" } },
+        { action: "removed", reason: "duplicate_edge", node: null, edge: { from: "A", to: "B", type: "flow" } },
+        { action: "removed", reason: "orphaned_node", node: { id: "D", type: "orphan" }, edge: null }
+      ]
+    }
+  );
+
+// Test 2: Keep last duplicate, drop dangling edges, keep duplicate edges and orphans
+const clean_keep_last_drop_dangling_test = new UnitTestBuilder("clean_keep_last_drop_dangling")
+  .procedure(graph_clean)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "v1" },
+        { id: "B", type: "process" },
+        { id: "A", type: "v2" },    // Later occurrence wins
+        { id: "C", type: "orphan" } // Kept
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "B", type: "flow" }, // Kept (duplicate_edges: keep)
+        { from: "A", to: "Z", type: "flow" }, // Z missing
+        { from: "Y", to: "B", type: "flow" }  // Y missing
+      ],
+      policy: {
+        duplicate_nodes: "keep_last",
+        dangling_edges: "drop",
+        stub_node_type: "unknown",
+        duplicate_edges: "keep",
+        orphaned_nodes: "keep"
+      }
+    },
+    {
+      nodes: [
+        { id: "B", type: "process" },
+        { id: "A", type: "v2" },
+        { id: "C", type: "orphan" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "B", type: "flow" }
+      ],
+      changes: [
+        { action: "removed", reason: "duplicate_node", node: { id: "A", type: "v1" }, edge: null },
+        { action: "removed", reason: "dangling_edge", node: null, edge: { from: "A", to: "Z", type: "flow" } },
+        { action: "removed", reason: "dangling_edge", node: null, edge: { from: "Y", to: "B", type: "flow" } }
+      ]
+    }
+  );
+
+// Test 3: Typed collapse keeps parallel edges of different types
+const clean_collapse_typed_test = new UnitTestBuilder("clean_collapse_typed")
+  .procedure(graph_clean)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "vessel" },
+        { id: "B", type: "vessel" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "transfer" },
+        { from: "A", to: "B", type: "sample" },
+        { from: "A", to: "B", type: "transfer" } // Same from/to/type
+      ],
+      policy: {
+        duplicate_nodes: "keep_first",
+        dangling_edges: "drop",
+        stub_node_type: "unknown",
+        duplicate_edges: "collapse_typed",
+        orphaned_nodes: "drop"
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "vessel" },
+        { id: "B", type: "vessel" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "transfer" },
+        { from: "A", to: "B", type: "sample" }
+      ],
+      changes: [
+        { action: "removed", reason: "duplicate_edge", node: null, edge: { from: "A", to: "B", type: "transfer" } }
+      ]
+    }
+  );
+
+// Test 4: Clean graph - no changes
+const clean_no_changes_test = new UnitTestBuilder("clean_no_changes")
+  .procedure(graph_clean)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "start" },
+        { id: "B", type: "end" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" }
+      ],
+      policy: {
+        duplicate_nodes: "keep_first",
+        dangling_edges: "stub",
+        stub_node_type: "unknown",
+        duplicate_edges: "collapse",
+        orphaned_nodes: "drop"
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "start" },
+        { id: "B", type: "end" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" }
+      ],
+      changes: []
+    }
+  );
+
+// Test 5: Colon-containing IDs - A:B -> C and A -> B:C are distinct edges, not duplicates
+const clean_colon_ids_test = new UnitTestBuilder("clean_colon_ids")
+  .procedure(graph_clean)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "vessel" },
+        { id: "A:B", type: "vessel" },
+        { id: "B:C", type: "vessel" },
+        { id: "C", type: "vessel" }
+      ],
+      edges: [
+        { from: "A:B", to: "C", type: "transfer" },
+        { from: "A", to: "B:C", type: "transfer" }
+      ],
+      policy: {
+        duplicate_nodes: "keep_first",
+        dangling_edges: "drop",
+        stub_node_type: "unknown",
+        duplicate_edges: "collapse",
+        orphaned_nodes: "drop"
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "vessel" },
+        { id: "A:B", type: "vessel" },
+        { id: "B:C", type: "vessel" },
+        { id: "C", type: "vessel" }
+      ],
+      edges: [
+        { from: "A:B", to: "C", type: "transfer" },
+        { from: "A", to: "B:C", type: "transfer" }
+      ],
+      changes: []
+    }
+  );
+
+export default Template(
+  clean_all_repairs_test,
+  clean_keep_last_drop_dangling_test,
+  clean_collapse_typed_test,
+  clean_no_changes_test,
+  clean_colon_ids_test
+);
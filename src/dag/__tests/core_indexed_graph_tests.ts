@@ -0,0 +1,129 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_build_indexed_graph } from "../core/indexed_graph";
+
+// Basic indexed graph building test
+const indexed_basic_test = new UnitTestBuilder("indexed_basic")
+  .procedure(graph_build_indexed_graph)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "input" },
+        { id: "B", type: "process" },
+        { id: "C", type: "output" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "C", type: "flow" },
+        { from: "B", to: "C", type: "data" }
+      ]
+    },
+    {
+      node_count: 3n,
+      edge_count: 3n,
+      node_ids: ["A", "B", "C"],
+      node_types: ["input", "process", "output"],
+      node_index: new Map([["A", 0n], ["B", 1n], ["C", 2n]]),
+      edge_types: ["flow", "data"],
+      out_offsets: [0n, 2n, 3n, 3n],
+      out_targets: [1n, 2n, 2n],
+      out_edge_types: [0n, 0n, 1n],
+      in_offsets: [0n, 0n, 1n, 3n],
+      in_sources: [0n, 0n, 1n],
+      in_edge_types: [0n, 0n, 1n]
+    }
+  );
+
+// Empty graph test
+const indexed_empty_test = new UnitTestBuilder("indexed_empty")
+  .procedure(graph_build_indexed_graph)
+  .test(
+    {
+      nodes: [],
+      edges: []
+    },
+    {
+      node_count: 0n,
+      edge_count: 0n,
+      node_ids: [],
+      node_types: [],
+      node_index: new Map(),
+      edge_types: [],
+      out_offsets: [0n],
+      out_targets: [],
+      out_edge_types: [],
+      in_offsets: [0n],
+      in_sources: [],
+      in_edge_types: []
+    }
+  );
+
+// Parallel edges - exact duplicates stored once, differently typed edges kept
+const indexed_parallel_edges_test = new UnitTestBuilder("indexed_parallel_edges")
+  .procedure(graph_build_indexed_graph)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "vessel" },
+        { id: "B", type: "vessel" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "transfer" },
+        { from: "A", to: "B", type: "transfer" }, // Exact duplicate (stored once)
+        { from: "A", to: "B", type: "sample" }     // Different type (kept)
+      ]
+    },
+    {
+      node_count: 2n,
+      edge_count: 2n,
+      node_ids: ["A", "B"],
+      node_types: ["vessel", "vessel"],
+      node_index: new Map([["A", 0n], ["B", 1n]]),
+      edge_types: ["transfer", "sample"],
+      out_offsets: [0n, 2n, 2n],
+      out_targets: [1n, 1n],
+      out_edge_types: [0n, 1n],
+      in_offsets: [0n, 0n, 2n],
+      in_sources: [0n, 0n],
+      in_edge_types: [0n, 1n]
+    }
+  );
+
+// Duplicate nodes and dangling edges - first node occurrence wins, dangling edges dropped
+const indexed_bad_data_test = new UnitTestBuilder("indexed_bad_data")
+  .procedure(graph_build_indexed_graph)
+  .test(
+    {
+      nodes: [
+        { id: "B", type: "process" },
+        { id: "A", type: "input" },
+        { id: "B", type: "process_copy" } // Duplicate (ignored)
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "X", type: "orphan" }, // Dangling (dropped)
+        { from: "Y", to: "B", type: "orphan" }  // Dangling (dropped)
+      ]
+    },
+    {
+      node_count: 2n,
+      edge_count: 1n,
+      node_ids: ["B", "A"],
+      node_types: ["process", "input"],
+      node_index: new Map([["B", 0n], ["A", 1n]]),
+      edge_types: ["flow"],
+      out_offsets: [0n, 0n, 1n],
+      out_targets: [0n],
+      out_edge_types: [0n],
+      in_offsets: [0n, 1n, 1n],
+      in_sources: [1n],
+      in_edge_types: [0n]
+    }
+  );
+
+export default Template(
+  indexed_basic_test,
+  indexed_empty_test,
+  indexed_parallel_edges_test,
+  indexed_bad_data_test
+);
@@ -0,0 +1,160 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_merge } from "../core/merge";
+
+// ID prefixes and linking edges between sources
+const merge_prefix_links_test = new UnitTestBuilder("merge_prefix_links")
+  .procedure(graph_merge)
+  .test(
+    {
+      graphs: [
+        {
+          name: "supply",
+          id_prefix: "sc:",
+          nodes: [
+            { id: "S1", type: "supplier" },
+            { id: "L1", type: "lot" }
+          ],
+          edges: [
+            { from: "S1", to: "L1", type: "ships" }
+          ]
+        },
+        {
+          name: "production",
+          id_prefix: null,
+          nodes: [
+            { id: "B1", type: "batch" },
+            { id: "P1", type: "product" }
+          ],
+          edges: [
+            { from: "B1", to: "P1", type: "makes" }
+          ]
+        }
+      ],
+      links: [
+        { from_graph: "supply", from_id: "L1", to_graph: "production", to_id: "B1", type: "produces" },
+        { from_graph: "supply", from_id: "L9", to_graph: "production", to_id: "B1", type: "produces" } // L9 unknown
+      ],
+      policy: {
+        duplicate_nodes: "first_wins",
+        type_priority: []
+      }
+    },
+    {
+      nodes: [
+        { id: "sc:S1", type: "supplier" },
+        { id: "sc:L1", type: "lot" },
+        { id: "B1", type: "batch" },
+        { id: "P1", type: "product" }
+      ],
+      edges: [
+        { from: "sc:S1", to: "sc:L1", type: "ships" },
+        { from: "B1", to: "P1", type: "makes" },
+        { from: "sc:L1", to: "B1", type: "produces" }
+      ],
+      conflicts: [
+        { reason: "unresolved_link", node_id: "sc:L9", sources: ["supply"], types: [], kept_type: null }
+      ]
+    }
+  );
+
+// Overlapping IDs with conflicting types resolved by type priority
+const merge_type_priority_test = new UnitTestBuilder("merge_type_priority")
+  .procedure(graph_merge)
+  .test(
+    {
+      graphs: [
+        {
+          name: "erp",
+          id_prefix: null,
+          nodes: [
+            { id: "A", type: "material" },
+            { id: "B", type: "material" }
+          ],
+          edges: [
+            { from: "A", to: "B", type: "flow" }
+          ]
+        },
+        {
+          name: "mes",
+          id_prefix: null,
+          nodes: [
+            { id: "B", type: "batch" }, // Conflicts with erp B
+            { id: "C", type: "batch" }
+          ],
+          edges: [
+            { from: "A", to: "B", type: "flow" }, // Same edge as erp (kept once)
+            { from: "B", to: "C", type: "flow" }
+          ]
+        }
+      ],
+      links: [],
+      policy: {
+        duplicate_nodes: "type_priority",
+        type_priority: ["batch"]
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "material" },
+        { id: "B", type: "batch" },
+        { id: "C", type: "batch" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" }
+      ],
+      conflicts: [
+        { reason: "type_conflict", node_id: "B", sources: ["erp", "mes"], types: ["material", "batch"], kept_type: "batch" }
+      ]
+    }
+  );
+
+// IDs containing ":" - distinct edges are kept, exact duplicates once
+const merge_colon_ids_test = new UnitTestBuilder("merge_colon_ids")
+  .procedure(graph_merge)
+  .test(
+    {
+      graphs: [
+        {
+          name: "plant",
+          id_prefix: null,
+          nodes: [
+            { id: "a:b", type: "lot" },
+            { id: "c", type: "lot" },
+            { id: "a", type: "lot" },
+            { id: "b:c", type: "lot" }
+          ],
+          edges: [
+            { from: "a:b", to: "c", type: "flow" },
+            { from: "a", to: "b:c", type: "flow" },
+            { from: "a", to: "b:c", type: "flow" } // Exact duplicate
+          ]
+        }
+      ],
+      links: [],
+      policy: {
+        duplicate_nodes: "first_wins",
+        type_priority: []
+      }
+    },
+    {
+      nodes: [
+        { id: "a:b", type: "lot" },
+        { id: "c", type: "lot" },
+        { id: "a", type: "lot" },
+        { id: "b:c", type: "lot" }
+      ],
+      edges: [
+        { from: "a:b", to: "c", type: "flow" },
+        { from: "a", to: "b:c", type: "flow" }
+      ],
+      conflicts: []
+    }
+  );
+
+export default Template(
+  merge_prefix_links_test,
+  merge_type_priority_test,
+  merge_colon_ids_test
+);
@@ -0,0 +1,87 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_build_multigraph_adjacency } from "../core/multigraph_adjacency";
+
+// Parallel edges keep their types, counts and input positions
+const multigraph_parallel_edges_test = new UnitTestBuilder("multigraph_parallel_edges")
+  .procedure(graph_build_multigraph_adjacency)
+  .test(
+    {
+      edges: [
+        { from: "A", to: "B", type: "transfer" },
+        { from: "A", to: "B", type: "transfer" },
+        { from: "A", to: "B", type: "sample" },
+        { from: "B", to: "C", type: "transfer" }
+      ]
+    },
+    {
+      adjacency_list: new Map([
+        ["A", ["B"]],  // Simple adjacency still deduplicated
+        ["B", ["C"]]
+      ]),
+      reverse_adjacency_list: new Map([
+        ["B", ["A"]],
+        ["C", ["B"]]
+      ]),
+      edge_groups: new Map([
+        ["A", new Map([
+          ["B", { edge_types: ["transfer", "transfer", "sample"], edge_indices: [0n, 1n, 2n], type_counts: new Map([["sample", 1n], ["transfer", 2n]]), count: 3n }]
+        ])],
+        ["B", new Map([
+          ["C", { edge_types: ["transfer"], edge_indices: [3n], type_counts: new Map([["transfer", 1n]]), count: 1n }]
+        ])]
+      ])
+    }
+  );
+
+// Opposite directions are separate groups
+const multigraph_bidirectional_test = new UnitTestBuilder("multigraph_bidirectional")
+  .procedure(graph_build_multigraph_adjacency)
+  .test(
+    {
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "A", type: "return" },
+        { from: "A", to: "A", type: "recycle" }
+      ]
+    },
+    {
+      adjacency_list: new Map([
+        ["A", ["B", "A"]],
+        ["B", ["A"]]
+      ]),
+      reverse_adjacency_list: new Map([
+        ["B", ["A"]],
+        ["A", ["B", "A"]]
+      ]),
+      edge_groups: new Map([
+        ["A", new Map([
+          ["B", { edge_types: ["flow"], edge_indices: [0n], type_counts: new Map([["flow", 1n]]), count: 1n }],
+          ["A", { edge_types: ["recycle"], edge_indices: [2n], type_counts: new Map([["recycle", 1n]]), count: 1n }]
+        ])],
+        ["B", new Map([
+          ["A", { edge_types: ["return"], edge_indices: [1n], type_counts: new Map([["return", 1n]]), count: 1n }]
+        ])]
+      ])
+    }
+  );
+
+// Empty graph test
+const multigraph_empty_test = new UnitTestBuilder("multigraph_empty")
+  .procedure(graph_build_multigraph_adjacency)
+  .test(
+    {
+      edges: []
+    },
+    {
+      adjacency_list: new Map(),
+      reverse_adjacency_list: new Map(),
+      edge_groups: new Map()
+    }
+  );
+
+export default Template(
+  multigraph_parallel_edges_test,
+  multigraph_bidirectional_test,
+  multigraph_empty_test
+);
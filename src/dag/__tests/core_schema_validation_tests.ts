@@ -0,0 +1,106 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_validate_schema } from "../core/schema_validation";
+
+// Node type, transition and degree violations
+const schema_violations_test = new UnitTestBuilder("schema_violations")
+  .procedure(graph_validate_schema)
+  .test(
+    {
+      nodes: [
+        { id: "R1", type: "recipe" },
+        { id: "B1", type: "batch" },
+        { id: "B2", type: "batch" },  // No recipe
+        { id: "B3", type: "batch" },  // Two recipe edges
+        { id: "V1", type: "vessel" },
+        { id: "V2", type: "vessel" },
+        { id: "X1", type: "sensor" }  // Type not in schema
+      ],
+      edges: [
+        { from: "R1", to: "B1", type: "produces" },
+        { from: "B1", to: "V1", type: "transfer" }, // Only vessel → vessel may transfer
+        { from: "V1", to: "V2", type: "transfer" },
+        { from: "R1", to: "B3", type: "produces" },
+        { from: "R1", to: "B3", type: "produces" }
+      ],
+      schema: {
+        node_types: ["recipe", "batch", "vessel"],
+        transitions: [
+          { from_type: "recipe", edge_type: "produces", to_type: "batch" },
+          { from_type: "batch", edge_type: "fill", to_type: "vessel" },
+          { from_type: "vessel", edge_type: "transfer", to_type: "vessel" }
+        ],
+        degree_rules: [
+          { node_type: "batch", direction: "in", edge_type: "produces", neighbor_type: "recipe", min_count: 1n, max_count: 1n }
+        ]
+      }
+    },
+    [
+      { rule: "node_type", node_id: "X1", edge_index: null, edge: null, rule_index: null, actual_count: null, message: "Node type not allowed: sensor" },
+      { rule: "transition", node_id: null, edge_index: 1n, edge: { from: "B1", to: "V1", type: "transfer" }, rule_index: null, actual_count: null, message: "Transition not allowed: batch -transfer-> vessel" },
+      { rule: "min_degree", node_id: "B2", edge_index: null, edge: null, rule_index: 0n, actual_count: 0n, message: "in-degree 0 is below minimum 1" },
+      { rule: "max_degree", node_id: "B3", edge_index: null, edge: null, rule_index: 0n, actual_count: 2n, message: "in-degree 2 is above maximum 1" }
+    ]
+  );
+
+// Empty node type and transition lists allow anything; unfiltered degree rule counts every edge
+const schema_degree_only_test = new UnitTestBuilder("schema_degree_only")
+  .procedure(graph_validate_schema)
+  .test(
+    {
+      nodes: [
+        { id: "V1", type: "vessel" },
+        { id: "V2", type: "vessel" },
+        { id: "V3", type: "vessel" }
+      ],
+      edges: [
+        { from: "V1", to: "V2", type: "transfer" },
+        { from: "V1", to: "V3", type: "sample" },
+        { from: "V2", to: "V3", type: "transfer" },
+        { from: "V3", to: "X", type: "transfer" } // Dangling (not counted)
+      ],
+      schema: {
+        node_types: [],
+        transitions: [],
+        degree_rules: [
+          { node_type: "vessel", direction: "out", edge_type: null, neighbor_type: null, min_count: 0n, max_count: 1n }
+        ]
+      }
+    },
+    [
+      { rule: "max_degree", node_id: "V1", edge_index: null, edge: null, rule_index: 0n, actual_count: 2n, message: "out-degree 2 is above maximum 1" }
+    ]
+  );
+
+// Colon-containing types - a -b:c-> d is allowed but a:b -c-> d is not
+const schema_colon_types_test = new UnitTestBuilder("schema_colon_types")
+  .procedure(graph_validate_schema)
+  .test(
+    {
+      nodes: [
+        { id: "N1", type: "a" },
+        { id: "N2", type: "d" },
+        { id: "N3", type: "a:b" }
+      ],
+      edges: [
+        { from: "N1", to: "N2", type: "b:c" },
+        { from: "N3", to: "N2", type: "c" }
+      ],
+      schema: {
+        node_types: [],
+        transitions: [
+          { from_type: "a", edge_type: "b:c", to_type: "d" }
+        ],
+        degree_rules: []
+      }
+    },
+    [
+      { rule: "transition", node_id: null, edge_index: 1n, edge: { from: "N3", to: "N2", type: "c" }, rule_index: null, actual_count: null, message: "Transition not allowed: a:b -c-> d" }
+    ]
+  );
+
+export default Template(
+  schema_violations_test,
+  schema_degree_only_test,
+  schema_colon_types_test
+);
@@ -0,0 +1,45 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_traversal_edges } from "../core/traversal_edges";
+
+// Backward with an edge type filter: allowed edges reversed, others dropped
+const traversal_edges_backward_test = new UnitTestBuilder("traversal_edges_backward")
+  .procedure(graph_traversal_edges)
+  .test(
+    {
+      edges: [
+        { from: "A", to: "B", type: "transfer" },
+        { from: "B", to: "C", type: "ship" },
+        { from: "C", to: "D", type: "transfer" }
+      ],
+      options: { direction: "backward", edge_types: ["transfer"], node_types: [], stop_node_types: [], max_depth: null }
+    },
+    [
+      { from: "B", to: "A", type: "transfer" },
+      { from: "D", to: "C", type: "transfer" }
+    ]
+  );
+
+// Both directions: forward edges first, then the reversed edges
+const traversal_edges_both_test = new UnitTestBuilder("traversal_edges_both")
+  .procedure(graph_traversal_edges)
+  .test(
+    {
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" }
+      ],
+      options: { direction: "both", edge_types: [], node_types: [], stop_node_types: [], max_depth: null }
+    },
+    [
+      { from: "A", to: "B", type: "flow" },
+      { from: "B", to: "C", type: "flow" },
+      { from: "B", to: "A", type: "flow" },
+      { from: "C", to: "B", type: "flow" }
+    ]
+  );
+
+export default Template(
+  traversal_edges_backward_test,
+  traversal_edges_both_test
+);
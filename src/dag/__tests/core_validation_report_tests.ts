@@ -0,0 +1,109 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_validation_report } from "../core/validation_report";
+
+// Every issue category itemised alongside the validation statistics
+const validation_report_basic_test = new UnitTestBuilder("validation_report_basic")
+  .procedure(graph_validation_report)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "input" },
+        { id: "B", type: "process" },
+        { id: "A", type: "process" }, // Duplicate with conflicting type
+        { id: "D", type: "sink" }     // Orphaned
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "B", type: "flow" }, // Duplicate
+        { from: "B", to: "X", type: "flow" }  // Dangling: X doesn't exist
+      ],
+      max_examples: 10n
+    },
+    {
+      statistics: {
+        total_node_count: 4n,
+        total_edge_count: 3n,
+        valid_node_count: 3n,
+        valid_edge_count: 1n,
+        orphaned_node_count: 1n,
+        dangling_edge_count: 1n,
+        duplicate_node_count: 1n,
+        duplicate_edge_count: 1n,
+        node_validity_ratio: 0.75,
+        edge_validity_ratio: 0.3333333333333333, // 1 valid out of 3 total
+        connectivity_ratio: 0.6666666666666666, // 2 referenced out of 3 valid
+        problematic_node_types: [
+          { node_type: "input", orphaned_count: 0n, total_count: 1n, orphaned_percentage: 0.0 },
+          { node_type: "process", orphaned_count: 0n, total_count: 1n, orphaned_percentage: 0.0 },
+          { node_type: "sink", orphaned_count: 1n, total_count: 1n, orphaned_percentage: 100.0 }
+        ],
+        problematic_edge_patterns: [
+          { from_type: "input", to_type: "process", dangling_count: 0n, valid_count: 1n, failure_rate: 0.0 },
+          { from_type: "process", to_type: "unknown", dangling_count: 1n, valid_count: 0n, failure_rate: 100.0 }
+        ]
+      },
+      orphaned_node_ids: ["D"],
+      dangling_edges: [
+        { edge_index: 2n, from: "B", to: "X", type: "flow", missing_from: false, missing_to: true }
+      ],
+      duplicate_nodes: [
+        { id: "A", occurrence_count: 2n, types: ["input", "process"], conflicting_types: true }
+      ],
+      duplicate_edges: [
+        { from: "A", to: "B", occurrence_count: 2n, types: ["flow"] }
+      ]
+    }
+  );
+
+// Issue lists are capped at max_examples while statistics keep the full counts
+const validation_report_capped_test = new UnitTestBuilder("validation_report_capped")
+  .procedure(graph_validation_report)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "Y", type: "flow" }, // Dangling: Y doesn't exist
+        { from: "Z", to: "B", type: "flow" }, // Dangling: Z doesn't exist
+        { from: "W", to: "V", type: "flow" }  // Dangling: both don't exist
+      ],
+      max_examples: 1n
+    },
+    {
+      statistics: {
+        total_node_count: 3n,
+        total_edge_count: 3n,
+        valid_node_count: 3n,
+        valid_edge_count: 0n,
+        orphaned_node_count: 3n,
+        dangling_edge_count: 3n,
+        duplicate_node_count: 0n,
+        duplicate_edge_count: 0n,
+        node_validity_ratio: 1.0,
+        edge_validity_ratio: 0.0,
+        connectivity_ratio: 0.0,
+        problematic_node_types: [
+          { node_type: "lot", orphaned_count: 3n, total_count: 3n, orphaned_percentage: 100.0 }
+        ],
+        problematic_edge_patterns: [
+          { from_type: "lot", to_type: "unknown", dangling_count: 1n, valid_count: 0n, failure_rate: 100.0 },
+          { from_type: "unknown", to_type: "lot", dangling_count: 1n, valid_count: 0n, failure_rate: 100.0 }
+        ]
+      },
+      orphaned_node_ids: ["A"],
+      dangling_edges: [
+        { edge_index: 0n, from: "A", to: "Y", type: "flow", missing_from: false, missing_to: true }
+      ],
+      duplicate_nodes: [],
+      duplicate_edges: []
+    }
+  );
+
+export default Template(
+  validation_report_basic_test,
+  validation_report_capped_test
+);
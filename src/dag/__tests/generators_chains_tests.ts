@@ -0,0 +1,55 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_generate_chains } from "../generators/chains";
+
+// Three chains of random length - one component per chain
+const chains_seeded_test = new UnitTestBuilder("chains_seeded")
+  .procedure(graph_generate_chains)
+  .test(
+    {
+      seed: 11n,
+      chain_count: 3n,
+      min_length: 1n,
+      max_length: 4n,
+      node_type: "lot",
+      edge_type: "flow"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "lot" },
+        { id: "n1", type: "lot" },
+        { id: "n2", type: "lot" },
+        { id: "n3", type: "lot" },
+        { id: "n4", type: "lot" },
+        { id: "n5", type: "lot" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "flow" },
+        { from: "n2", to: "n3", type: "flow" },
+        { from: "n3", to: "n4", type: "flow" }
+      ]
+    }
+  );
+
+// No chains - empty graph
+const chains_empty_test = new UnitTestBuilder("chains_empty")
+  .procedure(graph_generate_chains)
+  .test(
+    {
+      seed: 11n,
+      chain_count: 0n,
+      min_length: 1n,
+      max_length: 4n,
+      node_type: "lot",
+      edge_type: "flow"
+    },
+    {
+      nodes: [],
+      edges: []
+    }
+  );
+
+export default Template(
+  chains_seeded_test,
+  chains_empty_test
+);
@@ -0,0 +1,45 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_generate_diamonds } from "../generators/diamonds";
+
+// Two diamonds with random widths (3 and 1)
+const diamonds_seeded_test = new UnitTestBuilder("diamonds_seeded")
+  .procedure(graph_generate_diamonds)
+  .test(
+    {
+      seed: 5n,
+      diamond_count: 2n,
+      min_width: 1n,
+      max_width: 3n,
+      source_type: "batch",
+      middle_type: "vessel",
+      sink_type: "blend",
+      edge_type: "flow"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "batch" },
+        { id: "n1", type: "vessel" },
+        { id: "n2", type: "vessel" },
+        { id: "n3", type: "vessel" },
+        { id: "n4", type: "blend" },
+        { id: "n5", type: "batch" },
+        { id: "n6", type: "vessel" },
+        { id: "n7", type: "blend" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "flow" },
+        { from: "n0", to: "n2", type: "flow" },
+        { from: "n0", to: "n3", type: "flow" },
+        { from: "n1", to: "n4", type: "flow" },
+        { from: "n2", to: "n4", type: "flow" },
+        { from: "n3", to: "n4", type: "flow" },
+        { from: "n5", to: "n6", type: "flow" },
+        { from: "n6", to: "n7", type: "flow" }
+      ]
+    }
+  );
+
+export default Template(
+  diamonds_seeded_test
+);
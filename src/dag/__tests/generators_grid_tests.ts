@@ -0,0 +1,38 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_generate_grid } from "../generators/grid";
+
+// 2 × 3 grid - edges to the right and downwards
+const grid_basic_test = new UnitTestBuilder("grid_basic")
+  .procedure(graph_generate_grid)
+  .test(
+    {
+      rows: 2n,
+      columns: 3n,
+      node_type: "cell",
+      edge_type: "next"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "cell" },
+        { id: "n1", type: "cell" },
+        { id: "n2", type: "cell" },
+        { id: "n3", type: "cell" },
+        { id: "n4", type: "cell" },
+        { id: "n5", type: "cell" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "next" },
+        { from: "n0", to: "n3", type: "next" },
+        { from: "n1", to: "n2", type: "next" },
+        { from: "n1", to: "n4", type: "next" },
+        { from: "n2", to: "n5", type: "next" },
+        { from: "n3", to: "n4", type: "next" },
+        { from: "n4", to: "n5", type: "next" }
+      ]
+    }
+  );
+
+export default Template(
+  grid_basic_test
+);
@@ -0,0 +1,64 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_generate_layered_dag } from "../generators/layered_dag";
+
+// Three layers with random widths - every lower-layer node has a parent
+const layered_dag_seeded_test = new UnitTestBuilder("layered_dag_seeded")
+  .procedure(graph_generate_layered_dag)
+  .test(
+    {
+      seed: 7n,
+      layer_count: 3n,
+      min_width: 1n,
+      max_width: 3n,
+      edge_probability: 0.5,
+      edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "layer_0" },
+        { id: "n1", type: "layer_0" },
+        { id: "n2", type: "layer_1" },
+        { id: "n3", type: "layer_2" },
+        { id: "n4", type: "layer_2" }
+      ],
+      edges: [
+        { from: "n1", to: "n2", type: "edge" },
+        { from: "n2", to: "n3", type: "edge" },
+        { from: "n2", to: "n4", type: "edge" }
+      ]
+    }
+  );
+
+// Fixed width and probability 1 - complete bipartite connections between layers
+const layered_dag_complete_test = new UnitTestBuilder("layered_dag_complete")
+  .procedure(graph_generate_layered_dag)
+  .test(
+    {
+      seed: 1n,
+      layer_count: 2n,
+      min_width: 2n,
+      max_width: 2n,
+      edge_probability: 1.0,
+      edge_type: "flow"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "layer_0" },
+        { id: "n1", type: "layer_0" },
+        { id: "n2", type: "layer_1" },
+        { id: "n3", type: "layer_1" }
+      ],
+      edges: [
+        { from: "n0", to: "n2", type: "flow" },
+        { from: "n1", to: "n2", type: "flow" },
+        { from: "n0", to: "n3", type: "flow" },
+        { from: "n1", to: "n3", type: "flow" }
+      ]
+    }
+  );
+
+export default Template(
+  layered_dag_seeded_test,
+  layered_dag_complete_test
+);
@@ -0,0 +1,41 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_random_next } from "../generators/random";
+
+// First draw from a seed
+const random_next_seed_test = new UnitTestBuilder("random_next_seed")
+  .procedure(graph_random_next)
+  .test(
+    { state: 42n, bound: 10n },
+    { state: 2027382n, value: 2n }
+  );
+
+// Following draw continues from the returned state
+const random_next_chained_test = new UnitTestBuilder("random_next_chained")
+  .procedure(graph_random_next)
+  .test(
+    { state: 2027382n, bound: 10n },
+    { state: 1226992407n, value: 7n }
+  );
+
+// Zero and negative seeds are mapped into the generator range
+const random_next_zero_seed_test = new UnitTestBuilder("random_next_zero_seed")
+  .procedure(graph_random_next)
+  .test(
+    { state: 0n, bound: 100n },
+    { state: 48271n, value: 71n }
+  );
+
+const random_next_negative_seed_test = new UnitTestBuilder("random_next_negative_seed")
+  .procedure(graph_random_next)
+  .test(
+    { state: -5n, bound: 100n },
+    { state: 289626n, value: 26n }
+  );
+
+export default Template(
+  random_next_seed_test,
+  random_next_chained_test,
+  random_next_zero_seed_test,
+  random_next_negative_seed_test
+);
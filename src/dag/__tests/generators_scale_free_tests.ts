@@ -0,0 +1,41 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_generate_scale_free } from "../generators/scale_free";
+
+// Preferential attachment - n0 becomes a hub
+const scale_free_seeded_test = new UnitTestBuilder("scale_free_seeded")
+  .procedure(graph_generate_scale_free)
+  .test(
+    {
+      seed: 13n,
+      node_count: 6n,
+      edges_per_node: 2n,
+      node_type: "material",
+      edge_type: "feeds"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "material" },
+        { id: "n1", type: "material" },
+        { id: "n2", type: "material" },
+        { id: "n3", type: "material" },
+        { id: "n4", type: "material" },
+        { id: "n5", type: "material" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "feeds" },
+        { from: "n1", to: "n2", type: "feeds" },
+        { from: "n0", to: "n2", type: "feeds" },
+        { from: "n0", to: "n3", type: "feeds" },
+        { from: "n2", to: "n3", type: "feeds" },
+        { from: "n0", to: "n4", type: "feeds" },
+        { from: "n2", to: "n4", type: "feeds" },
+        { from: "n0", to: "n5", type: "feeds" },
+        { from: "n1", to: "n5", type: "feeds" }
+      ]
+    }
+  );
+
+export default Template(
+  scale_free_seeded_test
+);
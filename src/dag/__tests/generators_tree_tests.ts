@@ -0,0 +1,77 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_generate_tree } from "../generators/tree";
+
+// Two trees with uneven branching (min_children 0)
+const tree_seeded_test = new UnitTestBuilder("tree_seeded")
+  .procedure(graph_generate_tree)
+  .test(
+    {
+      seed: 2n,
+      root_count: 2n,
+      depth: 2n,
+      min_children: 0n,
+      max_children: 2n,
+      node_type: "lot",
+      edge_type: "split"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "lot" },
+        { id: "n1", type: "lot" },
+        { id: "n2", type: "lot" },
+        { id: "n3", type: "lot" },
+        { id: "n4", type: "lot" },
+        { id: "n5", type: "lot" },
+        { id: "n6", type: "lot" },
+        { id: "n7", type: "lot" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "split" },
+        { from: "n0", to: "n2", type: "split" },
+        { from: "n2", to: "n3", type: "split" },
+        { from: "n2", to: "n4", type: "split" },
+        { from: "n5", to: "n6", type: "split" },
+        { from: "n6", to: "n7", type: "split" }
+      ]
+    }
+  );
+
+// Fixed branching - complete binary tree
+const tree_binary_test = new UnitTestBuilder("tree_binary")
+  .procedure(graph_generate_tree)
+  .test(
+    {
+      seed: 9n,
+      root_count: 1n,
+      depth: 2n,
+      min_children: 2n,
+      max_children: 2n,
+      node_type: "part",
+      edge_type: "contains"
+    },
+    {
+      nodes: [
+        { id: "n0", type: "part" },
+        { id: "n1", type: "part" },
+        { id: "n2", type: "part" },
+        { id: "n3", type: "part" },
+        { id: "n4", type: "part" },
+        { id: "n5", type: "part" },
+        { id: "n6", type: "part" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "contains" },
+        { from: "n0", to: "n2", type: "contains" },
+        { from: "n1", to: "n3", type: "contains" },
+        { from: "n1", to: "n4", type: "contains" },
+        { from: "n2", to: "n5", type: "contains" },
+        { from: "n2", to: "n6", type: "contains" }
+      ]
+    }
+  );
+
+export default Template(
+  tree_seeded_test,
+  tree_binary_test
+);
@@ -0,0 +1,73 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_generate_workflow } from "../generators/workflow";
+
+// Two-step production template with random branching
+const workflow_seeded_test = new UnitTestBuilder("workflow_seeded")
+  .procedure(graph_generate_workflow)
+  .test(
+    {
+      seed: 21n,
+      transitions: [
+        { from_type: "batch", edge_type: "mix", to_type: "lot" },
+        { from_type: "lot", edge_type: "pack", to_type: "pallet" }
+      ],
+      start_type: "batch",
+      instance_count: 1n,
+      max_depth: 2n,
+      min_branching: 1n,
+      max_branching: 2n
+    },
+    {
+      nodes: [
+        { id: "n0", type: "batch" },
+        { id: "n1", type: "lot" },
+        { id: "n2", type: "lot" },
+        { id: "n3", type: "pallet" },
+        { id: "n4", type: "pallet" },
+        { id: "n5", type: "pallet" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "mix" },
+        { from: "n0", to: "n2", type: "mix" },
+        { from: "n1", to: "n3", type: "pack" },
+        { from: "n1", to: "n4", type: "pack" },
+        { from: "n2", to: "n5", type: "pack" }
+      ]
+    }
+  );
+
+// Depth limit stops expansion before the end of the template
+const workflow_depth_limit_test = new UnitTestBuilder("workflow_depth_limit")
+  .procedure(graph_generate_workflow)
+  .test(
+    {
+      seed: 21n,
+      transitions: [
+        { from_type: "batch", edge_type: "mix", to_type: "lot" },
+        { from_type: "lot", edge_type: "pack", to_type: "pallet" }
+      ],
+      start_type: "batch",
+      instance_count: 2n,
+      max_depth: 1n,
+      min_branching: 1n,
+      max_branching: 1n
+    },
+    {
+      nodes: [
+        { id: "n0", type: "batch" },
+        { id: "n1", type: "lot" },
+        { id: "n2", type: "batch" },
+        { id: "n3", type: "lot" }
+      ],
+      edges: [
+        { from: "n0", to: "n1", type: "mix" },
+        { from: "n2", to: "n3", type: "mix" }
+      ]
+    }
+  );
+
+export default Template(
+  workflow_seeded_test,
+  workflow_depth_limit_test
+);
@@ -0,0 +1,151 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_import_csv } from "../io/csv_import";
+
+// Edge and node type columns with bad rows reported by line number
+const csv_import_basic_test = new UnitTestBuilder("csv_import_basic")
+  .procedure(graph_import_csv)
+  .test(
+    {
+      text: [
+        "source,target,relation,source_kind,target_kind",
+        "A,B,flow,batch,lot",
+        "B,,flow,lot,lot",      // Empty to value
+        "",
+        "B,C,split,bin,lot",    // B already typed as lot
+        "C"                     // Too few fields
+      ].join("\n") + "\n",
+      options: {
+        delimiter: ",",
+        from_column: "source",
+        to_column: "target",
+        type_column: "relation",
+        from_type_column: "source_kind",
+        to_type_column: "target_kind",
+        default_node_type: "node",
+        default_edge_type: "edge"
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "split" }
+      ],
+      errors: [
+        { line: 3n, message: "Empty to value" },
+        { line: 5n, message: "Conflicting type for node B: bin (keeping lot)" },
+        { line: 6n, message: "Expected at least 5 fields, found 1" }
+      ]
+    }
+  );
+
+// Default types, custom delimiter, trimmed fields and CRLF line endings
+const csv_import_defaults_test = new UnitTestBuilder("csv_import_defaults")
+  .procedure(graph_import_csv)
+  .test(
+    {
+      text: "to; from\r\nB ; A\r\nC; B\r\n",
+      options: {
+        delimiter: ";",
+        from_column: "from",
+        to_column: "to",
+        type_column: "",
+        from_type_column: "",
+        to_type_column: "",
+        default_node_type: "lot",
+        default_edge_type: "flow"
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "lot" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" }
+      ],
+      errors: []
+    }
+  );
+
+// Missing configured column - reported on the header line, rows skipped
+const csv_import_missing_column_test = new UnitTestBuilder("csv_import_missing_column")
+  .procedure(graph_import_csv)
+  .test(
+    {
+      text: "from,to\nA,B\n",
+      options: {
+        delimiter: ",",
+        from_column: "from",
+        to_column: "to",
+        type_column: "kind",
+        from_type_column: "",
+        to_type_column: "",
+        default_node_type: "lot",
+        default_edge_type: "flow"
+      }
+    },
+    {
+      nodes: [],
+      edges: [],
+      errors: [
+        { line: 1n, message: "Missing column: kind" }
+      ]
+    }
+  );
+
+// Defaulted types are replaced by a later explicit type; only explicit types conflict
+const csv_import_explicit_type_test = new UnitTestBuilder("csv_import_explicit_type")
+  .procedure(graph_import_csv)
+  .test(
+    {
+      text: [
+        "from,to,from_kind",
+        "A,B,batch",            // B defaulted to lot
+        "B,C,mixer",            // B explicitly a mixer
+        "C,D,",                 // Empty type - C stays lot
+        "B,A,tank"              // B already explicitly a mixer; A as a target is not a conflict
+      ].join("\n") + "\n",
+      options: {
+        delimiter: ",",
+        from_column: "from",
+        to_column: "to",
+        type_column: "",
+        from_type_column: "from_kind",
+        to_type_column: "",
+        default_node_type: "lot",
+        default_edge_type: "flow"
+      }
+    },
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "mixer" },
+        { id: "C", type: "lot" },
+        { id: "D", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" },
+        { from: "B", to: "A", type: "flow" }
+      ],
+      errors: [
+        { line: 5n, message: "Conflicting type for node B: tank (keeping mixer)" }
+      ]
+    }
+  );
+
+export default Template(
+  csv_import_basic_test,
+  csv_import_defaults_test,
+  csv_import_missing_column_test,
+  csv_import_explicit_type_test
+);
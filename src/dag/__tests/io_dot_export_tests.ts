@@ -0,0 +1,130 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_export_dot } from "../io/dot_export";
+
+// Styled nodes and edges with highlights and a component cluster
+const dot_export_styled_test = new UnitTestBuilder("dot_export_styled")
+  .procedure(graph_export_dot)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "B", to: "X", type: "flow" } // Dangling - skipped
+      ],
+      options: {
+        graph_name: "genealogy",
+        direction: "LR",
+        node_styles: new Map([
+          ["batch", { color: "", fill_color: "lightblue", shape: "box", line_style: "" }],
+          ["lot", { color: "black", fill_color: "", shape: "ellipse", line_style: "dashed" }]
+        ]),
+        edge_styles: new Map([
+          ["flow", { color: "gray", fill_color: "", shape: "", line_style: "solid" }]
+        ]),
+        highlight_node_ids: ["C"],
+        highlight_edges: [{ from: "B", to: "C" }],
+        highlight_color: "red",
+        component_assignments: [
+          { node_id: "A", component_id: "C1" },
+          { node_id: "B", component_id: "C1" }
+        ]
+      }
+    },
+    [
+      "digraph \"genealogy\" {",
+      "  rankdir=LR;",
+      "  subgraph \"cluster_C1\" {",
+      "    label=\"C1\";",
+      "    \"A\" [label=\"A\", type=\"batch\", shape=\"box\", fillcolor=\"lightblue\", style=\"filled\"];",
+      "    \"B\" [label=\"B\", type=\"lot\", shape=\"ellipse\", color=\"black\", style=\"dashed\"];",
+      "  }",
+      "  \"C\" [label=\"C\", type=\"lot\", shape=\"ellipse\", color=\"red\", style=\"bold\"];",
+      "  \"A\" -> \"B\" [label=\"flow\", color=\"gray\"];",
+      "  \"B\" -> \"C\" [label=\"flow\", color=\"red\", style=\"bold\"];",
+      "}"
+    ].join("\n") + "\n"
+  );
+
+// Unstyled graph - duplicate node IDs are emitted once
+const dot_export_plain_test = new UnitTestBuilder("dot_export_plain")
+  .procedure(graph_export_dot)
+  .test(
+    {
+      nodes: [
+        { id: "P", type: "process" },
+        { id: "Q", type: "process" },
+        { id: "P", type: "process" }
+      ],
+      edges: [
+        { from: "P", to: "Q", type: "next" }
+      ],
+      options: {
+        graph_name: "plain",
+        direction: "TB",
+        node_styles: new Map(),
+        edge_styles: new Map(),
+        highlight_node_ids: [],
+        highlight_edges: [],
+        highlight_color: "red",
+        component_assignments: []
+      }
+    },
+    [
+      "digraph \"plain\" {",
+      "  rankdir=TB;",
+      "  \"P\" [label=\"P\", type=\"process\"];",
+      "  \"Q\" [label=\"Q\", type=\"process\"];",
+      "  \"P\" -> \"Q\" [label=\"next\"];",
+      "}"
+    ].join("\n") + "\n"
+  );
+
+// Backslashes and double quotes in IDs, types and names are escaped
+const dot_export_escaping_test = new UnitTestBuilder("dot_export_escaping")
+  .procedure(graph_export_dot)
+  .test(
+    {
+      nodes: [
+        { id: "say \"hi\"", type: "lot" },
+        { id: "C:\\dir", type: "lot" }
+      ],
+      edges: [
+        { from: "say \"hi\"", to: "C:\\dir", type: "a\"b" }
+      ],
+      options: {
+        graph_name: "my \"graph\"",
+        direction: "LR",
+        node_styles: new Map(),
+        edge_styles: new Map(),
+        highlight_node_ids: [],
+        highlight_edges: [],
+        highlight_color: "red",
+        component_assignments: [
+          { node_id: "say \"hi\"", component_id: "C\\1" }
+        ]
+      }
+    },
+    [
+      "digraph \"my \\\"graph\\\"\" {",
+      "  rankdir=LR;",
+      "  subgraph \"cluster_C\\\\1\" {",
+      "    label=\"C\\\\1\";",
+      "    \"say \\\"hi\\\"\" [label=\"say \\\"hi\\\"\", type=\"lot\"];",
+      "  }",
+      "  \"C:\\\\dir\" [label=\"C:\\\\dir\", type=\"lot\"];",
+      "  \"say \\\"hi\\\"\" -> \"C:\\\\dir\" [label=\"a\\\"b\"];",
+      "}"
+    ].join("\n") + "\n"
+  );
+
+export default Template(
+  dot_export_styled_test,
+  dot_export_plain_test,
+  dot_export_escaping_test
+);
@@ -0,0 +1,181 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_import_dot } from "../io/dot_import";
+
+// Node and edge statements, chains and invalid statements
+const dot_import_basic_test = new UnitTestBuilder("dot_import_basic")
+  .procedure(graph_import_dot)
+  .test(
+    {
+      text: [
+        "digraph \"genealogy\" {",
+        "  rankdir=LR;",
+        "  node [shape=box];",
+        "  // Declared nodes",
+        "  \"A\" [type=\"batch\"];",
+        "  A -> B [label=\"flow\"];",
+        "  B -> C -> D [type=split, label=\"ignored\"];",
+        "  C [type=bin];",
+        "  A [type=lot];",
+        "  B -> ;",
+        "  D -> E [label=\"open\";",
+        "}"
+      ].join("\n"),
+      default_node_type: "lot",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "bin" },
+        { id: "D", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "split" },
+        { from: "C", to: "D", type: "split" }
+      ],
+      errors: [
+        { line: 9n, message: "Conflicting type for node A: lot (keeping batch)" },
+        { line: 10n, message: "Invalid node ID: \"\"" },
+        { line: 11n, message: "Unterminated attribute list" }
+      ]
+    }
+  );
+
+// Round trip of the dot_export_styled output: node types come from the type attribute and
+// edge types from the edge labels
+const dot_import_export_round_trip_test = new UnitTestBuilder("dot_import_export_round_trip")
+  .procedure(graph_import_dot)
+  .test(
+    {
+      text: [
+        "digraph \"genealogy\" {",
+        "  rankdir=LR;",
+        "  subgraph \"cluster_C1\" {",
+        "    label=\"C1\";",
+        "    \"A\" [label=\"A\", type=\"batch\", shape=\"box\", fillcolor=\"lightblue\", style=\"filled\"];",
+        "    \"B\" [label=\"B\", type=\"lot\", shape=\"ellipse\", color=\"black\", style=\"dashed\"];",
+        "  }",
+        "  \"C\" [label=\"C\", type=\"lot\", shape=\"ellipse\", color=\"red\", style=\"bold\"];",
+        "  \"A\" -> \"B\" [label=\"flow\", color=\"gray\"];",
+        "  \"B\" -> \"C\" [label=\"flow\", color=\"red\", style=\"bold\"];",
+        "}"
+      ].join("\n") + "\n",
+      default_node_type: "unknown",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" }
+      ],
+      errors: []
+    }
+  );
+
+// Round trip of the dot_export_escaping output: escaped quotes and backslashes are restored
+const dot_import_export_escaping_round_trip_test = new UnitTestBuilder("dot_import_export_escaping_round_trip")
+  .procedure(graph_import_dot)
+  .test(
+    {
+      text: [
+        "digraph \"my \\\"graph\\\"\" {",
+        "  rankdir=LR;",
+        "  subgraph \"cluster_C\\\\1\" {",
+        "    label=\"C\\\\1\";",
+        "    \"say \\\"hi\\\"\" [label=\"say \\\"hi\\\"\", type=\"lot\"];",
+        "  }",
+        "  \"C:\\\\dir\" [label=\"C:\\\\dir\", type=\"lot\"];",
+        "  \"say \\\"hi\\\"\" -> \"C:\\\\dir\" [label=\"a\\\"b\"];",
+        "}"
+      ].join("\n") + "\n",
+      default_node_type: "unknown",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "say \"hi\"", type: "lot" },
+        { id: "C:\\dir", type: "lot" }
+      ],
+      edges: [
+        { from: "say \"hi\"", to: "C:\\dir", type: "a\"b" }
+      ],
+      errors: []
+    }
+  );
+
+// Round trip of IDs and labels containing //, [ and ->: only text outside quotes is treated
+// as a comment, an attribute list or an arrow
+const dot_import_export_quoted_syntax_round_trip_test = new UnitTestBuilder("dot_import_export_quoted_syntax_round_trip")
+  .procedure(graph_import_dot)
+  .test(
+    {
+      text: [
+        "digraph \"flows\" {",
+        "  rankdir=LR;",
+        "  \"a//b\" [label=\"a//b\", type=\"lot\"];",
+        "  \"x[1]\" [label=\"x[1]\", type=\"lot\"];",
+        "  \"p->q\" [label=\"p->q\", type=\"batch\"];",
+        "  \"a//b\" -> \"x[1]\" [label=\"feeds // [main] -> out\"];",
+        "  \"x[1]\" -> \"p->q\" [label=\"next\"]; // trailing comment",
+        "}"
+      ].join("\n") + "\n",
+      default_node_type: "unknown",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "a//b", type: "lot" },
+        { id: "x[1]", type: "lot" },
+        { id: "p->q", type: "batch" }
+      ],
+      edges: [
+        { from: "a//b", to: "x[1]", type: "feeds // [main] -> out" },
+        { from: "x[1]", to: "p->q", type: "next" }
+      ],
+      errors: []
+    }
+  );
+
+// Round trip of IDs and types with line breaks, which the export writes as \n and \r
+const dot_import_export_line_break_round_trip_test = new UnitTestBuilder("dot_import_export_line_break_round_trip")
+  .procedure(graph_import_dot)
+  .test(
+    {
+      text: [
+        "digraph \"flows\" {",
+        "  rankdir=LR;",
+        "  \"lot\\n42\" [label=\"lot\\n42\", type=\"raw\\r\\nlot\"];",
+        "  \"C:\\\\new\" [label=\"C:\\\\new\", type=\"lot\"];",
+        "  \"lot\\n42\" -> \"C:\\\\new\" [label=\"split\\nflow\"];",
+        "}"
+      ].join("\n") + "\n",
+      default_node_type: "unknown",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "lot\n42", type: "raw\r\nlot" },
+        { id: "C:\\new", type: "lot" }
+      ],
+      edges: [
+        { from: "lot\n42", to: "C:\\new", type: "split\nflow" }
+      ],
+      errors: []
+    }
+  );
+
+export default Template(
+  dot_import_basic_test,
+  dot_import_export_round_trip_test,
+  dot_import_export_escaping_round_trip_test,
+  dot_import_export_quoted_syntax_round_trip_test,
+  dot_import_export_line_break_round_trip_test
+);
@@ -0,0 +1,60 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_escape_text } from "../io/escaping";
+
+// XML: ampersands are escaped once, before the other entities
+const escaping_xml_test = new UnitTestBuilder("escaping_xml")
+  .procedure(graph_escape_text)
+  .test(
+    { text: "R&D \"lab\" <1> it's &amp;", format: "xml" },
+    "R&amp;D &quot;lab&quot; &lt;1&gt; it&apos;s &amp;amp;"
+  );
+
+// DOT: backslashes and double quotes get a backslash prefix
+const escaping_dot_test = new UnitTestBuilder("escaping_dot")
+  .procedure(graph_escape_text)
+  .test(
+    { text: "C:\\dir \"x\"", format: "dot" },
+    "C:\\\\dir \\\"x\\\""
+  );
+
+// Mermaid: hashes are escaped once, before the other entity codes
+const escaping_mermaid_test = new UnitTestBuilder("escaping_mermaid")
+  .procedure(graph_escape_text)
+  .test(
+    { text: "#1 \"a|b\" <c>", format: "mermaid" },
+    "#35;1 #34;a#124;b#34; #60;c#62;"
+  );
+
+// Line breaks keep every exported statement on one line
+const escaping_line_breaks_test = new UnitTestBuilder("escaping_line_breaks")
+  .procedure(graph_escape_text)
+  .test(
+    { text: "line\none\r\\n", format: "dot" },
+    "line\\none\\r\\\\n"
+  );
+
+// Mermaid line breaks become entity codes
+const escaping_mermaid_line_breaks_test = new UnitTestBuilder("escaping_mermaid_line_breaks")
+  .procedure(graph_escape_text)
+  .test(
+    { text: "line\none\r", format: "mermaid" },
+    "line#10;one#13;"
+  );
+
+// Mermaid style values: commas are escaped, statement ends become spaces and hex colours are kept
+const escaping_mermaid_style_test = new UnitTestBuilder("escaping_mermaid_style")
+  .procedure(graph_escape_text)
+  .test(
+    { text: "rgb(0,0,255);\nclass n0 x #fff", format: "mermaid_style" },
+    "rgb(0\\,0\\,255)  class n0 x #fff"
+  );
+
+export default Template(
+  escaping_xml_test,
+  escaping_dot_test,
+  escaping_mermaid_test,
+  escaping_line_breaks_test,
+  escaping_mermaid_line_breaks_test,
+  escaping_mermaid_style_test
+);
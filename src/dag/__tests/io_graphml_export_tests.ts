@@ -0,0 +1,179 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_export_graphml } from "../io/graphml_export";
+
+const graphml_header = [
+  "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+  "<graphml xmlns=\"http://graphml.graphdrawing.org/xmlns\">",
+  "  <key id=\"node_type\" for=\"node\" attr.name=\"type\" attr.type=\"string\"/>",
+  "  <key id=\"node_color\" for=\"node\" attr.name=\"color\" attr.type=\"string\"/>",
+  "  <key id=\"node_fill_color\" for=\"node\" attr.name=\"fill_color\" attr.type=\"string\"/>",
+  "  <key id=\"node_shape\" for=\"node\" attr.name=\"shape\" attr.type=\"string\"/>",
+  "  <key id=\"node_line_style\" for=\"node\" attr.name=\"line_style\" attr.type=\"string\"/>",
+  "  <key id=\"node_highlighted\" for=\"node\" attr.name=\"highlighted\" attr.type=\"boolean\"><default>false</default></key>",
+  "  <key id=\"edge_type\" for=\"edge\" attr.name=\"type\" attr.type=\"string\"/>",
+  "  <key id=\"edge_color\" for=\"edge\" attr.name=\"color\" attr.type=\"string\"/>",
+  "  <key id=\"edge_line_style\" for=\"edge\" attr.name=\"line_style\" attr.type=\"string\"/>",
+  "  <key id=\"edge_highlighted\" for=\"edge\" attr.name=\"highlighted\" attr.type=\"boolean\"><default>false</default></key>"
+];
+
+// Styled nodes and edges with highlights and a component cluster
+const graphml_export_styled_test = new UnitTestBuilder("graphml_export_styled")
+  .procedure(graph_export_graphml)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "B", to: "X", type: "flow" } // Dangling - skipped
+      ],
+      options: {
+        graph_name: "genealogy",
+        direction: "LR",
+        node_styles: new Map([
+          ["batch", { color: "", fill_color: "lightblue", shape: "box", line_style: "" }]
+        ]),
+        edge_styles: new Map([
+          ["flow", { color: "gray", fill_color: "", shape: "", line_style: "dashed" }]
+        ]),
+        highlight_node_ids: ["C"],
+        highlight_edges: [{ from: "B", to: "C" }],
+        highlight_color: "red",
+        component_assignments: [
+          { node_id: "A", component_id: "C1" },
+          { node_id: "B", component_id: "C1" }
+        ]
+      }
+    },
+    [
+      ...graphml_header,
+      "  <graph id=\"genealogy\" edgedefault=\"directed\">",
+      "    <node id=\"cluster:C1\">",
+      "      <graph id=\"cluster:C1:\" edgedefault=\"directed\">",
+      "        <node id=\"A\">",
+      "          <data key=\"node_type\">batch</data>",
+      "          <data key=\"node_fill_color\">lightblue</data>",
+      "          <data key=\"node_shape\">box</data>",
+      "        </node>",
+      "        <node id=\"B\">",
+      "          <data key=\"node_type\">lot</data>",
+      "        </node>",
+      "      </graph>",
+      "    </node>",
+      "    <node id=\"C\">",
+      "      <data key=\"node_type\">lot</data>",
+      "      <data key=\"node_color\">red</data>",
+      "      <data key=\"node_highlighted\">true</data>",
+      "    </node>",
+      "    <edge source=\"A\" target=\"B\">",
+      "      <data key=\"edge_type\">flow</data>",
+      "      <data key=\"edge_color\">gray</data>",
+      "      <data key=\"edge_line_style\">dashed</data>",
+      "    </edge>",
+      "    <edge source=\"B\" target=\"C\">",
+      "      <data key=\"edge_type\">flow</data>",
+      "      <data key=\"edge_color\">red</data>",
+      "      <data key=\"edge_line_style\">dashed</data>",
+      "      <data key=\"edge_highlighted\">true</data>",
+      "    </edge>",
+      "  </graph>",
+      "</graphml>"
+    ].join("\n") + "\n"
+  );
+
+// Empty graph - keys and an empty graph element only
+const graphml_export_empty_test = new UnitTestBuilder("graphml_export_empty")
+  .procedure(graph_export_graphml)
+  .test(
+    {
+      nodes: [],
+      edges: [],
+      options: {
+        graph_name: "empty",
+        direction: "TB",
+        node_styles: new Map(),
+        edge_styles: new Map(),
+        highlight_node_ids: [],
+        highlight_edges: [],
+        highlight_color: "red",
+        component_assignments: []
+      }
+    },
+    [
+      ...graphml_header,
+      "  <graph id=\"empty\" edgedefault=\"directed\">",
+      "  </graph>",
+      "</graphml>"
+    ].join("\n") + "\n"
+  );
+
+// XML special characters are escaped; highlight edges match whole IDs containing ":"
+const graphml_export_escaping_test = new UnitTestBuilder("graphml_export_escaping")
+  .procedure(graph_export_graphml)
+  .test(
+    {
+      nodes: [
+        { id: "a:b", type: "<in> & out" },
+        { id: "c", type: "lot" },
+        { id: "a", type: "lot" },
+        { id: "b:c", type: "lot" }
+      ],
+      edges: [
+        { from: "a:b", to: "c", type: "it's \"x\"" },
+        { from: "a", to: "b:c", type: "flow" }
+      ],
+      options: {
+        graph_name: "R&D",
+        direction: "LR",
+        node_styles: new Map(),
+        edge_styles: new Map(),
+        highlight_node_ids: [],
+        highlight_edges: [{ from: "a:b", to: "c" }],
+        highlight_color: "red",
+        component_assignments: [
+          { node_id: "a:b", component_id: "C<1>" }
+        ]
+      }
+    },
+    [
+      ...graphml_header,
+      "  <graph id=\"R&amp;D\" edgedefault=\"directed\">",
+      "    <node id=\"cluster:C&lt;1&gt;\">",
+      "      <graph id=\"cluster:C&lt;1&gt;:\" edgedefault=\"directed\">",
+      "        <node id=\"a:b\">",
+      "          <data key=\"node_type\">&lt;in&gt; &amp; out</data>",
+      "        </node>",
+      "      </graph>",
+      "    </node>",
+      "    <node id=\"c\">",
+      "      <data key=\"node_type\">lot</data>",
+      "    </node>",
+      "    <node id=\"a\">",
+      "      <data key=\"node_type\">lot</data>",
+      "    </node>",
+      "    <node id=\"b:c\">",
+      "      <data key=\"node_type\">lot</data>",
+      "    </node>",
+      "    <edge source=\"a:b\" target=\"c\">",
+      "      <data key=\"edge_type\">it&apos;s &quot;x&quot;</data>",
+      "      <data key=\"edge_color\">red</data>",
+      "      <data key=\"edge_highlighted\">true</data>",
+      "    </edge>",
+      "    <edge source=\"a\" target=\"b:c\">",
+      "      <data key=\"edge_type\">flow</data>",
+      "    </edge>",
+      "  </graph>",
+      "</graphml>"
+    ].join("\n") + "\n"
+  );
+
+export default Template(
+  graphml_export_styled_test,
+  graphml_export_empty_test,
+  graphml_export_escaping_test
+);
@@ -0,0 +1,152 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_import_json } from "../io/json_import";
+
+// Node entries with typed and default edges, bad entries reported by line number
+const json_import_basic_test = new UnitTestBuilder("json_import_basic")
+  .procedure(graph_import_json)
+  .test(
+    {
+      text: [
+        "{",
+        "  \"A\": {\"type\": \"batch\", \"edges\": [{\"to\": \"B\", \"type\": \"flow\"}, {\"to\": \"C\"}]},",
+        "  \"B\": {\"type\": \"lot\", \"edges\": []},",
+        "  \"C\" {\"type\": \"lot\"},",
+        "  \"D\": {\"edges\": [{\"type\": \"flow\"}]},",
+        "  \"B\": {\"type\": \"bin\"}",
+        "}"
+      ].join("\n") + "\n",
+      default_node_type: "lot",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" },
+        { id: "D", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "C", type: "edge" }
+      ],
+      errors: [
+        { line: 4n, message: "Expected \"<id>\": {...} node entry" },
+        { line: 5n, message: "Edge without a \"to\" node ID" },
+        { line: 6n, message: "Duplicate node entry: B" }
+      ]
+    }
+  );
+
+// Edge targets declared later take their declared type
+const json_import_forward_reference_test = new UnitTestBuilder("json_import_forward_reference")
+  .procedure(graph_import_json)
+  .test(
+    {
+      text: [
+        "{",
+        "  \"mix\": {\"type\": \"process\", \"edges\": [{\"to\": \"pack\", \"type\": \"next\"}]},",
+        "  \"pack\": {\"type\": \"process\"}",
+        "}"
+      ].join("\n"),
+      default_node_type: "unknown",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "mix", type: "process" },
+        { id: "pack", type: "process" }
+      ],
+      edges: [
+        { from: "mix", to: "pack", type: "next" }
+      ],
+      errors: []
+    }
+  );
+
+// Minified JSON.stringify output on one line, with an escaped quote and an ignored member
+const json_import_minified_test = new UnitTestBuilder("json_import_minified")
+  .procedure(graph_import_json)
+  .test(
+    {
+      text: "{\"A x\\\"1\":{\"type\":\"batch\",\"weight\":2.5,\"edges\":[{\"to\":\"B\",\"type\":\"flow\"},{\"to\":\"C\"}]},\"B\":{\"type\":\"lot\",\"edges\":[{\"to\":\"A x\\\"1\",\"type\":\"back\"}]}}",
+      default_node_type: "lot",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "A x\"1", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A x\"1", to: "B", type: "flow" },
+        { from: "A x\"1", to: "C", type: "edge" },
+        { from: "B", to: "A x\"1", type: "back" }
+      ],
+      errors: []
+    }
+  );
+
+// Entries spanning several lines, with errors reported on the line of the offending token
+const json_import_multiline_test = new UnitTestBuilder("json_import_multiline")
+  .procedure(graph_import_json)
+  .test(
+    {
+      text: [
+        "{",
+        "  \"A\": {",
+        "    \"type\": \"batch\",",
+        "    \"edges\": [",
+        "      {\"to\": \"B\"},",
+        "      {\"to\": 5}",
+        "    ]",
+        "  },",
+        "  \"B\": {\"type\": 3},",
+        "  \"C\": {\"type\": \"lot\",}",
+        "}"
+      ].join("\n"),
+      default_node_type: "lot",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "edge" }
+      ],
+      errors: [
+        { line: 6n, message: "Edge without a \"to\" node ID" },
+        { line: 9n, message: "Expected \"type\" to be a string" },
+        { line: 10n, message: "Unexpected \"}\"" }
+      ]
+    }
+  );
+
+// Unbalanced brackets - reported once and nothing is imported
+const json_import_unbalanced_test = new UnitTestBuilder("json_import_unbalanced")
+  .procedure(graph_import_json)
+  .test(
+    {
+      text: "{\"A\": {\"edges\": [}",
+      default_node_type: "lot",
+      default_edge_type: "edge"
+    },
+    {
+      nodes: [],
+      edges: [],
+      errors: [
+        { line: 1n, message: "Unexpected \"}\"" }
+      ]
+    }
+  );
+
+export default Template(
+  json_import_basic_test,
+  json_import_forward_reference_test,
+  json_import_minified_test,
+  json_import_multiline_test,
+  json_import_unbalanced_test
+);
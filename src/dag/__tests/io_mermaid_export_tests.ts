@@ -0,0 +1,184 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_export_mermaid } from "../io/mermaid_export";
+
+// Styled nodes and edges with highlights and a component subgraph
+const mermaid_export_styled_test = new UnitTestBuilder("mermaid_export_styled")
+  .procedure(graph_export_mermaid)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "lot" },
+        { id: "C", type: "lot" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "B", to: "X", type: "flow" } // Dangling - skipped
+      ],
+      options: {
+        graph_name: "genealogy",
+        direction: "LR",
+        node_styles: new Map([
+          ["batch", { color: "", fill_color: "lightblue", shape: "box", line_style: "" }],
+          ["lot", { color: "black", fill_color: "", shape: "", line_style: "dashed" }]
+        ]),
+        edge_styles: new Map([
+          ["flow", { color: "gray", fill_color: "", shape: "", line_style: "solid" }]
+        ]),
+        highlight_node_ids: ["C"],
+        highlight_edges: [{ from: "B", to: "C" }],
+        highlight_color: "red",
+        component_assignments: [
+          { node_id: "A", component_id: "C1" },
+          { node_id: "B", component_id: "C1" }
+        ]
+      }
+    },
+    [
+      "flowchart LR",
+      "  subgraph cluster_0[\"C1\"]",
+      "    n0[\"A\"]",
+      "    n1[\"B\"]",
+      "  end",
+      "  n2[\"C\"]",
+      "  n0 -->|\"flow\"| n1",
+      "  n1 -->|\"flow\"| n2",
+      "  classDef type_0 fill:lightblue",
+      "  classDef type_1 stroke:black,stroke-dasharray:5 5",
+      "  class n0 type_0",
+      "  class n1 type_1",
+      "  class n2 type_1",
+      "  classDef highlight stroke:red,stroke-width:3px",
+      "  class n2 highlight",
+      "  linkStyle 0 stroke:gray",
+      "  linkStyle 1 stroke:red,stroke-width:3px"
+    ].join("\n") + "\n"
+  );
+
+// Node shapes and edge line styles
+const mermaid_export_shapes_test = new UnitTestBuilder("mermaid_export_shapes")
+  .procedure(graph_export_mermaid)
+  .test(
+    {
+      nodes: [
+        { id: "start", type: "event" },
+        { id: "check", type: "decision" },
+        { id: "done", type: "task" }
+      ],
+      edges: [
+        { from: "start", to: "check", type: "next" },
+        { from: "check", to: "done", type: "retry" },
+        { from: "check", to: "done", type: "pass" }
+      ],
+      options: {
+        graph_name: "workflow",
+        direction: "TB",
+        node_styles: new Map([
+          ["decision", { color: "", fill_color: "", shape: "diamond", line_style: "" }],
+          ["event", { color: "", fill_color: "", shape: "round", line_style: "" }]
+        ]),
+        edge_styles: new Map([
+          ["pass", { color: "", fill_color: "", shape: "", line_style: "bold" }],
+          ["retry", { color: "", fill_color: "", shape: "", line_style: "dotted" }]
+        ]),
+        highlight_node_ids: [],
+        highlight_edges: [],
+        highlight_color: "red",
+        component_assignments: []
+      }
+    },
+    [
+      "flowchart TB",
+      "  n0(\"start\")",
+      "  n1{\"check\"}",
+      "  n2[\"done\"]",
+      "  n0 -->|\"next\"| n1",
+      "  n1 -.->|\"retry\"| n2",
+      "  n1 ==>|\"pass\"| n2"
+    ].join("\n") + "\n"
+  );
+
+// Quotes, pipes, hashes and angle brackets in labels are replaced by entity codes
+const mermaid_export_escaping_test = new UnitTestBuilder("mermaid_export_escaping")
+  .procedure(graph_export_mermaid)
+  .test(
+    {
+      nodes: [
+        { id: "R&D \"lab\"", type: "lot" },
+        { id: "x|y#1", type: "lot" }
+      ],
+      edges: [
+        { from: "R&D \"lab\"", to: "x|y#1", type: "a|b <c>" }
+      ],
+      options: {
+        graph_name: "genealogy",
+        direction: "LR",
+        node_styles: new Map(),
+        edge_styles: new Map(),
+        highlight_node_ids: [],
+        highlight_edges: [],
+        highlight_color: "red",
+        component_assignments: [
+          { node_id: "R&D \"lab\"", component_id: "C \"1\"" }
+        ]
+      }
+    },
+    [
+      "flowchart LR",
+      "  subgraph cluster_0[\"C #34;1#34;\"]",
+      "    n0[\"R&D #34;lab#34;\"]",
+      "  end",
+      "  n1[\"x#124;y#35;1\"]",
+      "  n0 -->|\"a#124;b #60;c#62;\"| n1"
+    ].join("\n") + "\n"
+  );
+
+// Style values cannot add properties or statements; hex colours are written unchanged
+const mermaid_export_style_escaping_test = new UnitTestBuilder("mermaid_export_style_escaping")
+  .procedure(graph_export_mermaid)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch" },
+        { id: "B", type: "batch" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" }
+      ],
+      options: {
+        graph_name: "genealogy",
+        direction: "LR",
+        node_styles: new Map([
+          ["batch", { color: "#333", fill_color: "rgb(200,220,255)", shape: "", line_style: "" }]
+        ]),
+        edge_styles: new Map([
+          ["flow", { color: "blue;\nclass n0 x", fill_color: "", shape: "", line_style: "" }]
+        ]),
+        highlight_node_ids: ["B"],
+        highlight_edges: [],
+        highlight_color: "#f00,stroke-width:9px",
+        component_assignments: []
+      }
+    },
+    [
+      "flowchart LR",
+      "  n0[\"A\"]",
+      "  n1[\"B\"]",
+      "  n0 -->|\"flow\"| n1",
+      "  classDef type_0 fill:rgb(200\\,220\\,255),stroke:#333",
+      "  class n0 type_0",
+      "  class n1 type_0",
+      "  classDef highlight stroke:#f00\\,stroke-width:9px,stroke-width:3px",
+      "  class n1 highlight",
+      "  linkStyle 0 stroke:blue  class n0 x"
+    ].join("\n") + "\n"
+  );
+
+export default Template(
+  mermaid_export_styled_test,
+  mermaid_export_shapes_test,
+  mermaid_export_escaping_test,
+  mermaid_export_style_escaping_test
+);
@@ -0,0 +1,90 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_sugiyama_layout } from "../layout/sugiyama";
+
+// The bypass edge S→T spans two layers and bends beside A and B
+const sugiyama_long_edge_test = new UnitTestBuilder("sugiyama_long_edge")
+  .procedure(graph_sugiyama_layout)
+  .test(
+    {
+      nodes: [
+        { id: "S", type: "source" },
+        { id: "A", type: "process" },
+        { id: "B", type: "process" },
+        { id: "T", type: "sink" }
+      ],
+      edges: [
+        { from: "S", to: "A", type: "flow" },
+        { from: "S", to: "B", type: "flow" },
+        { from: "A", to: "T", type: "flow" },
+        { from: "B", to: "T", type: "flow" },
+        { from: "S", to: "T", type: "bypass" }
+      ],
+      options: { crossing_method: "barycenter", iterations: 1n, x_spacing: 100n, y_spacing: 80n }
+    },
+    {
+      nodes: [
+        { id: "S", type: "source", layer: 0n, position: 0n, x: 100n, y: 0n },
+        { id: "A", type: "process", layer: 1n, position: 0n, x: 0n, y: 80n },
+        { id: "B", type: "process", layer: 1n, position: 1n, x: 100n, y: 80n },
+        { id: "T", type: "sink", layer: 2n, position: 0n, x: 50n, y: 160n }
+      ],
+      edges: [
+        { from: "S", to: "A", type: "flow", points: [] },
+        { from: "S", to: "B", type: "flow", points: [] },
+        { from: "A", to: "T", type: "flow", points: [] },
+        { from: "B", to: "T", type: "flow", points: [] },
+        { from: "S", to: "T", type: "bypass", points: [{ x: 200n, y: 80n }] }
+      ],
+      layer_count: 3n,
+      crossings: 0n,
+      width: 200n,
+      height: 160n
+    }
+  );
+
+// In input order A→D and A→E both cross B→C; median sweeps reorder the lower layer to D, E, C
+const sugiyama_crossings_test = new UnitTestBuilder("sugiyama_crossings")
+  .procedure(graph_sugiyama_layout)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" },
+        { id: "E", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "D", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "A", to: "E", type: "flow" },
+        { from: "B", to: "E", type: "flow" }
+      ],
+      options: { crossing_method: "median", iterations: 2n, x_spacing: 100n, y_spacing: 80n }
+    },
+    {
+      nodes: [
+        { id: "A", type: "task", layer: 0n, position: 0n, x: 50n, y: 0n },
+        { id: "B", type: "task", layer: 0n, position: 1n, x: 150n, y: 0n },
+        { id: "C", type: "task", layer: 1n, position: 2n, x: 200n, y: 80n },
+        { id: "D", type: "task", layer: 1n, position: 0n, x: 0n, y: 80n },
+        { id: "E", type: "task", layer: 1n, position: 1n, x: 100n, y: 80n }
+      ],
+      edges: [
+        { from: "A", to: "D", type: "flow", points: [] },
+        { from: "B", to: "C", type: "flow", points: [] },
+        { from: "A", to: "E", type: "flow", points: [] },
+        { from: "B", to: "E", type: "flow", points: [] }
+      ],
+      layer_count: 2n,
+      crossings: 0n,
+      width: 200n,
+      height: 80n
+    }
+  );
+
+export default Template(
+  sugiyama_long_edge_test,
+  sugiyama_crossings_test
+);
@@ -0,0 +1,95 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_attributed_network_extraction } from "../paths/attributed_network_extraction";
+
+// Network from a source keeps node and edge attributes; disconnected network not extracted
+const attributed_network_extraction_basic_test = new UnitTestBuilder("attributed_network_extraction_basic")
+  .procedure(graph_attributed_network_extraction)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 8.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "C", type: "product", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 7.5]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "X", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "Y", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 5.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "B", to: "C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 7.5]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "X", to: "Y", type: "move", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      source_node_ids: ["A"],
+      target_node_ids: []
+    },
+    {
+      subgraphs: [{
+        network_nodes: [
+          { id: "A", type: "lot", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 8.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "C", type: "product", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 7.5]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        network_edges: [
+          { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 5.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { from: "B", to: "C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 7.5]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        source_nodes: [
+          { id: "A", type: "lot", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        target_nodes: [],
+        intermediate_nodes: [
+          { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 8.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "C", type: "product", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 7.5]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        total_nodes: 3n,
+        total_edges: 2n,
+        network_depth: 3n
+      }]
+    }
+  );
+
+// Colon-containing IDs - the network edge A:B -> C is not confused with A -> B:C
+const attributed_network_extraction_colon_ids_test = new UnitTestBuilder("attributed_network_extraction_colon_ids")
+  .procedure(graph_attributed_network_extraction)
+  .test(
+    {
+      nodes: [
+        { id: "A:B", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "A", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "B:C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [
+        { from: "A", to: "B:C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 2.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "A:B", to: "C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 1.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      source_node_ids: ["A:B"],
+      target_node_ids: []
+    },
+    {
+      subgraphs: [{
+        network_nodes: [
+          { id: "A:B", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        network_edges: [
+          { from: "A:B", to: "C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 1.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        source_nodes: [
+          { id: "A:B", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        target_nodes: [],
+        intermediate_nodes: [
+          { id: "C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        total_nodes: 2n,
+        total_edges: 1n,
+        network_depth: 2n
+      }]
+    }
+  );
+
+export default Template(
+  attributed_network_extraction_basic_test,
+  attributed_network_extraction_colon_ids_test
+);
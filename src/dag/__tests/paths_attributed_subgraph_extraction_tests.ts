@@ -0,0 +1,142 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_attributed_subgraphs } from "../paths/attributed_subgraph_extraction";
+
+// Components keep node and edge attributes; parallel edges keep their own attributes
+const attributed_subgraphs_basic_test = new UnitTestBuilder("attributed_subgraphs_basic")
+  .procedure(graph_attributed_subgraphs)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 8.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "X", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "Y", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 5.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 3.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }, // Parallel edge with different attributes
+        { from: "X", to: "Y", type: "move", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      node_types: [],
+      edge_types: []
+    },
+    [
+      {
+        nodes: [
+          { id: "A", type: "lot", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 8.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        edges: [
+          { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 5.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 3.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        source_nodes: ["A"],
+        target_nodes: ["B"],
+        node_types: new Set(["lot"]),
+        edge_types: new Set(["flow"])
+      },
+      {
+        nodes: [
+          { id: "X", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "Y", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        edges: [
+          { from: "X", to: "Y", type: "move", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        source_nodes: ["X"],
+        target_nodes: ["Y"],
+        node_types: new Set(["bin"]),
+        edge_types: new Set(["move"])
+      }
+    ]
+  );
+
+// Node type filtering applies as in graph_subgraphs
+const attributed_subgraphs_filtered_test = new UnitTestBuilder("attributed_subgraphs_filtered")
+  .procedure(graph_attributed_subgraphs)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "lot", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 8.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "X", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "Y", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 5.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "X", to: "Y", type: "move", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      node_types: [new Set(["bin"])],
+      edge_types: []
+    },
+    [
+      {
+        nodes: [
+          { id: "X", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "Y", type: "bin", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        edges: [
+          { from: "X", to: "Y", type: "move", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        source_nodes: ["X"],
+        target_nodes: ["Y"],
+        node_types: new Set(["bin"]),
+        edge_types: new Set(["move"])
+      }
+    ]
+  );
+
+// Colon-containing IDs - A:B -> C and A -> B:C keep their own attributes
+const attributed_subgraphs_colon_ids_test = new UnitTestBuilder("attributed_subgraphs_colon_ids")
+  .procedure(graph_attributed_subgraphs)
+  .test(
+    {
+      nodes: [
+        { id: "A:B", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "A", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "B:C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [
+        { from: "A", to: "B:C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 2.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "A:B", to: "C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 1.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      node_types: [],
+      edge_types: []
+    },
+    [
+      {
+        nodes: [
+          { id: "A:B", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        edges: [
+          { from: "A:B", to: "C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 1.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        source_nodes: ["A:B"],
+        target_nodes: ["C"],
+        node_types: new Set(["lot"]),
+        edge_types: new Set(["flow"])
+      },
+      {
+        nodes: [
+          { id: "A", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+          { id: "B:C", type: "lot", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        edges: [
+          { from: "A", to: "B:C", type: "flow", attributes: { strings: new Map(), floats: new Map([["quantity", 2.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+        ],
+        source_nodes: ["A"],
+        target_nodes: ["B:C"],
+        node_types: new Set(["lot"]),
+        edge_types: new Set(["flow"])
+      }
+    ]
+  );
+
+export default Template(
+  attributed_subgraphs_basic_test,
+  attributed_subgraphs_filtered_test,
+  attributed_subgraphs_colon_ids_test
+);
@@ -0,0 +1,158 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_ego_network } from "../paths/ego_network";
+
+// One hop both ways around M: induced edges, sources and targets as graph_subgraphs
+const ego_network_both_test = new UnitTestBuilder("ego_network_both")
+  .procedure(graph_ego_network)
+  .test(
+    {
+      nodes: [
+        { id: "S", type: "supplier" },
+        { id: "A", type: "process" },
+        { id: "M", type: "mix" },
+        { id: "B", type: "process" },
+        { id: "T", type: "product" },
+        { id: "X", type: "additive" }
+      ],
+      edges: [
+        { from: "S", to: "A", type: "flow" },
+        { from: "A", to: "M", type: "flow" },
+        { from: "M", to: "B", type: "flow" },
+        { from: "B", to: "T", type: "flow" },
+        { from: "X", to: "M", type: "dose" }
+      ],
+      centre_node_ids: ["M"],
+      k: 1n,
+      direction: "both",
+      merge: false
+    },
+    [
+      {
+        centre_node_ids: ["M"],
+        subgraph: {
+          nodes: [
+            { id: "A", type: "process" },
+            { id: "M", type: "mix" },
+            { id: "B", type: "process" },
+            { id: "X", type: "additive" }
+          ],
+          edges: [
+            { from: "A", to: "M", type: "flow" },
+            { from: "M", to: "B", type: "flow" },
+            { from: "X", to: "M", type: "dose" }
+          ],
+          source_nodes: ["A", "X"],
+          target_nodes: ["B"],
+          node_types: new Set(["additive", "mix", "process"]),
+          edge_types: new Set(["dose", "flow"])
+        },
+        distances: new Map([["A", 1n], ["B", 1n], ["M", 0n], ["X", 1n]])
+      }
+    ]
+  );
+
+// Merged downstream network of two centres
+const ego_network_merged_test = new UnitTestBuilder("ego_network_merged")
+  .procedure(graph_ego_network)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "step" },
+        { id: "B", type: "step" },
+        { id: "C", type: "step" },
+        { id: "D", type: "step" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" }
+      ],
+      centre_node_ids: ["A", "D"],
+      k: 1n,
+      direction: "forward",
+      merge: true
+    },
+    [
+      {
+        centre_node_ids: ["A", "D"],
+        subgraph: {
+          nodes: [
+            { id: "A", type: "step" },
+            { id: "B", type: "step" },
+            { id: "D", type: "step" }
+          ],
+          edges: [
+            { from: "A", to: "B", type: "flow" }
+          ],
+          source_nodes: ["A", "D"],
+          target_nodes: ["B", "D"],
+          node_types: new Set(["step"]),
+          edge_types: new Set(["flow"])
+        },
+        distances: new Map([["A", 0n], ["B", 1n], ["D", 0n]])
+      }
+    ]
+  );
+
+// Upstream network per centre; an unknown centre gets an empty network
+const ego_network_per_centre_test = new UnitTestBuilder("ego_network_per_centre")
+  .procedure(graph_ego_network)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "step" },
+        { id: "B", type: "step" },
+        { id: "C", type: "step" },
+        { id: "D", type: "step" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" }
+      ],
+      centre_node_ids: ["C", "Z"],
+      k: 2n,
+      direction: "backward",
+      merge: false
+    },
+    [
+      {
+        centre_node_ids: ["C"],
+        subgraph: {
+          nodes: [
+            { id: "A", type: "step" },
+            { id: "B", type: "step" },
+            { id: "C", type: "step" }
+          ],
+          edges: [
+            { from: "A", to: "B", type: "flow" },
+            { from: "B", to: "C", type: "flow" }
+          ],
+          source_nodes: ["A"],
+          target_nodes: ["C"],
+          node_types: new Set(["step"]),
+          edge_types: new Set(["flow"])
+        },
+        distances: new Map([["A", 2n], ["B", 1n], ["C", 0n]])
+      },
+      {
+        centre_node_ids: ["Z"],
+        subgraph: {
+          nodes: [],
+          edges: [],
+          source_nodes: [],
+          target_nodes: [],
+          node_types: new Set(),
+          edge_types: new Set()
+        },
+        distances: new Map()
+      }
+    ]
+  );
+
+export default Template(
+  ego_network_both_test,
+  ego_network_merged_test,
+  ego_network_per_centre_test
+);
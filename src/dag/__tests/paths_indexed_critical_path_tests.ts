@@ -0,0 +1,93 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+
+import { graph_indexed_critical_path } from "../paths/indexed_critical_path";
+
+// === INDEXED CRITICAL PATH TESTS ===
+
+// Indexed form of the diamond A→B, A→C, B→D, C→D (as built by graph_build_indexed_graph)
+const diamond_graph = {
+  node_count: 4n,
+  edge_count: 4n,
+  node_ids: ["A", "B", "C", "D"],
+  node_types: ["source", "process", "process", "sink"],
+  node_index: new Map([["A", 0n], ["B", 1n], ["C", 2n], ["D", 3n]]),
+  edge_types: ["flow"],
+  out_offsets: [0n, 2n, 3n, 4n, 4n],
+  out_targets: [1n, 2n, 3n, 3n],
+  out_edge_types: [0n, 0n, 0n, 0n],
+  in_offsets: [0n, 0n, 1n, 2n, 4n],
+  in_sources: [0n, 0n, 1n, 2n],
+  in_edge_types: [0n, 0n, 0n, 0n]
+};
+
+// Critical path through the longer branch
+const indexed_critical_path_basic_test = new UnitTestBuilder("indexed_critical_path_basic")
+  .procedure(graph_indexed_critical_path)
+  .test(
+    {
+      graph: diamond_graph,
+      nodes: [
+        { id: "A", type: "task", start_time: new Date("2024-01-01T00:00:00Z"), end_time: new Date("2024-01-01T00:04:00Z") },
+        { id: "B", type: "task", start_time: new Date("2024-01-01T00:04:00Z"), end_time: new Date("2024-01-01T00:10:00Z") },
+        { id: "C", type: "task", start_time: new Date("2024-01-01T00:04:00Z"), end_time: new Date("2024-01-01T00:06:00Z") },
+        { id: "D", type: "task", start_time: new Date("2024-01-01T00:10:00Z"), end_time: new Date("2024-01-01T00:14:00Z") }
+      ]
+    },
+    {
+      critical_path: ["A", "B", "D"],
+      total_duration: 14.0
+    }
+  );
+
+// Same indexed graph reused with a different schedule
+const indexed_critical_path_reuse_test = new UnitTestBuilder("indexed_critical_path_reuse")
+  .procedure(graph_indexed_critical_path)
+  .test(
+    {
+      graph: diamond_graph,
+      nodes: [
+        { id: "A", type: "task", start_time: new Date("2024-01-01T00:00:00Z"), end_time: new Date("2024-01-01T00:04:00Z") },
+        { id: "B", type: "task", start_time: new Date("2024-01-01T00:04:00Z"), end_time: new Date("2024-01-01T00:10:00Z") },
+        { id: "C", type: "task", start_time: new Date("2024-01-01T00:04:00Z"), end_time: new Date("2024-01-01T00:14:00Z") },
+        { id: "D", type: "task", start_time: new Date("2024-01-01T00:14:00Z"), end_time: new Date("2024-01-01T00:18:00Z") }
+      ]
+    },
+    {
+      critical_path: ["A", "C", "D"], // C is now the longer branch
+      total_duration: 18.0
+    }
+  );
+
+// Empty graph test
+const indexed_critical_path_empty_test = new UnitTestBuilder("indexed_critical_path_empty")
+  .procedure(graph_indexed_critical_path)
+  .test(
+    {
+      graph: {
+        node_count: 0n,
+        edge_count: 0n,
+        node_ids: [],
+        node_types: [],
+        node_index: new Map(),
+        edge_types: [],
+        out_offsets: [0n],
+        out_targets: [],
+        out_edge_types: [],
+        in_offsets: [0n],
+        in_sources: [],
+        in_edge_types: []
+      },
+      nodes: []
+    },
+    {
+      critical_path: [],
+      total_duration: 0.0
+    }
+  );
+
+export default Template(
+  indexed_critical_path_basic_test,
+  indexed_critical_path_reuse_test,
+  indexed_critical_path_empty_test
+);
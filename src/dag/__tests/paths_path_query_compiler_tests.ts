@@ -0,0 +1,85 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_compile_path_query } from "../paths/path_query_compiler";
+
+// Node and edge items concatenated
+const path_query_compiler_sequence_test = new UnitTestBuilder("path_query_compiler_sequence")
+  .procedure(graph_compile_path_query)
+  .test(
+    {
+      pattern: "input [flow] output"
+    },
+    {
+      start_state: "q0",
+      accept_states: ["q5"],
+      transitions: [
+        { from_state: "q0", to_state: "q1", kind: "node", types: ["input"] },
+        { from_state: "q2", to_state: "q3", kind: "edge", types: ["flow"] },
+        { from_state: "q1", to_state: "q2", kind: "epsilon", types: [] },
+        { from_state: "q4", to_state: "q5", kind: "node", types: ["output"] },
+        { from_state: "q3", to_state: "q4", kind: "epsilon", types: [] }
+      ]
+    }
+  );
+
+// Repetition of a group - the example from graph_path_query
+const path_query_compiler_repetition_test = new UnitTestBuilder("path_query_compiler_repetition")
+  .procedure(graph_compile_path_query)
+  .test(
+    {
+      pattern: "input ([flow] process)* [flow] output"
+    },
+    {
+      start_state: "q0",
+      accept_states: ["q11"],
+      transitions: [
+        { from_state: "q0", to_state: "q1", kind: "node", types: ["input"] },
+        { from_state: "q2", to_state: "q3", kind: "edge", types: ["flow"] },
+        { from_state: "q4", to_state: "q5", kind: "node", types: ["process"] },
+        { from_state: "q3", to_state: "q4", kind: "epsilon", types: [] },
+        { from_state: "q6", to_state: "q2", kind: "epsilon", types: [] },
+        { from_state: "q5", to_state: "q7", kind: "epsilon", types: [] },
+        { from_state: "q6", to_state: "q7", kind: "epsilon", types: [] },
+        { from_state: "q5", to_state: "q2", kind: "epsilon", types: [] },
+        { from_state: "q1", to_state: "q6", kind: "epsilon", types: [] },
+        { from_state: "q8", to_state: "q9", kind: "edge", types: ["flow"] },
+        { from_state: "q7", to_state: "q8", kind: "epsilon", types: [] },
+        { from_state: "q10", to_state: "q11", kind: "node", types: ["output"] },
+        { from_state: "q9", to_state: "q10", kind: "epsilon", types: [] }
+      ]
+    }
+  );
+
+// Quoted type, alternation with an any-type edge and an optional any-type node
+const path_query_compiler_alternation_test = new UnitTestBuilder("path_query_compiler_alternation")
+  .procedure(graph_compile_path_query)
+  .test(
+    {
+      pattern: "\"bulk tank\" ([transfer] | []) .?"
+    },
+    {
+      start_state: "q0",
+      accept_states: ["q11"],
+      transitions: [
+        { from_state: "q0", to_state: "q1", kind: "node", types: ["bulk tank"] },
+        { from_state: "q2", to_state: "q3", kind: "edge", types: ["transfer"] },
+        { from_state: "q4", to_state: "q5", kind: "edge", types: [] },
+        { from_state: "q6", to_state: "q2", kind: "epsilon", types: [] },
+        { from_state: "q6", to_state: "q4", kind: "epsilon", types: [] },
+        { from_state: "q3", to_state: "q7", kind: "epsilon", types: [] },
+        { from_state: "q5", to_state: "q7", kind: "epsilon", types: [] },
+        { from_state: "q1", to_state: "q6", kind: "epsilon", types: [] },
+        { from_state: "q8", to_state: "q9", kind: "node", types: [] },
+        { from_state: "q10", to_state: "q8", kind: "epsilon", types: [] },
+        { from_state: "q9", to_state: "q11", kind: "epsilon", types: [] },
+        { from_state: "q10", to_state: "q11", kind: "epsilon", types: [] },
+        { from_state: "q7", to_state: "q10", kind: "epsilon", types: [] }
+      ]
+    }
+  );
+
+export default Template(
+  path_query_compiler_sequence_test,
+  path_query_compiler_repetition_test,
+  path_query_compiler_alternation_test
+);
@@ -0,0 +1,219 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_path_query } from "../paths/path_query";
+
+// Query: input (flow process)* flow output
+const flow_query = {
+  start_state: "q0",
+  accept_states: ["q3"],
+  transitions: [
+    { from_state: "q0", to_state: "q1", kind: "node", types: ["input"] },
+    { from_state: "q1", to_state: "q2", kind: "edge", types: ["flow"] },
+    { from_state: "q2", to_state: "q1", kind: "node", types: ["process"] },
+    { from_state: "q2", to_state: "q3", kind: "node", types: ["output"] }
+  ]
+};
+
+const flow_nodes = [
+  { id: "I1", type: "input" },
+  { id: "I2", type: "input" },
+  { id: "P1", type: "process" },
+  { id: "P2", type: "process" },
+  { id: "O1", type: "output" },
+  { id: "O2", type: "output" }
+];
+
+const flow_edges = [
+  { from: "I1", to: "P1", type: "flow" },
+  { from: "P1", to: "P2", type: "flow" },
+  { from: "P2", to: "O1", type: "flow" },
+  { from: "I2", to: "O2", type: "flow" },
+  { from: "I2", to: "P1", type: "audit" }
+];
+
+// Inputs reaching outputs through process nodes over flow edges only
+const path_query_witness_test = new UnitTestBuilder("path_query_witness")
+  .procedure(graph_path_query)
+  .test(
+    {
+      nodes: flow_nodes,
+      edges: flow_edges,
+      query: flow_query,
+      include_witnesses: true
+    },
+    {
+      matches: [
+        {
+          start_id: "I1",
+          end_id: "O1",
+          length: 3n,
+          witness_nodes: ["I1", "P1", "P2", "O1"],
+          witness_edges: [
+            { from: "I1", to: "P1", type: "flow" },
+            { from: "P1", to: "P2", type: "flow" },
+            { from: "P2", to: "O1", type: "flow" }
+          ]
+        },
+        {
+          start_id: "I2",
+          end_id: "O2",
+          length: 1n,
+          witness_nodes: ["I2", "O2"],
+          witness_edges: [{ from: "I2", to: "O2", type: "flow" }]
+        }
+      ],
+      match_count: 2n
+    }
+  );
+
+// Same query without witness paths
+const path_query_pairs_only_test = new UnitTestBuilder("path_query_pairs_only")
+  .procedure(graph_path_query)
+  .test(
+    {
+      nodes: flow_nodes,
+      edges: flow_edges,
+      query: flow_query,
+      include_witnesses: false
+    },
+    {
+      matches: [
+        { start_id: "I1", end_id: "O1", length: 3n, witness_nodes: [], witness_edges: [] },
+        { start_id: "I2", end_id: "O2", length: 1n, witness_nodes: [], witness_edges: [] }
+      ],
+      match_count: 2n
+    }
+  );
+
+// Query: task (any-edge task)* with an epsilon to the accept state, over a cycle
+const path_query_cycle_test = new UnitTestBuilder("path_query_cycle")
+  .procedure(graph_path_query)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "report" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "next" },
+        { from: "B", to: "A", type: "next" },
+        { from: "B", to: "C", type: "report" }
+      ],
+      query: {
+        start_state: "q0",
+        accept_states: ["q3"],
+        transitions: [
+          { from_state: "q0", to_state: "q1", kind: "node", types: ["task"] },
+          { from_state: "q1", to_state: "q3", kind: "epsilon", types: [] },
+          { from_state: "q1", to_state: "q2", kind: "edge", types: [] },
+          { from_state: "q2", to_state: "q1", kind: "node", types: ["task"] }
+        ]
+      },
+      include_witnesses: true
+    },
+    {
+      matches: [
+        { start_id: "A", end_id: "A", length: 0n, witness_nodes: ["A"], witness_edges: [] },
+        {
+          start_id: "A",
+          end_id: "B",
+          length: 1n,
+          witness_nodes: ["A", "B"],
+          witness_edges: [{ from: "A", to: "B", type: "next" }]
+        },
+        { start_id: "B", end_id: "B", length: 0n, witness_nodes: ["B"], witness_edges: [] },
+        {
+          start_id: "B",
+          end_id: "A",
+          length: 1n,
+          witness_nodes: ["B", "A"],
+          witness_edges: [{ from: "B", to: "A", type: "next" }]
+        }
+      ],
+      match_count: 4n
+    }
+  );
+
+// Empty graph - no matches
+const path_query_empty_test = new UnitTestBuilder("path_query_empty")
+  .procedure(graph_path_query)
+  .test(
+    {
+      nodes: [],
+      edges: [],
+      query: flow_query,
+      include_witnesses: true
+    },
+    {
+      matches: [],
+      match_count: 0n
+    }
+  );
+
+// Colon-containing states and types - state "s" on type "a:b" is not state "s:a" on type "b"
+const path_query_colon_moves_test = new UnitTestBuilder("path_query_colon_moves")
+  .procedure(graph_path_query)
+  .test(
+    {
+      nodes: [{ id: "X", type: "a:b" }],
+      edges: [],
+      query: {
+        start_state: "s",
+        accept_states: ["yes"],
+        transitions: [
+          { from_state: "s", to_state: "no", kind: "node", types: ["a:b"] },
+          { from_state: "s:a", to_state: "yes", kind: "node", types: ["b"] }
+        ]
+      },
+      include_witnesses: false
+    },
+    {
+      matches: [],
+      match_count: 0n
+    }
+  );
+
+// Colon-containing states and IDs - state "s:a" at node "b" is not state "s" at node "a:b"
+const path_query_colon_product_test = new UnitTestBuilder("path_query_colon_product")
+  .procedure(graph_path_query)
+  .test(
+    {
+      nodes: [
+        { id: "R", type: "root" },
+        { id: "b", type: "leaf" },
+        { id: "a:b", type: "leaf" }
+      ],
+      edges: [
+        { from: "R", to: "b", type: "flow" },
+        { from: "R", to: "a:b", type: "flow" }
+      ],
+      query: {
+        start_state: "q0",
+        accept_states: ["s"],
+        transitions: [
+          { from_state: "q0", to_state: "q1", kind: "node", types: ["root"] },
+          { from_state: "q1", to_state: "q2", kind: "edge", types: ["flow"] },
+          { from_state: "q2", to_state: "s:a", kind: "node", types: ["leaf"] },
+          { from_state: "q2", to_state: "s", kind: "node", types: ["leaf"] }
+        ]
+      },
+      include_witnesses: false
+    },
+    {
+      matches: [
+        { start_id: "R", end_id: "b", length: 1n, witness_nodes: [], witness_edges: [] },
+        { start_id: "R", end_id: "a:b", length: 1n, witness_nodes: [], witness_edges: [] }
+      ],
+      match_count: 2n
+    }
+  );
+
+export default Template(
+  path_query_witness_test,
+  path_query_pairs_only_test,
+  path_query_cycle_test,
+  path_query_empty_test,
+  path_query_colon_moves_test,
+  path_query_colon_product_test
+);
@@ -0,0 +1,45 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_attributed_dfs } from "../traversal/attributed_depth_first";
+
+// Visited nodes returned in depth-first order with their attributes
+const attributed_dfs_basic_test = new UnitTestBuilder("attributed_dfs_basic")
+  .procedure(graph_attributed_dfs)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 4.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { id: "C", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 6.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+        { from: "A", to: "C", type: "flow", attributes: { strings: new Map(), floats: new Map(), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      source_node_id: "A"
+    },
+    [
+      { id: "A", type: "batch", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+      { id: "C", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 6.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } },
+      { id: "B", type: "lot", attributes: { strings: new Map([["location", "Plant 2"]]), floats: new Map([["quantity", 4.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+    ]
+  );
+
+// Unknown start node - no attributed nodes to return
+const attributed_dfs_unknown_source_test = new UnitTestBuilder("attributed_dfs_unknown_source")
+  .procedure(graph_attributed_dfs)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "batch", attributes: { strings: new Map([["location", "Plant 1"]]), floats: new Map([["quantity", 10.0]]), integers: new Map(), datetimes: new Map(), booleans: new Map() } }
+      ],
+      edges: [],
+      source_node_id: "Z"
+    },
+    []
+  );
+
+export default Template(
+  attributed_dfs_basic_test,
+  attributed_dfs_unknown_source_test
+);
@@ -0,0 +1,92 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+
+import { graph_bfs_with_options } from "../traversal/breadth_first_with_options";
+
+// === BFS WITH OPTIONS TESTS ===
+
+/**
+ * Test 1: Options - Backward, Edge Type Filter and Stop Types
+ * Input: Upstream via "transfer" edges, stopping at suppliers | Output: Skips the "test" edge and nodes behind the supplier
+ */
+const bfs_options_backward_stop_test = new UnitTestBuilder("bfs_options_backward_stop")
+  .procedure(graph_bfs_with_options)
+  .test(
+    {
+      nodes: [
+        { id: "S0", type: "farm" },
+        { id: "S1", type: "supplier" },
+        { id: "M", type: "process" },
+        { id: "L", type: "lot" },
+        { id: "Q", type: "lab" }
+      ],
+      edges: [
+        { from: "S0", to: "S1", type: "transfer" },
+        { from: "S1", to: "M", type: "transfer" },
+        { from: "M", to: "L", type: "transfer" },
+        { from: "Q", to: "M", type: "test" }
+      ],
+      source_node_id: "L",
+      options: { direction: "backward", edge_types: ["transfer"], node_types: [], stop_node_types: ["supplier"], max_depth: null }
+    },
+    ["L", "M", "S1"]  // Q: wrong edge type; S0: behind a stop node
+  );
+
+/**
+ * Test 2: Options - Both Directions with Maximum Depth
+ * Input: Neighbours in either direction, max_depth 1 | Output: Direct predecessors and successors only
+ */
+const bfs_options_both_max_depth_test = new UnitTestBuilder("bfs_options_both_max_depth")
+  .procedure(graph_bfs_with_options)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "step" },
+        { id: "B", type: "step" },
+        { id: "C", type: "step" },
+        { id: "D", type: "step" },
+        { id: "X", type: "step" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" },
+        { from: "X", to: "B", type: "feed" }
+      ],
+      source_node_id: "B",
+      options: { direction: "both", edge_types: [], node_types: [], stop_node_types: [], max_depth: 1n }
+    },
+    ["B", "C", "A", "X"]  // Forward edges first, then reversed; D is two hops away
+  );
+
+/**
+ * Test 3: Options - Node Type Filter
+ * Input: Only "step" nodes may be visited | Output: Reaches C around the "check" node
+ */
+const bfs_options_node_types_test = new UnitTestBuilder("bfs_options_node_types")
+  .procedure(graph_bfs_with_options)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "step" },
+        { id: "B", type: "check" },
+        { id: "C", type: "step" },
+        { id: "D", type: "step" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "A", to: "D", type: "flow" },
+        { from: "D", to: "C", type: "flow" }
+      ],
+      source_node_id: "A",
+      options: { direction: "forward", edge_types: [], node_types: ["step"], stop_node_types: [], max_depth: null }
+    },
+    ["A", "D", "C"]
+  );
+
+export default Template(
+  bfs_options_backward_stop_test,
+  bfs_options_both_max_depth_test,
+  bfs_options_node_types_test
+);
\ No newline at end of file
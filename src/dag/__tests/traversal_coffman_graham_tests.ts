@@ -0,0 +1,119 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_coffman_graham_layering } from "../traversal/coffman_graham";
+
+// Four parallel tasks on two workers need an extra layer
+const coffman_graham_fan_out_test = new UnitTestBuilder("coffman_graham_fan_out")
+  .procedure(graph_coffman_graham_layering)
+  .test(
+    {
+      nodes: [
+        { id: "S", type: "start" },
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" },
+        { id: "T", type: "end" }
+      ],
+      edges: [
+        { from: "S", to: "A", type: "flow" },
+        { from: "S", to: "B", type: "flow" },
+        { from: "S", to: "C", type: "flow" },
+        { from: "S", to: "D", type: "flow" },
+        { from: "A", to: "T", type: "flow" },
+        { from: "B", to: "T", type: "flow" },
+        { from: "C", to: "T", type: "flow" },
+        { from: "D", to: "T", type: "flow" }
+      ],
+      max_width: 2n
+    },
+    {
+      nodes: [
+        { id: "S", topo_order: 0n, layer: 0n },
+        { id: "A", topo_order: 1n, layer: 1n },
+        { id: "B", topo_order: 2n, layer: 1n },
+        { id: "C", topo_order: 3n, layer: 2n },
+        { id: "D", topo_order: 4n, layer: 2n },
+        { id: "T", topo_order: 5n, layer: 3n }
+      ],
+      layer_count: 4n,
+      unbounded_layer_count: 3n,
+      added_layers: 1n
+    }
+  );
+
+// C is scheduled before B because its successor E has more work behind it than B's successor F;
+// the redundant edge A→F is ignored and the cap costs no extra layers
+const coffman_graham_labels_test = new UnitTestBuilder("coffman_graham_labels")
+  .procedure(graph_coffman_graham_layering)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" },
+        { id: "E", type: "task" },
+        { id: "F", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "D", type: "flow" },
+        { from: "A", to: "E", type: "flow" },
+        { from: "D", to: "F", type: "flow" },
+        { from: "A", to: "F", type: "flow" },
+        { from: "B", to: "F", type: "flow" },
+        { from: "C", to: "E", type: "flow" }
+      ],
+      max_width: 2n
+    },
+    {
+      nodes: [
+        { id: "A", topo_order: 0n, layer: 0n },
+        { id: "C", topo_order: 1n, layer: 0n },
+        { id: "B", topo_order: 2n, layer: 1n },
+        { id: "D", topo_order: 3n, layer: 1n },
+        { id: "E", topo_order: 4n, layer: 2n },
+        { id: "F", topo_order: 5n, layer: 2n }
+      ],
+      layer_count: 3n,
+      unbounded_layer_count: 3n,
+      added_layers: 0n
+    }
+  );
+
+// A single worker runs the tasks one at a time
+const coffman_graham_single_worker_test = new UnitTestBuilder("coffman_graham_single_worker")
+  .procedure(graph_coffman_graham_layering)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "C", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" }
+      ],
+      max_width: 1n
+    },
+    {
+      nodes: [
+        { id: "A", topo_order: 0n, layer: 0n },
+        { id: "B", topo_order: 1n, layer: 1n },
+        { id: "C", topo_order: 2n, layer: 2n },
+        { id: "D", topo_order: 3n, layer: 3n }
+      ],
+      layer_count: 4n,
+      unbounded_layer_count: 3n,
+      added_layers: 1n
+    }
+  );
+
+export default Template(
+  coffman_graham_fan_out_test,
+  coffman_graham_labels_test,
+  coffman_graham_single_worker_test
+);
@@ -0,0 +1,86 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_dfs_classification } from "../traversal/dfs_classification";
+
+// Every node as a root: tree, back, forward and cross edges with timestamps
+const dfs_classification_all_classes_test = new UnitTestBuilder("dfs_classification_all_classes")
+  .procedure(graph_dfs_classification)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "task" },
+        { id: "B", type: "task" },
+        { id: "C", type: "task" },
+        { id: "D", type: "task" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "depends" },
+        { from: "B", to: "C", type: "depends" },
+        { from: "C", to: "A", type: "depends" },
+        { from: "A", to: "C", type: "depends" },
+        { from: "D", to: "C", type: "depends" }
+      ],
+      source_node_ids: []
+    },
+    {
+      nodes: [
+        { id: "A", type: "task", discovery: 0n, finish: 5n, depth: 0n, parent_id: null, root_id: "A" },
+        { id: "B", type: "task", discovery: 1n, finish: 4n, depth: 1n, parent_id: "A", root_id: "A" },
+        { id: "C", type: "task", discovery: 2n, finish: 3n, depth: 2n, parent_id: "B", root_id: "A" },
+        { id: "D", type: "task", discovery: 6n, finish: 7n, depth: 0n, parent_id: null, root_id: "D" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "depends", classification: "tree" },
+        { from: "B", to: "C", type: "depends", classification: "tree" },
+        { from: "C", to: "A", type: "depends", classification: "back" },
+        { from: "A", to: "C", type: "depends", classification: "forward" },
+        { from: "D", to: "C", type: "depends", classification: "cross" }
+      ],
+      forest_edges: [
+        { from: "A", to: "B", type: "depends" },
+        { from: "B", to: "C", type: "depends" }
+      ],
+      back_edges: [
+        { from: "C", to: "A", type: "depends" }
+      ]
+    }
+  );
+
+// Listed roots: self-loop is a back edge, unexplored and dangling edges are not returned
+const dfs_classification_sources_test = new UnitTestBuilder("dfs_classification_sources")
+  .procedure(graph_dfs_classification)
+  .test(
+    {
+      nodes: [
+        { id: "X", type: "task" },
+        { id: "Y", type: "task" },
+        { id: "Z", type: "task" }
+      ],
+      edges: [
+        { from: "X", to: "X", type: "depends" },
+        { from: "X", to: "Y", type: "depends" },
+        { from: "Z", to: "Y", type: "depends" },
+        { from: "Y", to: "MISSING", type: "depends" }
+      ],
+      source_node_ids: ["Y", "X", "UNKNOWN"]
+    },
+    {
+      nodes: [
+        { id: "Y", type: "task", discovery: 0n, finish: 1n, depth: 0n, parent_id: null, root_id: "Y" },
+        { id: "X", type: "task", discovery: 2n, finish: 3n, depth: 0n, parent_id: null, root_id: "X" }
+      ],
+      edges: [
+        { from: "X", to: "X", type: "depends", classification: "back" },
+        { from: "X", to: "Y", type: "depends", classification: "cross" }
+      ],
+      forest_edges: [],
+      back_edges: [
+        { from: "X", to: "X", type: "depends" }
+      ]
+    }
+  );
+
+export default Template(
+  dfs_classification_all_classes_test,
+  dfs_classification_sources_test
+);
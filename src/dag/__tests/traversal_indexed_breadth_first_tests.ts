@@ -0,0 +1,94 @@
+import { Template, UnitTestBuilder } from "@elaraai/core";
+import { graph_indexed_bfs } from "../traversal/indexed_breadth_first";
+
+// Indexed form of the diamond A→B, A→C, B→D, C→D (as built by graph_build_indexed_graph)
+const diamond_graph = {
+  node_count: 4n,
+  edge_count: 4n,
+  node_ids: ["A", "B", "C", "D"],
+  node_types: ["source", "process", "process", "sink"],
+  node_index: new Map([["A", 0n], ["B", 1n], ["C", 2n], ["D", 3n]]),
+  edge_types: ["flow"],
+  out_offsets: [0n, 2n, 3n, 4n, 4n],
+  out_targets: [1n, 2n, 3n, 3n],
+  out_edge_types: [0n, 0n, 0n, 0n],
+  in_offsets: [0n, 0n, 1n, 2n, 4n],
+  in_sources: [0n, 0n, 1n, 2n],
+  in_edge_types: [0n, 0n, 0n, 0n]
+};
+
+/**
+ * Test 1: Diamond Structure
+ * Input: A→B,C; B→D; C→D | Output: Level-order, D visited once
+ */
+const indexed_bfs_diamond_test = new UnitTestBuilder("indexed_bfs_diamond")
+  .procedure(graph_indexed_bfs)
+  .test(
+    {
+      graph: diamond_graph,
+      source_node_id: "A"
+    },
+    ["A", "B", "C", "D"]
+  );
+
+/**
+ * Test 2: Mid-graph Start
+ * Input: Start at B | Output: Only nodes reachable from B
+ */
+const indexed_bfs_mid_start_test = new UnitTestBuilder("indexed_bfs_mid_start")
+  .procedure(graph_indexed_bfs)
+  .test(
+    {
+      graph: diamond_graph,
+      source_node_id: "B"
+    },
+    ["B", "D"]
+  );
+
+/**
+ * Test 3: Cycle
+ * Input: A→B→A | Output: Each node visited once
+ */
+const indexed_bfs_cycle_test = new UnitTestBuilder("indexed_bfs_cycle")
+  .procedure(graph_indexed_bfs)
+  .test(
+    {
+      graph: {
+        node_count: 2n,
+        edge_count: 2n,
+        node_ids: ["A", "B"],
+        node_types: ["state", "state"],
+        node_index: new Map([["A", 0n], ["B", 1n]]),
+        edge_types: ["next"],
+        out_offsets: [0n, 1n, 2n],
+        out_targets: [1n, 0n],
+        out_edge_types: [0n, 0n],
+        in_offsets: [0n, 1n, 2n],
+        in_sources: [1n, 0n],
+        in_edge_types: [0n, 0n]
+      },
+      source_node_id: "A"
+    },
+    ["A", "B"]
+  );
+
+/**
+ * Test 4: Invalid Start Node
+ * Input: Start node not in indexed graph | Output: Empty result
+ */
+const indexed_bfs_invalid_start_test = new UnitTestBuilder("indexed_bfs_invalid_start")
+  .procedure(graph_indexed_bfs)
+  .test(
+    {
+      graph: diamond_graph,
+      source_node_id: "NONEXISTENT"
+    },
+    []
+  );
+
+export default Template(
+  indexed_bfs_diamond_test,
+  indexed_bfs_mid_start_test,
+  indexed_bfs_cycle_test,
+  indexed_bfs_invalid_start_test
+);
@@ -0,0 +1,66 @@
+import { Template, UnitTestBuilder } from "@elaraai/core";
+import { graph_indexed_dfs } from "../traversal/indexed_depth_first";
+
+// Indexed form of the diamond A→B, A→C, B→D, C→D (as built by graph_build_indexed_graph)
+const diamond_graph = {
+  node_count: 4n,
+  edge_count: 4n,
+  node_ids: ["A", "B", "C", "D"],
+  node_types: ["source", "process", "process", "sink"],
+  node_index: new Map([["A", 0n], ["B", 1n], ["C", 2n], ["D", 3n]]),
+  edge_types: ["flow"],
+  out_offsets: [0n, 2n, 3n, 4n, 4n],
+  out_targets: [1n, 2n, 3n, 3n],
+  out_edge_types: [0n, 0n, 0n, 0n],
+  in_offsets: [0n, 0n, 1n, 2n, 4n],
+  in_sources: [0n, 0n, 1n, 2n],
+  in_edge_types: [0n, 0n, 0n, 0n]
+};
+
+/**
+ * Test 1: Diamond Structure
+ * Input: A→B,C; B→D; C→D | Output: Last pushed neighbor (C) explored first
+ */
+const indexed_dfs_diamond_test = new UnitTestBuilder("indexed_dfs_diamond")
+  .procedure(graph_indexed_dfs)
+  .test(
+    {
+      graph: diamond_graph,
+      source_node_id: "A"
+    },
+    ["A", "C", "D", "B"]
+  );
+
+/**
+ * Test 2: Leaf Start
+ * Input: Start at D (no outgoing edges) | Output: Single node
+ */
+const indexed_dfs_leaf_start_test = new UnitTestBuilder("indexed_dfs_leaf_start")
+  .procedure(graph_indexed_dfs)
+  .test(
+    {
+      graph: diamond_graph,
+      source_node_id: "D"
+    },
+    ["D"]
+  );
+
+/**
+ * Test 3: Invalid Start Node
+ * Input: Start node not in indexed graph | Output: Empty result
+ */
+const indexed_dfs_invalid_start_test = new UnitTestBuilder("indexed_dfs_invalid_start")
+  .procedure(graph_indexed_dfs)
+  .test(
+    {
+      graph: diamond_graph,
+      source_node_id: "NONEXISTENT"
+    },
+    []
+  );
+
+export default Template(
+  indexed_dfs_diamond_test,
+  indexed_dfs_leaf_start_test,
+  indexed_dfs_invalid_start_test
+);
@@ -0,0 +1,103 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_lowest_common_ancestors } from "../traversal/lowest_common_ancestors";
+
+const batch_nodes = [
+  { id: "R", type: "batch" },
+  { id: "A", type: "mix" },
+  { id: "B", type: "mix" },
+  { id: "C", type: "lot" },
+  { id: "D", type: "lot" },
+  { id: "E", type: "lot" }
+];
+
+const batch_edges = [
+  { from: "R", to: "A", type: "feeds" },
+  { from: "R", to: "B", type: "feeds" },
+  { from: "A", to: "C", type: "feeds" },
+  { from: "A", to: "D", type: "feeds" },
+  { from: "B", to: "D", type: "feeds" },
+  { from: "B", to: "E", type: "feeds" }
+];
+
+// Pairs and a triple over a two-level batch genealogy; A is its own ancestor in [A, C]
+const lowest_common_ancestors_pairs_test = new UnitTestBuilder("lowest_common_ancestors_pairs")
+  .procedure(graph_lowest_common_ancestors)
+  .test(
+    {
+      nodes: batch_nodes,
+      edges: batch_edges,
+      queries: [["C", "D"], ["D", "E"], ["C", "E"], ["A", "C"], ["C", "D", "E"]],
+      ancestor_types: []
+    },
+    [
+      { node_ids: ["C", "D"], ancestors: [{ id: "A", type: "mix", distances: [1n, 1n] }] },
+      { node_ids: ["D", "E"], ancestors: [{ id: "B", type: "mix", distances: [1n, 1n] }] },
+      { node_ids: ["C", "E"], ancestors: [{ id: "R", type: "batch", distances: [2n, 2n] }] },
+      { node_ids: ["A", "C"], ancestors: [{ id: "A", type: "mix", distances: [0n, 1n] }] },
+      { node_ids: ["C", "D", "E"], ancestors: [{ id: "R", type: "batch", distances: [2n, 2n, 2n] }] }
+    ]
+  );
+
+const supplier_nodes = [
+  { id: "S", type: "region" },
+  { id: "P", type: "supplier" },
+  { id: "Q", type: "supplier" },
+  { id: "M", type: "lot" },
+  { id: "N", type: "lot" }
+];
+
+const supplier_edges = [
+  { from: "S", to: "P", type: "supplies" },
+  { from: "S", to: "Q", type: "supplies" },
+  { from: "P", to: "M", type: "supplies" },
+  { from: "P", to: "N", type: "supplies" },
+  { from: "Q", to: "M", type: "supplies" },
+  { from: "Q", to: "N", type: "supplies" }
+];
+
+// Criss-cross suppliers give two lowest common ancestors; unknown and empty queries give none
+const lowest_common_ancestors_multiple_test = new UnitTestBuilder("lowest_common_ancestors_multiple")
+  .procedure(graph_lowest_common_ancestors)
+  .test(
+    {
+      nodes: supplier_nodes,
+      edges: supplier_edges,
+      queries: [["M", "N"], ["N"], ["M", "X"], []],
+      ancestor_types: []
+    },
+    [
+      {
+        node_ids: ["M", "N"],
+        ancestors: [
+          { id: "P", type: "supplier", distances: [1n, 1n] },
+          { id: "Q", type: "supplier", distances: [1n, 1n] }
+        ]
+      },
+      { node_ids: ["N"], ancestors: [{ id: "N", type: "lot", distances: [0n] }] },
+      { node_ids: ["M", "X"], ancestors: [] },
+      { node_ids: [], ancestors: [] }
+    ]
+  );
+
+// Restricting ancestors to regions skips the suppliers
+const lowest_common_ancestors_types_test = new UnitTestBuilder("lowest_common_ancestors_types")
+  .procedure(graph_lowest_common_ancestors)
+  .test(
+    {
+      nodes: supplier_nodes,
+      edges: supplier_edges,
+      queries: [["M", "N"], ["P", "M"]],
+      ancestor_types: ["region"]
+    },
+    [
+      { node_ids: ["M", "N"], ancestors: [{ id: "S", type: "region", distances: [2n, 2n] }] },
+      { node_ids: ["P", "M"], ancestors: [{ id: "S", type: "region", distances: [1n, 2n] }] }
+    ]
+  );
+
+export default Template(
+  lowest_common_ancestors_pairs_test,
+  lowest_common_ancestors_multiple_test,
+  lowest_common_ancestors_types_test
+);
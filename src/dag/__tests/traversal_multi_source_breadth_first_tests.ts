@@ -0,0 +1,97 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+import { graph_multi_source_bfs } from "../traversal/multi_source_breadth_first";
+
+// Sources by type: each node labelled with its nearest raw material
+const multi_source_bfs_source_type_test = new UnitTestBuilder("multi_source_bfs_source_type")
+  .procedure(graph_multi_source_bfs)
+  .test(
+    {
+      nodes: [
+        { id: "R1", type: "raw_material" },
+        { id: "R2", type: "raw_material" },
+        { id: "A", type: "process" },
+        { id: "B", type: "process" },
+        { id: "C", type: "product" },
+        { id: "D", type: "process" }
+      ],
+      edges: [
+        { from: "R1", to: "A", type: "flow" },
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "R2", to: "D", type: "flow" },
+        { from: "D", to: "C", type: "flow" }
+      ],
+      source_node_ids: [],
+      source_node_type: "raw_material",
+      direction: "forward"
+    },
+    [
+      { id: "R1", type: "raw_material", distance: 0n, nearest_source: "R1", parent_id: null },
+      { id: "R2", type: "raw_material", distance: 0n, nearest_source: "R2", parent_id: null },
+      { id: "A", type: "process", distance: 1n, nearest_source: "R1", parent_id: "R1" },
+      { id: "D", type: "process", distance: 1n, nearest_source: "R2", parent_id: "R2" },
+      { id: "B", type: "process", distance: 2n, nearest_source: "R1", parent_id: "A" },
+      { id: "C", type: "product", distance: 2n, nearest_source: "R2", parent_id: "D" }
+    ]
+  );
+
+// Backward from listed IDs; unknown source IDs are ignored
+const multi_source_bfs_backward_test = new UnitTestBuilder("multi_source_bfs_backward")
+  .procedure(graph_multi_source_bfs)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "step" },
+        { id: "B", type: "step" },
+        { id: "C", type: "step" },
+        { id: "D", type: "step" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "D", to: "C", type: "flow" }
+      ],
+      source_node_ids: ["C", "MISSING"],
+      source_node_type: null,
+      direction: "backward"
+    },
+    [
+      { id: "C", type: "step", distance: 0n, nearest_source: "C", parent_id: null },
+      { id: "B", type: "step", distance: 1n, nearest_source: "C", parent_id: "C" },
+      { id: "D", type: "step", distance: 1n, nearest_source: "C", parent_id: "C" },
+      { id: "A", type: "step", distance: 2n, nearest_source: "C", parent_id: "B" }
+    ]
+  );
+
+// Equally near sources: listed IDs come before sources found by type, and win the tie
+const multi_source_bfs_tie_test = new UnitTestBuilder("multi_source_bfs_tie")
+  .procedure(graph_multi_source_bfs)
+  .test(
+    {
+      nodes: [
+        { id: "S1", type: "depot" },
+        { id: "S2", type: "depot" },
+        { id: "X", type: "site" },
+        { id: "Y", type: "site" }
+      ],
+      edges: [
+        { from: "S1", to: "X", type: "route" },
+        { from: "S2", to: "X", type: "route" }
+      ],
+      source_node_ids: ["S2"],
+      source_node_type: "depot",
+      direction: "forward"
+    },
+    [
+      { id: "S2", type: "depot", distance: 0n, nearest_source: "S2", parent_id: null },
+      { id: "S1", type: "depot", distance: 0n, nearest_source: "S1", parent_id: null },
+      { id: "X", type: "site", distance: 1n, nearest_source: "S2", parent_id: "S2" }
+    ]
+  );
+
+export default Template(
+  multi_source_bfs_source_type_test,
+  multi_source_bfs_backward_test,
+  multi_source_bfs_tie_test
+);
@@ -0,0 +1,194 @@
+import { UnitTestBuilder } from "@elaraai/core";
+import { Template } from "@elaraai/core";
+
+import { graph_topological_sort_report } from "../traversal/topological_sort_report";
+
+// === TOPOLOGICAL SORT REPORT TESTS ===
+
+// Basic topological sort test
+const topo_sort_report_basic_test = new UnitTestBuilder("topo_sort_report_basic")
+  .procedure(graph_topological_sort_report)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "start" },
+        { id: "B", type: "middle" },
+        { id: "C", type: "middle" },
+        { id: "D", type: "end" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "A", to: "C", type: "flow" },
+        { from: "B", to: "D", type: "process" },
+        { from: "C", to: "D", type: "process" }
+      ],
+      tie_break: "input",
+      type_priority: [],
+      priorities: new Map()
+    },
+    {
+      order: [
+        { id: "A", topo_order: 0n, layer: 0n },
+        { id: "B", topo_order: 1n, layer: 1n },
+        { id: "C", topo_order: 2n, layer: 1n },
+        { id: "D", topo_order: 3n, layer: 2n }
+      ],
+      unordered: [],
+      cycle: []
+    }
+  );
+
+// Topological sort with multiple roots
+const topo_sort_report_multiple_roots_test = new UnitTestBuilder("topo_sort_report_multiple_roots")
+  .procedure(graph_topological_sort_report)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "root1" },
+        { id: "B", type: "root2" },
+        { id: "C", type: "merge" }
+      ],
+      edges: [
+        { from: "A", to: "C", type: "transfer" },
+        { from: "B", to: "C", type: "transfer" }
+      ],
+      tie_break: "input",
+      type_priority: [],
+      priorities: new Map()
+    },
+    {
+      order: [
+        { id: "A", topo_order: 0n, layer: 0n },
+        { id: "B", topo_order: 1n, layer: 0n },
+        { id: "C", topo_order: 2n, layer: 1n }
+      ],
+      unordered: [],
+      cycle: []
+    }
+  );
+
+// B→C→D→B cannot be ordered, and X is blocked behind it; T is still ordered
+const topo_sort_report_cycle_test = new UnitTestBuilder("topo_sort_report_cycle")
+  .procedure(graph_topological_sort_report)
+  .test(
+    {
+      nodes: [
+        { id: "S", type: "start" },
+        { id: "B", type: "step" },
+        { id: "C", type: "step" },
+        { id: "D", type: "step" },
+        { id: "X", type: "end" },
+        { id: "T", type: "end" }
+      ],
+      edges: [
+        { from: "S", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" },
+        { from: "D", to: "B", type: "rework" },
+        { from: "D", to: "X", type: "flow" },
+        { from: "S", to: "T", type: "flow" }
+      ],
+      tie_break: "input",
+      type_priority: [],
+      priorities: new Map()
+    },
+    {
+      order: [
+        { id: "S", topo_order: 0n, layer: 0n },
+        { id: "T", topo_order: 1n, layer: 1n }
+      ],
+      unordered: ["B", "C", "D", "X"],
+      cycle: ["B", "C", "D"]
+    }
+  );
+
+const tie_break_nodes = [
+  { id: "Z", type: "task" },
+  { id: "A", type: "review" },
+  { id: "M", type: "task" },
+  { id: "E", type: "end" }
+];
+
+const tie_break_edges = [
+  { from: "Z", to: "E", type: "flow" },
+  { from: "A", to: "E", type: "flow" },
+  { from: "M", to: "E", type: "flow" }
+];
+
+// Layer 0 ordered by node ID instead of input order
+const topo_sort_report_lexicographic_test = new UnitTestBuilder("topo_sort_report_lexicographic")
+  .procedure(graph_topological_sort_report)
+  .test(
+    {
+      nodes: tie_break_nodes,
+      edges: tie_break_edges,
+      tie_break: "lexicographic",
+      type_priority: [],
+      priorities: new Map()
+    },
+    {
+      order: [
+        { id: "A", topo_order: 0n, layer: 0n },
+        { id: "M", topo_order: 1n, layer: 0n },
+        { id: "Z", topo_order: 2n, layer: 0n },
+        { id: "E", topo_order: 3n, layer: 1n }
+      ],
+      unordered: [],
+      cycle: []
+    }
+  );
+
+// Tasks before reviews; the two tasks fall back to node ID order
+const topo_sort_report_type_priority_test = new UnitTestBuilder("topo_sort_report_type_priority")
+  .procedure(graph_topological_sort_report)
+  .test(
+    {
+      nodes: tie_break_nodes,
+      edges: tie_break_edges,
+      tie_break: "type_priority",
+      type_priority: ["task", "review"],
+      priorities: new Map()
+    },
+    {
+      order: [
+        { id: "M", topo_order: 0n, layer: 0n },
+        { id: "Z", topo_order: 1n, layer: 0n },
+        { id: "A", topo_order: 2n, layer: 0n },
+        { id: "E", topo_order: 3n, layer: 1n }
+      ],
+      unordered: [],
+      cycle: []
+    }
+  );
+
+// Lowest priority value first; M has no priority and comes last in its layer
+const topo_sort_report_numeric_priority_test = new UnitTestBuilder("topo_sort_report_numeric_priority")
+  .procedure(graph_topological_sort_report)
+  .test(
+    {
+      nodes: tie_break_nodes,
+      edges: tie_break_edges,
+      tie_break: "numeric_priority",
+      type_priority: [],
+      priorities: new Map([["Z", 1.0], ["A", 2.5]])
+    },
+    {
+      order: [
+        { id: "Z", topo_order: 0n, layer: 0n },
+        { id: "A", topo_order: 1n, layer: 0n },
+        { id: "M", topo_order: 2n, layer: 0n },
+        { id: "E", topo_order: 3n, layer: 1n }
+      ],
+      unordered: [],
+      cycle: []
+    }
+  );
+
+export default Template(
+  topo_sort_report_basic_test,
+  topo_sort_report_multiple_roots_test,
+  topo_sort_report_cycle_test,
+  topo_sort_report_lexicographic_test,
+  topo_sort_report_type_priority_test,
+  topo_sort_report_numeric_priority_test
+);
\ No newline at end of file
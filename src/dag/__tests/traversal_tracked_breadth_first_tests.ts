@@ -19,7 +19,8 @@ const tracked_bfs_linear_test = new UnitTestBuilder("tracked_bfs_linear")
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -49,7 +50,8 @@ const tracked_bfs_diamond_test = new UnitTestBuilder("tracked_bfs_diamond")
         { from: "C", to: "D", type: "merge" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "source", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -83,7 +85,8 @@ const tracked_bfs_tree_test = new UnitTestBuilder("tracked_bfs_tree")
         { from: "C", to: "F", type: "child" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "root", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -115,7 +118,8 @@ const tracked_bfs_multi_edges_test = new UnitTestBuilder("tracked_bfs_multi_edge
         { from: "B", to: "C", type: "output" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "source", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -137,7 +141,8 @@ const tracked_bfs_single_node_test = new UnitTestBuilder("tracked_bfs_single_nod
       ],
       edges: [],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "isolated", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null }
@@ -163,7 +168,8 @@ const tracked_bfs_self_loop_test = new UnitTestBuilder("tracked_bfs_self_loop")
         { from: "B", to: "C", type: "continue" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "recursive", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -194,7 +200,8 @@ const tracked_bfs_manufacturing_test = new UnitTestBuilder("tracked_bfs_manufact
         { from: "packaging", to: "final_product", type: "packaged_goods" }
       ],
       source_node_id: "raw_material",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "raw_material", type: "input", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -224,7 +231,8 @@ const tracked_bfs_disconnected_test = new UnitTestBuilder("tracked_bfs_disconnec
         { from: "X", to: "Y", type: "internal" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "component1", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -243,7 +251,8 @@ const tracked_bfs_empty_test = new UnitTestBuilder("tracked_bfs_empty")
       nodes: [],
       edges: [],
       source_node_id: "nonexistent",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     []
   );
@@ -270,7 +279,8 @@ const tracked_bfs_wide_test = new UnitTestBuilder("tracked_bfs_wide")
         { from: "A", to: "E", type: "distribute" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "hub", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -301,7 +311,8 @@ const tracked_bfs_cycle_test = new UnitTestBuilder("tracked_bfs_cycle")
         { from: "C", to: "A", type: "back_edge" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "cycle_node", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -335,7 +346,8 @@ const tracked_bfs_complex_cycles_test = new UnitTestBuilder("tracked_bfs_complex
         { from: "C", to: "A", type: "return" }  // Back to start
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "hub", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -362,7 +374,8 @@ const tracked_bfs_invalid_start_test = new UnitTestBuilder("tracked_bfs_invalid_
         { from: "A", to: "B", type: "connection" }
       ],
       source_node_id: "NONEXISTENT",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     []  // Should return empty, not crash
   );
@@ -385,7 +398,8 @@ const tracked_bfs_duplicate_edges_test = new UnitTestBuilder("tracked_bfs_duplic
         { from: "A", to: "B", type: "secondary" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "source", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -412,7 +426,8 @@ const tracked_bfs_dangling_edges_test = new UnitTestBuilder("tracked_bfs_danglin
         { from: "VOID", to: "NULL", type: "both_missing" } // Both missing
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "valid", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -454,7 +469,8 @@ const tracked_bfs_large_fanout_test = new UnitTestBuilder("tracked_bfs_large_fan
         { from: "root", to: "child_10", type: "distribute" }
       ],
       source_node_id: "root",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "root", type: "distributor", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -489,7 +505,8 @@ const tracked_bfs_limit_zero_test = new UnitTestBuilder("tracked_bfs_limit_zero"
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: 0n
+      limit: 0n,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null }
@@ -514,7 +531,8 @@ const tracked_bfs_limit_one_test = new UnitTestBuilder("tracked_bfs_limit_one")
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: 1n
+      limit: 1n,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -546,7 +564,8 @@ const tracked_bfs_limit_tree_test = new UnitTestBuilder("tracked_bfs_limit_tree"
         { from: "C", to: "F", type: "child" }
       ],
       source_node_id: "A",
-      limit: 1n
+      limit: 1n,
+      adjacency: null
     },
     [
       { id: "A", type: "root", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -573,7 +592,8 @@ const tracked_bfs_limit_large_test = new UnitTestBuilder("tracked_bfs_limit_larg
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: 999n
+      limit: 999n,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -582,6 +602,48 @@ const tracked_bfs_limit_large_test = new UnitTestBuilder("tracked_bfs_limit_larg
     ]
   );
 
+/**
+ * Prebuilt Multigraph Adjacency
+ * Input: Adjacency from graph_build_multigraph_adjacency, no edges | Output: Parallel edge types in parent_edge_types
+ */
+const tracked_bfs_prebuilt_adjacency_test = new UnitTestBuilder("tracked_bfs_prebuilt_adjacency")
+  .procedure(graph_tracked_bfs)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "vessel" },
+        { id: "B", type: "vessel" },
+        { id: "C", type: "filter" }
+      ],
+      edges: [], // Not rescanned when adjacency is supplied
+      source_node_id: "A",
+      limit: null,
+      adjacency: {
+        adjacency_list: new Map([
+          ["A", ["B"]],
+          ["B", ["C"]]
+        ]),
+        reverse_adjacency_list: new Map([
+          ["B", ["A"]],
+          ["C", ["B"]]
+        ]),
+        edge_groups: new Map([
+          ["A", new Map([
+            ["B", { edge_types: ["transfer", "transfer", "sample"], edge_indices: [0n, 1n, 2n], type_counts: new Map([["sample", 1n], ["transfer", 2n]]), count: 3n }]
+          ])],
+          ["B", new Map([
+            ["C", { edge_types: ["transfer"], edge_indices: [3n], type_counts: new Map([["transfer", 1n]]), count: 1n }]
+          ])]
+        ])
+      }
+    },
+    [
+      { id: "A", type: "vessel", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
+      { id: "B", type: "vessel", visited_order: 1n, depth: 1n, parent_edge_types: ["transfer", "transfer", "sample"], parent_id: "A", parent_type: "vessel" },
+      { id: "C", type: "filter", visited_order: 2n, depth: 2n, parent_edge_types: ["transfer"], parent_id: "B", parent_type: "vessel" }
+    ]
+  );
+
 export default Template(
   tracked_bfs_linear_test,
   tracked_bfs_diamond_test,
@@ -602,5 +664,6 @@ export default Template(
   tracked_bfs_limit_zero_test,
   tracked_bfs_limit_one_test,
   tracked_bfs_limit_tree_test,
-  tracked_bfs_limit_large_test
+  tracked_bfs_limit_large_test,
+  tracked_bfs_prebuilt_adjacency_test
 );
\ No newline at end of file
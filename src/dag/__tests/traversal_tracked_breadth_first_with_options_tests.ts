@@ -0,0 +1,74 @@
+import { Template, UnitTestBuilder } from "@elaraai/core";
+import { graph_tracked_bfs_with_options } from "../traversal/tracked_breadth_first_with_options";
+
+/**
+ * Traversal Options - Backward, Edge Type Filter and Stop Types
+ * Input: Upstream via "transfer" edges, stopping at suppliers | Output: Parents follow the reversed edges
+ */
+const tracked_bfs_options_backward_stop_test = new UnitTestBuilder("tracked_bfs_options_backward_stop")
+  .procedure(graph_tracked_bfs_with_options)
+  .test(
+    {
+      nodes: [
+        { id: "S0", type: "farm" },
+        { id: "S1", type: "supplier" },
+        { id: "M", type: "process" },
+        { id: "L", type: "lot" },
+        { id: "Q", type: "lab" }
+      ],
+      edges: [
+        { from: "S0", to: "S1", type: "transfer" },
+        { from: "S1", to: "M", type: "transfer" },
+        { from: "M", to: "L", type: "transfer" },
+        { from: "Q", to: "M", type: "test" }
+      ],
+      source_node_id: "L",
+      limit: null,
+      adjacency: null,
+      options: { direction: "backward", edge_types: ["transfer"], node_types: [], stop_node_types: ["supplier"], max_depth: null }
+    },
+    [
+      { id: "L", type: "lot", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
+      { id: "M", type: "process", visited_order: 1n, depth: 1n, parent_edge_types: ["transfer"], parent_id: "L", parent_type: "lot" },
+      { id: "S1", type: "supplier", visited_order: 2n, depth: 2n, parent_edge_types: ["transfer"], parent_id: "M", parent_type: "process" }
+    ]
+  );
+
+/**
+ * Traversal Options - Both Directions with Maximum Depth
+ * Input: Neighbours in either direction, max_depth 1 | Output: Direct predecessors and successors only
+ */
+const tracked_bfs_options_both_max_depth_test = new UnitTestBuilder("tracked_bfs_options_both_max_depth")
+  .procedure(graph_tracked_bfs_with_options)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "step" },
+        { id: "B", type: "step" },
+        { id: "C", type: "step" },
+        { id: "D", type: "step" },
+        { id: "X", type: "step" }
+      ],
+      edges: [
+        { from: "A", to: "B", type: "flow" },
+        { from: "B", to: "C", type: "flow" },
+        { from: "C", to: "D", type: "flow" },
+        { from: "X", to: "B", type: "feed" }
+      ],
+      source_node_id: "B",
+      limit: null,
+      adjacency: null,
+      options: { direction: "both", edge_types: [], node_types: [], stop_node_types: [], max_depth: 1n }
+    },
+    [
+      { id: "B", type: "step", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
+      { id: "C", type: "step", visited_order: 1n, depth: 1n, parent_edge_types: ["flow"], parent_id: "B", parent_type: "step" },
+      { id: "A", type: "step", visited_order: 2n, depth: 1n, parent_edge_types: ["flow"], parent_id: "B", parent_type: "step" },
+      { id: "X", type: "step", visited_order: 3n, depth: 1n, parent_edge_types: ["feed"], parent_id: "B", parent_type: "step" }
+    ]
+  );
+
+export default Template(
+  tracked_bfs_options_backward_stop_test,
+  tracked_bfs_options_both_max_depth_test
+);
\ No newline at end of file
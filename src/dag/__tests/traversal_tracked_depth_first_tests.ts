@@ -19,7 +19,8 @@ const tracked_dfs_linear_test = new UnitTestBuilder("tracked_dfs_linear")
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -49,7 +50,8 @@ const tracked_dfs_diamond_test = new UnitTestBuilder("tracked_dfs_diamond")
         { from: "C", to: "D", type: "merge" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "source", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -83,7 +85,8 @@ const tracked_dfs_tree_test = new UnitTestBuilder("tracked_dfs_tree")
         { from: "C", to: "F", type: "child" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "root", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -115,7 +118,8 @@ const tracked_dfs_multi_edges_test = new UnitTestBuilder("tracked_dfs_multi_edge
         { from: "B", to: "C", type: "output" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "source", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -137,7 +141,8 @@ const tracked_dfs_single_node_test = new UnitTestBuilder("tracked_dfs_single_nod
       ],
       edges: [],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "isolated", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null }
@@ -163,7 +168,8 @@ const tracked_dfs_self_loop_test = new UnitTestBuilder("tracked_dfs_self_loop")
         { from: "B", to: "C", type: "continue" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "recursive", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -194,7 +200,8 @@ const tracked_dfs_manufacturing_test = new UnitTestBuilder("tracked_dfs_manufact
         { from: "packaging", to: "final_product", type: "packaged_goods" }
       ],
       source_node_id: "raw_material",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "raw_material", type: "input", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -224,7 +231,8 @@ const tracked_dfs_disconnected_test = new UnitTestBuilder("tracked_dfs_disconnec
         { from: "X", to: "Y", type: "internal" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "component1", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -243,7 +251,8 @@ const tracked_dfs_empty_test = new UnitTestBuilder("tracked_dfs_empty")
       nodes: [],
       edges: [],
       source_node_id: "nonexistent",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     []
   );
@@ -270,7 +279,8 @@ const tracked_dfs_deep_vs_wide_test = new UnitTestBuilder("tracked_dfs_deep_vs_w
         { from: "A", to: "E", type: "wide" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -302,7 +312,8 @@ const tracked_dfs_cycle_test = new UnitTestBuilder("tracked_dfs_cycle")
         { from: "B", to: "D", type: "exit" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "cycle_start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -332,7 +343,8 @@ const tracked_dfs_lifo_order_test = new UnitTestBuilder("tracked_dfs_lifo_order"
         { from: "A", to: "D", type: "third" }
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "hub", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -358,7 +370,8 @@ const tracked_dfs_invalid_start_test = new UnitTestBuilder("tracked_dfs_invalid_
         { from: "A", to: "B", type: "connection" }
       ],
       source_node_id: "NONEXISTENT",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     []  // Should return empty, not crash
   );
@@ -382,7 +395,8 @@ const tracked_dfs_dangling_edges_test = new UnitTestBuilder("tracked_dfs_danglin
         { from: "VOID", to: "NULL", type: "both_missing" } // Both missing
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "valid", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -416,7 +430,8 @@ const tracked_dfs_complex_cycles_test = new UnitTestBuilder("tracked_dfs_complex
         { from: "C", to: "A", type: "return" }  // Back to start
       ],
       source_node_id: "A",
-      limit: null
+      limit: null,
+      adjacency: null
     },
     [
       { id: "A", type: "hub", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -445,7 +460,8 @@ const tracked_dfs_limit_zero_test = new UnitTestBuilder("tracked_dfs_limit_zero"
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: 0n
+      limit: 0n,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null }
@@ -470,7 +486,8 @@ const tracked_dfs_limit_one_test = new UnitTestBuilder("tracked_dfs_limit_one")
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: 1n
+      limit: 1n,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -502,7 +519,8 @@ const tracked_dfs_limit_tree_test = new UnitTestBuilder("tracked_dfs_limit_tree"
         { from: "C", to: "F", type: "child" }
       ],
       source_node_id: "A",
-      limit: 1n
+      limit: 1n,
+      adjacency: null
     },
     [
       { id: "A", type: "root", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -529,7 +547,8 @@ const tracked_dfs_limit_large_test = new UnitTestBuilder("tracked_dfs_limit_larg
         { from: "B", to: "C", type: "process" }
       ],
       source_node_id: "A",
-      limit: 999n
+      limit: 999n,
+      adjacency: null
     },
     [
       { id: "A", type: "start", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
@@ -538,6 +557,48 @@ const tracked_dfs_limit_large_test = new UnitTestBuilder("tracked_dfs_limit_larg
     ]
   );
 
+/**
+ * Prebuilt Multigraph Adjacency
+ * Input: Adjacency from graph_build_multigraph_adjacency, no edges | Output: Parallel edge types in parent_edge_types
+ */
+const tracked_dfs_prebuilt_adjacency_test = new UnitTestBuilder("tracked_dfs_prebuilt_adjacency")
+  .procedure(graph_tracked_dfs)
+  .test(
+    {
+      nodes: [
+        { id: "A", type: "vessel" },
+        { id: "B", type: "vessel" },
+        { id: "C", type: "filter" }
+      ],
+      edges: [], // Not rescanned when adjacency is supplied
+      source_node_id: "A",
+      limit: null,
+      adjacency: {
+        adjacency_list: new Map([
+          ["A", ["B"]],
+          ["B", ["C"]]
+        ]),
+        reverse_adjacency_list: new Map([
+          ["B", ["A"]],
+          ["C", ["B"]]
+        ]),
+        edge_groups: new Map([
+          ["A", new Map([
+            ["B", { edge_types: ["transfer", "transfer", "sample"], edge_indices: [0n, 1n, 2n], type_counts: new Map([["sample", 1n], ["transfer", 2n]]), count: 3n }]
+          ])],
+          ["B", new Map([
+            ["C", { edge_types: ["transfer"], edge_indices: [3n], type_counts: new Map([["transfer", 1n]]), count: 1n }]
+          ])]
+        ])
+      }
+    },
+    [
+      { id: "A", type: "vessel", visited_order: 0n, depth: 0n, parent_edge_types: [], parent_id: null, parent_type: null },
+      { id: "B", type: "vessel", visited_order: 1n, depth: 1n, parent_edge_types: ["transfer", "transfer", "sample"], parent_id: "A", parent_type: "vessel" },
+      { id: "C", type: "filter", visited_order: 2n, depth: 2n, parent_edge_types: ["transfer"], parent_id: "B", parent_type: "vessel" }
+    ]
+  );
+
 export default Template(
   tracked_dfs_linear_test,
   tracked_dfs_diamond_test,
@@ -557,5 +618,6 @@ export default Template(
   tracked_dfs_limit_zero_test,
   tracked_dfs_limit_one_test,
   tracked_dfs_limit_tree_test,
-  tracked_dfs_limit_large_test
+  tracked_dfs_limit_large_test,
+  tracked_dfs_prebuilt_adjacency_test
 );
\ No newline at end of file
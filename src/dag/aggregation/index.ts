@@ -3,4 +3,5 @@ export { graph_top_down_aggregation } from "./top_down";
 export { graph_weighted_aggregation } from "./weighted";
 export { graph_group_value_rollup } from "./group_values";
 export { graph_temporal_bottom_up_aggregation } from "./temporal_bottom_up";
-export { graph_temporal_top_down_aggregation } from "./temporal_top_down";
\ No newline at end of file
+export { graph_temporal_top_down_aggregation } from "./temporal_top_down";
+export { graph_indexed_bottom_up_aggregation } from "./indexed_bottom_up";
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, FloatType, IntegerType, StringType } from "@elaraai/core";
+
+import {
+  GraphAggregationNode,
+  GraphIndexedGraph,
+  GraphValueNode,
+} from "../types";
+
+/**
+ * Indexed bottom-up aggregation - aggregates node values upward over a prebuilt integer-indexed (CSR) graph
+ *
+ * Same result as `graph_bottom_up_aggregation`, but reads dependencies directly from the CSR
+ * arrays produced by `graph_build_indexed_graph`. Node values are supplied separately so the
+ * same indexed graph can be reused for many value sets.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:           Node Values:          Result:
+ *     A ──┐                A: 10                A: 18 (10+5+3)
+ *         ├──→ B            B: 5                 B: 5 (just B)
+ *         └──→ C            C: 3                 C: 3 (just C)
+ * ```
+ *
+ * **Notes:**
+ * - Parallel edges between the same pair of nodes contribute the child only once
+ * - Indexed nodes without a value entry contribute 0.0
+ * - Value nodes not in the indexed graph, and nodes on cycles, aggregate only their own value
+ * - Results are returned in the order of the input value nodes
+ *
+ * **Use Cases:**
+ * - Scenario analysis: "Roll up cost, volume and effort over the same graph without rebuilding it"
+ *
+ * **Algorithm:** Reverse Kahn's algorithm over CSR out-degrees: leaves are processed first and
+ * each parent is aggregated once all of its children are done.
+ *
+ * **Complexity:** O(V + E) for the traversal plus the size of the contributing node lists
+ *
+ * @param graph Indexed graph built by graph_build_indexed_graph
+ * @param nodes Array of value nodes with id and numeric value
+ * @returns Array of aggregation results with total value and contributing nodes for each input node
+ */
+export const graph_indexed_bottom_up_aggregation = new Procedure("graph_indexed_bottom_up_aggregation")
+  .input("graph", GraphIndexedGraph)
+  .input("nodes", ArrayType(GraphValueNode))
+  .output(ArrayType(GraphAggregationNode))
+  .body(($, { graph, nodes }) => {
+    const nodeIndex = $.let(GetField(graph, "node_index"));
+    const nodeIds = $.let(GetField(graph, "node_ids"));
+    const outOffsets = $.let(GetField(graph, "out_offsets"));
+    const outTargets = $.let(GetField(graph, "out_targets"));
+    const inOffsets = $.let(GetField(graph, "in_offsets"));
+    const inSources = $.let(GetField(graph, "in_sources"));
+
+    // Create value map by node index
+    const nodeValues = $.let(NewDict(IntegerType, FloatType));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(In(nodeIndex, nodeId)).then($ => {
+        $.insertOrUpdate(nodeValues, Get(nodeIndex, nodeId), GetField(node, "value"));
+      });
+    });
+
+    // Initialize remaining child counts from CSR offsets; leaves are ready immediately
+    const remainingChildren = $.let(NewDict(IntegerType, IntegerType));
+    const queue = $.let(NewArray(IntegerType));
+    $.forArray(nodeIds, ($, _nodeId, index) => {
+      const degree = $.let(Subtract(Get(outOffsets, Add(index, Const(1n))), Get(outOffsets, index)));
+      $.insert(remainingChildren, index, degree);
+      $.if(Equal(degree, Const(0n))).then($ => {
+        $.pushLast(queue, index);
+      });
+    });
+
+    const aggregatedValues = $.let(NewDict(IntegerType, FloatType));
+    const contributingNodes = $.let(NewDict(IntegerType, ArrayType(StringType)));
+    const seenChildren = $.let(NewSet(IntegerType));
+
+    $.while(Greater(Size(queue), Const(0n)), $ => {
+      const current = $.let(Get(queue, Const(0n)));
+      $.deleteFirst(queue);
+
+      // All children are aggregated - combine them with the node's own value
+      const totalValue = $.let(Get(nodeValues, current, Const(0.0)));
+      const allContributors = $.let(NewArray(StringType, [Get(nodeIds, current)]));
+      $.clear(seenChildren);
+
+      const position = $.let(Get(outOffsets, current));
+      const sliceEnd = $.let(Get(outOffsets, Add(current, Const(1n))));
+      $.while(Less(position, sliceEnd), $ => {
+        const child = $.let(Get(outTargets, position));
+        $.if(Not(In(seenChildren, child))).then($ => {
+          $.insert(seenChildren, child);
+          $.assign(totalValue, Add(totalValue, Get(aggregatedValues, child)));
+          $.forArray(Get(contributingNodes, child), ($, contributor) => {
+            $.pushLast(allContributors, contributor);
+          });
+        });
+        $.assign(position, Add(position, Const(1n)));
+      });
+
+      $.insert(aggregatedValues, current, totalValue);
+      $.insert(contributingNodes, current, allContributors);
+
+      // Release parents whose children are now all aggregated
+      const parentPosition = $.let(Get(inOffsets, current));
+      const parentSliceEnd = $.let(Get(inOffsets, Add(current, Const(1n))));
+      $.while(Less(parentPosition, parentSliceEnd), $ => {
+        const parent = $.let(Get(inSources, parentPosition));
+        const newRemaining = $.let(Subtract(Get(remainingChildren, parent), Const(1n)));
+        $.insertOrUpdate(remainingChildren, parent, newRemaining);
+        $.if(Equal(newRemaining, Const(0n))).then($ => {
+          $.pushLast(queue, parent);
+        });
+        $.assign(parentPosition, Add(parentPosition, Const(1n)));
+      });
+    });
+
+    // Build result in input order
+    const result = $.let(NewArray(GraphAggregationNode));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      const aggValue = $.let(GetField(node, "value"));
+      const contributors = $.let(NewArray(StringType, [nodeId]));
+
+      $.if(In(nodeIndex, nodeId)).then($ => {
+        const index = $.let(Get(nodeIndex, nodeId));
+        $.if(In(aggregatedValues, index)).then($ => {
+          $.assign(aggValue, Get(aggregatedValues, index));
+          $.assign(contributors, Get(contributingNodes, index));
+        });
+      });
+
+      $.pushLast(result, Struct({
+        id: nodeId,
+        aggregated_value: aggValue,
+        contributing_nodes: contributors
+      }));
+    });
+
+    $.return(result);
+  });
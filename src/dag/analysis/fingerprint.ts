@@ -0,0 +1,244 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  Multiply,
+  Divide,
+  Not,
+  RegexContains,
+  RegexReplace,
+  Size,
+  Split,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, IntegerType, StringType } from "@elaraai/core";
+
+import { GraphEdge, GraphFingerprintResult, GraphNode } from "../types";
+
+/**
+ * Graph fingerprint - canonical, ID-independent fingerprint of a typed graph
+ *
+ * Computes a Weisfeiler-Lehman colour refinement over node types and typed, directed edges and
+ * returns a short hash of its canonical transcript. Graphs that differ only in their node IDs
+ * (and input order) always get the same fingerprint; graphs with different type counts, degree
+ * patterns or neighbourhoods get different fingerprints (up to hash collisions). Fingerprints
+ * have a bounded length, so they are cheap keys for grouping networks with the same "shape".
+ *
+ * **Example:**
+ * ```
+ * Graph 1:  A(batch) ──mix──→ B(lot) ──pack──→ C(pallet)
+ * Graph 2:  X(batch) ──mix──→ Y(lot) ──pack──→ Z(pallet)       Same fingerprint
+ * Graph 3:  P(batch) ──mix──→ Q(lot)    R(batch) ──mix──→ S(lot) ──pack──→ T(pallet)
+ *                                                               Different fingerprint
+ * ```
+ *
+ * **Fingerprint Format:** `V<nodes>E<edges>:<hash 1>-<hash 2>`, where the hashes are two
+ * independent 31-bit polynomial hashes of the canonical transcript:
+ * - `V<nodes>E<edges>` followed by one `/`-separated histogram per round
+ * - Round 0 histogram: node types with counts (`batch*1,lot*1,pallet*1`)
+ * - Round k histogram: node signatures with counts, where a signature is the node's previous
+ *   label plus its sorted incoming (`i:`) and outgoing (`o:`) edge type / neighbour label pairs
+ * - After each round, labels are replaced by the rank of their signature in sorted order, so
+ *   labels stay short and the transcript is identical for isomorphic graphs
+ * - Node and edge types are escaped (`\` before each of `\ * , ; : ( ) /`), so types containing
+ *   the delimiters cannot make different graphs produce the same transcript
+ *
+ * **Notes:**
+ * - Refinement stops early once a round no longer splits any label class
+ * - Like every Weisfeiler-Lehman test, rare non-isomorphic graphs (e.g. some regular graphs)
+ *   can share a fingerprint; different fingerprints always mean different structures
+ * - Duplicate node IDs use the first occurrence; edges to unknown nodes are ignored
+ * - Parallel edges are counted, so multigraphs are distinguished from simple graphs
+ * - Equal fingerprints from different transcripts need a collision in both hashes (about 1 in
+ *   4.6 × 10^18); every character is hashed by its own UTF-16 code, so non-ASCII types such as
+ *   "Käse" and "Kåse" are told apart
+ *
+ * **Use Cases:**
+ * - Deduplication: "How many distinct network shapes are among 15K extractions?"
+ * - Change detection: "Did this batch's genealogy shape change between runs?"
+ *
+ * **Complexity:** O(k × (V + E) × log) where k = rounds performed (at most `iterations`), plus
+ * the length of the transcript for hashing
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param iterations Maximum number of refinement rounds (3 is usually enough for genealogies)
+ * @returns GraphFingerprintResult with the fingerprint, sizes and rounds performed
+ */
+export const graph_fingerprint = new Procedure("graph_fingerprint")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("iterations", IntegerType)
+  .output(GraphFingerprintResult)
+  .body(($, { nodes, edges, iterations }) => {
+    // Step 1: Initial labels are escaped node types (first occurrence wins)
+    const labels = $.let(NewDict(StringType, StringType));
+    $.forArray(nodes, ($, node) => {
+      $.if(Not(In(labels, GetField(node, "id")))).then($ => {
+        $.insert(labels, GetField(node, "id"), RegexReplace(GetField(node, "type"), Const("[\\\\*,;:()/]"), Const("\\$&")));
+      });
+    });
+
+    // Valid edges with their escaped types
+    const validEdges = $.let(NewArray(GraphEdge));
+    $.forArray(edges, ($, edge) => {
+      $.if(And(In(labels, GetField(edge, "from")), In(labels, GetField(edge, "to")))).then($ => {
+        $.pushLast(validEdges, Struct({
+          from: GetField(edge, "from"),
+          to: GetField(edge, "to"),
+          type: RegexReplace(GetField(edge, "type"), Const("[\\\\*,;:()/]"), Const("\\$&"))
+        }));
+      });
+    });
+
+    // Round 0 histogram of node types
+    const typeCounts = $.let(NewDict(StringType, IntegerType));
+    $.forDict(labels, ($, label) => {
+      $.insertOrUpdate(typeCounts, label, Add(Get(typeCounts, label, Const(0n)), Const(1n)));
+    });
+
+    const typeHistogram = $.let(Const(""));
+    $.forDict(typeCounts, ($, count, label) => {
+      $.if(Equal(typeHistogram, Const(""))).then($ => {
+        $.assign(typeHistogram, StringJoin([label, Const("*"), count]));
+      }).else($ => {
+        $.assign(typeHistogram, StringJoin([typeHistogram, Const(","), label, Const("*"), count]));
+      });
+    });
+
+    const transcript = $.let(StringJoin([
+      Const("V"), Size(labels), Const("E"), Size(validEdges), Const("/"), typeHistogram
+    ]));
+    const classCount = $.let(Size(typeCounts));
+    const round = $.let(Const(0n));
+    const stable = $.let(Const(false));
+
+    // Step 2: Refine labels until stable or the round limit is reached
+    $.while(And(Less(round, iterations), Not(stable)), $ => {
+      // Sorted multiset of (direction, edge type, neighbour label) per node
+      const neighbourCounts = $.let(NewDict(StringType, DictType(StringType, IntegerType)));
+      $.forDict(labels, ($, label, nodeId) => {
+        $.insert(neighbourCounts, nodeId, NewDict(StringType, IntegerType));
+      });
+
+      $.forArray(validEdges, ($, edge) => {
+        const fromId = $.let(GetField(edge, "from"));
+        const toId = $.let(GetField(edge, "to"));
+
+        const outKey = $.let(StringJoin([Const("o:"), GetField(edge, "type"), Const(":"), Get(labels, toId)]));
+        const fromCounts = $.let(Get(neighbourCounts, fromId));
+        $.insertOrUpdate(fromCounts, outKey, Add(Get(fromCounts, outKey, Const(0n)), Const(1n)));
+
+        const inKey = $.let(StringJoin([Const("i:"), GetField(edge, "type"), Const(":"), Get(labels, fromId)]));
+        const toCounts = $.let(Get(neighbourCounts, toId));
+        $.insertOrUpdate(toCounts, inKey, Add(Get(toCounts, inKey, Const(0n)), Const(1n)));
+      });
+
+      // Signature = previous label + neighbour multiset
+      const signatures = $.let(NewDict(StringType, StringType));
+      const signatureCounts = $.let(NewDict(StringType, IntegerType));
+      $.forDict(neighbourCounts, ($, counts, nodeId) => {
+        const signature = $.let(StringJoin([Get(labels, nodeId), Const("(")]));
+        const first = $.let(Const(true));
+        $.forDict(counts, ($, count, key) => {
+          $.if(first).then($ => {
+            $.assign(signature, StringJoin([signature, key, Const("*"), count]));
+            $.assign(first, Const(false));
+          }).else($ => {
+            $.assign(signature, StringJoin([signature, Const(";"), key, Const("*"), count]));
+          });
+        });
+        $.assign(signature, StringJoin([signature, Const(")")]));
+
+        $.insert(signatures, nodeId, signature);
+        $.insertOrUpdate(signatureCounts, signature, Add(Get(signatureCounts, signature, Const(0n)), Const(1n)));
+      });
+
+      // Compress signatures to their sorted rank and extend the transcript
+      const signatureRanks = $.let(NewDict(StringType, StringType));
+      const roundHistogram = $.let(Const(""));
+      $.forDict(signatureCounts, ($, count, signature) => {
+        $.insert(signatureRanks, signature, StringJoin([Size(signatureRanks)]));
+        $.if(Equal(roundHistogram, Const(""))).then($ => {
+          $.assign(roundHistogram, StringJoin([signature, Const("*"), count]));
+        }).else($ => {
+          $.assign(roundHistogram, StringJoin([roundHistogram, Const(","), signature, Const("*"), count]));
+        });
+      });
+
+      $.forDict(signatures, ($, signature, nodeId) => {
+        $.insertOrUpdate(labels, nodeId, Get(signatureRanks, signature));
+      });
+
+      $.assign(transcript, StringJoin([transcript, Const("/"), roundHistogram]));
+      $.assign(round, Add(round, Const(1n)));
+
+      // Refinement only splits classes, so an unchanged class count means a stable partition
+      $.if(Equal(Size(signatureCounts), classCount)).then($ => {
+        $.assign(stable, Const(true));
+      });
+      $.assign(classCount, Size(signatureCounts));
+    });
+
+    // Step 3: Hash the transcript by character code. Each distinct character's UTF-16 code is
+    // found by binary search over regex ranges `[\uLLLL-\uMMMM]`
+    const hexDigits = $.let(Split(Const("0123456789abcdef"), Const("")));
+    const hexBytes = $.let(NewArray(StringType));
+    $.forArray(hexDigits, ($, highDigit) => {
+      $.forArray(hexDigits, ($, lowDigit) => {
+        $.pushLast(hexBytes, StringJoin([highDigit, lowDigit]));
+      });
+    });
+
+    const characterCodes = $.let(NewDict(StringType, IntegerType));
+    const hash1 = $.let(Const(0n));
+    const hash2 = $.let(Const(0n));
+    $.forArray(Split(transcript, Const("")), ($, character) => {
+      $.if(Not(In(characterCodes, character))).then($ => {
+        const low = $.let(Const(0n));
+        const high = $.let(Const(65535n));
+        $.while(Less(low, high), $ => {
+          const middle = $.let(Divide(Add(low, high), Const(2n)));
+          const range = $.let(StringJoin([
+            Const("^[\\u"),
+            Get(hexBytes, Divide(low, Const(256n))),
+            Get(hexBytes, Subtract(low, Multiply(Divide(low, Const(256n)), Const(256n)))),
+            Const("-\\u"),
+            Get(hexBytes, Divide(middle, Const(256n))),
+            Get(hexBytes, Subtract(middle, Multiply(Divide(middle, Const(256n)), Const(256n)))),
+            Const("]$")
+          ]));
+          $.if(RegexContains(character, range)).then($ => {
+            $.assign(high, middle);
+          }).else($ => {
+            $.assign(low, Add(middle, Const(1n)));
+          });
+        });
+        $.insert(characterCodes, character, low);
+      });
+
+      const code = $.let(Get(characterCodes, character));
+      const next1 = $.let(Add(Multiply(hash1, Const(257n)), code));
+      $.assign(hash1, Subtract(next1, Multiply(Divide(next1, Const(2147483647n)), Const(2147483647n))));
+      const next2 = $.let(Add(Multiply(hash2, Const(263n)), code));
+      $.assign(hash2, Subtract(next2, Multiply(Divide(next2, Const(2147483629n)), Const(2147483629n))));
+    });
+
+    $.return(Struct({
+      fingerprint: StringJoin([Const("V"), Size(labels), Const("E"), Size(validEdges), Const(":"), hash1, Const("-"), hash2]),
+      node_count: Size(labels),
+      edge_count: Size(validEdges),
+      iterations: round
+    }));
+  });
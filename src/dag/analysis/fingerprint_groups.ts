@@ -0,0 +1,95 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  Size,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, StringType } from "@elaraai/core";
+
+import { graph_fingerprint } from "./fingerprint";
+import { GraphBasicGraph, GraphFingerprintGroup } from "../types";
+
+/**
+ * Fingerprint groups - groups a collection of graphs by their structural fingerprint
+ *
+ * Computes `graph_fingerprint` for every graph and groups graphs with the same fingerprint,
+ * returning the first member of each group as its representative together with the member
+ * count and member positions. Turns thousands of extracted networks into a short list of
+ * distinct shapes.
+ *
+ * **Example:**
+ * ```
+ * Input graphs:
+ *   0: A(batch) → B(lot)
+ *   1: C(batch) → D(lot) → E(pallet)
+ *   2: X(batch) → Y(lot)
+ *
+ * Result:
+ *   Group 1: representative 0 (A → B), member_count 2, member_indices [0, 2]
+ *   Group 2: representative 1 (C → D → E), member_count 1, member_indices [1]
+ * ```
+ *
+ * **Notes:**
+ * - Groups are ordered by their representative's position in the input
+ * - Members share a Weisfeiler-Lehman fingerprint (see graph_fingerprint for its guarantees)
+ * - Use with GraphPathSubgraph or network extraction results by passing their nodes and edges
+ *
+ * **Use Cases:**
+ * - Shape catalogue: "Which distinct genealogy shapes occur, and how often?"
+ * - Representative testing: Run expensive analysis once per shape instead of once per network
+ *
+ * **Complexity:** O(Σ k × (V + E)) over all graphs
+ *
+ * @param graphs Collection of graphs to group
+ * @param iterations Maximum refinement rounds passed to graph_fingerprint
+ * @returns Array of GraphFingerprintGroup, one per distinct fingerprint
+ */
+export const graph_group_by_fingerprint = new Procedure("graph_group_by_fingerprint")
+  .input("graphs", ArrayType(GraphBasicGraph))
+  .input("iterations", IntegerType)
+  .output(ArrayType(GraphFingerprintGroup))
+  .import(graph_fingerprint)
+  .body(($, { graphs, iterations }, procs) => {
+    const groupOrder = $.let(NewArray(StringType));
+    const groupRepresentatives = $.let(NewDict(StringType, IntegerType));
+    const groupMembers = $.let(NewDict(StringType, ArrayType(IntegerType)));
+
+    $.forArray(graphs, ($, graph, index) => {
+      const result = $.let(procs.graph_fingerprint(Struct({
+        nodes: GetField(graph, "nodes"),
+        edges: GetField(graph, "edges"),
+        iterations: iterations
+      })));
+      const fingerprint = $.let(GetField(result, "fingerprint"));
+
+      $.if(In(groupMembers, fingerprint)).then($ => {
+        const members = $.let(Get(groupMembers, fingerprint));
+        $.pushLast(members, index);
+      }).else($ => {
+        $.insert(groupMembers, fingerprint, NewArray(IntegerType, [index]));
+        $.insert(groupRepresentatives, fingerprint, index);
+        $.pushLast(groupOrder, fingerprint);
+      });
+    });
+
+    const groups = $.let(NewArray(GraphFingerprintGroup));
+    $.forArray(groupOrder, ($, fingerprint) => {
+      const representativeIndex = $.let(Get(groupRepresentatives, fingerprint));
+      const members = $.let(Get(groupMembers, fingerprint));
+
+      $.pushLast(groups, Struct({
+        fingerprint: fingerprint,
+        representative_index: representativeIndex,
+        representative: Get(graphs, representativeIndex),
+        member_count: Size(members),
+        member_indices: members
+      }));
+    });
+
+    $.return(groups);
+  });
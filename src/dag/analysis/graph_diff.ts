@@ -0,0 +1,290 @@
+import { Procedure, ToArray } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Size,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, IntegerType, SetType, StringType, StructType } from "@elaraai/core";
+
+import {
+  GraphDiffResult,
+  GraphDiffTypeSummary,
+  GraphEdge,
+  GraphEdgeTypeChange,
+  GraphNode,
+  GraphNodeTypeChange,
+} from "../types";
+
+/**
+ * Graph diff - compares two snapshots of a graph and reports what changed
+ *
+ * Nodes are matched by ID and edges by their (from, to) pair, so a node or edge whose type
+ * changed between snapshots is reported as a type change rather than a removal plus an
+ * addition. Summary counts per node type and edge type make the diff usable on the same
+ * dashboards as `graph_type_statistics`.
+ *
+ * **Example:**
+ * ```
+ * Old Snapshot:                 New Snapshot:                 Result:
+ *   A(batch) ──flow──→ B(lot)     A(batch) ──flow──→ B(bin)     removed_nodes: [C]
+ *   B(lot) ──flow──→ C(lot)       B(bin) ──move──→ D(lot)       added_nodes: [D]
+ *                                 A(batch) ──flow──→ D(lot)     node_type_changes: [B: lot → bin]
+ *                                                               removed_edges: [B→C flow]
+ *                                                               added_edges: [B→D move, A→D flow]
+ * ```
+ *
+ * **Matching rules:**
+ * - Nodes: matched by ID (first occurrence of a duplicated ID wins)
+ * - Edges: matched by (from, to) pair; exact duplicate edges count once
+ * - Edge type change: the pair has exactly one edge type in each snapshot and it differs
+ * - Any other difference between the edge types of a pair is reported as added and removed edges
+ *
+ * **Ordering:**
+ * - Added nodes, added edges and type changes follow the new snapshot's input order
+ * - Removed nodes and removed edges follow the old snapshot's input order
+ * - Parallel edges of one pair are listed by edge type
+ * - Summaries are ordered by type
+ *
+ * **Use Cases:**
+ * - Nightly rebuilds: "What changed in the genealogy since yesterday?"
+ * - Change monitoring: "How many lots were added or re-typed per node type?"
+ * - Regression checks: "Did the new extraction logic drop any edges?"
+ *
+ * **Complexity:** O(V + E) using dictionaries and sets for all lookups
+ *
+ * @param old_nodes Nodes of the earlier snapshot
+ * @param old_edges Edges of the earlier snapshot
+ * @param new_nodes Nodes of the later snapshot
+ * @param new_edges Edges of the later snapshot
+ * @returns Added/removed/re-typed nodes and edges with per-type summary counts
+ */
+export const graph_diff = new Procedure("graph_diff")
+  .input("old_nodes", ArrayType(GraphNode))
+  .input("old_edges", ArrayType(GraphEdge))
+  .input("new_nodes", ArrayType(GraphNode))
+  .input("new_edges", ArrayType(GraphEdge))
+  .output(GraphDiffResult)
+  .body(($, { old_nodes, old_edges, new_nodes, new_edges }) => {
+    // Step 1: Build node type maps (first occurrence wins)
+    const oldNodeTypes = $.let(NewDict(StringType, StringType));
+    const oldNodeOrder = $.let(NewArray(StringType));
+    $.forArray(old_nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(oldNodeTypes, nodeId))).then($ => {
+        $.insert(oldNodeTypes, nodeId, GetField(node, "type"));
+        $.pushLast(oldNodeOrder, nodeId);
+      });
+    });
+
+    const newNodeTypes = $.let(NewDict(StringType, StringType));
+    const newNodeOrder = $.let(NewArray(StringType));
+    $.forArray(new_nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(newNodeTypes, nodeId))).then($ => {
+        $.insert(newNodeTypes, nodeId, GetField(node, "type"));
+        $.pushLast(newNodeOrder, nodeId);
+      });
+    });
+
+    // Per-type counters for the summaries
+    const nodeSummaryTypes = $.let(NewSet(StringType));
+    const nodeBefore = $.let(NewDict(StringType, IntegerType));
+    const nodeAfter = $.let(NewDict(StringType, IntegerType));
+    const nodeAdded = $.let(NewDict(StringType, IntegerType));
+    const nodeRemoved = $.let(NewDict(StringType, IntegerType));
+    const nodeRetypedFrom = $.let(NewDict(StringType, IntegerType));
+    const nodeRetypedTo = $.let(NewDict(StringType, IntegerType));
+
+    // Step 2: Compare nodes
+    const addedNodes = $.let(NewArray(GraphNode));
+    const removedNodes = $.let(NewArray(GraphNode));
+    const nodeTypeChanges = $.let(NewArray(GraphNodeTypeChange));
+
+    $.forArray(newNodeOrder, ($, nodeId) => {
+      const newType = $.let(Get(newNodeTypes, nodeId));
+      $.insertOrUpdate(nodeSummaryTypes, newType);
+      $.insertOrUpdate(nodeAfter, newType, Add(Get(nodeAfter, newType, Const(0n)), Const(1n)));
+
+      $.if(In(oldNodeTypes, nodeId)).then($ => {
+        const oldType = $.let(Get(oldNodeTypes, nodeId));
+        $.if(Not(Equal(oldType, newType))).then($ => {
+          $.pushLast(nodeTypeChanges, Struct({ id: nodeId, old_type: oldType, new_type: newType }));
+          $.insertOrUpdate(nodeRetypedFrom, oldType, Add(Get(nodeRetypedFrom, oldType, Const(0n)), Const(1n)));
+          $.insertOrUpdate(nodeRetypedTo, newType, Add(Get(nodeRetypedTo, newType, Const(0n)), Const(1n)));
+        });
+      }).else($ => {
+        $.pushLast(addedNodes, Struct({ id: nodeId, type: newType }));
+        $.insertOrUpdate(nodeAdded, newType, Add(Get(nodeAdded, newType, Const(0n)), Const(1n)));
+      });
+    });
+
+    $.forArray(oldNodeOrder, ($, nodeId) => {
+      const oldType = $.let(Get(oldNodeTypes, nodeId));
+      $.insertOrUpdate(nodeSummaryTypes, oldType);
+      $.insertOrUpdate(nodeBefore, oldType, Add(Get(nodeBefore, oldType, Const(0n)), Const(1n)));
+
+      $.if(Not(In(newNodeTypes, nodeId))).then($ => {
+        $.pushLast(removedNodes, Struct({ id: nodeId, type: oldType }));
+        $.insertOrUpdate(nodeRemoved, oldType, Add(Get(nodeRemoved, oldType, Const(0n)), Const(1n)));
+      });
+    });
+
+    // Step 3: Group edge types by (from, to) pair for each snapshot
+    const EdgePair = StructType({ from: StringType, to: StringType });
+
+    const oldPairTypes = $.let(NewDict(StringType, DictType(StringType, SetType(StringType)))); // from -> (to -> edge types)
+    const oldPairOrder = $.let(NewArray(EdgePair));
+    $.forArray(old_edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(Not(In(oldPairTypes, fromId))).then($ => {
+        $.insert(oldPairTypes, fromId, NewDict(StringType, SetType(StringType)));
+      });
+      const targets = $.let(Get(oldPairTypes, fromId));
+      $.if(In(targets, toId)).then($ => {
+        const types = $.let(Get(targets, toId));
+        $.insertOrUpdate(types, GetField(edge, "type"));
+      }).else($ => {
+        $.insert(targets, toId, NewSet(StringType, [GetField(edge, "type")]));
+        $.pushLast(oldPairOrder, Struct({ from: fromId, to: toId }));
+      });
+    });
+
+    const newPairTypes = $.let(NewDict(StringType, DictType(StringType, SetType(StringType)))); // from -> (to -> edge types)
+    const newPairOrder = $.let(NewArray(EdgePair));
+    $.forArray(new_edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(Not(In(newPairTypes, fromId))).then($ => {
+        $.insert(newPairTypes, fromId, NewDict(StringType, SetType(StringType)));
+      });
+      const targets = $.let(Get(newPairTypes, fromId));
+      $.if(In(targets, toId)).then($ => {
+        const types = $.let(Get(targets, toId));
+        $.insertOrUpdate(types, GetField(edge, "type"));
+      }).else($ => {
+        $.insert(targets, toId, NewSet(StringType, [GetField(edge, "type")]));
+        $.pushLast(newPairOrder, Struct({ from: fromId, to: toId }));
+      });
+    });
+
+    const edgeSummaryTypes = $.let(NewSet(StringType));
+    const edgeBefore = $.let(NewDict(StringType, IntegerType));
+    const edgeAfter = $.let(NewDict(StringType, IntegerType));
+    const edgeAdded = $.let(NewDict(StringType, IntegerType));
+    const edgeRemoved = $.let(NewDict(StringType, IntegerType));
+    const edgeRetypedFrom = $.let(NewDict(StringType, IntegerType));
+    const edgeRetypedTo = $.let(NewDict(StringType, IntegerType));
+
+    // Step 4: Compare edges pair by pair
+    const addedEdges = $.let(NewArray(GraphEdge));
+    const removedEdges = $.let(NewArray(GraphEdge));
+    const edgeTypeChanges = $.let(NewArray(GraphEdgeTypeChange));
+    const retypedPairs = $.let(NewDict(StringType, SetType(StringType))); // from -> to
+    const noTargets = $.let(NewDict(StringType, SetType(StringType)));
+    const noTypes = $.let(NewSet(StringType));
+
+    $.forArray(newPairOrder, ($, pair) => {
+      const fromId = $.let(GetField(pair, "from"));
+      const toId = $.let(GetField(pair, "to"));
+      const newTypes = $.let(Get(Get(newPairTypes, fromId), toId));
+      const oldTypes = $.let(Get(Get(oldPairTypes, fromId, noTargets), toId, noTypes));
+
+      $.forSet(newTypes, ($, edgeType) => {
+        $.insertOrUpdate(edgeSummaryTypes, edgeType);
+        $.insertOrUpdate(edgeAfter, edgeType, Add(Get(edgeAfter, edgeType, Const(0n)), Const(1n)));
+      });
+
+      const isRetyped = $.let(And(
+        And(Equal(Size(oldTypes), Const(1n)), Equal(Size(newTypes), Const(1n))),
+        Not(In(oldTypes, Get(ToArray(newTypes), Const(0n))))
+      ));
+
+      $.if(isRetyped).then($ => {
+        const oldType = $.let(Get(ToArray(oldTypes), Const(0n)));
+        const newType = $.let(Get(ToArray(newTypes), Const(0n)));
+        $.if(Not(In(retypedPairs, fromId))).then($ => {
+          $.insert(retypedPairs, fromId, NewSet(StringType));
+        });
+        const retypedTargets = $.let(Get(retypedPairs, fromId));
+        $.insert(retypedTargets, toId);
+        $.pushLast(edgeTypeChanges, Struct({ from: fromId, to: toId, old_type: oldType, new_type: newType }));
+        $.insertOrUpdate(edgeRetypedFrom, oldType, Add(Get(edgeRetypedFrom, oldType, Const(0n)), Const(1n)));
+        $.insertOrUpdate(edgeRetypedTo, newType, Add(Get(edgeRetypedTo, newType, Const(0n)), Const(1n)));
+      }).else($ => {
+        $.forSet(newTypes, ($, edgeType) => {
+          $.if(Not(In(oldTypes, edgeType))).then($ => {
+            $.pushLast(addedEdges, Struct({ from: fromId, to: toId, type: edgeType }));
+            $.insertOrUpdate(edgeAdded, edgeType, Add(Get(edgeAdded, edgeType, Const(0n)), Const(1n)));
+          });
+        });
+      });
+    });
+
+    $.forArray(oldPairOrder, ($, pair) => {
+      const fromId = $.let(GetField(pair, "from"));
+      const toId = $.let(GetField(pair, "to"));
+      const oldTypes = $.let(Get(Get(oldPairTypes, fromId), toId));
+      const newTypes = $.let(Get(Get(newPairTypes, fromId, noTargets), toId, noTypes));
+      const retyped = $.let(In(Get(retypedPairs, fromId, NewSet(StringType)), toId));
+
+      $.forSet(oldTypes, ($, edgeType) => {
+        $.insertOrUpdate(edgeSummaryTypes, edgeType);
+        $.insertOrUpdate(edgeBefore, edgeType, Add(Get(edgeBefore, edgeType, Const(0n)), Const(1n)));
+
+        $.if(And(Not(retyped), Not(In(newTypes, edgeType)))).then($ => {
+          $.pushLast(removedEdges, Struct({ from: fromId, to: toId, type: edgeType }));
+          $.insertOrUpdate(edgeRemoved, edgeType, Add(Get(edgeRemoved, edgeType, Const(0n)), Const(1n)));
+        });
+      });
+    });
+
+    // Step 5: Build per-type summaries (ordered by type)
+    const nodeTypeSummary = $.let(NewArray(GraphDiffTypeSummary));
+    $.forSet(nodeSummaryTypes, ($, nodeType) => {
+      $.pushLast(nodeTypeSummary, Struct({
+        type: nodeType,
+        before_count: Get(nodeBefore, nodeType, Const(0n)),
+        after_count: Get(nodeAfter, nodeType, Const(0n)),
+        added_count: Get(nodeAdded, nodeType, Const(0n)),
+        removed_count: Get(nodeRemoved, nodeType, Const(0n)),
+        retyped_from_count: Get(nodeRetypedFrom, nodeType, Const(0n)),
+        retyped_to_count: Get(nodeRetypedTo, nodeType, Const(0n))
+      }));
+    });
+
+    const edgeTypeSummary = $.let(NewArray(GraphDiffTypeSummary));
+    $.forSet(edgeSummaryTypes, ($, edgeType) => {
+      $.pushLast(edgeTypeSummary, Struct({
+        type: edgeType,
+        before_count: Get(edgeBefore, edgeType, Const(0n)),
+        after_count: Get(edgeAfter, edgeType, Const(0n)),
+        added_count: Get(edgeAdded, edgeType, Const(0n)),
+        removed_count: Get(edgeRemoved, edgeType, Const(0n)),
+        retyped_from_count: Get(edgeRetypedFrom, edgeType, Const(0n)),
+        retyped_to_count: Get(edgeRetypedTo, edgeType, Const(0n))
+      }));
+    });
+
+    $.return(Struct({
+      added_nodes: addedNodes,
+      removed_nodes: removedNodes,
+      node_type_changes: nodeTypeChanges,
+      added_edges: addedEdges,
+      removed_edges: removedEdges,
+      edge_type_changes: edgeTypeChanges,
+      node_type_summary: nodeTypeSummary,
+      edge_type_summary: edgeTypeSummary
+    }));
+  });
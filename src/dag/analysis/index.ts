@@ -2,4 +2,8 @@ export { graph_missing_transitions } from "./missing_transitions";
 export { graph_workflow_completeness } from "./workflow_completeness";
 export { graph_aggregation_by_type } from "./type_aggregation";
 export { graph_type_statistics } from "./type_statistics";
-export { graph_path_statistics } from "./path_statistics";
\ No newline at end of file
+export { graph_path_statistics } from "./path_statistics";
+export { graph_diff } from "./graph_diff";
+export { graph_fingerprint } from "./fingerprint";
+export { graph_group_by_fingerprint } from "./fingerprint_groups";
+export { graph_match_pattern } from "./pattern_match";
\ No newline at end of file
@@ -0,0 +1,397 @@
+import { Procedure, ToArray } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, BooleanType, DictType, IntegerType, Nullable, SetType, StringType } from "@elaraai/core";
+
+import { GraphBasicGraph, GraphEdge, GraphNode, GraphPatternMatch, GraphPatternMatchResult } from "../types";
+
+/**
+ * Pattern matching - finds every embedding of a small typed pattern graph in a graph
+ *
+ * Each pattern node is mapped to a distinct graph node of the same type, such that every
+ * pattern edge has a graph edge of the same type between the mapped nodes. Extra graph edges
+ * between matched nodes are allowed (subgraph monomorphism). A pattern node or edge type of
+ * `"*"` is a wildcard that matches any type.
+ *
+ * **Example:**
+ * ```
+ * Pattern: "mixer with two incoming transfers from vessels, feeding a filter"
+ *   v1(vessel) ─transfer→ m(mixer) ←transfer─ v2(vessel)
+ *                         m(mixer) ─feed→ f(filter)
+ *
+ * Graph:
+ *   V1(vessel) ─transfer→ M1(mixer) ─feed→ F1(filter)
+ *   V2(vessel) ─transfer→ M1(mixer)
+ *   V3(vessel) ─transfer→ M2(mixer) ─feed→ F2(filter)
+ *
+ * Result:
+ *   { v1: V1, v2: V2, m: M1, f: F1 }
+ *   { v1: V2, v2: V1, m: M1, f: F1 }
+ *   (M2 has only one incoming transfer, so it does not match)
+ * ```
+ *
+ * **Matching Rules:**
+ * - Mappings are injective: two pattern nodes never map to the same graph node
+ * - Symmetric patterns return one embedding per automorphism (v1/v2 swapped above)
+ * - Pattern edges are checked for existence, so parallel pattern edges with the same endpoints
+ *   and type can be satisfied by a single graph edge
+ * - Duplicate graph node IDs use the first occurrence; edges to unknown nodes are ignored
+ * - An empty pattern has no embeddings
+ *
+ * **Limit:**
+ * - `limit` caps the number of returned embeddings; null returns all of them
+ * - `truncated` is true only when at least one further embedding exists beyond the limit
+ *
+ * **Use Cases:**
+ * - Motif search: "Find every mixer fed by two vessels that feeds a filter"
+ * - Rule checks: "Which lots are packed without passing through inspection?"
+ * - Existence tests: limit 1 answers "does this pattern occur at all?"
+ *
+ * **Algorithm:**
+ * 1. Index graph nodes by type and edges by (from, to) and (from, to, type)
+ * 2. Order pattern nodes so that each node is connected to an earlier one where possible,
+ *    preferring nodes whose type has the fewest graph nodes
+ * 3. Backtrack with an explicit stack: candidates for a pattern node are the graph neighbours
+ *    of its already-matched anchor, or the type index when it has no anchor, and every pattern
+ *    edge to earlier pattern nodes is checked as soon as both endpoints are mapped
+ *
+ * **Error Handling:** Duplicate pattern node IDs, pattern edges referencing unknown pattern
+ * nodes and limit < 1 fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(V + E) for the indices; the search is exponential in the pattern size in
+ * the worst case, but neighbour-driven candidates keep it close to O(matches × d^k) for
+ * connected patterns, where d = typical degree and k = pattern nodes
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed graph edges
+ * @param pattern Pattern graph; `"*"` as a node or edge type matches any type
+ * @param limit Maximum number of embeddings to return (null = all)
+ * @returns GraphPatternMatchResult with the embeddings, their count and the truncation flag
+ */
+export const graph_match_pattern = new Procedure("graph_match_pattern")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("pattern", GraphBasicGraph)
+  .input("limit", Nullable(IntegerType))
+  .output(GraphPatternMatchResult)
+  .body(($, { nodes, edges, pattern, limit }) => {
+    const patternNodes = $.let(GetField(pattern, "nodes"));
+    const patternEdges = $.let(GetField(pattern, "edges"));
+
+    // Step 1: Validate the pattern and the limit
+    const patternTypes = $.let(NewDict(StringType, StringType));
+    $.forArray(patternNodes, ($, patternNode) => {
+      const patternId = $.let(GetField(patternNode, "id"));
+      $.if(In(patternTypes, patternId)).then($ => {
+        $.error(StringJoin([Const("Duplicate pattern node ID: "), patternId]));
+      });
+      $.insert(patternTypes, patternId, GetField(patternNode, "type"));
+    });
+
+    $.forArray(patternEdges, ($, patternEdge) => {
+      $.if(Not(In(patternTypes, GetField(patternEdge, "from")))).then($ => {
+        $.error(StringJoin([Const("Pattern edge references unknown pattern node: "), GetField(patternEdge, "from")]));
+      });
+      $.if(Not(In(patternTypes, GetField(patternEdge, "to")))).then($ => {
+        $.error(StringJoin([Const("Pattern edge references unknown pattern node: "), GetField(patternEdge, "to")]));
+      });
+    });
+
+    const maxMatches = $.let(Const(-1n));
+    $.ifNull(limit).then(_ => {
+      // No limit: return every embedding
+    }).else(($, value) => {
+      $.if(Less(value, Const(1n))).then($ => {
+        $.error(StringJoin([Const("limit must be at least 1, got "), value]));
+      });
+      $.assign(maxMatches, value);
+    });
+
+    // Step 2: Type index and edge lookups (first occurrence of a node ID wins)
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    const allNodes = $.let(NewArray(StringType));
+    const typeIndex = $.let(NewDict(StringType, ArrayType(StringType)));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      const nodeType = $.let(GetField(node, "type"));
+      $.if(Not(In(nodeTypes, nodeId))).then($ => {
+        $.insert(nodeTypes, nodeId, nodeType);
+        $.pushLast(allNodes, nodeId);
+        $.if(In(typeIndex, nodeType)).then($ => {
+          const typeNodes = $.let(Get(typeIndex, nodeType));
+          $.pushLast(typeNodes, nodeId);
+        }).else($ => {
+          $.insert(typeIndex, nodeType, NewArray(StringType, [nodeId]));
+        });
+      });
+    });
+
+    const outNeighbors = $.let(NewDict(StringType, SetType(StringType)));
+    const inNeighbors = $.let(NewDict(StringType, SetType(StringType)));
+    const edgeTypes = $.let(NewDict(StringType, DictType(StringType, SetType(StringType)))); // from -> (to -> edge types)
+    const noTargets = $.let(NewDict(StringType, SetType(StringType)));
+    const noTypes = $.let(NewSet(StringType));
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(And(In(nodeTypes, fromId), In(nodeTypes, toId))).then($ => {
+        $.if(In(outNeighbors, fromId)).then($ => {
+          const targets = $.let(Get(outNeighbors, fromId));
+          $.if(Not(In(targets, toId))).then($ => {
+            $.insert(targets, toId);
+          });
+        }).else($ => {
+          $.insert(outNeighbors, fromId, NewSet(StringType, [toId]));
+        });
+
+        $.if(In(inNeighbors, toId)).then($ => {
+          const sources = $.let(Get(inNeighbors, toId));
+          $.if(Not(In(sources, fromId))).then($ => {
+            $.insert(sources, fromId);
+          });
+        }).else($ => {
+          $.insert(inNeighbors, toId, NewSet(StringType, [fromId]));
+        });
+
+        $.if(Not(In(edgeTypes, fromId))).then($ => {
+          $.insert(edgeTypes, fromId, NewDict(StringType, SetType(StringType)));
+        });
+        const targetTypes = $.let(Get(edgeTypes, fromId));
+        $.if(Not(In(targetTypes, toId))).then($ => {
+          $.insert(targetTypes, toId, NewSet(StringType));
+        });
+        const types = $.let(Get(targetTypes, toId));
+        $.insertOrUpdate(types, GetField(edge, "type"));
+      });
+    });
+
+    // Number of graph nodes each pattern node could map to by type alone
+    const candidateCounts = $.let(NewDict(StringType, IntegerType));
+    $.forDict(patternTypes, ($, patternType, patternId) => {
+      $.if(Equal(patternType, Const("*"))).then($ => {
+        $.insert(candidateCounts, patternId, Size(allNodes));
+      }).elseIf(In(typeIndex, patternType)).then($ => {
+        $.insert(candidateCounts, patternId, Size(Get(typeIndex, patternType)));
+      }).else($ => {
+        $.insert(candidateCounts, patternId, Const(0n));
+      });
+    });
+
+    // Step 3: Matching order - connected to an earlier pattern node first, then fewest candidates
+    const order = $.let(NewArray(StringType));
+    const ordered = $.let(NewSet(StringType));
+    const anchorOf = $.let(NewDict(StringType, StringType));
+    const anchorOutgoing = $.let(NewDict(StringType, BooleanType));
+    $.while(Less(Size(order), Size(patternTypes)), $ => {
+      const bestId = $.let(Const(""));
+      const bestCount = $.let(Const(0n));
+      const bestConnected = $.let(Const(false));
+      const bestAnchor = $.let(Const(""));
+      const bestOutgoing = $.let(Const(false));
+
+      $.forArray(patternNodes, ($, patternNode) => {
+        const patternId = $.let(GetField(patternNode, "id"));
+        $.if(Not(In(ordered, patternId))).then($ => {
+          const connected = $.let(Const(false));
+          const anchor = $.let(Const(""));
+          const outgoing = $.let(Const(false));
+          $.forArray(patternEdges, ($, patternEdge) => {
+            $.if(Not(connected)).then($ => {
+              $.if(And(Equal(GetField(patternEdge, "to"), patternId), In(ordered, GetField(patternEdge, "from")))).then($ => {
+                $.assign(connected, Const(true));
+                $.assign(anchor, GetField(patternEdge, "from"));
+                $.assign(outgoing, Const(true));
+              }).elseIf(And(Equal(GetField(patternEdge, "from"), patternId), In(ordered, GetField(patternEdge, "to")))).then($ => {
+                $.assign(connected, Const(true));
+                $.assign(anchor, GetField(patternEdge, "to"));
+                $.assign(outgoing, Const(false));
+              });
+            });
+          });
+
+          const count = $.let(Get(candidateCounts, patternId));
+          $.if(Or(
+            Equal(bestId, Const("")),
+            Or(
+              And(connected, Not(bestConnected)),
+              And(Equal(connected, bestConnected), Less(count, bestCount))
+            )
+          )).then($ => {
+            $.assign(bestId, patternId);
+            $.assign(bestCount, count);
+            $.assign(bestConnected, connected);
+            $.assign(bestAnchor, anchor);
+            $.assign(bestOutgoing, outgoing);
+          });
+        });
+      });
+
+      $.pushLast(order, bestId);
+      $.insert(ordered, bestId);
+      $.if(bestConnected).then($ => {
+        $.insert(anchorOf, bestId, bestAnchor);
+        $.insert(anchorOutgoing, bestId, bestOutgoing);
+      });
+    });
+
+    // Pattern edges are checked at the later of their two endpoints in the matching order
+    const positions = $.let(NewDict(StringType, IntegerType));
+    $.forArray(order, ($, patternId, index) => {
+      $.insert(positions, patternId, index);
+    });
+
+    const checks = $.let(NewDict(StringType, ArrayType(GraphEdge)));
+    $.forArray(patternEdges, ($, patternEdge) => {
+      const checkId = $.let(GetField(patternEdge, "to"));
+      $.if(Greater(Get(positions, GetField(patternEdge, "from")), Get(positions, checkId))).then($ => {
+        $.assign(checkId, GetField(patternEdge, "from"));
+      });
+      $.if(In(checks, checkId)).then($ => {
+        const nodeChecks = $.let(Get(checks, checkId));
+        $.pushLast(nodeChecks, patternEdge);
+      }).else($ => {
+        $.insert(checks, checkId, NewArray(GraphEdge, [patternEdge]));
+      });
+    });
+
+    // Step 4: Backtracking search with explicit candidate and cursor stacks
+    const matches = $.let(NewArray(GraphPatternMatch));
+    const truncated = $.let(Const(false));
+    const assignment = $.let(NewDict(StringType, StringType));
+    const used = $.let(NewSet(StringType));
+    const assignedStack = $.let(NewArray(StringType));
+    const candidateStack = $.let(NewArray(ArrayType(StringType)));
+    const cursorStack = $.let(NewArray(IntegerType));
+    const expand = $.let(Greater(Size(order), Const(0n)));
+    const searching = $.let(expand);
+
+    $.while(searching, $ => {
+      $.if(expand).then($ => {
+        // Candidates for the next pattern node: neighbours of its matched anchor, else its type index
+        const patternId = $.let(Get(order, Size(candidateStack)));
+        const patternType = $.let(Get(patternTypes, patternId));
+        const candidates = $.let(NewArray(StringType));
+
+        $.if(In(anchorOf, patternId)).then($ => {
+          const anchorNode = $.let(Get(assignment, Get(anchorOf, patternId)));
+          $.if(Get(anchorOutgoing, patternId)).then($ => {
+            $.if(In(outNeighbors, anchorNode)).then($ => {
+              $.assign(candidates, ToArray(Get(outNeighbors, anchorNode)));
+            });
+          }).else($ => {
+            $.if(In(inNeighbors, anchorNode)).then($ => {
+              $.assign(candidates, ToArray(Get(inNeighbors, anchorNode)));
+            });
+          });
+        }).elseIf(Equal(patternType, Const("*"))).then($ => {
+          $.assign(candidates, allNodes);
+        }).elseIf(In(typeIndex, patternType)).then($ => {
+          $.assign(candidates, Get(typeIndex, patternType));
+        });
+
+        $.pushLast(candidateStack, candidates);
+        $.pushLast(cursorStack, Const(0n));
+        $.assign(expand, Const(false));
+      }).elseIf(Equal(Size(candidateStack), Const(0n))).then($ => {
+        $.assign(searching, Const(false));
+      }).else($ => {
+        const depth = $.let(Subtract(Size(candidateStack), Const(1n)));
+        const patternId = $.let(Get(order, depth));
+        const patternType = $.let(Get(patternTypes, patternId));
+
+        // Undo the previous assignment at this depth before trying the next candidate
+        $.if(Greater(Size(assignedStack), depth)).then($ => {
+          $.delete(used, Get(assignedStack, depth));
+          $.delete(assignment, patternId);
+          $.deleteLast(assignedStack);
+        });
+
+        const candidates = $.let(Get(candidateStack, depth));
+        const cursor = $.let(Get(cursorStack, depth));
+        $.if(GreaterEqual(cursor, Size(candidates))).then($ => {
+          // Candidates exhausted: backtrack
+          $.deleteLast(candidateStack);
+          $.deleteLast(cursorStack);
+        }).else($ => {
+          $.deleteLast(cursorStack);
+          $.pushLast(cursorStack, Add(cursor, Const(1n)));
+
+          const candidate = $.let(Get(candidates, cursor));
+          const feasible = $.let(Not(In(used, candidate)));
+          $.if(And(feasible, Not(Equal(patternType, Const("*"))))).then($ => {
+            $.assign(feasible, Equal(Get(nodeTypes, candidate), patternType));
+          });
+
+          $.if(And(feasible, In(checks, patternId))).then($ => {
+            $.forArray(Get(checks, patternId), ($, patternEdge) => {
+              $.if(feasible).then($ => {
+                const fromId = $.let(candidate);
+                $.if(Not(Equal(GetField(patternEdge, "from"), patternId))).then($ => {
+                  $.assign(fromId, Get(assignment, GetField(patternEdge, "from")));
+                });
+                const toId = $.let(candidate);
+                $.if(Not(Equal(GetField(patternEdge, "to"), patternId))).then($ => {
+                  $.assign(toId, Get(assignment, GetField(patternEdge, "to")));
+                });
+
+                const targetTypes = $.let(Get(edgeTypes, fromId, noTargets));
+                $.if(Equal(GetField(patternEdge, "type"), Const("*"))).then($ => {
+                  $.assign(feasible, In(targetTypes, toId));
+                }).else($ => {
+                  $.assign(feasible, In(Get(targetTypes, toId, noTypes), GetField(patternEdge, "type")));
+                });
+              });
+            });
+          });
+
+          $.if(feasible).then($ => {
+            $.insert(assignment, patternId, candidate);
+            $.insert(used, candidate);
+            $.pushLast(assignedStack, candidate);
+
+            $.if(Equal(Size(assignedStack), Size(order))).then($ => {
+              // Complete embedding: record a copy, or stop once the limit is exceeded
+              $.if(Equal(Size(matches), maxMatches)).then($ => {
+                $.assign(truncated, Const(true));
+                $.assign(searching, Const(false));
+              }).else($ => {
+                const mapping = $.let(NewDict(StringType, StringType));
+                $.forDict(assignment, ($, graphNodeId, matchedPatternId) => {
+                  $.insert(mapping, matchedPatternId, graphNodeId);
+                });
+                $.pushLast(matches, Struct({ mapping: mapping }));
+              });
+            }).else($ => {
+              $.assign(expand, Const(true));
+            });
+          });
+        });
+      });
+    });
+
+    $.return(Struct({
+      matches: matches,
+      match_count: Size(matches),
+      truncated: truncated
+    }));
+  });
@@ -0,0 +1,222 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  Min,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, StringType } from "@elaraai/core";
+
+import { GraphCondensation, GraphCondensationEdge, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Graph condensation - collapses strongly connected components into a DAG of components
+ *
+ * Finds the strongly connected components (SCCs) of a directed graph and returns them in
+ * topological order together with the distinct edges between them. The component graph is
+ * always acyclic, so DAG algorithms (reachability, transitive reduction, layering) can run on
+ * cyclic graphs by working on the condensation.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:                Condensation:
+ *   A ──→ B ──→ C ──→ D         0: [A]  ──→  1: [B, C]  ──→  2: [D]
+ *         ↑     │
+ *         └─────┘               edges: [0→1, 1→2], cyclic: true
+ * ```
+ *
+ * **Output:**
+ * - Components are numbered in topological order: every condensation edge goes from a lower
+ *   to a higher component index
+ * - Members of a component are listed in input node order
+ * - Condensation edges are distinct and listed in the order of the first input edge between
+ *   the two components
+ * - `cyclic` is true when the input graph has any cycle, including self-loops
+ *
+ * **Notes:**
+ * - Duplicate node IDs use the first occurrence; edges to unknown nodes are ignored
+ * - Edge types are ignored; parallel edges produce a single condensation edge
+ *
+ * **Use Cases:**
+ * - Cycle-tolerant analysis: Run DAG-only procedures on the component graph
+ * - Cycle reporting: "Which nodes take part in circular dependencies?"
+ *
+ * **Algorithm:** Iterative Tarjan's algorithm with an explicit (node, next neighbour) frame
+ * stack, which emits components in reverse topological order; the order is then reversed.
+ *
+ * **Complexity:** O(V + E)
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @returns GraphCondensation with components, component lookup, component edges and cycle flag
+ */
+export const graph_condensation = new Procedure("graph_condensation")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .output(GraphCondensation)
+  .body(($, { nodes, edges }) => {
+    // Node order (first occurrence) and adjacency over known nodes
+    const nodeOrder = $.let(NewArray(StringType));
+    const inputPosition = $.let(NewDict(StringType, IntegerType));
+    $.forArray(nodes, ($, node) => {
+      $.if(Not(In(inputPosition, GetField(node, "id")))).then($ => {
+        $.insert(inputPosition, GetField(node, "id"), Size(nodeOrder));
+        $.pushLast(nodeOrder, GetField(node, "id"));
+      });
+    });
+
+    const adjacency = $.let(NewDict(StringType, ArrayType(StringType)));
+    const cyclic = $.let(Const(false));
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(And(In(inputPosition, fromId), In(inputPosition, toId))).then($ => {
+        $.if(In(adjacency, fromId)).then($ => {
+          const neighbors = $.let(Get(adjacency, fromId));
+          $.pushLast(neighbors, toId);
+        }).else($ => {
+          $.insert(adjacency, fromId, NewArray(StringType, [toId]));
+        });
+        $.if(Equal(fromId, toId)).then($ => {
+          $.assign(cyclic, Const(true));
+        });
+      });
+    });
+
+    // Iterative Tarjan: components are found in reverse topological order
+    const discovery = $.let(NewDict(StringType, IntegerType));
+    const low = $.let(NewDict(StringType, IntegerType));
+    const onStack = $.let(NewSet(StringType));
+    const componentStack = $.let(NewArray(StringType));
+    const reverseComponents = $.let(NewArray(ArrayType(StringType)));
+    const time = $.let(Const(0n));
+
+    $.forArray(nodeOrder, ($, rootId) => {
+      $.if(Not(In(discovery, rootId))).then($ => {
+        $.insert(discovery, rootId, time);
+        $.insert(low, rootId, time);
+        $.assign(time, Add(time, Const(1n)));
+        $.insert(onStack, rootId);
+        $.pushLast(componentStack, rootId);
+
+        const frameNodes = $.let(NewArray(StringType, [rootId]));
+        const framePositions = $.let(NewArray(IntegerType, [Const(0n)]));
+
+        $.while(Greater(Size(frameNodes), Const(0n)), $ => {
+          const top = $.let(Subtract(Size(frameNodes), Const(1n)));
+          const current = $.let(Get(frameNodes, top));
+          const position = $.let(Get(framePositions, top));
+          const neighbors = $.let(Get(adjacency, current, NewArray(StringType)));
+
+          $.if(Less(position, Size(neighbors))).then($ => {
+            $.deleteLast(framePositions);
+            $.pushLast(framePositions, Add(position, Const(1n)));
+
+            const neighbor = $.let(Get(neighbors, position));
+            $.if(Not(In(discovery, neighbor))).then($ => {
+              // Tree edge: descend into the neighbour
+              $.insert(discovery, neighbor, time);
+              $.insert(low, neighbor, time);
+              $.assign(time, Add(time, Const(1n)));
+              $.insert(onStack, neighbor);
+              $.pushLast(componentStack, neighbor);
+              $.pushLast(frameNodes, neighbor);
+              $.pushLast(framePositions, Const(0n));
+            }).elseIf(In(onStack, neighbor)).then($ => {
+              // Edge back into the current component
+              $.insertOrUpdate(low, current, Min(Get(low, current), Get(discovery, neighbor)));
+            });
+          }).else($ => {
+            // All neighbours done: pop the frame and propagate the low-link to the parent
+            $.deleteLast(frameNodes);
+            $.deleteLast(framePositions);
+
+            $.if(Equal(Get(low, current), Get(discovery, current))).then($ => {
+              const component = $.let(NewArray(StringType));
+              const popping = $.let(Const(true));
+              $.while(popping, $ => {
+                const member = $.let(Get(componentStack, Subtract(Size(componentStack), Const(1n))));
+                $.deleteLast(componentStack);
+                $.delete(onStack, member);
+                $.pushLast(component, member);
+                $.if(Equal(member, current)).then($ => {
+                  $.assign(popping, Const(false));
+                });
+              });
+              $.pushLast(reverseComponents, component);
+            });
+
+            $.if(Greater(Size(frameNodes), Const(0n))).then($ => {
+              const parent = $.let(Get(frameNodes, Subtract(Size(frameNodes), Const(1n))));
+              $.insertOrUpdate(low, parent, Min(Get(low, parent), Get(low, current)));
+            });
+          });
+        });
+      });
+    });
+
+    // Number components in topological order and list members in input order
+    const componentCount = $.let(Size(reverseComponents));
+    const componentOf = $.let(NewDict(StringType, IntegerType));
+    $.forArray(reverseComponents, ($, component, index) => {
+      $.forArray(component, ($, member) => {
+        $.insert(componentOf, member, Subtract(Subtract(componentCount, Const(1n)), index));
+      });
+      $.if(Greater(Size(component), Const(1n))).then($ => {
+        $.assign(cyclic, Const(true));
+      });
+    });
+
+    const membersByComponent = $.let(NewDict(IntegerType, ArrayType(StringType)));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      const componentId = $.let(Get(componentOf, nodeId));
+      $.if(In(membersByComponent, componentId)).then($ => {
+        const members = $.let(Get(membersByComponent, componentId));
+        $.pushLast(members, nodeId);
+      }).else($ => {
+        $.insert(membersByComponent, componentId, NewArray(StringType, [nodeId]));
+      });
+    });
+    const components = $.let(NewArray(ArrayType(StringType)));
+    $.forDict(membersByComponent, ($, members) => {
+      $.pushLast(components, members);
+    });
+
+    // Distinct edges between different components
+    const componentEdges = $.let(NewArray(GraphCondensationEdge));
+    const seenPairs = $.let(NewSet(StringType));
+    $.forArray(edges, ($, edge) => {
+      $.if(And(In(componentOf, GetField(edge, "from")), In(componentOf, GetField(edge, "to")))).then($ => {
+        const fromComponent = $.let(Get(componentOf, GetField(edge, "from")));
+        const toComponent = $.let(Get(componentOf, GetField(edge, "to")));
+        const pairKey = $.let(StringJoin([fromComponent, Const(":"), toComponent]));
+        $.if(Not(Or(Equal(fromComponent, toComponent), In(seenPairs, pairKey)))).then($ => {
+          $.insert(seenPairs, pairKey);
+          $.pushLast(componentEdges, Struct({ from: fromComponent, to: toComponent }));
+        });
+      });
+    });
+
+    $.return(Struct({
+      components: components,
+      component_of: componentOf,
+      edges: componentEdges,
+      cyclic: cyclic
+    }));
+  });
@@ -0,0 +1,276 @@
+import { Procedure, ToArray } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, Nullable, SetType, StringType } from "@elaraai/core";
+
+import { GraphDominatorNode, GraphDominatorResult, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Dominators - immediate dominators, dominator tree and dominance frontiers from a root
+ *
+ * Node D dominates node N when every path from the root to N passes through D. The immediate
+ * dominator of N is its closest strict dominator; these links form the dominator tree, and the
+ * dominators of N are exactly its ancestors in that tree. The dominance frontier of D holds the
+ * nodes where D's dominance ends: nodes with a predecessor dominated by D that are not strictly
+ * dominated by D themselves.
+ *
+ * **Example:**
+ * ```
+ * Input Graph (root S):           Dominator tree:        Frontiers:
+ *   S ──→ A ──→ C ──→ D ──→ T       S                      A: [C]
+ *   └───→ B ────┘                   ├── A                  B: [C]
+ *                                   ├── B                  others: []
+ *                                   └── C
+ *                                       └── D
+ *                                           └── T
+ * ```
+ * Every unit from S to T passes through C and D (T's ancestors), but not through A or B.
+ *
+ * **Output:**
+ * - Nodes reachable from the root, in input order, with immediate dominator, tree depth,
+ *   dominator tree children (input order) and dominance frontier (sorted)
+ * - Nodes the root cannot reach are listed in `unreachable`
+ * - An unknown root gives no nodes and lists every node as unreachable
+ *
+ * **Notes:**
+ * - Edge types are ignored; parallel edges and self-loops are allowed
+ * - Cycles are supported (a loop header is in the frontier of the nodes in its loop)
+ * - Use graph_post_dominators for the reverse question ("which nodes must every path to the
+ *   sink pass through?")
+ *
+ * **Use Cases:**
+ * - Lot tracing: "Which process steps must all material from source S pass through?"
+ * - Single points of failure: Dominators of a critical sink in a supply network
+ * - Control dependence: Dominance frontiers of the reversed graph (via post-dominators)
+ *
+ * **Algorithm:** Cooper–Harvey–Kennedy iterative dominators: nodes are processed in reverse
+ * post-order of an iterative depth-first search, and each node's immediate dominator is the
+ * intersection (walking up by post-order number) of its processed predecessors' dominators,
+ * repeated until nothing changes. Frontiers walk up from each predecessor of every join node
+ * to the join node's immediate dominator.
+ *
+ * **Complexity:** O((V + E) × k) where k = passes until stable (two for acyclic graphs: one
+ * to compute and one to confirm; a few more when cycles are present)
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param root ID of the root node
+ * @returns GraphDominatorResult with the dominator tree and frontiers
+ */
+export const graph_dominators = new Procedure("graph_dominators")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("root", StringType)
+  .output(GraphDominatorResult)
+  .body(($, { nodes, edges, root }) => {
+    // Step 1: Adjacency over known nodes (first occurrence of a node ID wins)
+    const nodeOrder = $.let(NewArray(StringType));
+    const known = $.let(NewSet(StringType));
+    $.forArray(nodes, ($, node) => {
+      $.if(Not(In(known, GetField(node, "id")))).then($ => {
+        $.insert(known, GetField(node, "id"));
+        $.pushLast(nodeOrder, GetField(node, "id"));
+      });
+    });
+
+    const successors = $.let(NewDict(StringType, ArrayType(StringType)));
+    const predecessors = $.let(NewDict(StringType, SetType(StringType)));
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(And(In(known, fromId), In(known, toId))).then($ => {
+        $.if(In(successors, fromId)).then($ => {
+          const targets = $.let(Get(successors, fromId));
+          $.pushLast(targets, toId);
+        }).else($ => {
+          $.insert(successors, fromId, NewArray(StringType, [toId]));
+        });
+        $.if(In(predecessors, toId)).then($ => {
+          const sources = $.let(Get(predecessors, toId));
+          $.if(Not(In(sources, fromId))).then($ => {
+            $.insert(sources, fromId);
+          });
+        }).else($ => {
+          $.insert(predecessors, toId, NewSet(StringType, [fromId]));
+        });
+      });
+    });
+
+    // Step 2: Post-order numbers of the nodes reachable from the root (iterative DFS)
+    const postNumber = $.let(NewDict(StringType, IntegerType));
+    const postOrder = $.let(NewArray(StringType));
+    $.if(In(known, root)).then($ => {
+      const discovered = $.let(NewSet(StringType, [root]));
+      const frameNodes = $.let(NewArray(StringType, [root]));
+      const framePositions = $.let(NewArray(IntegerType, [Const(0n)]));
+      $.while(Greater(Size(frameNodes), Const(0n)), $ => {
+        const top = $.let(Subtract(Size(frameNodes), Const(1n)));
+        const current = $.let(Get(frameNodes, top));
+        const position = $.let(Get(framePositions, top));
+        const neighbors = $.let(Get(successors, current, NewArray(StringType)));
+
+        $.if(Less(position, Size(neighbors))).then($ => {
+          $.deleteLast(framePositions);
+          $.pushLast(framePositions, Add(position, Const(1n)));
+          const neighbor = $.let(Get(neighbors, position));
+          $.if(Not(In(discovered, neighbor))).then($ => {
+            $.insert(discovered, neighbor);
+            $.pushLast(frameNodes, neighbor);
+            $.pushLast(framePositions, Const(0n));
+          });
+        }).else($ => {
+          $.insert(postNumber, current, Size(postOrder));
+          $.pushLast(postOrder, current);
+          $.deleteLast(frameNodes);
+          $.deleteLast(framePositions);
+        });
+      });
+    });
+
+    // Step 3: Cooper-Harvey-Kennedy fixpoint over reverse post-order
+    const idom = $.let(NewDict(StringType, StringType));
+    $.if(In(known, root)).then($ => {
+      $.insert(idom, root, root);
+    });
+    const changed = $.let(Greater(Size(postOrder), Const(1n)));
+    $.while(changed, $ => {
+      $.assign(changed, Const(false));
+      const index = $.let(Subtract(Size(postOrder), Const(2n)));
+      $.while(GreaterEqual(index, Const(0n)), $ => {
+        const current = $.let(Get(postOrder, index));
+        const newIdom = $.let(Const(""));
+        $.forSet(Get(predecessors, current, NewSet(StringType)), ($, predecessor) => {
+          // Only predecessors that already have a dominator take part
+          $.if(In(idom, predecessor)).then($ => {
+            $.if(Equal(newIdom, Const(""))).then($ => {
+              $.assign(newIdom, predecessor);
+            }).else($ => {
+              // Intersect: walk both fingers up the current tree until they meet
+              const finger1 = $.let(predecessor);
+              const finger2 = $.let(newIdom);
+              $.while(Not(Equal(finger1, finger2)), $ => {
+                $.while(Less(Get(postNumber, finger1), Get(postNumber, finger2)), $ => {
+                  $.assign(finger1, Get(idom, finger1));
+                });
+                $.while(Less(Get(postNumber, finger2), Get(postNumber, finger1)), $ => {
+                  $.assign(finger2, Get(idom, finger2));
+                });
+              });
+              $.assign(newIdom, finger1);
+            });
+          });
+        });
+
+        $.if(Not(And(In(idom, current), Equal(Get(idom, current, Const("")), newIdom)))).then($ => {
+          $.insertOrUpdate(idom, current, newIdom);
+          $.assign(changed, Const(true));
+        });
+        $.assign(index, Subtract(index, Const(1n)));
+      });
+    });
+
+    // Step 4: Dominance frontiers from join nodes (two or more reachable predecessors)
+    const frontiers = $.let(NewDict(StringType, SetType(StringType)));
+    $.forArray(postOrder, ($, nodeId) => {
+      $.insert(frontiers, nodeId, NewSet(StringType));
+    });
+    $.forArray(postOrder, ($, nodeId) => {
+      const reachablePredecessors = $.let(NewArray(StringType));
+      $.forSet(Get(predecessors, nodeId, NewSet(StringType)), ($, predecessor) => {
+        $.if(In(idom, predecessor)).then($ => {
+          $.pushLast(reachablePredecessors, predecessor);
+        });
+      });
+      // The root is its own immediate dominator, so any edge back into it makes it a join node
+      const isRoot = $.let(Equal(nodeId, root));
+      $.if(Or(GreaterEqual(Size(reachablePredecessors), Const(2n)), And(isRoot, Greater(Size(reachablePredecessors), Const(0n))))).then($ => {
+        $.forArray(reachablePredecessors, ($, predecessor) => {
+          // The join node's immediate dominator dominates every predecessor, so the walk ends
+          const runner = $.let(predecessor);
+          $.while(Not(Equal(runner, Get(idom, nodeId))), $ => {
+            const runnerFrontier = $.let(Get(frontiers, runner));
+            $.if(Not(In(runnerFrontier, nodeId))).then($ => {
+              $.insert(runnerFrontier, nodeId);
+            });
+            $.assign(runner, Get(idom, runner));
+          });
+        });
+        $.if(isRoot).then($ => {
+          const rootFrontier = $.let(Get(frontiers, root));
+          $.insert(rootFrontier, root);
+        });
+      });
+    });
+
+    // Step 5: Tree depth (dominators come first in reverse post-order) and children
+    const depths = $.let(NewDict(StringType, IntegerType));
+    const position = $.let(Subtract(Size(postOrder), Const(1n)));
+    $.while(GreaterEqual(position, Const(0n)), $ => {
+      const nodeId = $.let(Get(postOrder, position));
+      $.if(Equal(nodeId, root)).then($ => {
+        $.insert(depths, nodeId, Const(0n));
+      }).else($ => {
+        $.insert(depths, nodeId, Add(Get(depths, Get(idom, nodeId)), Const(1n)));
+      });
+      $.assign(position, Subtract(position, Const(1n)));
+    });
+
+    const children = $.let(NewDict(StringType, ArrayType(StringType)));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(And(In(idom, nodeId), Not(Equal(nodeId, root)))).then($ => {
+        const parentId = $.let(Get(idom, nodeId));
+        $.if(In(children, parentId)).then($ => {
+          const siblings = $.let(Get(children, parentId));
+          $.pushLast(siblings, nodeId);
+        }).else($ => {
+          $.insert(children, parentId, NewArray(StringType, [nodeId]));
+        });
+      });
+    });
+
+    // Step 6: Assemble results in input order
+    const result = $.let(NewArray(GraphDominatorNode));
+    const unreachable = $.let(NewArray(StringType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(In(idom, nodeId)).then($ => {
+        const immediateDominator = $.let(Const(null, Nullable(StringType)));
+        $.if(Not(Equal(nodeId, root))).then($ => {
+          $.assign(immediateDominator, Get(idom, nodeId));
+        });
+        $.pushLast(result, Struct({
+          id: nodeId,
+          immediate_dominator: immediateDominator,
+          depth: Get(depths, nodeId),
+          children: Get(children, nodeId, NewArray(StringType)),
+          frontier: ToArray(Get(frontiers, nodeId))
+        }));
+      }).else($ => {
+        $.pushLast(unreachable, nodeId);
+      });
+    });
+
+    $.return(Struct({
+      root: root,
+      nodes: result,
+      unreachable: unreachable
+    }));
+  });
@@ -3,4 +3,10 @@ export { graph_bridge_detection, GraphBridgeEdge } from "./bridge_detection";
 export { graph_connected_components } from "./connected_components";
 export { graph_dynamic_reachability } from "./dynamic_reachability";
 export { graph_strongly_connected_components } from "./strongly_connected_components";
-export { graph_strong_subgraphs } from "./strong_subgraphs";
\ No newline at end of file
+export { graph_strong_subgraphs } from "./strong_subgraphs";
+export { graph_condensation } from "./condensation";
+export { graph_transitive_reduction } from "./transitive_reduction";
+export { graph_build_reachability_index } from "./reachability_index";
+export { graph_reachability_query } from "./reachability_query";
+export { graph_dominators } from "./dominators";
+export { graph_post_dominators } from "./post_dominators";
\ No newline at end of file
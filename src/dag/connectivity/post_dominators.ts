@@ -0,0 +1,69 @@
+import { Procedure } from "@elaraai/core";
+import {
+  GetField,
+  NewArray,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, StringType } from "@elaraai/core";
+
+import { graph_dominators } from "./dominators";
+import { GraphDominatorResult, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Post-dominators - post-dominator tree and post-dominance frontiers towards a sink
+ *
+ * Node D post-dominates node N when every path from N to the sink passes through D. Computed
+ * as the dominators of the reversed graph rooted at the sink, so the result has the same shape
+ * as `graph_dominators`: immediate post-dominators, the post-dominator tree and post-dominance
+ * frontiers (the control dependences of the original graph).
+ *
+ * **Example:**
+ * ```
+ * Input Graph (sink T):           Post-dominator tree:   Frontiers:
+ *   S ──→ A ──→ C ──→ D ──→ T       T                      A: [S]
+ *   └───→ B ────┘                   └── D                  B: [S]
+ *                                       └── C              others: []
+ *                                           ├── A
+ *                                           ├── B
+ *                                           └── S
+ * ```
+ * Everything from S, A or B must pass through C and D to reach T.
+ *
+ * **Output:**
+ * - `root` is the sink; `immediate_dominator` holds each node's immediate post-dominator
+ * - Nodes that cannot reach the sink are listed in `unreachable`
+ *
+ * **Use Cases:**
+ * - Lot tracing: "Which steps must every unit pass through before reaching finished goods T?"
+ * - Control dependence: Which branch decisions determine whether a step runs
+ *
+ * **Complexity:** Same as graph_dominators, plus O(E) to reverse the edges
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges (in their original direction)
+ * @param sink ID of the sink node
+ * @returns GraphDominatorResult over the reversed graph rooted at the sink
+ */
+export const graph_post_dominators = new Procedure("graph_post_dominators")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("sink", StringType)
+  .output(GraphDominatorResult)
+  .import(graph_dominators)
+  .body(($, { nodes, edges, sink }, procs) => {
+    const reversedEdges = $.let(NewArray(GraphEdge));
+    $.forArray(edges, ($, edge) => {
+      $.pushLast(reversedEdges, Struct({
+        from: GetField(edge, "to"),
+        to: GetField(edge, "from"),
+        type: GetField(edge, "type")
+      }));
+    });
+
+    $.return(procs.graph_dominators(Struct({
+      nodes: nodes,
+      edges: reversedEdges,
+      root: sink
+    })));
+  });
@@ -0,0 +1,200 @@
+import { Procedure, ToArray } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, SetType } from "@elaraai/core";
+
+import { graph_condensation } from "./condensation";
+import { GraphEdge, GraphNode, GraphReachabilityIndex, GraphReachabilityInterval } from "../types";
+
+/**
+ * Reachability index - compact interval labelling for fast "can A reach B?" queries
+ *
+ * Builds a tree-cover interval labelling (Agrawal, Borgida and Jagadish) over the strongly
+ * connected component condensation. Every component gets a post-order number from a spanning
+ * forest, and a short list of post-order intervals covering every component it can reach.
+ * A reaches B exactly when B's post-order number falls inside one of A's intervals, so queries
+ * need no traversal. Use `graph_reachability_query` to answer batches of pairs.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:              Spanning forest post-order:    Intervals:
+ *   A ──→ B ──→ D             D=0, C=1, B=2, A=3             A: [0, 3]
+ *   │           ↑                                            B: [0, 0], [2, 2]
+ *   └──→ C ─────┘                                            C: [0, 1]
+ *                                                            D: [0, 0]
+ * ```
+ * The forest visits A → C → D first, so B reaches D through the non-tree edge B→D and
+ * inherits D's interval [0, 0]. "Does B reach C?" is false: post(C) = 1 is in neither [0, 0]
+ * nor [2, 2].
+ *
+ * **Index Size:**
+ * - Tree-like graphs (genealogies, hierarchies) need about one interval per component
+ * - Each non-tree edge can add intervals; adjacent and overlapping intervals are merged
+ * - `interval_count` reports the total, compared with O(V²) for materialised ancestor sets
+ *
+ * **Notes:**
+ * - Reachability is reflexive: every node reaches itself
+ * - Nodes in the same strongly connected component reach each other
+ * - Edge types are ignored; duplicate node IDs use the first occurrence and edges to unknown
+ *   nodes are ignored
+ *
+ * **Use Cases:**
+ * - Batch lineage checks: "Is each of these 100K lots downstream of the recalled batch?"
+ * - Constraint validation: Reject new edges that would create cycles (does B reach A?)
+ *
+ * **Algorithm:**
+ * 1. Condense strongly connected components (topological component order)
+ * 2. Iterative depth-first search over the condensation assigns post-order numbers; the tree
+ *    interval of a component is [smallest post-order number in its subtree, its own number]
+ * 3. In reverse topological order, each component's intervals are its tree interval merged
+ *    with the intervals of all successors
+ *
+ * **Complexity:** O(V + E) for the condensation and forest, plus O(E × I) for interval merging
+ * where I = intervals per component (small for tree-like graphs)
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @returns GraphReachabilityIndex for use with graph_reachability_query
+ */
+export const graph_build_reachability_index = new Procedure("graph_build_reachability_index")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .output(GraphReachabilityIndex)
+  .import(graph_condensation)
+  .body(($, { nodes, edges }, procs) => {
+    const condensation = $.let(procs.graph_condensation(Struct({ nodes, edges })));
+    const componentCount = $.let(Size(GetField(condensation, "components")));
+
+    const successors = $.let(NewDict(IntegerType, SetType(IntegerType)));
+    $.forArray(GetField(condensation, "edges"), ($, componentEdge) => {
+      const fromComponent = $.let(GetField(componentEdge, "from"));
+      $.if(In(successors, fromComponent)).then($ => {
+        const targets = $.let(Get(successors, fromComponent));
+        $.insert(targets, GetField(componentEdge, "to"));
+      }).else($ => {
+        $.insert(successors, fromComponent, NewSet(IntegerType, [GetField(componentEdge, "to")]));
+      });
+    });
+
+    // Step 1: Post-order numbers and tree intervals from a depth-first spanning forest
+    const postOrder = $.let(NewDict(IntegerType, IntegerType));
+    const subtreeStart = $.let(NewDict(IntegerType, IntegerType));
+    const visited = $.let(NewSet(IntegerType));
+    const counter = $.let(Const(0n));
+
+    const root = $.let(Const(0n));
+    $.while(Less(root, componentCount), $ => {
+      $.if(Not(In(visited, root))).then($ => {
+        // Components are in topological order, so an unvisited component here is a forest root
+        $.insert(visited, root);
+        $.insert(subtreeStart, root, counter);
+        const frameComponents = $.let(NewArray(IntegerType, [root]));
+        const frameChildren = $.let(NewArray(ArrayType(IntegerType), [ToArray(Get(successors, root, NewSet(IntegerType)))]));
+        const framePositions = $.let(NewArray(IntegerType, [Const(0n)]));
+
+        $.while(Greater(Size(frameComponents), Const(0n)), $ => {
+          const top = $.let(Subtract(Size(frameComponents), Const(1n)));
+          const current = $.let(Get(frameComponents, top));
+          const children = $.let(Get(frameChildren, top));
+          const position = $.let(Get(framePositions, top));
+
+          $.if(Less(position, Size(children))).then($ => {
+            $.deleteLast(framePositions);
+            $.pushLast(framePositions, Add(position, Const(1n)));
+
+            const child = $.let(Get(children, position));
+            $.if(Not(In(visited, child))).then($ => {
+              $.insert(visited, child);
+              $.insert(subtreeStart, child, counter);
+              $.pushLast(frameComponents, child);
+              $.pushLast(frameChildren, ToArray(Get(successors, child, NewSet(IntegerType))));
+              $.pushLast(framePositions, Const(0n));
+            });
+          }).else($ => {
+            $.insert(postOrder, current, counter);
+            $.assign(counter, Add(counter, Const(1n)));
+            $.deleteLast(frameComponents);
+            $.deleteLast(frameChildren);
+            $.deleteLast(framePositions);
+          });
+        });
+      });
+      $.assign(root, Add(root, Const(1n)));
+    });
+
+    // Step 2: Merge successor intervals in reverse topological order
+    const componentIntervals = $.let(NewDict(IntegerType, ArrayType(GraphReachabilityInterval)));
+    const intervalCount = $.let(Const(0n));
+    const component = $.let(Subtract(componentCount, Const(1n)));
+    $.while(GreaterEqual(component, Const(0n)), $ => {
+      // Widest end per interval start; dictionaries iterate in start order
+      const ends = $.let(NewDict(IntegerType, IntegerType));
+      $.insert(ends, Get(subtreeStart, component), Get(postOrder, component));
+      $.if(In(successors, component)).then($ => {
+        $.forSet(Get(successors, component), ($, successor) => {
+          $.forArray(Get(componentIntervals, successor), ($, interval) => {
+            const start = $.let(GetField(interval, "start"));
+            $.if(Not(In(ends, start))).then($ => {
+              $.insert(ends, start, GetField(interval, "end"));
+            }).elseIf(Greater(GetField(interval, "end"), Get(ends, start))).then($ => {
+              $.insertOrUpdate(ends, start, GetField(interval, "end"));
+            });
+          });
+        });
+      });
+
+      // Merge overlapping and adjacent intervals
+      const merged = $.let(NewArray(GraphReachabilityInterval));
+      const currentStart = $.let(Const(-1n));
+      const currentEnd = $.let(Const(-2n));
+      $.forDict(ends, ($, end, start) => {
+        $.if(GreaterEqual(Add(currentEnd, Const(1n)), start)).then($ => {
+          $.if(Greater(end, currentEnd)).then($ => {
+            $.assign(currentEnd, end);
+          });
+        }).else($ => {
+          $.if(GreaterEqual(currentStart, Const(0n))).then($ => {
+            $.pushLast(merged, Struct({ start: currentStart, end: currentEnd }));
+          });
+          $.assign(currentStart, start);
+          $.assign(currentEnd, end);
+        });
+      });
+      $.pushLast(merged, Struct({ start: currentStart, end: currentEnd }));
+
+      $.insert(componentIntervals, component, merged);
+      $.assign(intervalCount, Add(intervalCount, Size(merged)));
+      $.assign(component, Subtract(component, Const(1n)));
+    });
+
+    // Step 3: Arrays indexed by component
+    const postOrderArray = $.let(NewArray(IntegerType));
+    const intervalsArray = $.let(NewArray(ArrayType(GraphReachabilityInterval)));
+    $.forDict(componentIntervals, ($, intervals, componentId) => {
+      $.pushLast(postOrderArray, Get(postOrder, componentId));
+      $.pushLast(intervalsArray, intervals);
+    });
+
+    $.return(Struct({
+      component_of: GetField(condensation, "component_of"),
+      post_order: postOrderArray,
+      intervals: intervalsArray,
+      interval_count: intervalCount
+    }));
+  });
@@ -0,0 +1,109 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Divide,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  NewArray,
+  Not,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType } from "@elaraai/core";
+
+import { GraphReachabilityAnswer, GraphReachabilityIndex, GraphReachabilityPair } from "../types";
+
+/**
+ * Reachability query - answers a batch of "can A reach B?" questions against a prebuilt index
+ *
+ * Looks up each pair in an index from `graph_build_reachability_index`: A reaches B when both
+ * are in the same strongly connected component, or when B's post-order number lies in one of
+ * A's intervals. Each pair costs a binary search over A's intervals, with no graph traversal.
+ *
+ * **Example:**
+ * ```
+ * Graph: A ──→ B ──→ D,  A ──→ C ──→ D
+ *
+ * Pairs:      Answers:
+ *   A → D       reachable: true
+ *   B → C       reachable: false
+ *   D → A       reachable: false
+ *   C → C       reachable: true (every node reaches itself)
+ *   A → X       reachable: false (X is not in the index)
+ * ```
+ *
+ * **Notes:**
+ * - Answers are returned in pair order, one per pair
+ * - Pairs with a node that is not in the index are answered false (including X → X)
+ *
+ * **Use Cases:**
+ * - Recall scoping: "Which of these lots are downstream of the contaminated batch?"
+ * - Cycle prevention: Before adding A→B, check whether B already reaches A
+ *
+ * **Complexity:** O(Q × log I) for Q pairs, where I = intervals of the pair's source component
+ *
+ * @param index Reachability index built by graph_build_reachability_index
+ * @param pairs Array of (from, to) node ID pairs
+ * @returns Array of GraphReachabilityAnswer in pair order
+ */
+export const graph_reachability_query = new Procedure("graph_reachability_query")
+  .input("index", GraphReachabilityIndex)
+  .input("pairs", ArrayType(GraphReachabilityPair))
+  .output(ArrayType(GraphReachabilityAnswer))
+  .body(($, { index, pairs }) => {
+    const componentOf = $.let(GetField(index, "component_of"));
+    const postOrder = $.let(GetField(index, "post_order"));
+    const intervals = $.let(GetField(index, "intervals"));
+    const answers = $.let(NewArray(GraphReachabilityAnswer));
+
+    $.forArray(pairs, ($, pair) => {
+      const fromId = $.let(GetField(pair, "from"));
+      const toId = $.let(GetField(pair, "to"));
+      const reachable = $.let(Const(false));
+
+      $.if(And(In(componentOf, fromId), In(componentOf, toId))).then($ => {
+        const fromComponent = $.let(Get(componentOf, fromId));
+        const toComponent = $.let(Get(componentOf, toId));
+
+        $.if(Equal(fromComponent, toComponent)).then($ => {
+          $.assign(reachable, Const(true));
+        }).else($ => {
+          // Binary search for the last interval starting at or before the target's number
+          const target = $.let(Get(postOrder, toComponent));
+          const fromIntervals = $.let(Get(intervals, fromComponent));
+          const low = $.let(Const(0n));
+          const high = $.let(Subtract(Size(fromIntervals), Const(1n)));
+          const candidate = $.let(Const(-1n));
+          $.while(Not(Greater(low, high)), $ => {
+            const middle = $.let(Divide(Add(low, high), Const(2n)));
+            $.if(Greater(GetField(Get(fromIntervals, middle), "start"), target)).then($ => {
+              $.assign(high, Subtract(middle, Const(1n)));
+            }).else($ => {
+              $.assign(candidate, middle);
+              $.assign(low, Add(middle, Const(1n)));
+            });
+          });
+
+          $.if(GreaterEqual(candidate, Const(0n))).then($ => {
+            $.assign(reachable, GreaterEqual(GetField(Get(fromIntervals, candidate), "end"), target));
+          });
+        });
+      });
+
+      $.pushLast(answers, Struct({
+        from: fromId,
+        to: toId,
+        reachable: reachable
+      }));
+    });
+
+    $.return(answers);
+  });
@@ -0,0 +1,176 @@
+import { Procedure } from "@elaraai/core";
+import {
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, SetType, StringType } from "@elaraai/core";
+
+import { graph_condensation } from "./condensation";
+import { GraphEdge, GraphNode, GraphTransitiveReductionResult } from "../types";
+
+/**
+ * Transitive reduction - removes edges implied by longer paths while keeping reachability
+ *
+ * An edge A→C is redundant when C is also reachable from A through another node (A→B→C), and
+ * a parallel edge is redundant when an earlier edge already connects the same pair. Removing
+ * all redundant edges gives the unique minimal edge set with the same reachability as the
+ * input DAG. Both the kept and the removed edges are returned, in input order.
+ *
+ * **Example:**
+ * ```
+ * Input edges: A→B, B→C, B→D, A→C, C→D, A→D
+ *
+ *   A ──→ B ──→ C ──→ D        edges:         A→B, B→C, C→D
+ *                              removed_edges: B→D, A→C, A→D  (all implied by A→B→C→D)
+ * ```
+ *
+ * **Cycle Policies:**
+ * - "error": Fail with the nodes of the first cycle found (the input must be a DAG)
+ * - "condense": Reduce the strongly connected component condensation instead. Edges inside a
+ *   component (including self-loops) are kept; between two components only the first edge of
+ *   each non-redundant component pair is kept
+ *
+ * **Notes:**
+ * - Edge types are ignored when deciding redundancy: A→C is redundant even when the path
+ *   A→B→C uses different edge types
+ * - The kept edge of a parallel group is the first one in input order
+ * - Edges referencing unknown nodes are kept unchanged
+ *
+ * **Use Cases:**
+ * - Cleaner exports: Remove shortcut edges before rendering DOT or Mermaid diagrams
+ * - Accurate statistics: Branching factors without redundant dependency edges
+ * - Dependency hygiene: "Which declared dependencies are already implied by others?"
+ *
+ * **Algorithm:** Components are processed in reverse topological order. Each component's
+ * successors are visited in increasing topological order, so any successor already in the
+ * accumulated reachable set is reached through an earlier successor and its edge is redundant.
+ *
+ * **Error Handling:** An unknown cycle_policy, or a cyclic graph under "error", fails the
+ * procedure with a descriptive error.
+ *
+ * **Complexity:** O(V + E + C × R) where C = condensation edges and R = average number of
+ * components reachable from a component
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param cycle_policy "error" or "condense"
+ * @returns GraphTransitiveReductionResult with kept edges, removed edges and the cycle flag
+ */
+export const graph_transitive_reduction = new Procedure("graph_transitive_reduction")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("cycle_policy", StringType)
+  .output(GraphTransitiveReductionResult)
+  .import(graph_condensation)
+  .body(($, { nodes, edges, cycle_policy }, procs) => {
+    $.if(Not(Or(Equal(cycle_policy, Const("error")), Equal(cycle_policy, Const("condense"))))).then($ => {
+      $.error(StringJoin([Const("Unknown cycle_policy \""), cycle_policy, Const("\" (expected error or condense)")]));
+    });
+
+    const condensation = $.let(procs.graph_condensation(Struct({ nodes, edges })));
+    const components = $.let(GetField(condensation, "components"));
+    const componentOf = $.let(GetField(condensation, "component_of"));
+    const cyclic = $.let(GetField(condensation, "cyclic"));
+
+    // Step 1: Reject cycles unless the condensation is reduced
+    $.if(And(cyclic, Equal(cycle_policy, Const("error")))).then($ => {
+      const description = $.let(Const(""));
+      $.forArray(components, ($, members) => {
+        $.if(And(Equal(description, Const("")), Greater(Size(members), Const(1n)))).then($ => {
+          $.forArray(members, ($, member) => {
+            $.if(Equal(description, Const(""))).then($ => {
+              $.assign(description, StringJoin([Const("cycle through "), member]));
+            }).else($ => {
+              $.assign(description, StringJoin([description, Const(", "), member]));
+            });
+          });
+        });
+      });
+      $.forArray(edges, ($, edge) => {
+        $.if(And(Equal(description, Const("")), And(Equal(GetField(edge, "from"), GetField(edge, "to")), In(componentOf, GetField(edge, "from"))))).then($ => {
+          $.assign(description, StringJoin([Const("self-loop on "), GetField(edge, "from")]));
+        });
+      });
+      $.error(StringJoin([Const("Graph is cyclic ("), description, Const("); use cycle_policy \"condense\" to reduce its condensation")]));
+    });
+
+    // Step 2: Reduce the condensation DAG
+    const successors = $.let(NewDict(IntegerType, SetType(IntegerType)));
+    $.forArray(GetField(condensation, "edges"), ($, componentEdge) => {
+      const fromComponent = $.let(GetField(componentEdge, "from"));
+      $.if(In(successors, fromComponent)).then($ => {
+        const targets = $.let(Get(successors, fromComponent));
+        $.insert(targets, GetField(componentEdge, "to"));
+      }).else($ => {
+        $.insert(successors, fromComponent, NewSet(IntegerType, [GetField(componentEdge, "to")]));
+      });
+    });
+
+    const reachable = $.let(NewDict(IntegerType, SetType(IntegerType)));
+    const keptPairs = $.let(NewSet(StringType));
+    const component = $.let(Subtract(Size(components), Const(1n)));
+    $.while(GreaterEqual(component, Const(0n)), $ => {
+      const componentReach = $.let(NewSet(IntegerType));
+      $.if(In(successors, component)).then($ => {
+        // Successors in increasing topological order (sets iterate in sorted order)
+        $.forSet(Get(successors, component), ($, successor) => {
+          $.if(Not(In(componentReach, successor))).then($ => {
+            $.insert(keptPairs, StringJoin([component, Const(":"), successor]));
+            $.insert(componentReach, successor);
+            $.forSet(Get(reachable, successor), ($, descendant) => {
+              $.if(Not(In(componentReach, descendant))).then($ => {
+                $.insert(componentReach, descendant);
+              });
+            });
+          });
+        });
+      });
+      $.insert(reachable, component, componentReach);
+      $.assign(component, Subtract(component, Const(1n)));
+    });
+
+    // Step 3: Map the kept component pairs back to the first original edge of each pair
+    const keptEdges = $.let(NewArray(GraphEdge));
+    const removedEdges = $.let(NewArray(GraphEdge));
+    const usedPairs = $.let(NewSet(StringType));
+    $.forArray(edges, ($, edge) => {
+      $.if(And(In(componentOf, GetField(edge, "from")), In(componentOf, GetField(edge, "to")))).then($ => {
+        const fromComponent = $.let(Get(componentOf, GetField(edge, "from")));
+        const toComponent = $.let(Get(componentOf, GetField(edge, "to")));
+        const pairKey = $.let(StringJoin([fromComponent, Const(":"), toComponent]));
+
+        $.if(Equal(fromComponent, toComponent)).then($ => {
+          $.pushLast(keptEdges, edge);
+        }).elseIf(And(In(keptPairs, pairKey), Not(In(usedPairs, pairKey)))).then($ => {
+          $.insert(usedPairs, pairKey);
+          $.pushLast(keptEdges, edge);
+        }).else($ => {
+          $.pushLast(removedEdges, edge);
+        });
+      }).else($ => {
+        $.pushLast(keptEdges, edge);
+      });
+    });
+
+    $.return(Struct({
+      edges: keptEdges,
+      removed_edges: removedEdges,
+      cyclic: cyclic
+    }));
+  });
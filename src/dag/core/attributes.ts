@@ -0,0 +1,69 @@
+import { Procedure } from "@elaraai/core";
+import {
+  GetField,
+  NewArray,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType } from "@elaraai/core";
+
+import {
+  GraphAttributedEdge,
+  GraphAttributedNode,
+  GraphBasicGraph,
+  GraphEdge,
+  GraphNode
+} from "../types";
+
+/**
+ * Shared utility for removing attributes from attributed nodes and edges
+ *
+ * Attributed nodes and edges carry a bag of typed attributes (strings, floats, integers,
+ * datetimes and booleans) alongside the usual id/type and from/to/type fields. The
+ * `graph_attributed_*` procedure variants use this utility to run the plain graph procedures
+ * on the structure and then attach the attributes to the results again.
+ *
+ * **Example:**
+ * ```
+ * Input:                                          Result:
+ *   node {id: A, type: lot, attributes: {...}}      node {id: A, type: lot}
+ *   edge {from: A, to: B, type: flow,               edge {from: A, to: B, type: flow}
+ *         attributes: {floats: {quantity: 12.5}}}
+ * ```
+ *
+ * **Notes:** Order and duplicates are preserved, so the i-th plain node or edge corresponds to
+ * the i-th attributed node or edge.
+ *
+ * **Complexity:** O(V + E)
+ *
+ * @param nodes Array of attributed nodes
+ * @param edges Array of attributed edges
+ * @returns Plain nodes and edges in input order
+ */
+export const graph_strip_attributes = new Procedure("graph_strip_attributes")
+  .input("nodes", ArrayType(GraphAttributedNode))
+  .input("edges", ArrayType(GraphAttributedEdge))
+  .output(GraphBasicGraph)
+  .body(($, { nodes, edges }) => {
+    const plainNodes = $.let(NewArray(GraphNode));
+    $.forArray(nodes, ($, node) => {
+      $.pushLast(plainNodes, Struct({
+        id: GetField(node, "id"),
+        type: GetField(node, "type")
+      }));
+    });
+
+    const plainEdges = $.let(NewArray(GraphEdge));
+    $.forArray(edges, ($, edge) => {
+      $.pushLast(plainEdges, Struct({
+        from: GetField(edge, "from"),
+        to: GetField(edge, "to"),
+        type: GetField(edge, "type")
+      }));
+    });
+
+    $.return(Struct({
+      nodes: plainNodes,
+      edges: plainEdges
+    }));
+  });
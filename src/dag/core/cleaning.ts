@@ -0,0 +1,247 @@
+import { Procedure } from "@elaraai/core";
+import {
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, IntegerType, Nullable, SetType, StringType } from "@elaraai/core";
+
+import {
+  GraphCleanChange,
+  GraphCleanPolicy,
+  GraphCleanResult,
+  GraphEdge,
+  GraphNode
+} from "../types";
+
+/**
+ * Graph cleaning procedure - repairs graph structure and returns the cleaned nodes and edges
+ *
+ * Companion to `graph_validate`: where validation only counts structural problems, cleaning
+ * applies a configurable policy to each problem and returns the repaired graph together with
+ * a change log entry for every node or edge that was removed or created.
+ *
+ * **Policies:**
+ * - duplicate_nodes: "keep_first" or "keep_last" occurrence of each node ID
+ * - dangling_edges: "drop" the edge, or "stub" the missing endpoint with a placeholder node
+ *   of type stub_node_type
+ * - duplicate_edges: "keep" all, "collapse" edges with the same from/to pair (as counted by
+ *   graph_validate), or "collapse_typed" edges with the same from/to/type (first occurrence kept)
+ * - orphaned_nodes: "keep" or "drop" nodes not referenced by any remaining edge
+ *
+ * **Example:**
+ * ```
+ * Input Graph:              Policy:                      Result:
+ * A ──→ B                   duplicate_nodes: keep_first  nodes: [A, B, X(stub)]
+ * A ──→ B (duplicate)       dangling_edges: stub         edges: [A→B, B→X]
+ * B ──→ X (missing)         duplicate_edges: collapse    changes:
+ * A (duplicate)             orphaned_nodes: drop           removed node A (duplicate_node)
+ * D (orphaned)                                             created node X (stub_node)
+ *                                                          removed edge A→B (duplicate_edge)
+ *                                                          removed node D (orphaned_node)
+ * ```
+ *
+ * **Processing order:**
+ * 1. Resolve duplicate nodes
+ * 2. Drop or stub dangling edges (against the deduplicated nodes)
+ * 3. Collapse duplicate edges
+ * 4. Drop orphaned nodes (against the remaining edges; stub nodes are never orphaned)
+ *
+ * **Use Cases:**
+ * - Preprocessing: "Clean the graph before running expensive analysis"
+ * - Auditing: "Which rows were dropped from the genealogy and why?"
+ * - Placeholder repair: "Keep edges to unknown lots, but mark those lots for follow-up"
+ *
+ * **Error Handling:** Unknown policy values fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(V + E) time using dictionaries and sets for all lookups
+ *
+ * @param nodes Array of graph nodes to clean
+ * @param edges Array of graph edges to clean
+ * @param policy Cleaning policy applied to each category of problem
+ * @returns Cleaned nodes and edges with a change log of removed and created items
+ */
+export const graph_clean = new Procedure("graph_clean")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("policy", GraphCleanPolicy)
+  .output(GraphCleanResult)
+  .body(($, { nodes, edges, policy }) => {
+    const duplicateNodePolicy = $.let(GetField(policy, "duplicate_nodes"));
+    const danglingEdgePolicy = $.let(GetField(policy, "dangling_edges"));
+    const stubNodeType = $.let(GetField(policy, "stub_node_type"));
+    const duplicateEdgePolicy = $.let(GetField(policy, "duplicate_edges"));
+    const orphanedNodePolicy = $.let(GetField(policy, "orphaned_nodes"));
+
+    // Validate policy values up front
+    $.if(Not(Or(Equal(duplicateNodePolicy, Const("keep_first")), Equal(duplicateNodePolicy, Const("keep_last"))))).then($ => {
+      $.error(StringJoin([Const("Invalid duplicate_nodes policy: "), duplicateNodePolicy, Const(" (expected keep_first or keep_last)")]));
+    });
+    $.if(Not(Or(Equal(danglingEdgePolicy, Const("drop")), Equal(danglingEdgePolicy, Const("stub"))))).then($ => {
+      $.error(StringJoin([Const("Invalid dangling_edges policy: "), danglingEdgePolicy, Const(" (expected drop or stub)")]));
+    });
+    $.if(Not(Or(Equal(duplicateEdgePolicy, Const("keep")), Or(Equal(duplicateEdgePolicy, Const("collapse")), Equal(duplicateEdgePolicy, Const("collapse_typed")))))).then($ => {
+      $.error(StringJoin([Const("Invalid duplicate_edges policy: "), duplicateEdgePolicy, Const(" (expected keep, collapse or collapse_typed)")]));
+    });
+    $.if(Not(Or(Equal(orphanedNodePolicy, Const("keep")), Equal(orphanedNodePolicy, Const("drop"))))).then($ => {
+      $.error(StringJoin([Const("Invalid orphaned_nodes policy: "), orphanedNodePolicy, Const(" (expected keep or drop)")]));
+    });
+
+    const changes = $.let(NewArray(GraphCleanChange));
+
+    // Step 1: Resolve duplicate nodes
+    const lastOccurrence = $.let(NewDict(StringType, IntegerType)); // id -> index of last occurrence
+    $.forArray(nodes, ($, node, index) => {
+      $.insertOrUpdate(lastOccurrence, GetField(node, "id"), index);
+    });
+
+    const keptNodes = $.let(NewArray(GraphNode));
+    const keptNodeIds = $.let(NewSet(StringType));
+    $.forArray(nodes, ($, node, index) => {
+      const nodeId = $.let(GetField(node, "id"));
+      const keep = $.let(Const(false));
+
+      $.if(Equal(duplicateNodePolicy, Const("keep_first"))).then($ => {
+        $.assign(keep, Not(In(keptNodeIds, nodeId)));
+      }).else($ => {
+        $.assign(keep, Equal(Get(lastOccurrence, nodeId), index));
+      });
+
+      $.if(keep).then($ => {
+        $.pushLast(keptNodes, node);
+        $.insert(keptNodeIds, nodeId);
+      }).else($ => {
+        $.pushLast(changes, Struct({
+          action: Const("removed"),
+          reason: Const("duplicate_node"),
+          node: node,
+          edge: Const(null, Nullable(GraphEdge))
+        }));
+      });
+    });
+
+    // Step 2: Drop or stub dangling edges
+    const stubNodeIds = $.let(NewSet(StringType));
+    const stubNodes = $.let(NewArray(GraphNode));
+    const connectedEdges = $.let(NewArray(GraphEdge));
+
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      const fromExists = $.let(Or(In(keptNodeIds, fromId), In(stubNodeIds, fromId)));
+      const toExists = $.let(Or(In(keptNodeIds, toId), In(stubNodeIds, toId)));
+
+      $.if(And(fromExists, toExists)).then($ => {
+        $.pushLast(connectedEdges, edge);
+      }).elseIf(Equal(danglingEdgePolicy, Const("drop"))).then($ => {
+        $.pushLast(changes, Struct({
+          action: Const("removed"),
+          reason: Const("dangling_edge"),
+          node: Const(null, Nullable(GraphNode)),
+          edge: edge
+        }));
+      }).else($ => {
+        // Create placeholder nodes for the missing endpoints
+        $.if(Not(fromExists)).then($ => {
+          const stubNode = $.let(Struct({ id: fromId, type: stubNodeType }));
+          $.insert(stubNodeIds, fromId);
+          $.pushLast(stubNodes, stubNode);
+          $.pushLast(changes, Struct({
+            action: Const("created"),
+            reason: Const("stub_node"),
+            node: stubNode,
+            edge: edge
+          }));
+        });
+        $.if(And(Not(toExists), Not(Equal(toId, fromId)))).then($ => {
+          const stubNode = $.let(Struct({ id: toId, type: stubNodeType }));
+          $.insert(stubNodeIds, toId);
+          $.pushLast(stubNodes, stubNode);
+          $.pushLast(changes, Struct({
+            action: Const("created"),
+            reason: Const("stub_node"),
+            node: stubNode,
+            edge: edge
+          }));
+        });
+        $.pushLast(connectedEdges, edge);
+      });
+    });
+
+    // Step 3: Collapse duplicate edges (first occurrence kept)
+    const cleanedEdges = $.let(NewArray(GraphEdge));
+    const seenEdges = $.let(NewDict(StringType, DictType(StringType, SetType(StringType)))); // from -> to -> edge types
+    const noTypes = $.let(NewSet(StringType));
+
+    $.forArray(connectedEdges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(Not(In(seenEdges, fromId))).then($ => {
+        $.insert(seenEdges, fromId, NewDict(StringType, SetType(StringType)));
+      });
+      const seenTargets = $.let(Get(seenEdges, fromId));
+      const isDuplicate = $.let(In(seenTargets, toId));
+      $.if(Equal(duplicateEdgePolicy, Const("collapse_typed"))).then($ => {
+        $.assign(isDuplicate, In(Get(seenTargets, toId, noTypes), GetField(edge, "type")));
+      });
+      $.if(Not(In(seenTargets, toId))).then($ => {
+        $.insert(seenTargets, toId, NewSet(StringType));
+      });
+      const seenTypes = $.let(Get(seenTargets, toId));
+
+      $.if(And(Not(Equal(duplicateEdgePolicy, Const("keep"))), isDuplicate)).then($ => {
+        $.pushLast(changes, Struct({
+          action: Const("removed"),
+          reason: Const("duplicate_edge"),
+          node: Const(null, Nullable(GraphNode)),
+          edge: edge
+        }));
+      }).else($ => {
+        $.insertOrUpdate(seenTypes, GetField(edge, "type"));
+        $.pushLast(cleanedEdges, edge);
+      });
+    });
+
+    // Step 4: Drop orphaned nodes (not referenced by any remaining edge)
+    const referencedNodes = $.let(NewSet(StringType));
+    $.forArray(cleanedEdges, ($, edge) => {
+      $.insertOrUpdate(referencedNodes, GetField(edge, "from"));
+      $.insertOrUpdate(referencedNodes, GetField(edge, "to"));
+    });
+
+    const cleanedNodes = $.let(NewArray(GraphNode));
+    $.forArray(keptNodes, ($, node) => {
+      $.if(And(Equal(orphanedNodePolicy, Const("drop")), Not(In(referencedNodes, GetField(node, "id"))))).then($ => {
+        $.pushLast(changes, Struct({
+          action: Const("removed"),
+          reason: Const("orphaned_node"),
+          node: node,
+          edge: Const(null, Nullable(GraphEdge))
+        }));
+      }).else($ => {
+        $.pushLast(cleanedNodes, node);
+      });
+    });
+
+    // Stub nodes follow the original nodes
+    $.forArray(stubNodes, ($, stubNode) => {
+      $.pushLast(cleanedNodes, stubNode);
+    });
+
+    $.return(Struct({
+      nodes: cleanedNodes,
+      edges: cleanedEdges,
+      changes: changes
+    }));
+  });
@@ -1,2 +1,10 @@
 export { graph_build_adjacency_lists } from "./adjacency_lists";
-export { graph_validate } from "./validation";
\ No newline at end of file
+export { graph_validate } from "./validation";
+export { graph_build_indexed_graph } from "./indexed_graph";
+export { graph_build_multigraph_adjacency } from "./multigraph_adjacency";
+export { graph_clean } from "./cleaning";
+export { graph_validation_report } from "./validation_report";
+export { graph_validate_schema } from "./schema_validation";
+export { graph_merge } from "./merge";
+export { graph_strip_attributes } from "./attributes";
+export { graph_traversal_edges } from "./traversal_edges";
\ No newline at end of file
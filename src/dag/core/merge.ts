@@ -0,0 +1,267 @@
+import { Procedure } from "@elaraai/core";
+import {
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, BooleanType, DictType, IntegerType, Nullable, SetType, StringType } from "@elaraai/core";
+
+import {
+  GraphEdge,
+  GraphMergeConflict,
+  GraphMergeLink,
+  GraphMergePolicy,
+  GraphMergeResult,
+  GraphMergeSource,
+  GraphNode
+} from "../types";
+
+/**
+ * Graph merge procedure - combines several graphs into one with ID namespacing and conflict resolution
+ *
+ * Unions the nodes and edges of every source graph, optionally prefixing the node IDs of each
+ * source so overlapping ID spaces stay apart. Nodes that end up with the same ID are merged
+ * into one node according to the duplicate node policy, and linking edges from a key-mapping
+ * table connect nodes across sources by their original IDs.
+ *
+ * **Example:**
+ * ```
+ * Sources:                                Links:
+ *   supply (prefix "sc:"): S1 ──→ L1        supply L1 ──produces──→ production B1
+ *   production (no prefix): B1 ──→ P1
+ *
+ * Result:
+ *   nodes: [sc:S1, sc:L1, B1, P1]
+ *   edges: [sc:S1→sc:L1, B1→P1, sc:L1→B1 (produces)]
+ * ```
+ *
+ * **Duplicate node policies:**
+ * - "first_wins": The first occurrence's type is kept
+ * - "error": Fail when a node ID occurs with conflicting types (identical duplicates are merged)
+ * - "type_priority": Keep the type that appears earliest in type_priority; types not listed rank
+ *   after all listed types and ties keep the first occurrence
+ *
+ * **Notes:**
+ * - Merged nodes keep the position of their first occurrence
+ * - Exact duplicate edges (same merged from/to/type) are kept once; link edges follow source edges
+ * - Edges are not validated against the nodes; use graph_validate or graph_clean on the result
+ * - Every merged duplicate node and every link endpoint that could not be resolved is reported
+ *
+ * **Use Cases:**
+ * - Cross-domain analysis: "Combine the supply-chain graph with the production graph"
+ * - Namespacing: "Both systems use numeric IDs - keep them apart with per-source prefixes"
+ * - Master data: "Where two sources disagree on a node type, prefer the production system"
+ *
+ * **Error Handling:** Unknown policy values, duplicate source names and (with the "error"
+ * policy) conflicting node types fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(V + E + L) where L = number of links
+ *
+ * @param graphs Source graphs with names and optional ID prefixes
+ * @param links Linking edges between nodes of different sources, by original node ID
+ * @param policy Duplicate node policy and type priority list
+ * @returns Merged nodes and edges with a conflict report
+ */
+export const graph_merge = new Procedure("graph_merge")
+  .input("graphs", ArrayType(GraphMergeSource))
+  .input("links", ArrayType(GraphMergeLink))
+  .input("policy", GraphMergePolicy)
+  .output(GraphMergeResult)
+  .body(($, { graphs, links, policy }) => {
+    const duplicateNodePolicy = $.let(GetField(policy, "duplicate_nodes"));
+    const typePriority = $.let(GetField(policy, "type_priority"));
+
+    // Validate policy values up front
+    $.if(Not(Or(Equal(duplicateNodePolicy, Const("first_wins")), Or(Equal(duplicateNodePolicy, Const("error")), Equal(duplicateNodePolicy, Const("type_priority")))))).then($ => {
+      $.error(StringJoin([Const("Invalid duplicate_nodes policy: "), duplicateNodePolicy, Const(" (expected first_wins, error or type_priority)")]));
+    });
+
+    // Type priority rank: position in the list, unlisted types rank last
+    const priorityRank = $.let(NewDict(StringType, IntegerType));
+    $.forArray(typePriority, ($, nodeType, index) => {
+      $.if(Not(In(priorityRank, nodeType))).then($ => {
+        $.insert(priorityRank, nodeType, index);
+      });
+    });
+    const unlistedRank = $.let(Size(typePriority));
+
+    // Source name -> ID prefix
+    const sourcePrefixes = $.let(NewDict(StringType, StringType));
+    $.forArray(graphs, ($, graph) => {
+      const sourceName = $.let(GetField(graph, "name"));
+      $.if(In(sourcePrefixes, sourceName)).then($ => {
+        $.error(StringJoin([Const("Duplicate source graph name: "), sourceName]));
+      });
+
+      const prefix = $.let(Const(""));
+      $.ifNull(GetField(graph, "id_prefix")).then(_ => {
+        // No prefix: keep original IDs
+      }).else(($, nonNullPrefix) => {
+        $.assign(prefix, nonNullPrefix);
+      });
+      $.insert(sourcePrefixes, sourceName, prefix);
+    });
+
+    // Step 1: Merge nodes
+    const nodeOrder = $.let(NewArray(StringType));
+    const keptTypes = $.let(NewDict(StringType, StringType));
+    const keptRanks = $.let(NewDict(StringType, IntegerType));
+    const occurrenceSources = $.let(NewDict(StringType, ArrayType(StringType)));
+    const occurrenceTypes = $.let(NewDict(StringType, ArrayType(StringType)));
+    const typeConflicts = $.let(NewDict(StringType, BooleanType));
+
+    $.forArray(graphs, ($, graph) => {
+      const sourceName = $.let(GetField(graph, "name"));
+      const prefix = $.let(Get(sourcePrefixes, sourceName));
+
+      $.forArray(GetField(graph, "nodes"), ($, node) => {
+        const mergedId = $.let(StringJoin([prefix, GetField(node, "id")]));
+        const nodeType = $.let(GetField(node, "type"));
+        const rank = $.let(Get(priorityRank, nodeType, unlistedRank));
+
+        $.if(In(keptTypes, mergedId)).then($ => {
+          const sources = $.let(Get(occurrenceSources, mergedId));
+          const types = $.let(Get(occurrenceTypes, mergedId));
+          $.pushLast(sources, sourceName);
+          $.pushLast(types, nodeType);
+
+          const keptType = $.let(Get(keptTypes, mergedId));
+          $.if(Not(Equal(keptType, nodeType))).then($ => {
+            $.insertOrUpdate(typeConflicts, mergedId, Const(true));
+
+            $.if(Equal(duplicateNodePolicy, Const("error"))).then($ => {
+              $.error(StringJoin([
+                Const("Conflicting types for node "), mergedId, Const(": "),
+                keptType, Const(" ("), Get(sources, Const(0n)), Const(") and "),
+                nodeType, Const(" ("), sourceName, Const(")")
+              ]));
+            }).elseIf(And(Equal(duplicateNodePolicy, Const("type_priority")), Less(rank, Get(keptRanks, mergedId)))).then($ => {
+              $.insertOrUpdate(keptTypes, mergedId, nodeType);
+              $.insertOrUpdate(keptRanks, mergedId, rank);
+            });
+          });
+        }).else($ => {
+          $.pushLast(nodeOrder, mergedId);
+          $.insert(keptTypes, mergedId, nodeType);
+          $.insert(keptRanks, mergedId, rank);
+          $.insert(occurrenceSources, mergedId, NewArray(StringType, [sourceName]));
+          $.insert(occurrenceTypes, mergedId, NewArray(StringType, [nodeType]));
+          $.insert(typeConflicts, mergedId, Const(false));
+        });
+      });
+    });
+
+    const mergedNodes = $.let(NewArray(GraphNode));
+    const conflicts = $.let(NewArray(GraphMergeConflict));
+    $.forArray(nodeOrder, ($, mergedId) => {
+      const keptType = $.let(Get(keptTypes, mergedId));
+      $.pushLast(mergedNodes, Struct({ id: mergedId, type: keptType }));
+
+      const sources = $.let(Get(occurrenceSources, mergedId));
+      $.if(Greater(Size(sources), Const(1n))).then($ => {
+        const reason = $.let(Const("duplicate_node"));
+        $.if(Get(typeConflicts, mergedId)).then($ => {
+          $.assign(reason, Const("type_conflict"));
+        });
+        $.pushLast(conflicts, Struct({
+          reason: reason,
+          node_id: mergedId,
+          sources: sources,
+          types: Get(occurrenceTypes, mergedId),
+          kept_type: keptType
+        }));
+      });
+    });
+
+    // Step 2: Merge edges (exact duplicates kept once)
+    const mergedEdges = $.let(NewArray(GraphEdge));
+    const seenEdges = $.let(NewDict(StringType, DictType(StringType, SetType(StringType)))); // from -> (to -> edge types)
+
+    $.forArray(graphs, ($, graph) => {
+      const prefix = $.let(Get(sourcePrefixes, GetField(graph, "name")));
+
+      $.forArray(GetField(graph, "edges"), ($, edge) => {
+        const fromId = $.let(StringJoin([prefix, GetField(edge, "from")]));
+        const toId = $.let(StringJoin([prefix, GetField(edge, "to")]));
+        const edgeType = $.let(GetField(edge, "type"));
+
+        $.if(Not(In(seenEdges, fromId))).then($ => {
+          $.insert(seenEdges, fromId, NewDict(StringType, SetType(StringType)));
+        });
+        const seenTargets = $.let(Get(seenEdges, fromId));
+        $.if(Not(In(seenTargets, toId))).then($ => {
+          $.insert(seenTargets, toId, NewSet(StringType));
+        });
+        const seenTypes = $.let(Get(seenTargets, toId));
+        $.if(Not(In(seenTypes, edgeType))).then($ => {
+          $.insert(seenTypes, edgeType);
+          $.pushLast(mergedEdges, Struct({ from: fromId, to: toId, type: edgeType }));
+        });
+      });
+    });
+
+    // Step 3: Add linking edges between resolved nodes
+    $.forArray(links, ($, link) => {
+      const fromGraph = $.let(GetField(link, "from_graph"));
+      const toGraph = $.let(GetField(link, "to_graph"));
+      const fromId = $.let(StringJoin([Get(sourcePrefixes, fromGraph, Const("")), GetField(link, "from_id")]));
+      const toId = $.let(StringJoin([Get(sourcePrefixes, toGraph, Const("")), GetField(link, "to_id")]));
+      const fromResolved = $.let(And(In(sourcePrefixes, fromGraph), In(keptTypes, fromId)));
+      const toResolved = $.let(And(In(sourcePrefixes, toGraph), In(keptTypes, toId)));
+
+      $.if(And(fromResolved, toResolved)).then($ => {
+        const edgeType = $.let(GetField(link, "type"));
+        $.if(Not(In(seenEdges, fromId))).then($ => {
+          $.insert(seenEdges, fromId, NewDict(StringType, SetType(StringType)));
+        });
+        const seenTargets = $.let(Get(seenEdges, fromId));
+        $.if(Not(In(seenTargets, toId))).then($ => {
+          $.insert(seenTargets, toId, NewSet(StringType));
+        });
+        const seenTypes = $.let(Get(seenTargets, toId));
+        $.if(Not(In(seenTypes, edgeType))).then($ => {
+          $.insert(seenTypes, edgeType);
+          $.pushLast(mergedEdges, Struct({ from: fromId, to: toId, type: edgeType }));
+        });
+      }).else($ => {
+        $.if(Not(fromResolved)).then($ => {
+          $.pushLast(conflicts, Struct({
+            reason: Const("unresolved_link"),
+            node_id: fromId,
+            sources: NewArray(StringType, [fromGraph]),
+            types: NewArray(StringType),
+            kept_type: Const(null, Nullable(StringType))
+          }));
+        });
+        $.if(Not(toResolved)).then($ => {
+          $.pushLast(conflicts, Struct({
+            reason: Const("unresolved_link"),
+            node_id: toId,
+            sources: NewArray(StringType, [toGraph]),
+            types: NewArray(StringType),
+            kept_type: Const(null, Nullable(StringType))
+          }));
+        });
+      });
+    });
+
+    $.return(Struct({
+      nodes: mergedNodes,
+      edges: mergedEdges,
+      conflicts: conflicts
+    }));
+  });
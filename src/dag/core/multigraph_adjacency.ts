@@ -0,0 +1,121 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  Not,
+  Size,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, IntegerType, StringType } from "@elaraai/core";
+
+import { graph_build_adjacency_lists } from "./adjacency_lists";
+import {
+  GraphEdge,
+  GraphEdgeGroup,
+  GraphMultigraphAdjacency
+} from "../types";
+
+/**
+ * Shared utility for building multigraph-aware adjacency lists from graph edges
+ *
+ * Produces the same forward and reverse adjacency lists as `graph_build_adjacency_lists`
+ * (one entry per connected pair), plus an edge group for every (from, to) pair that keeps
+ * the parallel edges the simple adjacency lists collapse: their types, how many there are
+ * of each type, and their positions in the input edge array.
+ *
+ * **Example:**
+ * ```
+ * Input Edges:                     Result:
+ *   0: A ──transfer──→ B            adjacency_list: {A: [B], B: [C]}
+ *   1: A ──transfer──→ B            edge_groups[A][B]:
+ *   2: A ──sample────→ B              edge_types:   [transfer, transfer, sample]
+ *   3: B ──transfer──→ C              edge_indices: [0, 1, 2]
+ *                                     type_counts:  {transfer: 2, sample: 1}
+ *                                     count: 3
+ * ```
+ *
+ * **Use Cases:**
+ * - Edge type lookups: "Which edge types connect A to B?" without rescanning the edge array
+ * - Multiplicity: "How many transfers happened from A to B?"
+ * - Traceability: "Which input rows produced this connection?"
+ * - Traversal metadata: Pass to graph_tracked_bfs / graph_tracked_dfs to populate parent_edge_types
+ *
+ * **Algorithm:** Builds the simple adjacency lists with the shared utility, then groups edges
+ * by (from, to) pair in a single pass and counts types per group.
+ *
+ * **Complexity:** O(E) where E = number of edges
+ *
+ * @param edges Array of directed edges representing the graph structure
+ * @returns Adjacency lists plus parallel edge groups keyed by from and to node IDs
+ */
+export const graph_build_multigraph_adjacency = new Procedure("graph_build_multigraph_adjacency")
+  .input("edges", ArrayType(GraphEdge))
+  .output(GraphMultigraphAdjacency)
+  .import(graph_build_adjacency_lists)
+  .body(($, { edges }, procs) => {
+    // Neighbor order and deduplication match graph_build_adjacency_lists
+    const adjacencyData = $.let(procs.graph_build_adjacency_lists(Struct({ edges })));
+
+    // Collect parallel edge types and positions per (from, to) pair
+    const pairTypes = $.let(NewDict(StringType, DictType(StringType, ArrayType(StringType))));
+    const pairIndices = $.let(NewDict(StringType, DictType(StringType, ArrayType(IntegerType))));
+
+    $.forArray(edges, ($, edge, edgeIndex) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      const edgeType = $.let(GetField(edge, "type"));
+
+      $.if(Not(In(pairTypes, fromId))).then($ => {
+        $.insert(pairTypes, fromId, NewDict(StringType, ArrayType(StringType)));
+        $.insert(pairIndices, fromId, NewDict(StringType, ArrayType(IntegerType)));
+      });
+
+      const toTypes = $.let(Get(pairTypes, fromId));
+      const toIndices = $.let(Get(pairIndices, fromId));
+      $.if(In(toTypes, toId)).then($ => {
+        const types = $.let(Get(toTypes, toId));
+        const indices = $.let(Get(toIndices, toId));
+        $.pushLast(types, edgeType);
+        $.pushLast(indices, edgeIndex);
+      }).else($ => {
+        $.insert(toTypes, toId, NewArray(StringType, [edgeType]));
+        $.insert(toIndices, toId, NewArray(IntegerType, [edgeIndex]));
+      });
+    });
+
+    // Assemble edge groups with per-type counts
+    const edgeGroups = $.let(NewDict(StringType, DictType(StringType, GraphEdgeGroup)));
+    $.forDict(pairTypes, ($, toTypes, fromId) => {
+      const toIndices = $.let(Get(pairIndices, fromId));
+      const groups = $.let(NewDict(StringType, GraphEdgeGroup));
+
+      $.forDict(toTypes, ($, types, toId) => {
+        const typeCounts = $.let(NewDict(StringType, IntegerType));
+        $.forArray(types, ($, edgeType) => {
+          const currentCount = $.let(Get(typeCounts, edgeType, Const(0n)));
+          $.insertOrUpdate(typeCounts, edgeType, Add(currentCount, Const(1n)));
+        });
+
+        $.insert(groups, toId, Struct({
+          edge_types: types,
+          edge_indices: Get(toIndices, toId),
+          type_counts: typeCounts,
+          count: Size(types)
+        }));
+      });
+
+      $.insert(edgeGroups, fromId, groups);
+    });
+
+    $.return(Struct({
+      adjacency_list: GetField(adjacencyData, "adjacency_list"),
+      reverse_adjacency_list: GetField(adjacencyData, "reverse_adjacency_list"),
+      edge_groups: edgeGroups
+    }));
+  });
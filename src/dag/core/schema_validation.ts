@@ -0,0 +1,281 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, IntegerType, Nullable, SetType, StringType, StructType } from "@elaraai/core";
+
+import {
+  GraphEdge,
+  GraphNode,
+  GraphSchema,
+  GraphSchemaViolation
+} from "../types";
+
+/**
+ * Graph schema validation - checks a graph against domain rules and returns every violation
+ *
+ * Where `graph_validate` checks structural integrity and `graph_missing_transitions` checks
+ * for absent type transitions, schema validation checks the graph against explicit domain
+ * rules: which node types may exist, which (from_type, edge_type, to_type) triples may be
+ * connected, and how many incoming or outgoing edges each node type must have.
+ *
+ * **Example:**
+ * ```
+ * Schema:                                    Graph:
+ *   node_types: [recipe, batch, vessel]        R1(recipe) ──produces──→ B1(batch)
+ *   transitions:                               B1(batch) ──transfer──→ V1(vessel)
+ *     recipe -produces→ batch                  V1(vessel) ──transfer──→ V2(vessel)
+ *     batch -fill→ vessel                      B2(batch)
+ *     vessel -transfer→ vessel
+ *   degree_rules:
+ *     batch: exactly 1 incoming "produces" edge from a recipe
+ *
+ * Violations:
+ *   transition  edge 1 (B1 → V1): batch -transfer→ vessel is not allowed
+ *   min_degree  B2: in-degree 0 is below minimum 1
+ * ```
+ *
+ * **Rules:**
+ * - node_type: Node type is not in schema.node_types (skipped when the list is empty)
+ * - transition: Edge triple is not in schema.transitions (skipped when the list is empty)
+ * - min_degree / max_degree: Number of matching incoming ("in") or outgoing ("out") edges of
+ *   a node is outside [min_count, max_count]. A degree rule counts only edges of edge_type and
+ *   edges to or from nodes of neighbor_type when those are set; parallel edges each count.
+ *
+ * **Notes:**
+ * - Duplicate node IDs use the type of their first occurrence (as in graph_validate)
+ * - Dangling edges are not checked or counted; use graph_validate or graph_validation_report
+ * - Violations are ordered: node types (node order), transitions (edge order), then degree
+ *   rules (rule order, then node order)
+ *
+ * **Use Cases:**
+ * - Domain rules: "A batch node must have exactly one incoming edge from a recipe node"
+ * - Typed connections: "Edges of type 'transfer' may only connect vessel → vessel"
+ * - Load checks: "Reject graphs containing node types the model does not know about"
+ *
+ * **Error Handling:** Degree rules with a direction other than "in" or "out" fail the
+ * procedure with a descriptive error.
+ *
+ * **Complexity:** O(V + E + T + R × D) where T = transitions, R = degree rules and D = the
+ * total degree of nodes of each rule's node type
+ *
+ * @param nodes Array of graph nodes with types
+ * @param edges Array of directed, typed edges
+ * @param schema Allowed node types, transitions and degree rules
+ * @returns Every schema violation with the offending node or edge and the rule it broke
+ */
+export const graph_validate_schema = new Procedure("graph_validate_schema")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("schema", GraphSchema)
+  .output(ArrayType(GraphSchemaViolation))
+  .body(($, { nodes, edges, schema }) => {
+    const allowedNodeTypes = $.let(GetField(schema, "node_types"));
+    const allowedTransitions = $.let(GetField(schema, "transitions"));
+    const degreeRules = $.let(GetField(schema, "degree_rules"));
+
+    // Validate degree rule directions up front
+    $.forArray(degreeRules, ($, rule) => {
+      const direction = $.let(GetField(rule, "direction"));
+      $.if(Not(Or(Equal(direction, Const("in")), Equal(direction, Const("out"))))).then($ => {
+        $.error(StringJoin([Const("Invalid degree rule direction: "), direction, Const(" (expected in or out)")]));
+      });
+    });
+
+    const violations = $.let(NewArray(GraphSchemaViolation));
+
+    // Step 1: Build node type map (first occurrence wins) and group node IDs by type
+    const nodeTypeMap = $.let(NewDict(StringType, StringType));
+    const nodeOrder = $.let(NewArray(StringType));
+    const nodesByType = $.let(NewDict(StringType, ArrayType(StringType)));
+
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      const nodeType = $.let(GetField(node, "type"));
+      $.if(Not(In(nodeTypeMap, nodeId))).then($ => {
+        $.insert(nodeTypeMap, nodeId, nodeType);
+        $.pushLast(nodeOrder, nodeId);
+        $.if(In(nodesByType, nodeType)).then($ => {
+          const typeNodes = $.let(Get(nodesByType, nodeType));
+          $.pushLast(typeNodes, nodeId);
+        }).else($ => {
+          $.insert(nodesByType, nodeType, NewArray(StringType, [nodeId]));
+        });
+      });
+    });
+
+    // Step 2: Check node types
+    $.if(Greater(Size(allowedNodeTypes), Const(0n))).then($ => {
+      const allowedNodeTypeSet = $.let(NewSet(StringType));
+      $.forArray(allowedNodeTypes, ($, nodeType) => {
+        $.insertOrUpdate(allowedNodeTypeSet, nodeType);
+      });
+
+      $.forArray(nodeOrder, ($, nodeId) => {
+        const nodeType = $.let(Get(nodeTypeMap, nodeId));
+        $.if(Not(In(allowedNodeTypeSet, nodeType))).then($ => {
+          $.pushLast(violations, Struct({
+            rule: Const("node_type"),
+            node_id: nodeId,
+            edge_index: Const(null, Nullable(IntegerType)),
+            edge: Const(null, Nullable(GraphEdge)),
+            rule_index: Const(null, Nullable(IntegerType)),
+            actual_count: Const(null, Nullable(IntegerType)),
+            message: StringJoin([Const("Node type not allowed: "), nodeType])
+          }));
+        });
+      });
+    });
+
+    // Step 3: Check transitions and collect typed edge endpoints for the degree rules
+    const allowedTransitionTypes = $.let(NewDict(StringType, DictType(StringType, SetType(StringType)))); // from_type -> edge_type -> to_types
+    $.forArray(allowedTransitions, ($, transition) => {
+      const allowedFromType = $.let(GetField(transition, "from_type"));
+      const allowedEdgeType = $.let(GetField(transition, "edge_type"));
+      $.if(Not(In(allowedTransitionTypes, allowedFromType))).then($ => {
+        $.insert(allowedTransitionTypes, allowedFromType, NewDict(StringType, SetType(StringType)));
+      });
+      const allowedEdgeTypes = $.let(Get(allowedTransitionTypes, allowedFromType));
+      $.if(Not(In(allowedEdgeTypes, allowedEdgeType))).then($ => {
+        $.insert(allowedEdgeTypes, allowedEdgeType, NewSet(StringType));
+      });
+      const allowedToTypes = $.let(Get(allowedEdgeTypes, allowedEdgeType));
+      $.insertOrUpdate(allowedToTypes, GetField(transition, "to_type"));
+    });
+    const noEdgeTypes = $.let(NewDict(StringType, SetType(StringType)));
+    const noToTypes = $.let(NewSet(StringType));
+    const checkTransitions = $.let(Greater(Size(allowedTransitions), Const(0n)));
+
+    const EdgeEnd = StructType({ edge_type: StringType, neighbor_type: StringType });
+    const incomingEdges = $.let(NewDict(StringType, ArrayType(EdgeEnd)));
+    const outgoingEdges = $.let(NewDict(StringType, ArrayType(EdgeEnd)));
+
+    $.forArray(edges, ($, edge, edgeIndex) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      const edgeType = $.let(GetField(edge, "type"));
+
+      $.if(And(In(nodeTypeMap, fromId), In(nodeTypeMap, toId))).then($ => {
+        const fromType = $.let(Get(nodeTypeMap, fromId));
+        const toType = $.let(Get(nodeTypeMap, toId));
+
+        const transitionAllowed = $.let(In(Get(Get(allowedTransitionTypes, fromType, noEdgeTypes), edgeType, noToTypes), toType));
+        $.if(And(checkTransitions, Not(transitionAllowed))).then($ => {
+          $.pushLast(violations, Struct({
+            rule: Const("transition"),
+            node_id: Const(null, Nullable(StringType)),
+            edge_index: edgeIndex,
+            edge: edge,
+            rule_index: Const(null, Nullable(IntegerType)),
+            actual_count: Const(null, Nullable(IntegerType)),
+            message: StringJoin([Const("Transition not allowed: "), fromType, Const(" -"), edgeType, Const("-> "), toType])
+          }));
+        });
+
+        $.if(Not(In(outgoingEdges, fromId))).then($ => {
+          $.insert(outgoingEdges, fromId, NewArray(EdgeEnd));
+        });
+        const fromEnds = $.let(Get(outgoingEdges, fromId));
+        $.pushLast(fromEnds, Struct({ edge_type: edgeType, neighbor_type: toType }));
+
+        $.if(Not(In(incomingEdges, toId))).then($ => {
+          $.insert(incomingEdges, toId, NewArray(EdgeEnd));
+        });
+        const toEnds = $.let(Get(incomingEdges, toId));
+        $.pushLast(toEnds, Struct({ edge_type: edgeType, neighbor_type: fromType }));
+      });
+    });
+
+    // Step 4: Check degree rules for every node of the rule's node type
+    const noEnds = $.let(NewArray(EdgeEnd));
+    $.forArray(degreeRules, ($, rule, ruleIndex) => {
+      const ruleNodeType = $.let(GetField(rule, "node_type"));
+      const direction = $.let(GetField(rule, "direction"));
+      const minCount = $.let(GetField(rule, "min_count"));
+
+      const anyEdgeType = $.let(Const(true));
+      const requiredEdgeType = $.let(Const(""));
+      $.ifNull(GetField(rule, "edge_type")).then(_ => {
+        // No edge type filter
+      }).else(($, ruleEdgeType) => {
+        $.assign(anyEdgeType, Const(false));
+        $.assign(requiredEdgeType, ruleEdgeType);
+      });
+
+      const anyNeighborType = $.let(Const(true));
+      const requiredNeighborType = $.let(Const(""));
+      $.ifNull(GetField(rule, "neighbor_type")).then(_ => {
+        // No neighbor type filter
+      }).else(($, ruleNeighborType) => {
+        $.assign(anyNeighborType, Const(false));
+        $.assign(requiredNeighborType, ruleNeighborType);
+      });
+
+      const hasMax = $.let(Const(false));
+      const maxCount = $.let(Const(0n));
+      $.ifNull(GetField(rule, "max_count")).then(_ => {
+        // Unbounded
+      }).else(($, ruleMaxCount) => {
+        $.assign(hasMax, Const(true));
+        $.assign(maxCount, ruleMaxCount);
+      });
+
+      const edgeEnds = $.let(outgoingEdges);
+      $.if(Equal(direction, Const("in"))).then($ => {
+        $.assign(edgeEnds, incomingEdges);
+      });
+
+      $.forArray(Get(nodesByType, ruleNodeType, NewArray(StringType)), ($, nodeId) => {
+        const count = $.let(Const(0n));
+        $.forArray(Get(edgeEnds, nodeId, noEnds), ($, edgeEnd) => {
+          $.if(And(
+            Or(anyEdgeType, Equal(GetField(edgeEnd, "edge_type"), requiredEdgeType)),
+            Or(anyNeighborType, Equal(GetField(edgeEnd, "neighbor_type"), requiredNeighborType))
+          )).then($ => {
+            $.assign(count, Add(count, Const(1n)));
+          });
+        });
+
+        $.if(Less(count, minCount)).then($ => {
+          $.pushLast(violations, Struct({
+            rule: Const("min_degree"),
+            node_id: nodeId,
+            edge_index: Const(null, Nullable(IntegerType)),
+            edge: Const(null, Nullable(GraphEdge)),
+            rule_index: ruleIndex,
+            actual_count: count,
+            message: StringJoin([direction, Const("-degree "), count, Const(" is below minimum "), minCount])
+          }));
+        }).elseIf(And(hasMax, Greater(count, maxCount))).then($ => {
+          $.pushLast(violations, Struct({
+            rule: Const("max_degree"),
+            node_id: nodeId,
+            edge_index: Const(null, Nullable(IntegerType)),
+            edge: Const(null, Nullable(GraphEdge)),
+            rule_index: ruleIndex,
+            actual_count: count,
+            message: StringJoin([direction, Const("-degree "), count, Const(" is above maximum "), maxCount])
+          }));
+        });
+      });
+    });
+
+    $.return(violations);
+  });
@@ -0,0 +1,91 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Const,
+  Equal,
+  GetField,
+  In,
+  NewArray,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, StringType } from "@elaraai/core";
+
+import { GraphEdge, GraphTraversalOptions } from "../types";
+
+/**
+ * Shared utility for applying traversal options to an edge list
+ *
+ * Keeps the edges whose type is allowed by `edge_types` and orients them for the traversal
+ * direction, so that following edges from → to in the result walks the graph the requested
+ * way. Used by graph_bfs_with_options, graph_dfs_with_options, graph_tracked_bfs_with_options
+ * and graph_tracked_dfs_with_options before they build their adjacency lists; the node type,
+ * stop type and depth options are applied by the traversals themselves.
+ *
+ * **Example:**
+ * ```
+ * Input edges: A -transfer-> B, B -ship-> C        Options: backward, edge_types [transfer]
+ *
+ * Result: B -transfer-> A  (reversed; the "ship" edge is dropped)
+ * ```
+ *
+ * **Directions:**
+ * - "forward": Edges unchanged, in input order
+ * - "backward": Every edge reversed, in input order
+ * - "both": The forward edges in input order, followed by the reversed edges
+ *
+ * **Error Handling:** An unknown direction fails the procedure with a descriptive error.
+ *
+ * **Complexity:** O(E)
+ *
+ * @param edges Array of directed edges
+ * @param options Traversal options (only direction and edge_types are used here)
+ * @returns Filtered edges oriented in the traversal direction
+ */
+export const graph_traversal_edges = new Procedure("graph_traversal_edges")
+  .input("edges", ArrayType(GraphEdge))
+  .input("options", GraphTraversalOptions)
+  .output(ArrayType(GraphEdge))
+  .body(($, { edges, options }) => {
+    const direction = $.let(GetField(options, "direction"));
+    $.if(Not(Or(Or(Equal(direction, Const("forward")), Equal(direction, Const("backward"))), Equal(direction, Const("both"))))).then($ => {
+      $.error(StringJoin([Const("Unknown direction \""), direction, Const("\" (expected forward, backward or both)")]));
+    });
+
+    const allowedEdgeTypes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "edge_types"), ($, edgeType) => {
+      $.if(Not(In(allowedEdgeTypes, edgeType))).then($ => {
+        $.insert(allowedEdgeTypes, edgeType);
+      });
+    });
+    const anyEdgeType = $.let(Equal(Size(allowedEdgeTypes), Const(0n)));
+
+    const allowedEdges = $.let(NewArray(GraphEdge));
+    $.forArray(edges, ($, edge) => {
+      $.if(Or(anyEdgeType, In(allowedEdgeTypes, GetField(edge, "type")))).then($ => {
+        $.pushLast(allowedEdges, edge);
+      });
+    });
+
+    const result = $.let(NewArray(GraphEdge));
+    $.if(Not(Equal(direction, Const("backward")))).then($ => {
+      $.forArray(allowedEdges, ($, edge) => {
+        $.pushLast(result, edge);
+      });
+    });
+    $.if(Not(Equal(direction, Const("forward")))).then($ => {
+      $.forArray(allowedEdges, ($, edge) => {
+        $.pushLast(result, Struct({
+          from: GetField(edge, "to"),
+          to: GetField(edge, "from"),
+          type: GetField(edge, "type")
+        }));
+      });
+    });
+
+    $.return(result);
+  });
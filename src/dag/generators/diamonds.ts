@@ -0,0 +1,126 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  GetField,
+  Less,
+  NewArray,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { IntegerType, StringType } from "@elaraai/core";
+
+import { graph_random_next } from "./random";
+import { GraphBasicGraph, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Diamond generator - seeded set of fan-out / fan-in diamonds
+ *
+ * Creates `diamond_count` independent diamonds. Each diamond has a source node, between
+ * `min_width` and `max_width` middle nodes and a sink node, with an edge from the source to
+ * every middle node and from every middle node to the sink.
+ *
+ * **Example:**
+ * ```
+ * Input: diamond_count 1, min_width 2, max_width 2
+ *
+ * Result:
+ *         n0
+ *       ┌─┴─┐
+ *       n1  n2
+ *       └─┬─┘
+ *         n3
+ * ```
+ *
+ * **Output:**
+ * - Node IDs are "n0", "n1", ... per diamond in source, middle, sink order
+ * - Node types are `source_type`, `middle_type` and `sink_type`; all edges have `edge_type`
+ * - The same seed and parameters always produce the same graph
+ *
+ * **Use Cases:**
+ * - Reconvergence tests: Nodes reached along many paths (visited-once, path counting)
+ * - Mixing processes: Split a batch across parallel vessels and blend back together
+ *
+ * **Error Handling:** Invalid sizes (diamond_count < 0, min_width < 1, max_width < min_width)
+ * fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(N) where N = generated nodes
+ *
+ * @param seed Generator seed
+ * @param diamond_count Number of diamonds
+ * @param min_width Minimum middle nodes per diamond
+ * @param max_width Maximum middle nodes per diamond
+ * @param source_type Type of each diamond's source node
+ * @param middle_type Type of each diamond's middle nodes
+ * @param sink_type Type of each diamond's sink node
+ * @param edge_type Type of every generated edge
+ * @returns GraphBasicGraph with the generated nodes and edges
+ */
+export const graph_generate_diamonds = new Procedure("graph_generate_diamonds")
+  .input("seed", IntegerType)
+  .input("diamond_count", IntegerType)
+  .input("min_width", IntegerType)
+  .input("max_width", IntegerType)
+  .input("source_type", StringType)
+  .input("middle_type", StringType)
+  .input("sink_type", StringType)
+  .input("edge_type", StringType)
+  .output(GraphBasicGraph)
+  .import(graph_random_next)
+  .body(($, { seed, diamond_count, min_width, max_width, source_type, middle_type, sink_type, edge_type }, procs) => {
+    $.if(Less(diamond_count, Const(0n))).then($ => {
+      $.error(StringJoin([Const("diamond_count must not be negative, got "), diamond_count]));
+    });
+    $.if(Less(min_width, Const(1n))).then($ => {
+      $.error(StringJoin([Const("min_width must be at least 1, got "), min_width]));
+    });
+    $.if(Less(max_width, min_width)).then($ => {
+      $.error(StringJoin([Const("max_width "), max_width, Const(" is below min_width "), min_width]));
+    });
+
+    const rng = $.let(seed);
+    const nodes = $.let(NewArray(GraphNode));
+    const edges = $.let(NewArray(GraphEdge));
+
+    const diamond = $.let(Const(0n));
+    $.while(Less(diamond, diamond_count), $ => {
+      const widthDraw = $.let(procs.graph_random_next(Struct({
+        state: rng,
+        bound: Add(Subtract(max_width, min_width), Const(1n))
+      })));
+      $.assign(rng, GetField(widthDraw, "state"));
+      const width = $.let(Add(min_width, GetField(widthDraw, "value")));
+
+      const sourceId = $.let(StringJoin([Const("n"), Size(nodes)]));
+      $.pushLast(nodes, Struct({ id: sourceId, type: source_type }));
+
+      const middleIds = $.let(NewArray(StringType));
+      const position = $.let(Const(0n));
+      $.while(Less(position, width), $ => {
+        const middleId = $.let(StringJoin([Const("n"), Size(nodes)]));
+        $.pushLast(nodes, Struct({ id: middleId, type: middle_type }));
+        $.pushLast(middleIds, middleId);
+        $.assign(position, Add(position, Const(1n)));
+      });
+
+      const sinkId = $.let(StringJoin([Const("n"), Size(nodes)]));
+      $.pushLast(nodes, Struct({ id: sinkId, type: sink_type }));
+
+      $.forArray(middleIds, ($, middleId) => {
+        $.pushLast(edges, Struct({ from: sourceId, to: middleId, type: edge_type }));
+      });
+      $.forArray(middleIds, ($, middleId) => {
+        $.pushLast(edges, Struct({ from: middleId, to: sinkId, type: edge_type }));
+      });
+
+      $.assign(diamond, Add(diamond, Const(1n)));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges
+    }));
+  });
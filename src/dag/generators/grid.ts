@@ -0,0 +1,94 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Less,
+  Multiply,
+  NewArray,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { IntegerType, StringType } from "@elaraai/core";
+
+import { GraphBasicGraph, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Grid generator - directed rows × columns lattice
+ *
+ * Creates a grid of `rows` × `columns` nodes with edges to the right and downwards, giving a
+ * single source (top-left), a single sink (bottom-right) and an exponential number of
+ * source-to-sink paths. The grid is fully determined by its size, so no seed is needed.
+ *
+ * **Example:**
+ * ```
+ * Input: rows 2, columns 3
+ *
+ * Result:
+ *   n0 ──→ n1 ──→ n2
+ *   │      │      │
+ *   ↓      ↓      ↓
+ *   n3 ──→ n4 ──→ n5
+ * ```
+ *
+ * **Output:**
+ * - Node IDs are "n<row × columns + column>"; all nodes have `node_type`
+ * - Edges are listed per node (right, then down) and all have `edge_type`
+ *
+ * **Use Cases:**
+ * - Path explosion tests: all-paths and path membership limits
+ * - Dense reconvergence: Shortest and critical paths with many ties
+ *
+ * **Error Handling:** Negative sizes fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(R × C)
+ *
+ * @param rows Number of rows
+ * @param columns Number of columns
+ * @param node_type Type of every generated node
+ * @param edge_type Type of every generated edge
+ * @returns GraphBasicGraph with the generated nodes and edges
+ */
+export const graph_generate_grid = new Procedure("graph_generate_grid")
+  .input("rows", IntegerType)
+  .input("columns", IntegerType)
+  .input("node_type", StringType)
+  .input("edge_type", StringType)
+  .output(GraphBasicGraph)
+  .body(($, { rows, columns, node_type, edge_type }) => {
+    $.if(Less(rows, Const(0n))).then($ => {
+      $.error(StringJoin([Const("rows must not be negative, got "), rows]));
+    });
+    $.if(Less(columns, Const(0n))).then($ => {
+      $.error(StringJoin([Const("columns must not be negative, got "), columns]));
+    });
+
+    const nodes = $.let(NewArray(GraphNode));
+    const edges = $.let(NewArray(GraphEdge));
+
+    const row = $.let(Const(0n));
+    $.while(Less(row, rows), $ => {
+      const column = $.let(Const(0n));
+      $.while(Less(column, columns), $ => {
+        const index = $.let(Add(Multiply(row, columns), column));
+        const nodeId = $.let(StringJoin([Const("n"), index]));
+        $.pushLast(nodes, Struct({ id: nodeId, type: node_type }));
+
+        $.if(Less(column, Subtract(columns, Const(1n)))).then($ => {
+          $.pushLast(edges, Struct({ from: nodeId, to: StringJoin([Const("n"), Add(index, Const(1n))]), type: edge_type }));
+        });
+        $.if(Less(row, Subtract(rows, Const(1n)))).then($ => {
+          $.pushLast(edges, Struct({ from: nodeId, to: StringJoin([Const("n"), Add(index, columns)]), type: edge_type }));
+        });
+
+        $.assign(column, Add(column, Const(1n)));
+      });
+      $.assign(row, Add(row, Const(1n)));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges
+    }));
+  });
@@ -0,0 +1,8 @@
+export { graph_random_next } from "./random";
+export { graph_generate_layered_dag } from "./layered_dag";
+export { graph_generate_chains } from "./chains";
+export { graph_generate_tree } from "./tree";
+export { graph_generate_diamonds } from "./diamonds";
+export { graph_generate_grid } from "./grid";
+export { graph_generate_scale_free } from "./scale_free";
+export { graph_generate_workflow } from "./workflow";
\ No newline at end of file
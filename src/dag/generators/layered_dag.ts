@@ -0,0 +1,140 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  Less,
+  Multiply,
+  NewArray,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { FloatType, IntegerType, StringType } from "@elaraai/core";
+
+import { graph_random_next } from "./random";
+import { GraphBasicGraph, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Layered DAG generator - seeded random DAG with controlled depth and width
+ *
+ * Creates `layer_count` layers of between `min_width` and `max_width` nodes and connects each
+ * node to nodes of the previous layer with probability `edge_probability`. Every node below the
+ * first layer gets at least one parent, so the number of layers equals the longest path length
+ * plus one.
+ *
+ * **Example:**
+ * ```
+ * Input: layer_count 3, min_width 1, max_width 3, edge_probability 0.5
+ *
+ * Result (one possible seed):
+ *   layer_0:     n0
+ *              ┌─┴─┐
+ *   layer_1:   n1  n2
+ *              │ ╲ │
+ *   layer_2:   n3  n4
+ * ```
+ *
+ * **Output:**
+ * - Node IDs are "n0", "n1", ... in layer order; node types are "layer_<k>"
+ * - Edges run from layer k to layer k + 1 and all have `edge_type`
+ * - The same seed and parameters always produce the same graph
+ *
+ * **Use Cases:**
+ * - Benchmarks: Scale tests for traversal, critical path and aggregation procedures
+ * - Property tests: Random DAGs with a known layer structure
+ *
+ * **Algorithm:** Draws each layer width, then one Bernoulli trial per pair of adjacent-layer
+ * nodes using `graph_random_next`, adding a random parent to nodes that received none.
+ *
+ * **Error Handling:** Invalid sizes (layer_count < 1, min_width < 1, max_width < min_width) fail
+ * the procedure with a descriptive error.
+ *
+ * **Complexity:** O(L × W²) where L = layers, W = max_width
+ *
+ * @param seed Generator seed
+ * @param layer_count Number of layers
+ * @param min_width Minimum nodes per layer
+ * @param max_width Maximum nodes per layer
+ * @param edge_probability Probability of an edge between two nodes in adjacent layers
+ * @param edge_type Type of every generated edge
+ * @returns GraphBasicGraph with the generated nodes and edges
+ */
+export const graph_generate_layered_dag = new Procedure("graph_generate_layered_dag")
+  .input("seed", IntegerType)
+  .input("layer_count", IntegerType)
+  .input("min_width", IntegerType)
+  .input("max_width", IntegerType)
+  .input("edge_probability", FloatType)
+  .input("edge_type", StringType)
+  .output(GraphBasicGraph)
+  .import(graph_random_next)
+  .body(($, { seed, layer_count, min_width, max_width, edge_probability, edge_type }, procs) => {
+    $.if(Less(layer_count, Const(1n))).then($ => {
+      $.error(StringJoin([Const("layer_count must be at least 1, got "), layer_count]));
+    });
+    $.if(Less(min_width, Const(1n))).then($ => {
+      $.error(StringJoin([Const("min_width must be at least 1, got "), min_width]));
+    });
+    $.if(Less(max_width, min_width)).then($ => {
+      $.error(StringJoin([Const("max_width "), max_width, Const(" is below min_width "), min_width]));
+    });
+
+    const rng = $.let(seed);
+    const nodes = $.let(NewArray(GraphNode));
+    const edges = $.let(NewArray(GraphEdge));
+    const previousLayer = $.let(NewArray(StringType));
+    const threshold = $.let(Multiply(edge_probability, Const(1000000.0)));
+
+    const layer = $.let(Const(0n));
+    $.while(Less(layer, layer_count), $ => {
+      const widthDraw = $.let(procs.graph_random_next(Struct({
+        state: rng,
+        bound: Add(Subtract(max_width, min_width), Const(1n))
+      })));
+      $.assign(rng, GetField(widthDraw, "state"));
+      const width = $.let(Add(min_width, GetField(widthDraw, "value")));
+
+      const currentLayer = $.let(NewArray(StringType));
+      const position = $.let(Const(0n));
+      $.while(Less(position, width), $ => {
+        const nodeId = $.let(StringJoin([Const("n"), Size(nodes)]));
+        $.pushLast(nodes, Struct({ id: nodeId, type: StringJoin([Const("layer_"), layer]) }));
+        $.pushLast(currentLayer, nodeId);
+
+        // Connect to the previous layer
+        $.if(Greater(layer, Const(0n))).then($ => {
+          const parentCount = $.let(Const(0n));
+          $.forArray(previousLayer, ($, parentId) => {
+            const edgeDraw = $.let(procs.graph_random_next(Struct({ state: rng, bound: Const(1000000n) })));
+            $.assign(rng, GetField(edgeDraw, "state"));
+            $.if(Less(Multiply(GetField(edgeDraw, "value"), Const(1.0)), threshold)).then($ => {
+              $.pushLast(edges, Struct({ from: parentId, to: nodeId, type: edge_type }));
+              $.assign(parentCount, Add(parentCount, Const(1n)));
+            });
+          });
+
+          $.if(Equal(parentCount, Const(0n))).then($ => {
+            const parentDraw = $.let(procs.graph_random_next(Struct({ state: rng, bound: Size(previousLayer) })));
+            $.assign(rng, GetField(parentDraw, "state"));
+            $.pushLast(edges, Struct({ from: Get(previousLayer, GetField(parentDraw, "value")), to: nodeId, type: edge_type }));
+          });
+        });
+
+        $.assign(position, Add(position, Const(1n)));
+      });
+
+      $.assign(previousLayer, currentLayer);
+      $.assign(layer, Add(layer, Const(1n)));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges
+    }));
+  });
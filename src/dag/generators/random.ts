@@ -0,0 +1,74 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Divide,
+  GreaterEqual,
+  Less,
+  Multiply,
+  Or,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { IntegerType } from "@elaraai/core";
+
+import { GraphRandomDraw } from "../types";
+
+/**
+ * Seeded pseudo-random draw - advances a Park-Miller generator and returns a bounded integer
+ *
+ * Shared by the graph generators so that every generated graph is fully determined by its seed.
+ * Pass the seed as the first state, then the returned state to each following draw.
+ *
+ * **Example:**
+ * ```
+ * draw 1: state 42      → { state: 2027382, value: 2027382 mod bound }
+ * draw 2: state 2027382 → { state: 1226992407, value: 1226992407 mod bound }
+ * ```
+ *
+ * **Notes:**
+ * - States outside [1, 2^31 - 2] (including 0 and negative seeds) are first mapped into range
+ * - value = state mod bound, so small bounds have negligible bias
+ *
+ * **Algorithm:** Minimal standard Lehmer generator: state' = state × 48271 mod (2^31 - 1).
+ *
+ * **Error Handling:** A bound below 1 fails the procedure with a descriptive error.
+ *
+ * **Complexity:** O(1)
+ *
+ * @param state Current generator state (or the seed for the first draw)
+ * @param bound Exclusive upper bound of the returned value
+ * @returns GraphRandomDraw with the next state and a value in [0, bound)
+ */
+export const graph_random_next = new Procedure("graph_random_next")
+  .input("state", IntegerType)
+  .input("bound", IntegerType)
+  .output(GraphRandomDraw)
+  .body(($, { state, bound }) => {
+    const modulus = $.let(Const(2147483647n));
+
+    $.if(Less(bound, Const(1n))).then($ => {
+      $.error(StringJoin([Const("Random bound must be at least 1, got "), bound]));
+    });
+
+    // Map seeds into [1, modulus - 1]
+    const current = $.let(state);
+    $.if(Or(Less(current, Const(1n)), GreaterEqual(current, modulus))).then($ => {
+      $.if(Less(current, Const(0n))).then($ => {
+        $.assign(current, Subtract(Const(0n), current));
+      });
+      const range = $.let(Subtract(modulus, Const(1n)));
+      $.assign(current, Add(Subtract(current, Multiply(Divide(current, range), range)), Const(1n)));
+    });
+
+    const product = $.let(Multiply(current, Const(48271n)));
+    const next = $.let(Subtract(product, Multiply(Divide(product, modulus), modulus)));
+    const value = $.let(Subtract(next, Multiply(Divide(next, bound), bound)));
+
+    $.return(Struct({
+      state: next,
+      value: value
+    }));
+  });
@@ -0,0 +1,139 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Get,
+  GetField,
+  In,
+  Less,
+  Min,
+  Multiply,
+  NewArray,
+  NewSet,
+  Not,
+  Size,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { IntegerType, StringType } from "@elaraai/core";
+
+import { graph_random_next } from "./random";
+import { GraphBasicGraph, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Scale-free generator - seeded preferential attachment DAG
+ *
+ * Adds nodes one at a time; each new node receives edges from up to `edges_per_node` distinct
+ * earlier nodes, chosen with probability proportional to their degree plus one (Barabási-Albert
+ * attachment). A few early nodes become hubs with very large out-degree, as in real supply
+ * networks where shared raw materials feed many products. Edges always run from an earlier node
+ * to a later one, so the result is acyclic.
+ *
+ * **Example:**
+ * ```
+ * Input: node_count 6, edges_per_node 1
+ *
+ * Result (one possible seed):
+ *        n0 ────────┐
+ *      ┌─┼──┐       │
+ *      n1 n2 n3     n5
+ *            │
+ *            n4
+ * ```
+ *
+ * **Output:**
+ * - Node IDs are "n0", "n1", ... in insertion order; all nodes have `node_type`
+ * - Node n<i> has min(i, edges_per_node) incoming edges, all with `edge_type`
+ * - The same seed and parameters always produce the same graph
+ *
+ * **Use Cases:**
+ * - Hub stress tests: High fan-out nodes in traversal, reachability and aggregation
+ * - Realistic benchmarks: Heavy-tailed degree distributions
+ *
+ * **Algorithm:** Keeps a pool holding each node once plus once per incident edge and draws
+ * parents uniformly from the pool. After 20 × edges_per_node draws without enough distinct
+ * parents, the remaining parents are taken from the earliest nodes.
+ *
+ * **Error Handling:** node_count < 0 or edges_per_node < 1 fail the procedure with a
+ * descriptive error.
+ *
+ * **Complexity:** O(N × M) where N = node_count, M = edges_per_node
+ *
+ * @param seed Generator seed
+ * @param node_count Number of nodes
+ * @param edges_per_node Incoming edges per new node
+ * @param node_type Type of every generated node
+ * @param edge_type Type of every generated edge
+ * @returns GraphBasicGraph with the generated nodes and edges
+ */
+export const graph_generate_scale_free = new Procedure("graph_generate_scale_free")
+  .input("seed", IntegerType)
+  .input("node_count", IntegerType)
+  .input("edges_per_node", IntegerType)
+  .input("node_type", StringType)
+  .input("edge_type", StringType)
+  .output(GraphBasicGraph)
+  .import(graph_random_next)
+  .body(($, { seed, node_count, edges_per_node, node_type, edge_type }, procs) => {
+    $.if(Less(node_count, Const(0n))).then($ => {
+      $.error(StringJoin([Const("node_count must not be negative, got "), node_count]));
+    });
+    $.if(Less(edges_per_node, Const(1n))).then($ => {
+      $.error(StringJoin([Const("edges_per_node must be at least 1, got "), edges_per_node]));
+    });
+
+    const rng = $.let(seed);
+    const nodes = $.let(NewArray(GraphNode));
+    const edges = $.let(NewArray(GraphEdge));
+    const pool = $.let(NewArray(StringType));
+    const maxAttempts = $.let(Multiply(edges_per_node, Const(20n)));
+
+    const index = $.let(Const(0n));
+    $.while(Less(index, node_count), $ => {
+      const nodeId = $.let(StringJoin([Const("n"), index]));
+      $.pushLast(nodes, Struct({ id: nodeId, type: node_type }));
+
+      // Choose distinct parents by preferential attachment
+      const parentCount = $.let(Min(edges_per_node, index));
+      const parentSet = $.let(NewSet(StringType));
+      const parents = $.let(NewArray(StringType));
+      const attempts = $.let(Const(0n));
+      $.while(And(Less(Size(parents), parentCount), Less(attempts, maxAttempts)), $ => {
+        const parentDraw = $.let(procs.graph_random_next(Struct({ state: rng, bound: Size(pool) })));
+        $.assign(rng, GetField(parentDraw, "state"));
+        const parentId = $.let(Get(pool, GetField(parentDraw, "value")));
+        $.if(Not(In(parentSet, parentId))).then($ => {
+          $.insert(parentSet, parentId);
+          $.pushLast(parents, parentId);
+        });
+        $.assign(attempts, Add(attempts, Const(1n)));
+      });
+
+      // Fall back to the earliest nodes if the draws kept hitting chosen parents
+      const fallback = $.let(Const(0n));
+      $.while(Less(Size(parents), parentCount), $ => {
+        const parentId = $.let(StringJoin([Const("n"), fallback]));
+        $.if(Not(In(parentSet, parentId))).then($ => {
+          $.insert(parentSet, parentId);
+          $.pushLast(parents, parentId);
+        });
+        $.assign(fallback, Add(fallback, Const(1n)));
+      });
+
+      $.pushLast(pool, nodeId);
+      $.forArray(parents, ($, parentId) => {
+        $.pushLast(edges, Struct({ from: parentId, to: nodeId, type: edge_type }));
+        $.pushLast(pool, parentId);
+        $.pushLast(pool, nodeId);
+      });
+
+      $.assign(index, Add(index, Const(1n)));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges
+    }));
+  });
@@ -0,0 +1,127 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  GetField,
+  Less,
+  NewArray,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { IntegerType, StringType } from "@elaraai/core";
+
+import { graph_random_next } from "./random";
+import { GraphBasicGraph, GraphEdge, GraphNode } from "../types";
+
+/**
+ * Tree generator - seeded forest of out-trees with random branching
+ *
+ * Creates `root_count` trees of `depth` levels below the root. Every node above the last level
+ * gets between `min_children` and `max_children` children, so `min_children` 0 produces uneven
+ * trees with early leaves.
+ *
+ * **Example:**
+ * ```
+ * Input: root_count 1, depth 2, min_children 1, max_children 2
+ *
+ * Result (one possible seed):
+ *        n0
+ *      ┌─┴─┐
+ *      n1  n2
+ *      │   ├──┐
+ *      n3  n4 n5
+ * ```
+ *
+ * **Output:**
+ * - Node IDs are "n0", "n1", ... in breadth-first order per tree; all nodes have `node_type`
+ * - All edges run from parent to child and have `edge_type`
+ * - The same seed and parameters always produce the same graph
+ *
+ * **Use Cases:**
+ * - Aggregation tests: Bottom-up and top-down rollups over deep hierarchies
+ * - Disassembly / split genealogies: One input lot split into many outputs
+ *
+ * **Error Handling:** Invalid sizes (root_count < 0, depth < 0, min_children < 0,
+ * max_children < min_children) fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(N) where N = generated nodes (up to root_count × max_children^depth)
+ *
+ * @param seed Generator seed
+ * @param root_count Number of trees
+ * @param depth Number of levels below each root
+ * @param min_children Minimum children per non-leaf-level node
+ * @param max_children Maximum children per non-leaf-level node
+ * @param node_type Type of every generated node
+ * @param edge_type Type of every generated edge
+ * @returns GraphBasicGraph with the generated nodes and edges
+ */
+export const graph_generate_tree = new Procedure("graph_generate_tree")
+  .input("seed", IntegerType)
+  .input("root_count", IntegerType)
+  .input("depth", IntegerType)
+  .input("min_children", IntegerType)
+  .input("max_children", IntegerType)
+  .input("node_type", StringType)
+  .input("edge_type", StringType)
+  .output(GraphBasicGraph)
+  .import(graph_random_next)
+  .body(($, { seed, root_count, depth, min_children, max_children, node_type, edge_type }, procs) => {
+    $.if(Less(root_count, Const(0n))).then($ => {
+      $.error(StringJoin([Const("root_count must not be negative, got "), root_count]));
+    });
+    $.if(Less(depth, Const(0n))).then($ => {
+      $.error(StringJoin([Const("depth must not be negative, got "), depth]));
+    });
+    $.if(Less(min_children, Const(0n))).then($ => {
+      $.error(StringJoin([Const("min_children must not be negative, got "), min_children]));
+    });
+    $.if(Less(max_children, min_children)).then($ => {
+      $.error(StringJoin([Const("max_children "), max_children, Const(" is below min_children "), min_children]));
+    });
+
+    const rng = $.let(seed);
+    const nodes = $.let(NewArray(GraphNode));
+    const edges = $.let(NewArray(GraphEdge));
+
+    const tree = $.let(Const(0n));
+    $.while(Less(tree, root_count), $ => {
+      const rootId = $.let(StringJoin([Const("n"), Size(nodes)]));
+      $.pushLast(nodes, Struct({ id: rootId, type: node_type }));
+
+      // Expand level by level
+      const currentLevel = $.let(NewArray(StringType, [rootId]));
+      const level = $.let(Const(0n));
+      $.while(Less(level, depth), $ => {
+        const nextLevel = $.let(NewArray(StringType));
+        $.forArray(currentLevel, ($, parentId) => {
+          const childDraw = $.let(procs.graph_random_next(Struct({
+            state: rng,
+            bound: Add(Subtract(max_children, min_children), Const(1n))
+          })));
+          $.assign(rng, GetField(childDraw, "state"));
+          const childCount = $.let(Add(min_children, GetField(childDraw, "value")));
+
+          const child = $.let(Const(0n));
+          $.while(Less(child, childCount), $ => {
+            const childId = $.let(StringJoin([Const("n"), Size(nodes)]));
+            $.pushLast(nodes, Struct({ id: childId, type: node_type }));
+            $.pushLast(edges, Struct({ from: parentId, to: childId, type: edge_type }));
+            $.pushLast(nextLevel, childId);
+            $.assign(child, Add(child, Const(1n)));
+          });
+        });
+        $.assign(currentLevel, nextLevel);
+        $.assign(level, Add(level, Const(1n)));
+      });
+
+      $.assign(tree, Add(tree, Const(1n)));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges
+    }));
+  });
@@ -0,0 +1,150 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Get,
+  GetField,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, StringType } from "@elaraai/core";
+
+import { graph_random_next } from "./random";
+import { GraphBasicGraph, GraphEdge, GraphNode, GraphSchemaTransition } from "../types";
+
+/**
+ * Workflow generator - seeded typed graphs following a type-transition template
+ *
+ * Creates `instance_count` workflow instances, each starting from one node of `start_type`.
+ * For every node, each template transition leaving its type creates between `min_branching` and
+ * `max_branching` children of the transition's target type, connected by an edge of the
+ * transition's edge type. Expansion stops at types without outgoing transitions or after
+ * `max_depth` levels. The generated graphs satisfy the same template in `graph_validate_schema`.
+ *
+ * **Example:**
+ * ```
+ * Template: batch ─mix→ lot, lot ─pack→ pallet
+ * Input: instance_count 1, max_depth 2, min_branching 1, max_branching 2
+ *
+ * Result (one possible seed):
+ *            n0 (batch)
+ *          ┌──mix──┴──mix──┐
+ *       n1 (lot)        n2 (lot)
+ *          │pack        ┌──pack──┴──pack──┐
+ *       n3 (pallet)  n4 (pallet)      n5 (pallet)
+ * ```
+ *
+ * **Output:**
+ * - Node IDs are "n0", "n1", ... in breadth-first order per instance
+ * - Each instance is a separate tree; transitions are applied in template order
+ * - The same seed and parameters always produce the same graph
+ *
+ * **Use Cases:**
+ * - Realistic fixtures: Genealogies with the production type sequence of a real site
+ * - Type-filtered benchmarks: graph_subgraphs and workflow completeness at scale
+ * - Negative tests: min_branching 0 randomly omits steps for missing-transition analysis
+ *
+ * **Error Handling:** Invalid sizes (instance_count < 0, max_depth < 0, min_branching < 0,
+ * max_branching < min_branching) fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(N × T) where N = generated nodes, T = transitions per type
+ *
+ * @param seed Generator seed
+ * @param transitions Allowed (from type, edge type, to type) transitions
+ * @param start_type Node type of each instance's first node
+ * @param instance_count Number of workflow instances
+ * @param max_depth Maximum number of levels below each start node
+ * @param min_branching Minimum children per node and transition
+ * @param max_branching Maximum children per node and transition
+ * @returns GraphBasicGraph with the generated nodes and edges
+ */
+export const graph_generate_workflow = new Procedure("graph_generate_workflow")
+  .input("seed", IntegerType)
+  .input("transitions", ArrayType(GraphSchemaTransition))
+  .input("start_type", StringType)
+  .input("instance_count", IntegerType)
+  .input("max_depth", IntegerType)
+  .input("min_branching", IntegerType)
+  .input("max_branching", IntegerType)
+  .output(GraphBasicGraph)
+  .import(graph_random_next)
+  .body(($, { seed, transitions, start_type, instance_count, max_depth, min_branching, max_branching }, procs) => {
+    $.if(Less(instance_count, Const(0n))).then($ => {
+      $.error(StringJoin([Const("instance_count must not be negative, got "), instance_count]));
+    });
+    $.if(Less(max_depth, Const(0n))).then($ => {
+      $.error(StringJoin([Const("max_depth must not be negative, got "), max_depth]));
+    });
+    $.if(Less(min_branching, Const(0n))).then($ => {
+      $.error(StringJoin([Const("min_branching must not be negative, got "), min_branching]));
+    });
+    $.if(Less(max_branching, min_branching)).then($ => {
+      $.error(StringJoin([Const("max_branching "), max_branching, Const(" is below min_branching "), min_branching]));
+    });
+
+    // Group template transitions by source type, keeping template order
+    const transitionsByType = $.let(NewDict(StringType, ArrayType(GraphSchemaTransition)));
+    $.forArray(transitions, ($, transition) => {
+      const fromType = $.let(GetField(transition, "from_type"));
+      $.if(In(transitionsByType, fromType)).then($ => {
+        const typeTransitions = $.let(Get(transitionsByType, fromType));
+        $.pushLast(typeTransitions, transition);
+      }).else($ => {
+        $.insert(transitionsByType, fromType, NewArray(GraphSchemaTransition, [transition]));
+      });
+    });
+
+    const rng = $.let(seed);
+    const nodes = $.let(NewArray(GraphNode));
+    const edges = $.let(NewArray(GraphEdge));
+
+    const instance = $.let(Const(0n));
+    $.while(Less(instance, instance_count), $ => {
+      const startNode = $.let(Struct({ id: StringJoin([Const("n"), Size(nodes)]), type: start_type }));
+      $.pushLast(nodes, startNode);
+
+      // Expand level by level along the template
+      const currentLevel = $.let(NewArray(GraphNode, [startNode]));
+      const level = $.let(Const(0n));
+      $.while(Less(level, max_depth), $ => {
+        const nextLevel = $.let(NewArray(GraphNode));
+        $.forArray(currentLevel, ($, parent) => {
+          $.if(In(transitionsByType, GetField(parent, "type"))).then($ => {
+            $.forArray(Get(transitionsByType, GetField(parent, "type")), ($, transition) => {
+              const childDraw = $.let(procs.graph_random_next(Struct({
+                state: rng,
+                bound: Add(Subtract(max_branching, min_branching), Const(1n))
+              })));
+              $.assign(rng, GetField(childDraw, "state"));
+              const childCount = $.let(Add(min_branching, GetField(childDraw, "value")));
+
+              const child = $.let(Const(0n));
+              $.while(Less(child, childCount), $ => {
+                const childNode = $.let(Struct({ id: StringJoin([Const("n"), Size(nodes)]), type: GetField(transition, "to_type") }));
+                $.pushLast(nodes, childNode);
+                $.pushLast(edges, Struct({ from: GetField(parent, "id"), to: GetField(childNode, "id"), type: GetField(transition, "edge_type") }));
+                $.pushLast(nextLevel, childNode);
+                $.assign(child, Add(child, Const(1n)));
+              });
+            });
+          });
+        });
+        $.assign(currentLevel, nextLevel);
+        $.assign(level, Add(level, Const(1n)));
+      });
+
+      $.assign(instance, Add(instance, Const(1n)));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges
+    }));
+  });
@@ -5,4 +5,7 @@ export * from "./paths";
 export * from "./aggregation";
 export * from "./analysis";
 export * from "./flow";
+export * from "./io";
+export * from "./generators";
+export * from "./layout";
 export * from "./types";
\ No newline at end of file
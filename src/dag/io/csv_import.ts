@@ -0,0 +1,260 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  RegexContains,
+  RegexReplace,
+  Size,
+  Split,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { BooleanType, IntegerType, StringType } from "@elaraai/core";
+
+import {
+  GraphCsvImportOptions,
+  GraphEdge,
+  GraphImportResult,
+  GraphNode,
+  GraphParseError
+} from "../types";
+
+/**
+ * Graph CSV import - parses an edge-list CSV into nodes and edges
+ *
+ * Reads one edge per row, taking the from, to and (optionally) edge type and endpoint node
+ * types from the configured header columns. Nodes are created for every endpoint in order of
+ * first appearance. Rows that cannot be parsed are reported with their line number and skipped,
+ * so a single bad row does not fail the import.
+ *
+ * **Example:**
+ * ```
+ * Input text:                          Options: from_column "source", to_column "target",
+ *   source,target,relation                      type_column "relation", default_node_type "lot"
+ *   A,B,flow
+ *   B,,flow
+ *   B,C,split
+ *
+ * Result:
+ *   nodes:  [A(lot), B(lot), C(lot)]
+ *   edges:  [A→B (flow), B→C (split)]
+ *   errors: [{ line: 3, message: "Empty to value" }]
+ * ```
+ *
+ * **Parsing Rules:**
+ * - The first non-blank line is the header; configured columns missing from it are reported
+ *   on that line and no rows are imported
+ * - Fields are split on the delimiter and trimmed; quoting is not supported, so fields must
+ *   not contain the delimiter
+ * - Blank lines and trailing carriage returns are ignored
+ * - Empty or missing type values fall back to default_edge_type / default_node_type
+ * - A node that fell back to default_node_type takes the first type given for it explicitly
+ *   on a later row
+ * - A node given different explicit types on different rows keeps its first explicit type;
+ *   later conflicts are reported as errors (the edge itself is still imported)
+ *
+ * **Use Cases:**
+ * - Test fixtures: Build graphs from spreadsheet exports
+ * - Ad-hoc analysis: Load an edge list exported from another system
+ *
+ * **Complexity:** O(L × C) where L = lines, C = columns
+ *
+ * @param text CSV text with a header row
+ * @param options Delimiter, column names and default types
+ * @returns GraphImportResult with nodes, edges and parse errors
+ */
+export const graph_import_csv = new Procedure("graph_import_csv")
+  .input("text", StringType)
+  .input("options", GraphCsvImportOptions)
+  .output(GraphImportResult)
+  .body(($, { text, options }) => {
+    const delimiter = $.let(GetField(options, "delimiter"));
+    const defaultNodeType = $.let(GetField(options, "default_node_type"));
+    const defaultEdgeType = $.let(GetField(options, "default_edge_type"));
+
+    const nodeOrder = $.let(NewArray(StringType));
+    const edges = $.let(NewArray(GraphEdge));
+    const errors = $.let(NewArray(GraphParseError));
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    const typedNodes = $.let(NewSet(StringType));
+
+    // Column positions resolved from the header (-1 = not configured)
+    const headerRead = $.let(Const(false));
+    const headerValid = $.let(Const(false));
+    const fromIndex = $.let(Const(-1n));
+    const toIndex = $.let(Const(-1n));
+    const typeIndex = $.let(Const(-1n));
+    const fromTypeIndex = $.let(Const(-1n));
+    const toTypeIndex = $.let(Const(-1n));
+    const requiredFields = $.let(Const(0n));
+
+    $.forArray(Split(text, Const("\n")), ($, rawLine, index) => {
+      const lineNumber = $.let(Add(index, Const(1n)));
+      const line = $.let(RegexReplace(rawLine, Const("\\r$"), Const("")));
+
+      $.if(RegexContains(line, Const("^\\s*$"))).then($ => {
+        // Skip blank lines
+      }).elseIf(Not(headerRead)).then($ => {
+        $.assign(headerRead, Const(true));
+
+        // Map header names to column positions
+        const columns = $.let(NewDict(StringType, IntegerType));
+        $.forArray(Split(line, delimiter), ($, field, position) => {
+          const name = $.let(RegexReplace(RegexReplace(field, Const("^\\s+"), Const("")), Const("\\s+$"), Const("")));
+          $.if(Not(In(columns, name))).then($ => {
+            $.insert(columns, name, position);
+          });
+        });
+
+        const missing = $.let(NewArray(StringType));
+        $.if(In(columns, GetField(options, "from_column"))).then($ => {
+          $.assign(fromIndex, Get(columns, GetField(options, "from_column")));
+        }).else($ => {
+          $.pushLast(missing, GetField(options, "from_column"));
+        });
+        $.if(In(columns, GetField(options, "to_column"))).then($ => {
+          $.assign(toIndex, Get(columns, GetField(options, "to_column")));
+        }).else($ => {
+          $.pushLast(missing, GetField(options, "to_column"));
+        });
+        $.if(Not(Equal(GetField(options, "type_column"), Const("")))).then($ => {
+          $.if(In(columns, GetField(options, "type_column"))).then($ => {
+            $.assign(typeIndex, Get(columns, GetField(options, "type_column")));
+          }).else($ => {
+            $.pushLast(missing, GetField(options, "type_column"));
+          });
+        });
+        $.if(Not(Equal(GetField(options, "from_type_column"), Const("")))).then($ => {
+          $.if(In(columns, GetField(options, "from_type_column"))).then($ => {
+            $.assign(fromTypeIndex, Get(columns, GetField(options, "from_type_column")));
+          }).else($ => {
+            $.pushLast(missing, GetField(options, "from_type_column"));
+          });
+        });
+        $.if(Not(Equal(GetField(options, "to_type_column"), Const("")))).then($ => {
+          $.if(In(columns, GetField(options, "to_type_column"))).then($ => {
+            $.assign(toTypeIndex, Get(columns, GetField(options, "to_type_column")));
+          }).else($ => {
+            $.pushLast(missing, GetField(options, "to_type_column"));
+          });
+        });
+
+        $.forArray(missing, ($, column) => {
+          $.pushLast(errors, Struct({
+            line: lineNumber,
+            message: StringJoin([Const("Missing column: "), column])
+          }));
+        });
+        $.assign(headerValid, Equal(Size(missing), Const(0n)));
+
+        // Rows must reach the right-most configured column
+        $.forArray(NewArray(IntegerType, [fromIndex, toIndex, typeIndex, fromTypeIndex, toTypeIndex]), ($, position) => {
+          $.if(GreaterEqual(position, requiredFields)).then($ => {
+            $.assign(requiredFields, Add(position, Const(1n)));
+          });
+        });
+      }).elseIf(headerValid).then($ => {
+        const fields = $.let(NewArray(StringType));
+        $.forArray(Split(line, delimiter), ($, field) => {
+          $.pushLast(fields, RegexReplace(RegexReplace(field, Const("^\\s+"), Const("")), Const("\\s+$"), Const("")));
+        });
+
+        $.if(Less(Size(fields), requiredFields)).then($ => {
+          $.pushLast(errors, Struct({
+            line: lineNumber,
+            message: StringJoin([Const("Expected at least "), requiredFields, Const(" fields, found "), Size(fields)])
+          }));
+        }).else($ => {
+          const fromId = $.let(Get(fields, fromIndex));
+          const toId = $.let(Get(fields, toIndex));
+
+          $.if(Equal(fromId, Const(""))).then($ => {
+            $.pushLast(errors, Struct({ line: lineNumber, message: Const("Empty from value") }));
+          }).elseIf(Equal(toId, Const(""))).then($ => {
+            $.pushLast(errors, Struct({ line: lineNumber, message: Const("Empty to value") }));
+          }).else($ => {
+            const edgeType = $.let(defaultEdgeType);
+            $.if(GreaterEqual(typeIndex, Const(0n))).then($ => {
+              $.if(Not(Equal(Get(fields, typeIndex), Const("")))).then($ => {
+                $.assign(edgeType, Get(fields, typeIndex));
+              });
+            });
+
+            const fromType = $.let(defaultNodeType);
+            const fromTyped = $.let(Const(false));
+            $.if(GreaterEqual(fromTypeIndex, Const(0n))).then($ => {
+              $.if(Not(Equal(Get(fields, fromTypeIndex), Const("")))).then($ => {
+                $.assign(fromType, Get(fields, fromTypeIndex));
+                $.assign(fromTyped, Const(true));
+              });
+            });
+
+            const toType = $.let(defaultNodeType);
+            const toTyped = $.let(Const(false));
+            $.if(GreaterEqual(toTypeIndex, Const(0n))).then($ => {
+              $.if(Not(Equal(Get(fields, toTypeIndex), Const("")))).then($ => {
+                $.assign(toType, Get(fields, toTypeIndex));
+                $.assign(toTyped, Const(true));
+              });
+            });
+
+            // Register endpoints (first explicit type wins, later conflicts are reported)
+            const endpointsTyped = $.let(NewArray(BooleanType, [fromTyped, toTyped]));
+            $.forArray(NewArray(GraphNode, [
+              Struct({ id: fromId, type: fromType }),
+              Struct({ id: toId, type: toType })
+            ]), ($, endpoint, position) => {
+              const nodeId = $.let(GetField(endpoint, "id"));
+              const nodeType = $.let(GetField(endpoint, "type"));
+              const typed = $.let(Get(endpointsTyped, position));
+              $.if(Not(In(nodeTypes, nodeId))).then($ => {
+                $.insert(nodeTypes, nodeId, nodeType);
+                $.pushLast(nodeOrder, nodeId);
+              }).elseIf(Not(typed)).then($ => {
+                // Defaulted types never replace or conflict with a known type
+              }).elseIf(Not(In(typedNodes, nodeId))).then($ => {
+                // Only defaulted so far: the explicit type replaces it
+                $.insertOrUpdate(nodeTypes, nodeId, nodeType);
+              }).elseIf(Not(Equal(Get(nodeTypes, nodeId), nodeType))).then($ => {
+                $.pushLast(errors, Struct({
+                  line: lineNumber,
+                  message: StringJoin([Const("Conflicting type for node "), nodeId, Const(": "), nodeType, Const(" (keeping "), Get(nodeTypes, nodeId), Const(")")])
+                }));
+              });
+              $.if(typed).then($ => {
+                $.insertOrUpdate(typedNodes, nodeId);
+              });
+            });
+
+            $.pushLast(edges, Struct({ from: fromId, to: toId, type: edgeType }));
+          });
+        });
+      });
+    });
+
+    $.if(Not(headerRead)).then($ => {
+      $.pushLast(errors, Struct({ line: Const(1n), message: Const("Missing header row") }));
+    });
+
+    const nodes = $.let(NewArray(GraphNode));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.pushLast(nodes, Struct({ id: nodeId, type: Get(nodeTypes, nodeId) }));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges,
+      errors: errors
+    }));
+  });
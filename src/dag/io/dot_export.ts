@@ -0,0 +1,241 @@
+import { Procedure } from "@elaraai/core";
+import {
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, SetType, StringType } from "@elaraai/core";
+
+import {
+  GraphEdge,
+  GraphNode,
+  GraphRenderOptions
+} from "../types";
+import { graph_escape_text } from "./escaping";
+
+/**
+ * Graph DOT export - renders nodes and edges as Graphviz DOT text
+ *
+ * Produces a `digraph` with one statement per node and edge, styled by node type and edge
+ * type, with highlighted nodes and edges drawn in the highlight color and clusters for the
+ * supplied component assignments. Works directly on the nodes and edges of GraphPathSubgraph
+ * and network extraction results. Node types are written as a `type` attribute and edge types
+ * as the edge label, so graph_import_dot reads the output back into the same nodes and edges.
+ *
+ * **Example:**
+ * ```
+ * Input: A(lot) ──flow──→ B(lot), highlight_node_ids: [B], component C1: [A, B]
+ *
+ * Result:
+ *   digraph "genealogy" {
+ *     rankdir=LR;
+ *     subgraph "cluster_C1" {
+ *       label="C1";
+ *       "A" [label="A", type="lot", shape="box"];
+ *       "B" [label="B", type="lot", shape="box", color="red", style="bold"];
+ *     }
+ *     "A" -> "B" [label="flow"];
+ *   }
+ * ```
+ *
+ * **Styling:**
+ * - Node styles: shape, color (outline), fill_color (filled), line_style (dashed, dotted, bold)
+ * - Edge styles: color and line_style
+ * - Highlighted nodes and edges use highlight_color and a bold line
+ *
+ * **Notes:**
+ * - Duplicate node IDs use the first occurrence; edges to unknown nodes are skipped
+ * - Clusters are ordered by component ID; unclustered nodes follow the clusters
+ * - IDs, types, names and style values are written inside double quotes with `\` and `"`
+ *   escaped by a backslash and line breaks written as `\n` and `\r`, so they can contain any
+ *   text and graph_import_dot reads them back
+ *
+ * **Use Cases:**
+ * - Ad-hoc inspection: "Show me this network" rendered with `dot -Tsvg`
+ * - Reports: Highlight the critical path or articulation points in a genealogy
+ *
+ * **Error Handling:** Unknown direction values fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(V + E) statements
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param options Graph name, direction, styles, highlight sets and component clusters
+ * @returns DOT text
+ */
+export const graph_export_dot = new Procedure("graph_export_dot")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("options", GraphRenderOptions)
+  .output(StringType)
+  .import(graph_escape_text)
+  .body(($, { nodes, edges, options }, procs) => {
+    const direction = $.let(GetField(options, "direction"));
+    const nodeStyles = $.let(GetField(options, "node_styles"));
+    const edgeStyles = $.let(GetField(options, "edge_styles"));
+    const highlightColor = $.let(GetField(options, "highlight_color"));
+
+    $.if(Not(Or(Or(Equal(direction, Const("LR")), Equal(direction, Const("TB"))), Or(Equal(direction, Const("RL")), Equal(direction, Const("BT")))))).then($ => {
+      $.error(StringJoin([Const("Invalid direction: "), direction, Const(" (expected LR, TB, RL or BT)")]));
+    });
+
+    const defaultStyle = $.let(Struct({
+      color: Const(""),
+      fill_color: Const(""),
+      shape: Const(""),
+      line_style: Const("")
+    }));
+
+    // Highlight lookups
+    const highlightNodes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "highlight_node_ids"), ($, nodeId) => {
+      $.insertOrUpdate(highlightNodes, nodeId);
+    });
+    const highlightEdges = $.let(NewDict(StringType, SetType(StringType)));
+    $.forArray(GetField(options, "highlight_edges"), ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      $.if(Not(In(highlightEdges, fromId))).then($ => {
+        $.insert(highlightEdges, fromId, NewSet(StringType));
+      });
+      const targets = $.let(Get(highlightEdges, fromId));
+      $.insertOrUpdate(targets, GetField(edge, "to"));
+    });
+
+    // Step 1: Render node attribute lists (first occurrence wins)
+    const nodeOrder = $.let(NewArray(StringType));
+    const nodeAttributes = $.let(NewDict(StringType, StringType));
+    const escapedIds = $.let(NewDict(StringType, StringType));
+
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(nodeAttributes, nodeId))).then($ => {
+        const style = $.let(Get(nodeStyles, GetField(node, "type"), defaultStyle));
+        const highlighted = $.let(In(highlightNodes, nodeId));
+        const color = $.let(GetField(style, "color"));
+        const fillColor = $.let(GetField(style, "fill_color"));
+        const shape = $.let(GetField(style, "shape"));
+        const lineStyle = $.let(GetField(style, "line_style"));
+        $.if(highlighted).then($ => {
+          $.assign(color, highlightColor);
+          $.assign(lineStyle, Const("bold"));
+        });
+
+        const escapedId = $.let(procs.graph_escape_text(Struct({ text: nodeId, format: Const("dot") })));
+        const escapedType = $.let(procs.graph_escape_text(Struct({ text: GetField(node, "type"), format: Const("dot") })));
+        const attributes = $.let(StringJoin([Const("label=\""), escapedId, Const("\", type=\""), escapedType, Const("\"")]));
+        $.if(Not(Equal(shape, Const("")))).then($ => {
+          $.assign(attributes, StringJoin([attributes, Const(", shape=\""), procs.graph_escape_text(Struct({ text: shape, format: Const("dot") })), Const("\"")]));
+        });
+        $.if(Not(Equal(color, Const("")))).then($ => {
+          $.assign(attributes, StringJoin([attributes, Const(", color=\""), procs.graph_escape_text(Struct({ text: color, format: Const("dot") })), Const("\"")]));
+        });
+        $.if(Not(Equal(fillColor, Const("")))).then($ => {
+          $.assign(attributes, StringJoin([attributes, Const(", fillcolor=\""), procs.graph_escape_text(Struct({ text: fillColor, format: Const("dot") })), Const("\"")]));
+        });
+
+        // Combine fill and line style into one style attribute
+        const styleValue = $.let(Const(""));
+        $.if(Not(Equal(fillColor, Const("")))).then($ => {
+          $.assign(styleValue, Const("filled"));
+        });
+        $.if(And(Not(Equal(lineStyle, Const(""))), Not(Equal(lineStyle, Const("solid"))))).then($ => {
+          $.if(Equal(styleValue, Const(""))).then($ => {
+            $.assign(styleValue, lineStyle);
+          }).else($ => {
+            $.assign(styleValue, StringJoin([styleValue, Const(","), lineStyle]));
+          });
+        });
+        $.if(Not(Equal(styleValue, Const("")))).then($ => {
+          $.assign(attributes, StringJoin([attributes, Const(", style=\""), procs.graph_escape_text(Struct({ text: styleValue, format: Const("dot") })), Const("\"")]));
+        });
+
+        $.insert(nodeAttributes, nodeId, attributes);
+        $.insert(escapedIds, nodeId, escapedId);
+        $.pushLast(nodeOrder, nodeId);
+      });
+    });
+
+    // Step 2: Group nodes into clusters by component ID
+    const nodeClusters = $.let(NewDict(StringType, StringType));
+    $.forArray(GetField(options, "component_assignments"), ($, assignment) => {
+      $.insertOrUpdate(nodeClusters, GetField(assignment, "node_id"), GetField(assignment, "component_id"));
+    });
+
+    const clusterMembers = $.let(NewDict(StringType, ArrayType(StringType)));
+    const unclusteredNodes = $.let(NewArray(StringType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(In(nodeClusters, nodeId)).then($ => {
+        const clusterId = $.let(Get(nodeClusters, nodeId));
+        $.if(In(clusterMembers, clusterId)).then($ => {
+          const members = $.let(Get(clusterMembers, clusterId));
+          $.pushLast(members, nodeId);
+        }).else($ => {
+          $.insert(clusterMembers, clusterId, NewArray(StringType, [nodeId]));
+        });
+      }).else($ => {
+        $.pushLast(unclusteredNodes, nodeId);
+      });
+    });
+
+    // Step 3: Emit statements
+    const lines = $.let(NewArray(StringType));
+    $.pushLast(lines, StringJoin([Const("digraph \""), procs.graph_escape_text(Struct({ text: GetField(options, "graph_name"), format: Const("dot") })), Const("\" {")]));
+    $.pushLast(lines, StringJoin([Const("  rankdir="), direction, Const(";")]));
+
+    $.forDict(clusterMembers, ($, members, clusterId) => {
+      const clusterName = $.let(procs.graph_escape_text(Struct({ text: clusterId, format: Const("dot") })));
+      $.pushLast(lines, StringJoin([Const("  subgraph \"cluster_"), clusterName, Const("\" {")]));
+      $.pushLast(lines, StringJoin([Const("    label=\""), clusterName, Const("\";")]));
+      $.forArray(members, ($, nodeId) => {
+        $.pushLast(lines, StringJoin([Const("    \""), Get(escapedIds, nodeId), Const("\" ["), Get(nodeAttributes, nodeId), Const("];")]));
+      });
+      $.pushLast(lines, Const("  }"));
+    });
+
+    $.forArray(unclusteredNodes, ($, nodeId) => {
+      $.pushLast(lines, StringJoin([Const("  \""), Get(escapedIds, nodeId), Const("\" ["), Get(nodeAttributes, nodeId), Const("];")]));
+    });
+
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      const edgeType = $.let(GetField(edge, "type"));
+
+      $.if(And(In(nodeAttributes, fromId), In(nodeAttributes, toId))).then($ => {
+        const style = $.let(Get(edgeStyles, edgeType, defaultStyle));
+        const color = $.let(GetField(style, "color"));
+        const lineStyle = $.let(GetField(style, "line_style"));
+        $.if(In(Get(highlightEdges, fromId, NewSet(StringType)), toId)).then($ => {
+          $.assign(color, highlightColor);
+          $.assign(lineStyle, Const("bold"));
+        });
+
+        const attributes = $.let(StringJoin([Const("label=\""), procs.graph_escape_text(Struct({ text: edgeType, format: Const("dot") })), Const("\"")]));
+        $.if(Not(Equal(color, Const("")))).then($ => {
+          $.assign(attributes, StringJoin([attributes, Const(", color=\""), procs.graph_escape_text(Struct({ text: color, format: Const("dot") })), Const("\"")]));
+        });
+        $.if(And(Not(Equal(lineStyle, Const(""))), Not(Equal(lineStyle, Const("solid"))))).then($ => {
+          $.assign(attributes, StringJoin([attributes, Const(", style=\""), procs.graph_escape_text(Struct({ text: lineStyle, format: Const("dot") })), Const("\"")]));
+        });
+
+        $.pushLast(lines, StringJoin([Const("  \""), Get(escapedIds, fromId), Const("\" -> \""), Get(escapedIds, toId), Const("\" ["), attributes, Const("];")]));
+      });
+    });
+
+    $.pushLast(lines, Const("}"));
+
+    // Join statements with newlines, ending with a newline
+    $.pushLast(lines, Const(""));
+    $.return(StringJoin(lines, Const("\n")));
+  });
@@ -0,0 +1,277 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  RegexContains,
+  RegexReplace,
+  Size,
+  Split,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { StringType } from "@elaraai/core";
+
+import {
+  GraphEdge,
+  GraphImportResult,
+  GraphNode,
+  GraphParseError
+} from "../types";
+
+/**
+ * Graph DOT import - parses a line-based subset of Graphviz DOT into nodes and edges
+ *
+ * Reads one statement per line: node statements become nodes, edge statements (including
+ * chains such as `A -> B -> C`) become edges. Node types come from a `type` attribute and edge
+ * types from a `type` or `label` attribute, so output of `graph_export_dot` can be read back.
+ * Statements that cannot be parsed are reported with their line number and skipped.
+ *
+ * **Example:**
+ * ```
+ * Input text:
+ *   digraph "genealogy" {
+ *     "A" [type="batch"];
+ *     A -> B [label="flow"];
+ *     B -> ;
+ *   }
+ *
+ * Result (default_node_type "lot", default_edge_type "edge"):
+ *   nodes:  [A(batch), B(lot)]
+ *   edges:  [A→B (flow)]
+ *   errors: [{ line: 4, message: "Invalid node ID: \"\"" }]
+ * ```
+ *
+ * **Supported Subset:**
+ * - `digraph`/`subgraph` headers, braces, graph attributes (`rankdir=LR;`) and default attribute
+ *   statements (`node [...]`, `edge [...]`, `graph [...]`) are accepted and ignored
+ * - IDs are bare words (letters, digits, `_`, `.`, `:`, `-`) or double-quoted strings, where
+ *   `\"` and `\\` stand for a quote and a backslash, and `\n` and `\r` for line breaks
+ * - Attribute values may be quoted (with the same escapes) or bare; only `type` and `label`
+ *   are read
+ * - `//` comments and `#` lines are removed; `//`, `[` and `->` inside quoted strings are
+ *   kept as text, so any ID written by graph_export_dot reads back unchanged
+ * - Multi-line statements and undirected edges are not supported
+ *
+ * **Node Rules:**
+ * - Nodes are returned in order of first appearance, in node or edge statements
+ * - Nodes that only appear in edges get default_node_type
+ * - A node declared again with a different type keeps its first declared type and the
+ *   conflict is reported
+ *
+ * **Use Cases:**
+ * - Test fixtures: Write small graphs as DOT by hand
+ * - Round trips: Re-import graphs exported with graph_export_dot
+ *
+ * **Complexity:** O(C) where C = characters of text
+ *
+ * @param text DOT text with one statement per line
+ * @param default_node_type Node type for nodes without a type attribute
+ * @param default_edge_type Edge type for edges without a type or label attribute
+ * @returns GraphImportResult with nodes, edges and parse errors
+ */
+export const graph_import_dot = new Procedure("graph_import_dot")
+  .input("text", StringType)
+  .input("default_node_type", StringType)
+  .input("default_edge_type", StringType)
+  .output(GraphImportResult)
+  .body(($, { text, default_node_type, default_edge_type }) => {
+    const nodeOrder = $.let(NewArray(StringType));
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    const declaredNodes = $.let(NewSet(StringType));
+    const edges = $.let(NewArray(GraphEdge));
+    const errors = $.let(NewArray(GraphParseError));
+
+    $.forArray(Split(text, Const("\n")), ($, rawLine, index) => {
+      const lineNumber = $.let(Add(index, Const(1n)));
+
+      // Scan the characters outside quoted strings for comments, the attribute list and arrows,
+      // so `//`, `[` and `->` inside quoted IDs and values are kept as text
+      const characters = $.let(Split(rawLine, Const("")));
+      const structure = $.let(NewArray(StringType));
+      const headParts = $.let(NewArray(StringType));
+      const part = $.let(NewArray(StringType));
+      const attributeCharacters = $.let(NewArray(StringType));
+      const inAttributes = $.let(Const(false));
+      const inQuote = $.let(Const(false));
+      const escaped = $.let(Const(false));
+      const skipNext = $.let(Const(false));
+      const commented = $.let(RegexContains(rawLine, Const("^\\s*#")));
+      $.forArray(characters, ($, character, position) => {
+        const next = $.let(Const(""));
+        $.if(Less(Add(position, Const(1n)), Size(characters))).then($ => {
+          $.assign(next, Get(characters, Add(position, Const(1n))));
+        });
+
+        const keep = $.let(Const(true));
+        $.if(commented).then($ => {
+          $.assign(keep, Const(false));
+        }).elseIf(skipNext).then($ => {
+          $.assign(skipNext, Const(false));
+          $.assign(keep, Const(false));
+        }).elseIf(inQuote).then($ => {
+          $.if(escaped).then($ => {
+            $.assign(escaped, Const(false));
+          }).elseIf(Equal(character, Const("\\"))).then($ => {
+            $.assign(escaped, Const(true));
+          }).elseIf(Equal(character, Const("\""))).then($ => {
+            $.assign(inQuote, Const(false));
+            $.pushLast(structure, character);
+          });
+        }).elseIf(And(Equal(character, Const("/")), Equal(next, Const("/")))).then($ => {
+          $.assign(commented, Const(true));
+          $.assign(keep, Const(false));
+        }).elseIf(And(Not(inAttributes), And(Equal(character, Const("-")), Equal(next, Const(">"))))).then($ => {
+          $.pushLast(headParts, StringJoin(part, Const("")));
+          $.clear(part);
+          $.pushLast(structure, Const("->"));
+          $.assign(skipNext, Const(true));
+          $.assign(keep, Const(false));
+        }).elseIf(And(Not(inAttributes), Equal(character, Const("[")))).then($ => {
+          $.assign(inAttributes, Const(true));
+          $.pushLast(structure, character);
+          $.assign(keep, Const(false));
+        }).else($ => {
+          $.if(Equal(character, Const("\""))).then($ => {
+            $.assign(inQuote, Const(true));
+          });
+          $.pushLast(structure, character);
+        });
+
+        $.if(keep).then($ => {
+          $.if(inAttributes).then($ => {
+            $.pushLast(attributeCharacters, character);
+          }).else($ => {
+            $.pushLast(part, character);
+          });
+        });
+      });
+      $.pushLast(headParts, RegexReplace(StringJoin(part, Const("")), Const("[\\s;]+$"), Const("")));
+
+      // The statement with quoted text left out decides its kind; remove surrounding whitespace
+      // and the statement terminator
+      const statement = $.let(StringJoin(structure, Const("")));
+      $.assign(statement, RegexReplace(statement, Const("^\\s+"), Const("")));
+      $.assign(statement, RegexReplace(statement, Const("[\\s;]+$"), Const("")));
+
+      const ignored = $.let(Or(
+        Or(RegexContains(statement, Const("^$")), RegexContains(statement, Const("^[{}]$"))),
+        Or(
+          Or(RegexContains(statement, Const("^(strict\\s+)?(di)?graph\\b.*\\{$")), RegexContains(statement, Const("^subgraph\\b.*\\{$"))),
+          Or(RegexContains(statement, Const("^(graph|node|edge)\\s*\\[.*\\]$")), RegexContains(statement, Const("^[A-Za-z_]+\\s*=[^\\[]*$")))
+        )
+      ));
+
+      $.if(ignored).then($ => {
+        // Structural or graph-level statement
+      }).elseIf(inQuote).then($ => {
+        $.pushLast(errors, Struct({ line: lineNumber, message: Const("Unterminated quoted string") }));
+      }).elseIf(And(inAttributes, Not(RegexContains(statement, Const("\\]$"))))).then($ => {
+        $.pushLast(errors, Struct({ line: lineNumber, message: Const("Unterminated attribute list") }));
+      }).else($ => {
+        // The attribute list runs from the first unquoted [ to the closing ]
+        const attributes = $.let(RegexReplace(StringJoin(attributeCharacters, Const("")), Const("\\][\\s;]*$"), Const("")));
+
+        // Attribute values are bare words or quoted strings with \" and \\ escapes
+        const typeValue = $.let(Const(""));
+        $.if(RegexContains(attributes, Const("(^|[\\s,;])type\\s*="))).then($ => {
+          $.assign(typeValue, RegexReplace(attributes, Const("^(.*[\\s,;])?type\\s*=\\s*(\"([^\"\\\\]|\\\\.)*\"|[^\\s\",;]*).*$"), Const("$2")));
+          $.assign(typeValue, RegexReplace(typeValue, Const("^\"(.*)\"$"), Const("$1")));
+          $.assign(typeValue, RegexReplace(RegexReplace(typeValue, Const("(?<!\\\\)((?:\\\\\\\\)*)\\\\n"), Const("$1\n")), Const("(?<!\\\\)((?:\\\\\\\\)*)\\\\r"), Const("$1\r")));
+          $.assign(typeValue, RegexReplace(typeValue, Const("\\\\(.)"), Const("$1")));
+        });
+        const labelValue = $.let(Const(""));
+        $.if(RegexContains(attributes, Const("(^|[\\s,;])label\\s*="))).then($ => {
+          $.assign(labelValue, RegexReplace(attributes, Const("^(.*[\\s,;])?label\\s*=\\s*(\"([^\"\\\\]|\\\\.)*\"|[^\\s\",;]*).*$"), Const("$2")));
+          $.assign(labelValue, RegexReplace(labelValue, Const("^\"(.*)\"$"), Const("$1")));
+          $.assign(labelValue, RegexReplace(RegexReplace(labelValue, Const("(?<!\\\\)((?:\\\\\\\\)*)\\\\n"), Const("$1\n")), Const("(?<!\\\\)((?:\\\\\\\\)*)\\\\r"), Const("$1\r")));
+          $.assign(labelValue, RegexReplace(labelValue, Const("\\\\(.)"), Const("$1")));
+        });
+
+        // Parse and unquote every ID in the statement
+        const ids = $.let(NewArray(StringType));
+        const valid = $.let(Const(true));
+        $.forArray(headParts, ($, headPart) => {
+          const trimmed = $.let(RegexReplace(RegexReplace(headPart, Const("^\\s+"), Const("")), Const("\\s+$"), Const("")));
+          $.if(Or(RegexContains(trimmed, Const("^\"([^\"\\\\]|\\\\.)+\"$")), RegexContains(trimmed, Const("^[A-Za-z0-9_.:-]+$")))).then($ => {
+            const unquoted = $.let(RegexReplace(trimmed, Const("^\"(.*)\"$"), Const("$1")));
+            $.assign(unquoted, RegexReplace(RegexReplace(unquoted, Const("(?<!\\\\)((?:\\\\\\\\)*)\\\\n"), Const("$1\n")), Const("(?<!\\\\)((?:\\\\\\\\)*)\\\\r"), Const("$1\r")));
+            $.pushLast(ids, RegexReplace(unquoted, Const("\\\\(.)"), Const("$1")));
+          }).elseIf(valid).then($ => {
+            $.assign(valid, Const(false));
+            $.pushLast(errors, Struct({
+              line: lineNumber,
+              message: StringJoin([Const("Invalid node ID: \""), trimmed, Const("\"")])
+            }));
+          });
+        });
+
+        $.if(valid).then($ => {
+          $.if(Equal(Size(ids), Const(1n))).then($ => {
+            // Node statement
+            const nodeId = $.let(Get(ids, Const(0n)));
+            const nodeType = $.let(default_node_type);
+            $.if(Not(Equal(typeValue, Const("")))).then($ => {
+              $.assign(nodeType, typeValue);
+            });
+
+            $.if(Not(In(nodeTypes, nodeId))).then($ => {
+              $.insert(nodeTypes, nodeId, nodeType);
+              $.pushLast(nodeOrder, nodeId);
+            }).elseIf(Not(In(declaredNodes, nodeId))).then($ => {
+              // First seen in an edge: the declaration sets the type
+              $.insertOrUpdate(nodeTypes, nodeId, nodeType);
+            }).elseIf(Not(Equal(Get(nodeTypes, nodeId), nodeType))).then($ => {
+              $.pushLast(errors, Struct({
+                line: lineNumber,
+                message: StringJoin([Const("Conflicting type for node "), nodeId, Const(": "), nodeType, Const(" (keeping "), Get(nodeTypes, nodeId), Const(")")])
+              }));
+            });
+            $.insertOrUpdate(declaredNodes, nodeId);
+          }).else($ => {
+            // Edge statement (chains produce one edge per consecutive pair)
+            const edgeType = $.let(default_edge_type);
+            $.if(Not(Equal(typeValue, Const("")))).then($ => {
+              $.assign(edgeType, typeValue);
+            }).elseIf(Not(Equal(labelValue, Const("")))).then($ => {
+              $.assign(edgeType, labelValue);
+            });
+
+            const previousId = $.let(Const(""));
+            $.forArray(ids, ($, nodeId, position) => {
+              $.if(Not(In(nodeTypes, nodeId))).then($ => {
+                $.insert(nodeTypes, nodeId, default_node_type);
+                $.pushLast(nodeOrder, nodeId);
+              });
+              $.if(Greater(position, Const(0n))).then($ => {
+                $.pushLast(edges, Struct({ from: previousId, to: nodeId, type: edgeType }));
+              });
+              $.assign(previousId, nodeId);
+            });
+          });
+        });
+      });
+    });
+
+    const nodes = $.let(NewArray(GraphNode));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.pushLast(nodes, Struct({ id: nodeId, type: Get(nodeTypes, nodeId) }));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges,
+      errors: errors
+    }));
+  });
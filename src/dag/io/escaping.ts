@@ -0,0 +1,97 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Const,
+  Equal,
+  Not,
+  RegexReplace,
+  StringJoin,
+} from "@elaraai/core";
+
+import { StringType } from "@elaraai/core";
+
+/**
+ * Shared utility for escaping text written by the graph exporters
+ *
+ * Escapes the characters that would otherwise end or corrupt a quoted value in the target
+ * format, so that node IDs, types, cluster names and style values can contain any text. Used by
+ * graph_export_graphml ("xml"), graph_export_dot ("dot") and graph_export_mermaid ("mermaid" for
+ * labels, "mermaid_style" for colours in class and link styles).
+ *
+ * **Example:**
+ * ```
+ * Input: "R&D \"lab\" <1>|2"
+ *
+ * Result:
+ *   xml:     R&amp;D &quot;lab&quot; &lt;1&gt;|2
+ *   dot:     R&D \"lab\" <1>|2
+ *   mermaid: R&D #34;lab#34; #60;1#62;#124;2
+ *
+ * Input: "rgb(0,0,255); stroke:red"
+ *
+ * Result:
+ *   mermaid_style: rgb(0\,0\,255)  stroke:red
+ * ```
+ *
+ * **Formats:**
+ * - "xml": `&`, `<`, `>`, `"` and `'` become `&amp;`, `&lt;`, `&gt;`, `&quot;` and `&apos;`;
+ *   line feeds and carriage returns become `&#10;` and `&#13;`, which attribute values keep
+ * - "dot": `\` and `"` are prefixed with a backslash; line feeds and carriage returns become
+ *   `\n` and `\r`, so every statement stays on one line
+ * - "mermaid": `#`, `"`, `|`, `<`, `>`, line feeds and carriage returns become the entity codes
+ *   `#35;`, `#34;`, `#124;`, `#60;`, `#62;`, `#10;` and `#13;`
+ * - "mermaid_style": Commas, which separate style properties, are prefixed with a backslash;
+ *   semicolons and line breaks, which would end the statement and cannot be escaped, become
+ *   spaces. `#` is kept so that hex colours stay valid
+ *
+ * **Error Handling:** An unknown format fails the procedure with a descriptive error.
+ *
+ * **Complexity:** O(n) where n = text length
+ *
+ * @param text Text to escape
+ * @param format Target format: "xml", "dot", "mermaid" or "mermaid_style"
+ * @returns Escaped text
+ */
+export const graph_escape_text = new Procedure("graph_escape_text")
+  .input("text", StringType)
+  .input("format", StringType)
+  .output(StringType)
+  .body(($, { text, format }) => {
+    $.if(Equal(format, Const("xml"))).then($ => {
+      // Ampersands first so the entities added below are not escaped again
+      const escaped = $.let(RegexReplace(text, Const("&"), Const("&amp;")));
+      $.assign(escaped, RegexReplace(escaped, Const("<"), Const("&lt;")));
+      $.assign(escaped, RegexReplace(escaped, Const(">"), Const("&gt;")));
+      $.assign(escaped, RegexReplace(escaped, Const("\""), Const("&quot;")));
+      $.assign(escaped, RegexReplace(escaped, Const("'"), Const("&apos;")));
+      $.assign(escaped, RegexReplace(escaped, Const("\n"), Const("&#10;")));
+      $.assign(escaped, RegexReplace(escaped, Const("\r"), Const("&#13;")));
+      $.return(escaped);
+    });
+
+    $.if(Equal(format, Const("dot"))).then($ => {
+      const escaped = $.let(RegexReplace(text, Const("[\\\\\"]"), Const("\\$&")));
+      $.assign(escaped, RegexReplace(escaped, Const("\n"), Const("\\n")));
+      $.assign(escaped, RegexReplace(escaped, Const("\r"), Const("\\r")));
+      $.return(escaped);
+    });
+
+    $.if(Equal(format, Const("mermaid_style"))).then($ => {
+      const escaped = $.let(RegexReplace(text, Const(","), Const("\\,")));
+      $.assign(escaped, RegexReplace(escaped, Const("[;\r\n]"), Const(" ")));
+      $.return(escaped);
+    });
+
+    $.if(Not(Equal(format, Const("mermaid")))).then($ => {
+      $.error(StringJoin([Const("Unknown escape format \""), format, Const("\" (expected xml, dot, mermaid or mermaid_style)")]));
+    });
+
+    // Hashes first so the entity codes added below are not escaped again
+    const escaped = $.let(RegexReplace(text, Const("#"), Const("#35;")));
+    $.assign(escaped, RegexReplace(escaped, Const("\""), Const("#34;")));
+    $.assign(escaped, RegexReplace(escaped, Const("\\|"), Const("#124;")));
+    $.assign(escaped, RegexReplace(escaped, Const("<"), Const("#60;")));
+    $.assign(escaped, RegexReplace(escaped, Const(">"), Const("#62;")));
+    $.assign(escaped, RegexReplace(escaped, Const("\n"), Const("#10;")));
+    $.assign(escaped, RegexReplace(escaped, Const("\r"), Const("#13;")));
+    $.return(escaped);
+  });
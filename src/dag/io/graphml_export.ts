@@ -0,0 +1,249 @@
+import { Procedure } from "@elaraai/core";
+import {
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, SetType, StringType } from "@elaraai/core";
+
+import {
+  GraphEdge,
+  GraphNode,
+  GraphRenderOptions
+} from "../types";
+import { graph_escape_text } from "./escaping";
+
+/**
+ * Graph GraphML export - renders nodes and edges as GraphML XML text
+ *
+ * Produces a directed GraphML document with the node type, edge type and the configured
+ * styles written as `<data>` values, a `highlighted` flag for highlighted nodes and edges, and
+ * one nested graph per component for the supplied component assignments. Suitable for import
+ * into yEd, Gephi, Cytoscape or networkx.
+ *
+ * **Example:**
+ * ```
+ * Input: A(lot) ──flow──→ B(lot), highlight_node_ids: [B], no components
+ *
+ * Result (keys omitted):
+ *   <graph id="genealogy" edgedefault="directed">
+ *     <node id="A">
+ *       <data key="node_type">lot</data>
+ *     </node>
+ *     <node id="B">
+ *       <data key="node_type">lot</data>
+ *       <data key="node_color">red</data>
+ *       <data key="node_highlighted">true</data>
+ *     </node>
+ *     <edge source="A" target="B">
+ *       <data key="edge_type">flow</data>
+ *     </edge>
+ *   </graph>
+ * ```
+ *
+ * **Data keys:**
+ * - Nodes: node_type, node_color, node_fill_color, node_shape, node_line_style, node_highlighted
+ * - Edges: edge_type, edge_color, edge_line_style, edge_highlighted
+ * - Empty style values are omitted; highlighted defaults to false
+ * - Highlighted nodes and edges use highlight_color as their color
+ *
+ * **Notes:**
+ * - Components become nested graphs inside a node with ID "cluster:<component ID>", ordered by
+ *   component ID; unclustered nodes follow the clusters
+ * - Direction is not represented in GraphML and is ignored
+ * - Duplicate node IDs use the first occurrence; edges to unknown nodes are skipped
+ * - IDs, types, names and style values are XML-escaped (`&`, `<`, `>`, `"`, `'` and line
+ *   breaks become entities), so they can contain any text
+ *
+ * **Use Cases:**
+ * - Interactive exploration: "Open this network in yEd or Gephi"
+ * - Tool exchange: Hand a genealogy with highlighted bridges to another analysis tool
+ *
+ * **Complexity:** O(V + E) elements
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param options Graph name, styles, highlight sets and component clusters
+ * @returns GraphML text
+ */
+export const graph_export_graphml = new Procedure("graph_export_graphml")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("options", GraphRenderOptions)
+  .output(StringType)
+  .import(graph_escape_text)
+  .body(($, { nodes, edges, options }, procs) => {
+    const nodeStyles = $.let(GetField(options, "node_styles"));
+    const edgeStyles = $.let(GetField(options, "edge_styles"));
+    const highlightColor = $.let(GetField(options, "highlight_color"));
+
+    const defaultStyle = $.let(Struct({
+      color: Const(""),
+      fill_color: Const(""),
+      shape: Const(""),
+      line_style: Const("")
+    }));
+
+    // Highlight lookups
+    const highlightNodes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "highlight_node_ids"), ($, nodeId) => {
+      $.insertOrUpdate(highlightNodes, nodeId);
+    });
+    const highlightEdges = $.let(NewDict(StringType, SetType(StringType)));
+    $.forArray(GetField(options, "highlight_edges"), ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      $.if(Not(In(highlightEdges, fromId))).then($ => {
+        $.insert(highlightEdges, fromId, NewSet(StringType));
+      });
+      const targets = $.let(Get(highlightEdges, fromId));
+      $.insertOrUpdate(targets, GetField(edge, "to"));
+    });
+
+    // Step 1: Render node data lines (first occurrence wins), indented by the caller
+    const nodeOrder = $.let(NewArray(StringType));
+    const nodeData = $.let(NewDict(StringType, ArrayType(StringType)));
+    const escapedIds = $.let(NewDict(StringType, StringType));
+
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(nodeData, nodeId))).then($ => {
+        const nodeType = $.let(GetField(node, "type"));
+        const style = $.let(Get(nodeStyles, nodeType, defaultStyle));
+        const highlighted = $.let(In(highlightNodes, nodeId));
+        const color = $.let(GetField(style, "color"));
+        $.if(highlighted).then($ => {
+          $.assign(color, highlightColor);
+        });
+
+        const data = $.let(NewArray(StringType, [
+          StringJoin([Const("<data key=\"node_type\">"), procs.graph_escape_text(Struct({ text: nodeType, format: Const("xml") })), Const("</data>")])
+        ]));
+        $.if(Not(Equal(color, Const("")))).then($ => {
+          $.pushLast(data, StringJoin([Const("<data key=\"node_color\">"), procs.graph_escape_text(Struct({ text: color, format: Const("xml") })), Const("</data>")]));
+        });
+        $.if(Not(Equal(GetField(style, "fill_color"), Const("")))).then($ => {
+          $.pushLast(data, StringJoin([Const("<data key=\"node_fill_color\">"), procs.graph_escape_text(Struct({ text: GetField(style, "fill_color"), format: Const("xml") })), Const("</data>")]));
+        });
+        $.if(Not(Equal(GetField(style, "shape"), Const("")))).then($ => {
+          $.pushLast(data, StringJoin([Const("<data key=\"node_shape\">"), procs.graph_escape_text(Struct({ text: GetField(style, "shape"), format: Const("xml") })), Const("</data>")]));
+        });
+        $.if(Not(Equal(GetField(style, "line_style"), Const("")))).then($ => {
+          $.pushLast(data, StringJoin([Const("<data key=\"node_line_style\">"), procs.graph_escape_text(Struct({ text: GetField(style, "line_style"), format: Const("xml") })), Const("</data>")]));
+        });
+        $.if(highlighted).then($ => {
+          $.pushLast(data, Const("<data key=\"node_highlighted\">true</data>"));
+        });
+
+        $.insert(nodeData, nodeId, data);
+        $.insert(escapedIds, nodeId, procs.graph_escape_text(Struct({ text: nodeId, format: Const("xml") })));
+        $.pushLast(nodeOrder, nodeId);
+      });
+    });
+
+    // Step 2: Group nodes into clusters by component ID
+    const nodeClusters = $.let(NewDict(StringType, StringType));
+    $.forArray(GetField(options, "component_assignments"), ($, assignment) => {
+      $.insertOrUpdate(nodeClusters, GetField(assignment, "node_id"), GetField(assignment, "component_id"));
+    });
+
+    const clusterMembers = $.let(NewDict(StringType, ArrayType(StringType)));
+    const unclusteredNodes = $.let(NewArray(StringType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(In(nodeClusters, nodeId)).then($ => {
+        const clusterId = $.let(Get(nodeClusters, nodeId));
+        $.if(In(clusterMembers, clusterId)).then($ => {
+          const members = $.let(Get(clusterMembers, clusterId));
+          $.pushLast(members, nodeId);
+        }).else($ => {
+          $.insert(clusterMembers, clusterId, NewArray(StringType, [nodeId]));
+        });
+      }).else($ => {
+        $.pushLast(unclusteredNodes, nodeId);
+      });
+    });
+
+    // Step 3: Emit document
+    const lines = $.let(NewArray(StringType, [
+      Const("<?xml version=\"1.0\" encoding=\"UTF-8\"?>"),
+      Const("<graphml xmlns=\"http://graphml.graphdrawing.org/xmlns\">"),
+      Const("  <key id=\"node_type\" for=\"node\" attr.name=\"type\" attr.type=\"string\"/>"),
+      Const("  <key id=\"node_color\" for=\"node\" attr.name=\"color\" attr.type=\"string\"/>"),
+      Const("  <key id=\"node_fill_color\" for=\"node\" attr.name=\"fill_color\" attr.type=\"string\"/>"),
+      Const("  <key id=\"node_shape\" for=\"node\" attr.name=\"shape\" attr.type=\"string\"/>"),
+      Const("  <key id=\"node_line_style\" for=\"node\" attr.name=\"line_style\" attr.type=\"string\"/>"),
+      Const("  <key id=\"node_highlighted\" for=\"node\" attr.name=\"highlighted\" attr.type=\"boolean\"><default>false</default></key>"),
+      Const("  <key id=\"edge_type\" for=\"edge\" attr.name=\"type\" attr.type=\"string\"/>"),
+      Const("  <key id=\"edge_color\" for=\"edge\" attr.name=\"color\" attr.type=\"string\"/>"),
+      Const("  <key id=\"edge_line_style\" for=\"edge\" attr.name=\"line_style\" attr.type=\"string\"/>"),
+      Const("  <key id=\"edge_highlighted\" for=\"edge\" attr.name=\"highlighted\" attr.type=\"boolean\"><default>false</default></key>")
+    ]));
+    $.pushLast(lines, StringJoin([Const("  <graph id=\""), procs.graph_escape_text(Struct({ text: GetField(options, "graph_name"), format: Const("xml") })), Const("\" edgedefault=\"directed\">")]));
+
+    $.forDict(clusterMembers, ($, members, clusterId) => {
+      const clusterName = $.let(procs.graph_escape_text(Struct({ text: clusterId, format: Const("xml") })));
+      $.pushLast(lines, StringJoin([Const("    <node id=\"cluster:"), clusterName, Const("\">")]));
+      $.pushLast(lines, StringJoin([Const("      <graph id=\"cluster:"), clusterName, Const(":\" edgedefault=\"directed\">")]));
+      $.forArray(members, ($, nodeId) => {
+        $.pushLast(lines, StringJoin([Const("        <node id=\""), Get(escapedIds, nodeId), Const("\">")]));
+        $.forArray(Get(nodeData, nodeId), ($, dataLine) => {
+          $.pushLast(lines, StringJoin([Const("          "), dataLine]));
+        });
+        $.pushLast(lines, Const("        </node>"));
+      });
+      $.pushLast(lines, Const("      </graph>"));
+      $.pushLast(lines, Const("    </node>"));
+    });
+
+    $.forArray(unclusteredNodes, ($, nodeId) => {
+      $.pushLast(lines, StringJoin([Const("    <node id=\""), Get(escapedIds, nodeId), Const("\">")]));
+      $.forArray(Get(nodeData, nodeId), ($, dataLine) => {
+        $.pushLast(lines, StringJoin([Const("      "), dataLine]));
+      });
+      $.pushLast(lines, Const("    </node>"));
+    });
+
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      const edgeType = $.let(GetField(edge, "type"));
+
+      $.if(And(In(nodeData, fromId), In(nodeData, toId))).then($ => {
+        const style = $.let(Get(edgeStyles, edgeType, defaultStyle));
+        const highlighted = $.let(In(Get(highlightEdges, fromId, NewSet(StringType)), toId));
+        const color = $.let(GetField(style, "color"));
+        $.if(highlighted).then($ => {
+          $.assign(color, highlightColor);
+        });
+
+        $.pushLast(lines, StringJoin([Const("    <edge source=\""), Get(escapedIds, fromId), Const("\" target=\""), Get(escapedIds, toId), Const("\">")]));
+        $.pushLast(lines, StringJoin([Const("      <data key=\"edge_type\">"), procs.graph_escape_text(Struct({ text: edgeType, format: Const("xml") })), Const("</data>")]));
+        $.if(Not(Equal(color, Const("")))).then($ => {
+          $.pushLast(lines, StringJoin([Const("      <data key=\"edge_color\">"), procs.graph_escape_text(Struct({ text: color, format: Const("xml") })), Const("</data>")]));
+        });
+        $.if(Not(Equal(GetField(style, "line_style"), Const("")))).then($ => {
+          $.pushLast(lines, StringJoin([Const("      <data key=\"edge_line_style\">"), procs.graph_escape_text(Struct({ text: GetField(style, "line_style"), format: Const("xml") })), Const("</data>")]));
+        });
+        $.if(highlighted).then($ => {
+          $.pushLast(lines, Const("      <data key=\"edge_highlighted\">true</data>"));
+        });
+        $.pushLast(lines, Const("    </edge>"));
+      });
+    });
+
+    $.pushLast(lines, Const("  </graph>"));
+    $.pushLast(lines, Const("</graphml>"));
+
+    // Join lines with newlines, ending with a newline
+    $.pushLast(lines, Const(""));
+    $.return(StringJoin(lines, Const("\n")));
+  });
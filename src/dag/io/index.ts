@@ -0,0 +1,7 @@
+export { graph_export_dot } from "./dot_export";
+export { graph_export_mermaid } from "./mermaid_export";
+export { graph_export_graphml } from "./graphml_export";
+export { graph_import_csv } from "./csv_import";
+export { graph_import_dot } from "./dot_import";
+export { graph_import_json } from "./json_import";
+export { graph_escape_text } from "./escaping";
\ No newline at end of file
@@ -0,0 +1,423 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  RegexContains,
+  Size,
+  Split,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, IntegerType, StringType } from "@elaraai/core";
+
+import {
+  GraphEdge,
+  GraphImportResult,
+  GraphNode,
+  GraphParseError
+} from "../types";
+
+/**
+ * Graph JSON import - parses a JSON adjacency object into nodes and edges
+ *
+ * Reads a JSON object that maps each node ID to its type and its outgoing edges. The text is
+ * tokenized character by character, so entries may span lines or share one line, and both
+ * pretty-printed and minified `JSON.stringify` output are accepted. Entries that cannot be
+ * parsed are reported with the line number of the offending token and skipped, so a single
+ * bad entry does not fail the import.
+ *
+ * **Example:**
+ * ```
+ * Input text:
+ *   {
+ *     "A": {"type": "batch", "edges": [{"to": "B", "type": "flow"}, {"to": "C"}]},
+ *     "B": {"type": "lot", "edges": []},
+ *     "C" {"type": "lot"}
+ *   }
+ *
+ * Result (default_node_type "lot", default_edge_type "edge"):
+ *   nodes:  [A(batch), B(lot), C(lot)]
+ *   edges:  [A→B (flow), A→C (edge)]
+ *   errors: [{ line: 4, message: "Expected \"<id>\": {...} node entry" }]
+ * ```
+ *
+ * **Format Rules:**
+ * - Node entries: `"<id>": {"type": "<type>", "edges": [...]}`
+ * - `type` is optional (default_node_type); `edges` is optional and holds objects with a
+ *   required `to` and an optional `type` (default_edge_type); other members are ignored
+ * - Strings may use the escapes `\"`, `\\`, `\/`, `\n`, `\r` and `\t`; other escapes such as
+ *   `\u0041` are kept as written
+ * - Unbalanced brackets, unterminated strings and unexpected characters are reported and
+ *   nothing is imported
+ *
+ * **Node Rules:**
+ * - Nodes are returned in order of first appearance, as entries or edge targets
+ * - Edge targets without an entry get default_node_type
+ * - Duplicate entries keep the first type and are reported; their edges are still imported
+ *
+ * **Use Cases:**
+ * - Test fixtures: Keep readable graph fixtures in JSON files
+ * - Ad-hoc analysis: Load adjacency lists produced by scripts with `JSON.stringify`
+ *
+ * **Complexity:** O(n) where n = text length
+ *
+ * @param text JSON adjacency object
+ * @param default_node_type Node type for entries without a type
+ * @param default_edge_type Edge type for edges without a type
+ * @returns GraphImportResult with nodes, edges and parse errors
+ */
+export const graph_import_json = new Procedure("graph_import_json")
+  .input("text", StringType)
+  .input("default_node_type", StringType)
+  .input("default_edge_type", StringType)
+  .output(GraphImportResult)
+  .body(($, { text, default_node_type, default_edge_type }) => {
+    const nodeOrder = $.let(NewArray(StringType));
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    const declaredNodes = $.let(NewSet(StringType));
+    const edges = $.let(NewArray(GraphEdge));
+    const errors = $.let(NewArray(GraphParseError));
+
+    // Step 1: Tokenize into punctuation, unescaped strings and bare literals (numbers, true, ...)
+    const tokenKinds = $.let(NewArray(StringType));
+    const tokenValues = $.let(NewArray(StringType));
+    const tokenLines = $.let(NewArray(IntegerType));
+    const lineNumber = $.let(Const(1n));
+    const inString = $.let(Const(false));
+    const inLiteral = $.let(Const(false));
+    const escaped = $.let(Const(false));
+    const buffer = $.let(Const(""));
+    const bufferLine = $.let(Const(1n));
+
+    $.forArray(Split(text, Const("")), ($, character) => {
+      $.if(inString).then($ => {
+        $.if(escaped).then($ => {
+          $.assign(escaped, Const(false));
+          $.if(Equal(character, Const("n"))).then($ => {
+            $.assign(buffer, StringJoin([buffer, Const("\n")]));
+          }).elseIf(Equal(character, Const("r"))).then($ => {
+            $.assign(buffer, StringJoin([buffer, Const("\r")]));
+          }).elseIf(Equal(character, Const("t"))).then($ => {
+            $.assign(buffer, StringJoin([buffer, Const("\t")]));
+          }).elseIf(Or(Or(Equal(character, Const("\"")), Equal(character, Const("\\"))), Equal(character, Const("/")))).then($ => {
+            $.assign(buffer, StringJoin([buffer, character]));
+          }).else($ => {
+            $.assign(buffer, StringJoin([buffer, Const("\\"), character]));
+          });
+        }).elseIf(Equal(character, Const("\\"))).then($ => {
+          $.assign(escaped, Const(true));
+        }).elseIf(Equal(character, Const("\""))).then($ => {
+          $.assign(inString, Const(false));
+          $.pushLast(tokenKinds, Const("string"));
+          $.pushLast(tokenValues, buffer);
+          $.pushLast(tokenLines, bufferLine);
+        }).elseIf(Equal(character, Const("\n"))).then($ => {
+          $.assign(inString, Const(false));
+          $.pushLast(errors, Struct({ line: bufferLine, message: Const("Unterminated string") }));
+        }).else($ => {
+          $.assign(buffer, StringJoin([buffer, character]));
+        });
+      }).else($ => {
+        const literalCharacter = $.let(RegexContains(character, Const("^[A-Za-z0-9.+-]$")));
+        $.if(And(inLiteral, Not(literalCharacter))).then($ => {
+          $.assign(inLiteral, Const(false));
+          $.pushLast(tokenKinds, Const("literal"));
+          $.pushLast(tokenValues, buffer);
+          $.pushLast(tokenLines, bufferLine);
+        });
+
+        $.if(inLiteral).then($ => {
+          $.assign(buffer, StringJoin([buffer, character]));
+        }).elseIf(Equal(character, Const("\""))).then($ => {
+          $.assign(inString, Const(true));
+          $.assign(buffer, Const(""));
+          $.assign(bufferLine, lineNumber);
+        }).elseIf(RegexContains(character, Const("^[{}\\[\\]:,]$"))).then($ => {
+          $.pushLast(tokenKinds, character);
+          $.pushLast(tokenValues, character);
+          $.pushLast(tokenLines, lineNumber);
+        }).elseIf(literalCharacter).then($ => {
+          $.assign(inLiteral, Const(true));
+          $.assign(buffer, character);
+          $.assign(bufferLine, lineNumber);
+        }).elseIf(Not(RegexContains(character, Const("^\\s$")))).then($ => {
+          $.pushLast(errors, Struct({ line: lineNumber, message: StringJoin([Const("Unexpected character: "), character]) }));
+        });
+      });
+
+      $.if(Equal(character, Const("\n"))).then($ => {
+        $.assign(lineNumber, Add(lineNumber, Const(1n)));
+      });
+    });
+
+    $.if(inString).then($ => {
+      $.pushLast(errors, Struct({ line: bufferLine, message: Const("Unterminated string") }));
+    });
+    $.if(inLiteral).then($ => {
+      $.pushLast(tokenKinds, Const("literal"));
+      $.pushLast(tokenValues, buffer);
+      $.pushLast(tokenLines, bufferLine);
+    });
+
+    // End-of-input marker, so lookahead never runs past the last token
+    $.pushLast(tokenKinds, Const("end"));
+    $.pushLast(tokenValues, Const(""));
+    $.pushLast(tokenLines, lineNumber);
+
+    // Step 2: Match brackets (opening token position -> closing token position)
+    const matches = $.let(NewDict(IntegerType, IntegerType));
+    const openStack = $.let(NewArray(IntegerType));
+    $.forArray(tokenKinds, ($, kind, position) => {
+      $.if(Equal(Size(errors), Const(0n))).then($ => {
+        $.if(Or(Equal(kind, Const("{")), Equal(kind, Const("[")))).then($ => {
+          $.pushLast(openStack, position);
+        }).elseIf(Or(Equal(kind, Const("}")), Equal(kind, Const("]")))).then($ => {
+          const expected = $.let(Const("{"));
+          $.if(Equal(kind, Const("]"))).then($ => {
+            $.assign(expected, Const("["));
+          });
+          $.if(Equal(Size(openStack), Const(0n))).then($ => {
+            $.pushLast(errors, Struct({ line: Get(tokenLines, position), message: StringJoin([Const("Unexpected \""), kind, Const("\"")]) }));
+          }).elseIf(Not(Equal(Get(tokenKinds, Get(openStack, Subtract(Size(openStack), Const(1n)))), expected))).then($ => {
+            $.pushLast(errors, Struct({ line: Get(tokenLines, position), message: StringJoin([Const("Unexpected \""), kind, Const("\"")]) }));
+          }).else($ => {
+            $.insert(matches, Get(openStack, Subtract(Size(openStack), Const(1n))), position);
+            $.deleteLast(openStack);
+          });
+        });
+      });
+    });
+    $.if(And(Equal(Size(errors), Const(0n)), Less(Const(0n), Size(openStack)))).then($ => {
+      const unclosed = $.let(Get(openStack, Subtract(Size(openStack), Const(1n))));
+      $.pushLast(errors, Struct({ line: Get(tokenLines, unclosed), message: StringJoin([Const("Unclosed \""), Get(tokenKinds, unclosed), Const("\"")]) }));
+    });
+    const wellFormed = $.let(Equal(Size(errors), Const(0n)));
+
+    // Step 3: Members of every nested object and items of every nested array; malformed ones
+    // keep the error for their first unexpected token
+    const objectMembers = $.let(NewDict(IntegerType, DictType(StringType, IntegerType)));
+    const arrayItems = $.let(NewDict(IntegerType, ArrayType(IntegerType)));
+    const malformed = $.let(NewDict(IntegerType, GraphParseError));
+
+    $.if(wellFormed).then($ => {
+      $.forDict(matches, ($, close, open) => {
+        $.if(Less(Const(0n), open)).then($ => {
+          const isObject = $.let(Equal(Get(tokenKinds, open), Const("{")));
+          const members = $.let(NewDict(StringType, IntegerType));
+          const items = $.let(NewArray(IntegerType));
+          const position = $.let(Add(open, Const(1n)));
+          const unexpected = $.let(Const(-1n));
+
+          $.while(And(Less(unexpected, Const(0n)), Less(position, close)), $ => {
+            const key = $.let(Const(""));
+            $.if(isObject).then($ => {
+              $.if(And(Equal(Get(tokenKinds, position), Const("string")), Equal(Get(tokenKinds, Add(position, Const(1n))), Const(":")))).then($ => {
+                $.assign(key, Get(tokenValues, position));
+                $.assign(position, Add(position, Const(2n)));
+              }).else($ => {
+                $.assign(unexpected, position);
+              });
+            });
+
+            $.if(Less(unexpected, Const(0n))).then($ => {
+              const valueKind = $.let(Get(tokenKinds, position));
+              $.if(Or(Or(Equal(valueKind, Const("string")), Equal(valueKind, Const("literal"))), Or(Equal(valueKind, Const("{")), Equal(valueKind, Const("["))))).then($ => {
+                $.if(isObject).then($ => {
+                  $.insertOrUpdate(members, key, position);
+                }).else($ => {
+                  $.pushLast(items, position);
+                });
+                $.if(Or(Equal(valueKind, Const("{")), Equal(valueKind, Const("[")))).then($ => {
+                  $.assign(position, Add(Get(matches, position), Const(1n)));
+                }).else($ => {
+                  $.assign(position, Add(position, Const(1n)));
+                });
+
+                // Values are separated by commas, with none after the last
+                $.if(Equal(Get(tokenKinds, position), Const(","))).then($ => {
+                  $.assign(position, Add(position, Const(1n)));
+                  $.if(Equal(position, close)).then($ => {
+                    $.assign(unexpected, position);
+                  });
+                }).elseIf(Less(position, close)).then($ => {
+                  $.assign(unexpected, position);
+                });
+              }).else($ => {
+                $.assign(unexpected, position);
+              });
+            });
+          });
+
+          $.if(GreaterEqual(unexpected, Const(0n))).then($ => {
+            const found = $.let(StringJoin([Const("\""), Get(tokenValues, unexpected), Const("\"")]));
+            $.if(Equal(Get(tokenKinds, unexpected), Const("literal"))).then($ => {
+              $.assign(found, Get(tokenValues, unexpected));
+            });
+            $.insert(malformed, open, Struct({
+              line: Get(tokenLines, unexpected),
+              message: StringJoin([Const("Unexpected "), found])
+            }));
+          }).elseIf(isObject).then($ => {
+            $.insert(objectMembers, open, members);
+          }).else($ => {
+            $.insert(arrayItems, open, items);
+          });
+        });
+      });
+    });
+
+    // Step 4: Node entries of the root object, skipping bad entries up to the next comma
+    $.if(wellFormed).then($ => {
+      $.if(Not(Equal(Get(tokenKinds, Const(0n)), Const("{")))).then($ => {
+        $.pushLast(errors, Struct({ line: Get(tokenLines, Const(0n)), message: Const("Expected a JSON object") }));
+      }).else($ => {
+        const rootClose = $.let(Get(matches, Const(0n)));
+        $.if(Not(Equal(Get(tokenKinds, Add(rootClose, Const(1n))), Const("end")))).then($ => {
+          $.pushLast(errors, Struct({ line: Get(tokenLines, Add(rootClose, Const(1n))), message: Const("Unexpected text after the JSON object") }));
+        });
+
+        const position = $.let(Const(1n));
+        $.while(Less(position, rootClose), $ => {
+          const entryLine = $.let(Get(tokenLines, position));
+
+          // An entry is "<id>": {...} followed by a comma or the end of the root object
+          const entryObject = $.let(Const(-1n));
+          $.if(And(Equal(Get(tokenKinds, position), Const("string")), Equal(Get(tokenKinds, Add(position, Const(1n))), Const(":")))).then($ => {
+            $.if(Equal(Get(tokenKinds, Add(position, Const(2n))), Const("{"))).then($ => {
+              const next = $.let(Add(Get(matches, Add(position, Const(2n))), Const(1n)));
+              $.if(Or(Equal(Get(tokenKinds, next), Const(",")), Equal(next, rootClose))).then($ => {
+                $.assign(entryObject, Add(position, Const(2n)));
+              });
+            });
+          });
+
+          $.if(Less(entryObject, Const(0n))).then($ => {
+            $.pushLast(errors, Struct({ line: entryLine, message: Const("Expected \"<id>\": {...} node entry") }));
+            $.while(And(Less(position, rootClose), Not(Equal(Get(tokenKinds, position), Const(",")))), $ => {
+              $.if(In(matches, position)).then($ => {
+                $.assign(position, Add(Get(matches, position), Const(1n)));
+              }).else($ => {
+                $.assign(position, Add(position, Const(1n)));
+              });
+            });
+          }).elseIf(In(malformed, entryObject)).then($ => {
+            $.pushLast(errors, Get(malformed, entryObject));
+            $.assign(position, Add(Get(matches, entryObject), Const(1n)));
+          }).else($ => {
+            const nodeId = $.let(Get(tokenValues, position));
+            const fields = $.let(Get(objectMembers, entryObject));
+            $.assign(position, Add(Get(matches, entryObject), Const(1n)));
+
+            const entryValid = $.let(Const(true));
+            const nodeType = $.let(default_node_type);
+            $.if(In(fields, Const("type"))).then($ => {
+              const typePosition = $.let(Get(fields, Const("type")));
+              $.if(Equal(Get(tokenKinds, typePosition), Const("string"))).then($ => {
+                $.assign(nodeType, Get(tokenValues, typePosition));
+              }).else($ => {
+                $.assign(entryValid, Const(false));
+                $.pushLast(errors, Struct({ line: Get(tokenLines, typePosition), message: Const("Expected \"type\" to be a string") }));
+              });
+            });
+
+            const edgeItems = $.let(NewArray(IntegerType));
+            $.if(In(fields, Const("edges"))).then($ => {
+              const edgesPosition = $.let(Get(fields, Const("edges")));
+              $.if(Not(Equal(Get(tokenKinds, edgesPosition), Const("[")))).then($ => {
+                $.assign(entryValid, Const(false));
+                $.pushLast(errors, Struct({ line: Get(tokenLines, edgesPosition), message: Const("Expected \"edges\" to be an array") }));
+              }).elseIf(In(malformed, edgesPosition)).then($ => {
+                $.assign(entryValid, Const(false));
+                $.pushLast(errors, Get(malformed, edgesPosition));
+              }).else($ => {
+                $.assign(edgeItems, Get(arrayItems, edgesPosition));
+              });
+            });
+
+            $.if(entryValid).then($ => {
+              $.if(Not(In(nodeTypes, nodeId))).then($ => {
+                $.insert(nodeTypes, nodeId, nodeType);
+                $.pushLast(nodeOrder, nodeId);
+              }).elseIf(Not(In(declaredNodes, nodeId))).then($ => {
+                // First seen as an edge target: the entry sets the type
+                $.insertOrUpdate(nodeTypes, nodeId, nodeType);
+              }).else($ => {
+                $.pushLast(errors, Struct({
+                  line: entryLine,
+                  message: StringJoin([Const("Duplicate node entry: "), nodeId])
+                }));
+              });
+              $.insertOrUpdate(declaredNodes, nodeId);
+
+              $.forArray(edgeItems, ($, itemPosition) => {
+                const itemLine = $.let(Get(tokenLines, itemPosition));
+                $.if(Not(Equal(Get(tokenKinds, itemPosition), Const("{")))).then($ => {
+                  $.pushLast(errors, Struct({ line: itemLine, message: Const("Expected an edge object") }));
+                }).elseIf(In(malformed, itemPosition)).then($ => {
+                  $.pushLast(errors, Get(malformed, itemPosition));
+                }).else($ => {
+                  const edgeFields = $.let(Get(objectMembers, itemPosition));
+                  const toId = $.let(Const(""));
+                  $.if(In(edgeFields, Const("to"))).then($ => {
+                    $.if(Equal(Get(tokenKinds, Get(edgeFields, Const("to"))), Const("string"))).then($ => {
+                      $.assign(toId, Get(tokenValues, Get(edgeFields, Const("to"))));
+                    });
+                  });
+                  const edgeType = $.let(default_edge_type);
+                  const edgeValid = $.let(Const(true));
+                  $.if(In(edgeFields, Const("type"))).then($ => {
+                    $.if(Equal(Get(tokenKinds, Get(edgeFields, Const("type"))), Const("string"))).then($ => {
+                      $.assign(edgeType, Get(tokenValues, Get(edgeFields, Const("type"))));
+                    }).else($ => {
+                      $.assign(edgeValid, Const(false));
+                    });
+                  });
+
+                  $.if(Equal(toId, Const(""))).then($ => {
+                    $.pushLast(errors, Struct({ line: itemLine, message: Const("Edge without a \"to\" node ID") }));
+                  }).elseIf(Not(edgeValid)).then($ => {
+                    $.pushLast(errors, Struct({ line: itemLine, message: Const("Expected \"type\" to be a string") }));
+                  }).else($ => {
+                    $.if(Not(In(nodeTypes, toId))).then($ => {
+                      $.insert(nodeTypes, toId, default_node_type);
+                      $.pushLast(nodeOrder, toId);
+                    });
+                    $.pushLast(edges, Struct({ from: nodeId, to: toId, type: edgeType }));
+                  });
+                });
+              });
+            });
+          });
+
+          // Separator before the next entry
+          $.if(Equal(Get(tokenKinds, position), Const(","))).then($ => {
+            $.assign(position, Add(position, Const(1n)));
+          });
+        });
+      });
+    });
+
+    const nodes = $.let(NewArray(GraphNode));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.pushLast(nodes, Struct({ id: nodeId, type: Get(nodeTypes, nodeId) }));
+    });
+
+    $.return(Struct({
+      nodes: nodes,
+      edges: edges,
+      errors: errors
+    }));
+  });
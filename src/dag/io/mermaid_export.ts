@@ -0,0 +1,291 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, SetType, StringType } from "@elaraai/core";
+
+import {
+  GraphEdge,
+  GraphNode,
+  GraphRenderOptions
+} from "../types";
+import { graph_escape_text } from "./escaping";
+
+/**
+ * Graph Mermaid export - renders nodes and edges as Mermaid flowchart text
+ *
+ * Produces a `flowchart` with generated node identifiers (n0, n1, ...) labelled with the node
+ * IDs, node shapes and class definitions per node type, arrow styles and link styles per edge
+ * type, a highlight class for highlighted nodes and edges, and subgraphs for the supplied
+ * component assignments. Paste the result into any Mermaid renderer or Markdown viewer.
+ *
+ * **Example:**
+ * ```
+ * Input: A(lot) ──flow──→ B(lot), highlight_node_ids: [B], component C1: [A, B]
+ *
+ * Result:
+ *   flowchart LR
+ *     subgraph cluster_0["C1"]
+ *       n0["A"]
+ *       n1["B"]
+ *     end
+ *     n0 -->|"flow"| n1
+ *     classDef highlight stroke:red,stroke-width:3px
+ *     class n1 highlight
+ * ```
+ *
+ * **Styling:**
+ * - Node shapes: "round" (A), "stadium" ([A]), "circle" ((A)), "diamond" {A}, "hexagon" {{A}},
+ *   anything else is a rectangle [A]
+ * - Node colors: one classDef per styled node type (type_0, type_1, ... in type order)
+ * - Edge line styles: "dashed" and "dotted" use -.->, "bold" uses ==>; edge colors use linkStyle
+ * - Highlighted nodes get the highlight class; highlighted edges a highlight linkStyle
+ *
+ * **Notes:**
+ * - Duplicate node IDs use the first occurrence; edges to unknown nodes are skipped
+ * - Clusters are ordered by component ID; unclustered nodes follow the clusters
+ * - Node, cluster and edge labels are written inside double quotes with `#`, `"`, `|`, `<`, `>`
+ *   and line breaks replaced by Mermaid entity codes (`#35;`, `#34;`, `#124;`, `#60;`, `#62;`,
+ *   `#10;`, `#13;`), so they can contain any text
+ * - Colours in class and link styles have commas escaped and semicolons and line breaks replaced
+ *   by spaces, so a style value cannot add properties or statements
+ *
+ * **Use Cases:**
+ * - Documentation: Embed a genealogy or workflow diagram in Markdown
+ * - Reviews: "Which of these nodes are articulation points?" shown in a ticket
+ *
+ * **Error Handling:** Unknown direction values fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(V + E) statements
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param options Graph name (unused by Mermaid), direction, styles, highlight sets and component clusters
+ * @returns Mermaid flowchart text
+ */
+export const graph_export_mermaid = new Procedure("graph_export_mermaid")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("options", GraphRenderOptions)
+  .output(StringType)
+  .import(graph_escape_text)
+  .body(($, { nodes, edges, options }, procs) => {
+    const direction = $.let(GetField(options, "direction"));
+    const nodeStyles = $.let(GetField(options, "node_styles"));
+    const edgeStyles = $.let(GetField(options, "edge_styles"));
+    const highlightColor = $.let(procs.graph_escape_text(Struct({ text: GetField(options, "highlight_color"), format: Const("mermaid_style") })));
+
+    $.if(Not(Or(Or(Equal(direction, Const("LR")), Equal(direction, Const("TB"))), Or(Equal(direction, Const("RL")), Equal(direction, Const("BT")))))).then($ => {
+      $.error(StringJoin([Const("Invalid direction: "), direction, Const(" (expected LR, TB, RL or BT)")]));
+    });
+
+    const defaultStyle = $.let(Struct({
+      color: Const(""),
+      fill_color: Const(""),
+      shape: Const(""),
+      line_style: Const("")
+    }));
+
+    // Highlight lookups
+    const highlightNodes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "highlight_node_ids"), ($, nodeId) => {
+      $.insertOrUpdate(highlightNodes, nodeId);
+    });
+    const highlightEdges = $.let(NewDict(StringType, SetType(StringType)));
+    $.forArray(GetField(options, "highlight_edges"), ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      $.if(Not(In(highlightEdges, fromId))).then($ => {
+        $.insert(highlightEdges, fromId, NewSet(StringType));
+      });
+      const targets = $.let(Get(highlightEdges, fromId));
+      $.insertOrUpdate(targets, GetField(edge, "to"));
+    });
+
+    // Step 1: Class definitions for styled node types
+    const lines = $.let(NewArray(StringType));
+    const classLines = $.let(NewArray(StringType));
+    const typeClasses = $.let(NewDict(StringType, StringType));
+
+    $.forDict(nodeStyles, ($, style, nodeType) => {
+      const properties = $.let(NewArray(StringType));
+      const fillColor = $.let(GetField(style, "fill_color"));
+      const color = $.let(GetField(style, "color"));
+      const lineStyle = $.let(GetField(style, "line_style"));
+      $.if(Not(Equal(fillColor, Const("")))).then($ => {
+        $.pushLast(properties, StringJoin([Const("fill:"), procs.graph_escape_text(Struct({ text: fillColor, format: Const("mermaid_style") }))]));
+      });
+      $.if(Not(Equal(color, Const("")))).then($ => {
+        $.pushLast(properties, StringJoin([Const("stroke:"), procs.graph_escape_text(Struct({ text: color, format: Const("mermaid_style") }))]));
+      });
+      $.if(Equal(lineStyle, Const("dashed"))).then($ => {
+        $.pushLast(properties, Const("stroke-dasharray:5 5"));
+      }).elseIf(Equal(lineStyle, Const("dotted"))).then($ => {
+        $.pushLast(properties, Const("stroke-dasharray:2 2"));
+      }).elseIf(Equal(lineStyle, Const("bold"))).then($ => {
+        $.pushLast(properties, Const("stroke-width:3px"));
+      });
+
+      $.if(Greater(Size(properties), Const(0n))).then($ => {
+        const className = $.let(StringJoin([Const("type_"), Size(typeClasses)]));
+        $.insert(typeClasses, nodeType, className);
+
+        const classDef = $.let(StringJoin([Const("  classDef "), className, Const(" ")]));
+        $.forArray(properties, ($, property, index) => {
+          $.if(Equal(index, Const(0n))).then($ => {
+            $.assign(classDef, StringJoin([classDef, property]));
+          }).else($ => {
+            $.assign(classDef, StringJoin([classDef, Const(","), property]));
+          });
+        });
+        $.pushLast(classLines, classDef);
+      });
+    });
+
+    // Step 2: Node declarations (first occurrence wins)
+    const nodeOrder = $.let(NewArray(StringType));
+    const nodeKeys = $.let(NewDict(StringType, StringType));
+    const nodeDeclarations = $.let(NewDict(StringType, StringType));
+
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(nodeKeys, nodeId))).then($ => {
+        const nodeType = $.let(GetField(node, "type"));
+        const nodeKey = $.let(StringJoin([Const("n"), Size(nodeKeys)]));
+        const shape = $.let(GetField(Get(nodeStyles, nodeType, defaultStyle), "shape"));
+        const label = $.let(procs.graph_escape_text(Struct({ text: nodeId, format: Const("mermaid") })));
+
+        const declaration = $.let(StringJoin([nodeKey, Const("[\""), label, Const("\"]")]));
+        $.if(Equal(shape, Const("round"))).then($ => {
+          $.assign(declaration, StringJoin([nodeKey, Const("(\""), label, Const("\")")]));
+        }).elseIf(Equal(shape, Const("stadium"))).then($ => {
+          $.assign(declaration, StringJoin([nodeKey, Const("([\""), label, Const("\"])")]));
+        }).elseIf(Equal(shape, Const("circle"))).then($ => {
+          $.assign(declaration, StringJoin([nodeKey, Const("((\""), label, Const("\"))")]));
+        }).elseIf(Equal(shape, Const("diamond"))).then($ => {
+          $.assign(declaration, StringJoin([nodeKey, Const("{\""), label, Const("\"}")]));
+        }).elseIf(Equal(shape, Const("hexagon"))).then($ => {
+          $.assign(declaration, StringJoin([nodeKey, Const("{{\""), label, Const("\"}}")]));
+        });
+
+        $.insert(nodeKeys, nodeId, nodeKey);
+        $.insert(nodeDeclarations, nodeId, declaration);
+        $.pushLast(nodeOrder, nodeId);
+
+        $.if(In(typeClasses, nodeType)).then($ => {
+          $.pushLast(classLines, StringJoin([Const("  class "), nodeKey, Const(" "), Get(typeClasses, nodeType)]));
+        });
+      });
+    });
+
+    // Step 3: Group nodes into clusters by component ID
+    const nodeClusters = $.let(NewDict(StringType, StringType));
+    $.forArray(GetField(options, "component_assignments"), ($, assignment) => {
+      $.insertOrUpdate(nodeClusters, GetField(assignment, "node_id"), GetField(assignment, "component_id"));
+    });
+
+    const clusterMembers = $.let(NewDict(StringType, ArrayType(StringType)));
+    const unclusteredNodes = $.let(NewArray(StringType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(In(nodeClusters, nodeId)).then($ => {
+        const clusterId = $.let(Get(nodeClusters, nodeId));
+        $.if(In(clusterMembers, clusterId)).then($ => {
+          const members = $.let(Get(clusterMembers, clusterId));
+          $.pushLast(members, nodeId);
+        }).else($ => {
+          $.insert(clusterMembers, clusterId, NewArray(StringType, [nodeId]));
+        });
+      }).else($ => {
+        $.pushLast(unclusteredNodes, nodeId);
+      });
+    });
+
+    // Step 4: Emit flowchart
+    $.pushLast(lines, StringJoin([Const("flowchart "), direction]));
+
+    const clusterIndex = $.let(Const(0n));
+    $.forDict(clusterMembers, ($, members, clusterId) => {
+      $.pushLast(lines, StringJoin([Const("  subgraph cluster_"), clusterIndex, Const("[\""), procs.graph_escape_text(Struct({ text: clusterId, format: Const("mermaid") })), Const("\"]")]));
+      $.forArray(members, ($, nodeId) => {
+        $.pushLast(lines, StringJoin([Const("    "), Get(nodeDeclarations, nodeId)]));
+      });
+      $.pushLast(lines, Const("  end"));
+      $.assign(clusterIndex, Add(clusterIndex, Const(1n)));
+    });
+
+    $.forArray(unclusteredNodes, ($, nodeId) => {
+      $.pushLast(lines, StringJoin([Const("  "), Get(nodeDeclarations, nodeId)]));
+    });
+
+    const linkIndex = $.let(Const(0n));
+    const linkStyleLines = $.let(NewArray(StringType));
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      const edgeType = $.let(GetField(edge, "type"));
+
+      $.if(And(In(nodeKeys, fromId), In(nodeKeys, toId))).then($ => {
+        const style = $.let(Get(edgeStyles, edgeType, defaultStyle));
+        const color = $.let(GetField(style, "color"));
+        const lineStyle = $.let(GetField(style, "line_style"));
+        const highlighted = $.let(In(Get(highlightEdges, fromId, NewSet(StringType)), toId));
+
+        const arrow = $.let(Const("-->"));
+        $.if(Or(Equal(lineStyle, Const("dashed")), Equal(lineStyle, Const("dotted")))).then($ => {
+          $.assign(arrow, Const("-.->"));
+        }).elseIf(Equal(lineStyle, Const("bold"))).then($ => {
+          $.assign(arrow, Const("==>"));
+        });
+
+        $.pushLast(lines, StringJoin([Const("  "), Get(nodeKeys, fromId), Const(" "), arrow, Const("|\""), procs.graph_escape_text(Struct({ text: edgeType, format: Const("mermaid") })), Const("\"| "), Get(nodeKeys, toId)]));
+
+        $.if(highlighted).then($ => {
+          $.pushLast(linkStyleLines, StringJoin([Const("  linkStyle "), linkIndex, Const(" stroke:"), highlightColor, Const(",stroke-width:3px")]));
+        }).elseIf(Not(Equal(color, Const("")))).then($ => {
+          $.pushLast(linkStyleLines, StringJoin([Const("  linkStyle "), linkIndex, Const(" stroke:"), procs.graph_escape_text(Struct({ text: color, format: Const("mermaid_style") }))]));
+        });
+        $.assign(linkIndex, Add(linkIndex, Const(1n)));
+      });
+    });
+
+    $.forArray(classLines, ($, line) => {
+      $.pushLast(lines, line);
+    });
+
+    // Highlight class for highlighted nodes
+    const highlightedKeys = $.let(NewArray(StringType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(In(highlightNodes, nodeId)).then($ => {
+        $.pushLast(highlightedKeys, Get(nodeKeys, nodeId));
+      });
+    });
+    $.if(Greater(Size(highlightedKeys), Const(0n))).then($ => {
+      $.pushLast(lines, StringJoin([Const("  classDef highlight stroke:"), highlightColor, Const(",stroke-width:3px")]));
+      $.forArray(highlightedKeys, ($, nodeKey) => {
+        $.pushLast(lines, StringJoin([Const("  class "), nodeKey, Const(" highlight")]));
+      });
+    });
+
+    $.forArray(linkStyleLines, ($, line) => {
+      $.pushLast(lines, line);
+    });
+
+    // Join statements with newlines, ending with a newline
+    $.pushLast(lines, Const(""));
+    $.return(StringJoin(lines, Const("\n")));
+  });
@@ -0,0 +1 @@
+export { graph_sugiyama_layout } from "./sugiyama";
\ No newline at end of file
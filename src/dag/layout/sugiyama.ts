@@ -0,0 +1,466 @@
+import { Procedure, ToArray } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Divide,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  Less,
+  Min,
+  Multiply,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, FloatType, IntegerType, StringType } from "@elaraai/core";
+
+import { graph_topological_sort_report } from "../traversal/topological_sort_report";
+import { GraphEdge, GraphLayout, GraphLayoutEdge, GraphLayoutNode, GraphLayoutOptions, GraphLayoutPoint, GraphNode } from "../types";
+
+/**
+ * Sugiyama layout - layered x/y coordinates and edge bend points for drawing a DAG
+ *
+ * Computes a hierarchical drawing that a front end can render directly: every node gets a layer
+ * (its graph_topological_sort_report layer, drawn top to bottom), an order within the layer chosen to
+ * reduce edge crossings, and x/y coordinates. Edges that span more than one layer are routed
+ * through bend points, one per intermediate layer, so they do not pass through other nodes.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:                     Layout (x_spacing 100, y_spacing 80):
+ *   S ──→ A ──→ T                    y=0     S (100)
+ *   S ──→ B ──→ T                    y=80    A (0)   B (100)   · (200)
+ *   S ─────────→ T  (bypass)         y=160   T (50)
+ *
+ * The bypass edge S→T bends at (200, 80) to pass beside A and B
+ * ```
+ *
+ * **Stages:**
+ * 1. Layering: Longest-path layers from graph_topological_sort_report
+ * 2. Long edges: A virtual node is inserted on every intermediate layer (one chain per
+ *    connected node pair; parallel edges share it)
+ * 3. Crossing minimisation: Alternating down and up sweeps reorder each layer by the
+ *    barycentre (mean) or median position of its neighbours in the previous layer; the
+ *    ordering with the fewest crossings is kept
+ * 4. Coordinate assignment: Alternating sweeps move nodes towards the mean x of their
+ *    neighbours, keeping x_spacing between neighbours in a layer, by averaging a left-packed
+ *    and a right-packed placement
+ *
+ * **Output:**
+ * - Nodes in input order with layer, position in layer and x/y (y = layer × y_spacing); the
+ *   leftmost node has x = 0
+ * - Edges in input order (edges to unknown nodes are left out) with their bend points
+ * - `crossings` counts crossings between adjacent layers, including through bend points
+ *
+ * **Notes:**
+ * - Duplicate node IDs use the first occurrence
+ * - Coordinates are integers in the units of the spacings (e.g. pixels)
+ *
+ * **Use Cases:**
+ * - Process diagrams: Render networks from graph_network_extraction without a layout engine
+ * - Lineage views: Top-down genealogy of lots and batches
+ *
+ * **Error Handling:** An unknown crossing_method, negative iterations, spacings below 1, or a
+ * cyclic graph (reported with a cycle witness) fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(iterations × (W² + P²)) per layer, where W = nodes (including virtual
+ * nodes) and P = edge segments between the layer and the next
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param options Crossing method, number of passes and spacings
+ * @returns GraphLayout with node coordinates, edge bend points and layout size
+ */
+export const graph_sugiyama_layout = new Procedure("graph_sugiyama_layout")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("options", GraphLayoutOptions)
+  .output(GraphLayout)
+  .import(graph_topological_sort_report)
+  .body(($, { nodes, edges, options }, procs) => {
+    const crossingMethod = $.let(GetField(options, "crossing_method"));
+    const iterations = $.let(GetField(options, "iterations"));
+    const xSpacing = $.let(GetField(options, "x_spacing"));
+    const ySpacing = $.let(GetField(options, "y_spacing"));
+
+    $.if(Not(Or(Equal(crossingMethod, Const("barycenter")), Equal(crossingMethod, Const("median"))))).then($ => {
+      $.error(StringJoin([Const("Unknown crossing_method \""), crossingMethod, Const("\" (expected barycenter or median)")]));
+    });
+    $.if(Less(iterations, Const(0n))).then($ => {
+      $.error(StringJoin([Const("iterations must not be negative (got "), iterations, Const(")")]));
+    });
+    $.if(Or(Less(xSpacing, Const(1n)), Less(ySpacing, Const(1n)))).then($ => {
+      $.error(Const("x_spacing and y_spacing must be at least 1"));
+    });
+
+    // Step 1: Layers from the topological sort; real nodes are vertices 0..V-1 in sort order
+    const sorted = $.let(procs.graph_topological_sort_report(Struct({
+      nodes,
+      edges,
+      tie_break: Const("input"),
+      type_priority: NewArray(StringType),
+      priorities: NewDict(StringType, FloatType)
+    })));
+    const cycle = $.let(GetField(sorted, "cycle"));
+    $.if(Greater(Size(cycle), Const(0n))).then($ => {
+      const description = $.let(Const(""));
+      $.forArray(cycle, ($, member) => {
+        $.assign(description, StringJoin([description, member, Const(" → ")]));
+      });
+      $.error(StringJoin([Const("Graph is cyclic (cycle "), description, Get(cycle, Const(0n)), Const("); layered layout needs a DAG")]));
+    });
+
+    const vertexOf = $.let(NewDict(StringType, IntegerType));
+    const vertexLayer = $.let(NewDict(IntegerType, IntegerType));
+    const layers = $.let(NewDict(IntegerType, ArrayType(IntegerType)));
+    $.forArray(GetField(sorted, "order"), ($, sortedNode, vertex) => {
+      const layer = $.let(GetField(sortedNode, "layer"));
+      $.insert(vertexOf, GetField(sortedNode, "id"), vertex);
+      $.insert(vertexLayer, vertex, layer);
+      $.if(In(layers, layer)).then($ => {
+        const members = $.let(Get(layers, layer));
+        $.pushLast(members, vertex);
+      }).else($ => {
+        $.insert(layers, layer, NewArray(IntegerType, [vertex]));
+      });
+    });
+    const layerCount = $.let(Size(layers));
+
+    // Step 2: Split long edges with virtual vertices so every segment joins adjacent layers
+    const upper = $.let(NewDict(IntegerType, ArrayType(IntegerType)));
+    const lower = $.let(NewDict(IntegerType, ArrayType(IntegerType)));
+    const chains = $.let(NewDict(StringType, ArrayType(IntegerType)));
+    const nextVertex = $.let(Size(vertexOf));
+    $.forArray(edges, ($, edge) => {
+      $.if(And(In(vertexOf, GetField(edge, "from")), In(vertexOf, GetField(edge, "to")))).then($ => {
+        const fromVertex = $.let(Get(vertexOf, GetField(edge, "from")));
+        const toVertex = $.let(Get(vertexOf, GetField(edge, "to")));
+        const pairKey = $.let(StringJoin([fromVertex, Const(":"), toVertex]));
+        $.if(Not(In(chains, pairKey))).then($ => {
+          const chain = $.let(NewArray(IntegerType));
+          const segmentEnds = $.let(NewArray(IntegerType));
+          const layer = $.let(Add(Get(vertexLayer, fromVertex), Const(1n)));
+          $.while(Less(layer, Get(vertexLayer, toVertex)), $ => {
+            $.insert(vertexLayer, nextVertex, layer);
+            const members = $.let(Get(layers, layer));
+            $.pushLast(members, nextVertex);
+            $.pushLast(chain, nextVertex);
+            $.pushLast(segmentEnds, nextVertex);
+            $.assign(nextVertex, Add(nextVertex, Const(1n)));
+            $.assign(layer, Add(layer, Const(1n)));
+          });
+          $.pushLast(segmentEnds, toVertex);
+
+          const previous = $.let(fromVertex);
+          $.forArray(segmentEnds, ($, segmentEnd) => {
+            $.if(In(lower, previous)).then($ => {
+              const below = $.let(Get(lower, previous));
+              $.pushLast(below, segmentEnd);
+            }).else($ => {
+              $.insert(lower, previous, NewArray(IntegerType, [segmentEnd]));
+            });
+            $.if(In(upper, segmentEnd)).then($ => {
+              const above = $.let(Get(upper, segmentEnd));
+              $.pushLast(above, previous);
+            }).else($ => {
+              $.insert(upper, segmentEnd, NewArray(IntegerType, [previous]));
+            });
+            $.assign(previous, segmentEnd);
+          });
+          $.insert(chains, pairKey, chain);
+        });
+      });
+    });
+
+    const position = $.let(NewDict(IntegerType, IntegerType));
+    $.forDict(layers, ($, members) => {
+      $.forArray(members, ($, vertex, index) => {
+        $.insert(position, vertex, index);
+      });
+    });
+
+    // Step 3: Crossing minimisation sweeps, keeping the ordering with the fewest crossings
+    const bestLayers = $.let(NewDict(IntegerType, ArrayType(IntegerType)));
+    const bestCrossings = $.let(Const(-1n));
+    const sweepCount = $.let(Multiply(iterations, Const(2n)));
+    const step = $.let(Const(0n));
+    const sweeping = $.let(Const(true));
+    $.while(sweeping, $ => {
+      // Count crossings of the current ordering: segments (a, b) and (c, d) cross when the
+      // order of a, c is the opposite of the order of b, d
+      const crossings = $.let(Const(0n));
+      $.forDict(layers, ($, members) => {
+        const segmentTops = $.let(NewArray(IntegerType));
+        const segmentBottoms = $.let(NewArray(IntegerType));
+        $.forArray(members, ($, vertex) => {
+          $.forArray(Get(lower, vertex, NewArray(IntegerType)), ($, below) => {
+            $.pushLast(segmentTops, Get(position, vertex));
+            $.pushLast(segmentBottoms, Get(position, below));
+          });
+        });
+        $.forArray(segmentTops, ($, top, first) => {
+          $.forArray(segmentTops, ($, otherTop, second) => {
+            $.if(And(Greater(second, first), Less(Multiply(Subtract(top, otherTop), Subtract(Get(segmentBottoms, first), Get(segmentBottoms, second))), Const(0n)))).then($ => {
+              $.assign(crossings, Add(crossings, Const(1n)));
+            });
+          });
+        });
+      });
+
+      $.if(Or(Less(bestCrossings, Const(0n)), Less(crossings, bestCrossings))).then($ => {
+        $.assign(bestCrossings, crossings);
+        $.assign(bestLayers, NewDict(IntegerType, ArrayType(IntegerType)));
+        $.forDict(layers, ($, members, layer) => {
+          $.insert(bestLayers, layer, members);
+        });
+      });
+
+      $.if(Equal(step, sweepCount)).then($ => {
+        $.assign(sweeping, Const(false));
+      }).else($ => {
+        // Even steps sweep down (ordering by upper neighbours), odd steps sweep up
+        const downward = $.let(Equal(Multiply(Divide(step, Const(2n)), Const(2n)), step));
+        const layer = $.let(Subtract(layerCount, Const(2n)));
+        const layerStep = $.let(Const(-1n));
+        $.if(downward).then($ => {
+          $.assign(layer, Const(1n));
+          $.assign(layerStep, Const(1n));
+        });
+
+        $.while(And(GreaterEqual(layer, Const(0n)), Less(layer, layerCount)), $ => {
+          const members = $.let(Get(layers, layer));
+
+          // Sort key per vertex as a fraction numerator / denominator of positions
+          const numerators = $.let(NewArray(IntegerType));
+          const denominators = $.let(NewArray(IntegerType));
+          $.forArray(members, ($, vertex) => {
+            const neighbors = $.let(NewArray(IntegerType));
+            $.if(downward).then($ => {
+              $.assign(neighbors, Get(upper, vertex, NewArray(IntegerType)));
+            }).else($ => {
+              $.assign(neighbors, Get(lower, vertex, NewArray(IntegerType)));
+            });
+            const neighborPositions = $.let(NewSet(IntegerType));
+            const positionSum = $.let(Const(0n));
+            $.forArray(neighbors, ($, neighbor) => {
+              $.insert(neighborPositions, Get(position, neighbor));
+              $.assign(positionSum, Add(positionSum, Get(position, neighbor)));
+            });
+            const count = $.let(Size(neighbors));
+
+            $.if(Equal(count, Const(0n))).then($ => {
+              // No neighbours on that side: keep the current position
+              $.pushLast(numerators, Get(position, vertex));
+              $.pushLast(denominators, Const(1n));
+            }).elseIf(Equal(crossingMethod, Const("barycenter"))).then($ => {
+              $.pushLast(numerators, positionSum);
+              $.pushLast(denominators, count);
+            }).else($ => {
+              // Median, doubled so that even counts average the two middle positions
+              const ordered = $.let(ToArray(neighborPositions));
+              const middle = $.let(Divide(count, Const(2n)));
+              $.if(Equal(Multiply(middle, Const(2n)), count)).then($ => {
+                $.pushLast(numerators, Add(Get(ordered, Subtract(middle, Const(1n))), Get(ordered, middle)));
+              }).else($ => {
+                $.pushLast(numerators, Multiply(Get(ordered, middle), Const(2n)));
+              });
+              $.pushLast(denominators, Const(2n));
+            });
+          });
+
+          // Stable selection sort by key
+          const reordered = $.let(NewArray(IntegerType));
+          const picked = $.let(NewSet(IntegerType));
+          $.forArray(members, $ => {
+            const bestIndex = $.let(Const(-1n));
+            $.forArray(members, ($, vertex, index) => {
+              $.if(Not(In(picked, index))).then($ => {
+                $.if(Less(bestIndex, Const(0n))).then($ => {
+                  $.assign(bestIndex, index);
+                }).elseIf(Less(
+                  Multiply(Get(numerators, index), Get(denominators, bestIndex)),
+                  Multiply(Get(numerators, bestIndex), Get(denominators, index))
+                )).then($ => {
+                  $.assign(bestIndex, index);
+                });
+              });
+            });
+            $.insert(picked, bestIndex);
+            $.pushLast(reordered, Get(members, bestIndex));
+          });
+
+          $.insertOrUpdate(layers, layer, reordered);
+          $.forArray(reordered, ($, vertex, index) => {
+            $.insertOrUpdate(position, vertex, index);
+          });
+          $.assign(layer, Add(layer, layerStep));
+        });
+        $.assign(step, Add(step, Const(1n)));
+      });
+    });
+
+    $.forDict(bestLayers, ($, members) => {
+      $.forArray(members, ($, vertex, index) => {
+        $.insertOrUpdate(position, vertex, index);
+      });
+    });
+
+    // Step 4: Coordinate assignment, starting from evenly spaced positions
+    const xs = $.let(NewDict(IntegerType, IntegerType));
+    $.forDict(position, ($, index, vertex) => {
+      $.insert(xs, vertex, Multiply(index, xSpacing));
+    });
+
+    $.assign(step, Const(0n));
+    $.while(Less(step, sweepCount), $ => {
+      const downward = $.let(Equal(Multiply(Divide(step, Const(2n)), Const(2n)), step));
+      const layer = $.let(Subtract(layerCount, Const(2n)));
+      const layerStep = $.let(Const(-1n));
+      $.if(downward).then($ => {
+        $.assign(layer, Const(1n));
+        $.assign(layerStep, Const(1n));
+      });
+
+      $.while(And(GreaterEqual(layer, Const(0n)), Less(layer, layerCount)), $ => {
+        const members = $.let(Get(bestLayers, layer));
+        const width = $.let(Size(members));
+
+        // Desired x: mean x of the neighbours on the sweep side, or the current x
+        const desired = $.let(NewArray(IntegerType));
+        $.forArray(members, ($, vertex) => {
+          const neighbors = $.let(NewArray(IntegerType));
+          $.if(downward).then($ => {
+            $.assign(neighbors, Get(upper, vertex, NewArray(IntegerType)));
+          }).else($ => {
+            $.assign(neighbors, Get(lower, vertex, NewArray(IntegerType)));
+          });
+          $.if(Equal(Size(neighbors), Const(0n))).then($ => {
+            $.pushLast(desired, Get(xs, vertex));
+          }).else($ => {
+            const xSum = $.let(Const(0n));
+            $.forArray(neighbors, ($, neighbor) => {
+              $.assign(xSum, Add(xSum, Get(xs, neighbor)));
+            });
+            $.pushLast(desired, Divide(xSum, Size(neighbors)));
+          });
+        });
+
+        // Left-packed placement: as close to desired as spacing from the left allows
+        const leftPacked = $.let(NewArray(IntegerType));
+        $.forArray(desired, ($, target, index) => {
+          $.if(Equal(index, Const(0n))).then($ => {
+            $.pushLast(leftPacked, target);
+          }).else($ => {
+            const minimum = $.let(Add(Get(leftPacked, Subtract(index, Const(1n))), xSpacing));
+            $.if(Greater(target, minimum)).then($ => {
+              $.pushLast(leftPacked, target);
+            }).else($ => {
+              $.pushLast(leftPacked, minimum);
+            });
+          });
+        });
+
+        // Right-packed placement, built from the right and shifted to stay non-negative
+        const rightReversed = $.let(NewArray(IntegerType));
+        const index = $.let(Subtract(width, Const(1n)));
+        $.while(GreaterEqual(index, Const(0n)), $ => {
+          $.if(Equal(index, Subtract(width, Const(1n)))).then($ => {
+            $.pushLast(rightReversed, Get(desired, index));
+          }).else($ => {
+            $.pushLast(rightReversed, Min(Get(desired, index), Subtract(Get(rightReversed, Subtract(Size(rightReversed), Const(1n))), xSpacing)));
+          });
+          $.assign(index, Subtract(index, Const(1n)));
+        });
+        const shift = $.let(Const(0n));
+        $.if(Less(Get(rightReversed, Subtract(width, Const(1n))), Const(0n))).then($ => {
+          $.assign(shift, Subtract(Const(0n), Get(rightReversed, Subtract(width, Const(1n)))));
+        });
+
+        // Both placements keep x_spacing, so their average does too
+        $.forArray(members, ($, vertex, slot) => {
+          const rightX = $.let(Add(Get(rightReversed, Subtract(Subtract(width, Const(1n)), slot)), shift));
+          $.insertOrUpdate(xs, vertex, Divide(Add(Get(leftPacked, slot), rightX), Const(2n)));
+        });
+        $.assign(layer, Add(layer, layerStep));
+      });
+      $.assign(step, Add(step, Const(1n)));
+    });
+
+    // Step 5: Move the leftmost vertex to x = 0 and assemble the output
+    const minimumX = $.let(Const(0n));
+    const maximumX = $.let(Const(0n));
+    const hasVertices = $.let(Const(false));
+    $.forDict(xs, ($, x) => {
+      $.if(Or(Not(hasVertices), Less(x, minimumX))).then($ => {
+        $.assign(minimumX, x);
+      });
+      $.if(Or(Not(hasVertices), Greater(x, maximumX))).then($ => {
+        $.assign(maximumX, x);
+      });
+      $.assign(hasVertices, Const(true));
+    });
+
+    const layoutNodes = $.let(NewArray(GraphLayoutNode));
+    const placed = $.let(NewSet(StringType));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(placed, nodeId))).then($ => {
+        $.insert(placed, nodeId);
+        const vertex = $.let(Get(vertexOf, nodeId));
+        $.pushLast(layoutNodes, Struct({
+          id: nodeId,
+          type: GetField(node, "type"),
+          layer: Get(vertexLayer, vertex),
+          position: Get(position, vertex),
+          x: Subtract(Get(xs, vertex), minimumX),
+          y: Multiply(Get(vertexLayer, vertex), ySpacing)
+        }));
+      });
+    });
+
+    const layoutEdges = $.let(NewArray(GraphLayoutEdge));
+    $.forArray(edges, ($, edge) => {
+      $.if(And(In(vertexOf, GetField(edge, "from")), In(vertexOf, GetField(edge, "to")))).then($ => {
+        const pairKey = $.let(StringJoin([Get(vertexOf, GetField(edge, "from")), Const(":"), Get(vertexOf, GetField(edge, "to"))]));
+        const points = $.let(NewArray(GraphLayoutPoint));
+        $.forArray(Get(chains, pairKey), ($, bend) => {
+          $.pushLast(points, Struct({
+            x: Subtract(Get(xs, bend), minimumX),
+            y: Multiply(Get(vertexLayer, bend), ySpacing)
+          }));
+        });
+        $.pushLast(layoutEdges, Struct({
+          from: GetField(edge, "from"),
+          to: GetField(edge, "to"),
+          type: GetField(edge, "type"),
+          points: points
+        }));
+      });
+    });
+
+    const height = $.let(Const(0n));
+    $.if(Greater(layerCount, Const(0n))).then($ => {
+      $.assign(height, Multiply(Subtract(layerCount, Const(1n)), ySpacing));
+    });
+
+    $.return(Struct({
+      nodes: layoutNodes,
+      edges: layoutEdges,
+      layer_count: layerCount,
+      crossings: bestCrossings,
+      width: Subtract(maximumX, minimumX),
+      height: height
+    }));
+  });
@@ -0,0 +1,194 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  ArrayType,
+  Const,
+  DictType,
+  Get,
+  GetField,
+  In,
+  IntegerType,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  StringType,
+  Struct,
+  StructType
+} from "@elaraai/core";
+
+import { GraphAttributedEdge, GraphAttributedNode } from "../types";
+import { graph_strip_attributes } from "../core/attributes";
+import { graph_network_extraction } from "./network_extraction";
+
+// Individual subgraph structure with attributed nodes and edges
+export const GraphAttributedNetworkSubgraph = StructType({
+  network_nodes: ArrayType(GraphAttributedNode),
+  network_edges: ArrayType(GraphAttributedEdge),
+  source_nodes: ArrayType(GraphAttributedNode),
+  target_nodes: ArrayType(GraphAttributedNode),
+  intermediate_nodes: ArrayType(GraphAttributedNode),
+  total_nodes: IntegerType,
+  total_edges: IntegerType,
+  network_depth: IntegerType
+});
+
+// Result structure for attributed network extraction
+export const GraphAttributedNetworkExtractionResult = StructType({
+  subgraphs: ArrayType(GraphAttributedNetworkSubgraph)
+});
+
+/**
+ * Attributed Graph Network Extraction - graph_network_extraction over attributed nodes and edges
+ *
+ * **Purpose**: Extracts the same complete processing networks as `graph_network_extraction`,
+ * but accepts attributed nodes and edges and returns networks whose nodes and edges keep their
+ * attributes (quantities, timestamps, locations, ...), so genealogy results no longer need to be
+ * joined back to parallel attribute dictionaries.
+ *
+ * **Behavior Example**:
+ * ```
+ * Graph: A→B→C (edges carry {quantity})    X→Y
+ * Input: source_node_ids=["A"], target_node_ids=[]
+ * Output: 1 subgraph
+ *   Subgraph 1: nodes=[A,B,C] with attributes, edges=[A→B {quantity: 5}, B→C {quantity: 4}]
+ * ```
+ *
+ * **Attribute Matching**:
+ * - Nodes: each occurrence of a node ID is matched to its attributed node in input order
+ * - Edges: parallel edges with the same from/to/type are matched in input order
+ *
+ * **Time Complexity**: As for graph_network_extraction, plus O(V + E) per subgraph to attach attributes
+ *
+ * @param nodes - Array of attributed graph nodes
+ * @param edges - Array of attributed directed edges
+ * @param source_node_ids - Array of source node IDs to use as network discovery starting points
+ * @param target_node_ids - Array of target node IDs to use as network discovery starting points
+ * @returns GraphAttributedNetworkExtractionResult with the same subgraphs as graph_network_extraction
+ *
+ * **Use Cases**:
+ * - Batch genealogy with quantities: "Which lots fed this product, and how much of each?"
+ * - Recall scoping: "Which locations and dates does this batch's network span?"
+ */
+export const graph_attributed_network_extraction = new Procedure("graph_attributed_network_extraction")
+  .input("nodes", ArrayType(GraphAttributedNode))
+  .input("edges", ArrayType(GraphAttributedEdge))
+  .input("source_node_ids", ArrayType(StringType))
+  .input("target_node_ids", ArrayType(StringType))
+  .output(GraphAttributedNetworkExtractionResult)
+  .import(graph_strip_attributes)
+  .import(graph_network_extraction)
+  .body(($, { nodes, edges, source_node_ids, target_node_ids }, procs) => {
+    const plain_graph = $.let(procs.graph_strip_attributes(Struct({ nodes, edges })));
+    const extraction = $.let(procs.graph_network_extraction(Struct({
+      nodes: GetField(plain_graph, "nodes"),
+      edges: GetField(plain_graph, "edges"),
+      source_node_ids: source_node_ids,
+      target_node_ids: target_node_ids
+    })));
+
+    // Attributed nodes grouped by ID, and edges by (from, to, type), in input order
+    const nodes_by_id = $.let(NewDict(StringType, ArrayType(GraphAttributedNode)));
+    $.forArray(nodes, ($, node) => {
+      const node_id = $.let(GetField(node, "id"));
+      $.if(In(nodes_by_id, node_id)).then($ => {
+        const id_nodes = $.let(Get(nodes_by_id, node_id));
+        $.pushLast(id_nodes, node);
+      }).else($ => {
+        $.insert(nodes_by_id, node_id, NewArray(GraphAttributedNode, [node]));
+      });
+    });
+
+    // Keyed from -> to -> type
+    const edges_by_key = $.let(NewDict(StringType, DictType(StringType, DictType(StringType, ArrayType(GraphAttributedEdge)))));
+    $.forArray(edges, ($, edge) => {
+      const from_id = $.let(GetField(edge, "from"));
+      const to_id = $.let(GetField(edge, "to"));
+      const edge_type = $.let(GetField(edge, "type"));
+      $.if(Not(In(edges_by_key, from_id))).then($ => {
+        $.insert(edges_by_key, from_id, NewDict(StringType, DictType(StringType, ArrayType(GraphAttributedEdge))));
+      });
+      const from_edges = $.let(Get(edges_by_key, from_id));
+      $.if(Not(In(from_edges, to_id))).then($ => {
+        $.insert(from_edges, to_id, NewDict(StringType, ArrayType(GraphAttributedEdge)));
+      });
+      const pair_edges = $.let(Get(from_edges, to_id));
+      $.if(In(pair_edges, edge_type)).then($ => {
+        const key_edges = $.let(Get(pair_edges, edge_type));
+        $.pushLast(key_edges, edge);
+      }).else($ => {
+        $.insert(pair_edges, edge_type, NewArray(GraphAttributedEdge, [edge]));
+      });
+    });
+
+    const result_subgraphs = $.let(NewArray(GraphAttributedNetworkSubgraph));
+    $.forArray(GetField(extraction, "subgraphs"), ($, subgraph) => {
+      // Network nodes keep input order, so the n-th occurrence of an ID is its n-th attributed node
+      const id_positions = $.let(NewDict(StringType, IntegerType));
+      const network_nodes = $.let(NewArray(GraphAttributedNode));
+      $.forArray(GetField(subgraph, "network_nodes"), ($, node) => {
+        const node_id = $.let(GetField(node, "id"));
+        const position = $.let(Get(id_positions, node_id, Const(0n)));
+        $.pushLast(network_nodes, Get(Get(nodes_by_id, node_id), position));
+        $.insertOrUpdate(id_positions, node_id, Add(position, Const(1n)));
+      });
+
+      // Categorize with the same precedence as graph_network_extraction (source before target)
+      const source_ids = $.let(NewSet(StringType));
+      $.forArray(GetField(subgraph, "source_nodes"), ($, node) => {
+        $.insertOrUpdate(source_ids, GetField(node, "id"));
+      });
+      const target_ids = $.let(NewSet(StringType));
+      $.forArray(GetField(subgraph, "target_nodes"), ($, node) => {
+        $.insertOrUpdate(target_ids, GetField(node, "id"));
+      });
+
+      const source_nodes = $.let(NewArray(GraphAttributedNode));
+      const target_nodes = $.let(NewArray(GraphAttributedNode));
+      const intermediate_nodes = $.let(NewArray(GraphAttributedNode));
+      $.forArray(network_nodes, ($, node) => {
+        const node_id = $.let(GetField(node, "id"));
+        $.if(In(source_ids, node_id)).then($ => {
+          $.pushLast(source_nodes, node);
+        }).elseIf(In(target_ids, node_id)).then($ => {
+          $.pushLast(target_nodes, node);
+        }).else($ => {
+          $.pushLast(intermediate_nodes, node);
+        });
+      });
+
+      const key_positions = $.let(NewDict(StringType, DictType(StringType, DictType(StringType, IntegerType))));
+      const network_edges = $.let(NewArray(GraphAttributedEdge));
+      $.forArray(GetField(subgraph, "network_edges"), ($, edge) => {
+        const from_id = $.let(GetField(edge, "from"));
+        const to_id = $.let(GetField(edge, "to"));
+        const edge_type = $.let(GetField(edge, "type"));
+        $.if(Not(In(key_positions, from_id))).then($ => {
+          $.insert(key_positions, from_id, NewDict(StringType, DictType(StringType, IntegerType)));
+        });
+        const from_positions = $.let(Get(key_positions, from_id));
+        $.if(Not(In(from_positions, to_id))).then($ => {
+          $.insert(from_positions, to_id, NewDict(StringType, IntegerType));
+        });
+        const pair_positions = $.let(Get(from_positions, to_id));
+        const position = $.let(Get(pair_positions, edge_type, Const(0n)));
+        $.pushLast(network_edges, Get(Get(Get(Get(edges_by_key, from_id), to_id), edge_type), position));
+        $.insertOrUpdate(pair_positions, edge_type, Add(position, Const(1n)));
+      });
+
+      $.pushLast(result_subgraphs, Struct({
+        network_nodes: network_nodes,
+        network_edges: network_edges,
+        source_nodes: source_nodes,
+        target_nodes: target_nodes,
+        intermediate_nodes: intermediate_nodes,
+        total_nodes: GetField(subgraph, "total_nodes"),
+        total_edges: GetField(subgraph, "total_edges"),
+        network_depth: GetField(subgraph, "network_depth")
+      }));
+    });
+
+    $.return(Struct({
+      subgraphs: result_subgraphs
+    }));
+  });
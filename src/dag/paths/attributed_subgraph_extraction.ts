@@ -0,0 +1,139 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  Not,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, IntegerType, SetType, StringType } from "@elaraai/core";
+
+import { graph_strip_attributes } from "../core/attributes";
+import { graph_subgraphs } from "./subgraph_extraction";
+import {
+  GraphAttributedEdge,
+  GraphAttributedNode,
+  GraphAttributedPathSubgraph,
+} from "../types";
+
+/**
+ * Attributed subgraph extraction - graph_subgraphs over attributed nodes and edges
+ *
+ * Same components, filtering and source/target detection as `graph_subgraphs`, but accepts
+ * attributed nodes and edges and returns subgraphs whose nodes and edges keep their attributes.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:                                 Result (no filtering):
+ *   A ──flow {qty: 5}──→ B    X ──→ Y            Subgraph 1: nodes [A, B], edges [A→B {qty: 5}]
+ *                                                Subgraph 2: nodes [X, Y], edges [X→Y]
+ * ```
+ *
+ * **Notes:**
+ * - Duplicate node IDs return the last occurrence (as graph_subgraphs does)
+ * - Parallel edges with the same from/to/type keep their own attributes, matched in input order
+ *
+ * **Use Cases:**
+ * - Component reports: "Extract each disconnected genealogy with its quantities and timestamps"
+ *
+ * **Algorithm:** Removes attributes with `graph_strip_attributes`, extracts subgraphs with
+ * `graph_subgraphs`, then attaches attributes to each subgraph's nodes by ID and to its edges
+ * by (from, to, type) in input order.
+ *
+ * **Complexity:** O(V + E + F×T) as for graph_subgraphs
+ *
+ * @param nodes Array of attributed graph nodes
+ * @param edges Array of attributed directed edges
+ * @param node_types Array of sets where each set contains required node types (complete intersection required)
+ * @param edge_types Array of sets where each set contains required edge types (complete intersection required)
+ * @returns Array of subgraphs with attributed nodes and edges
+ */
+export const graph_attributed_subgraphs = new Procedure("graph_attributed_subgraphs")
+  .input("nodes", ArrayType(GraphAttributedNode))
+  .input("edges", ArrayType(GraphAttributedEdge))
+  .input("node_types", ArrayType(SetType(StringType)))
+  .input("edge_types", ArrayType(SetType(StringType)))
+  .output(ArrayType(GraphAttributedPathSubgraph))
+  .import(graph_strip_attributes)
+  .import(graph_subgraphs)
+  .body(($, { nodes, edges, node_types, edge_types }, procs) => {
+    const plainGraph = $.let(procs.graph_strip_attributes(Struct({ nodes, edges })));
+    const subgraphs = $.let(procs.graph_subgraphs(Struct({
+      nodes: GetField(plainGraph, "nodes"),
+      edges: GetField(plainGraph, "edges"),
+      node_types: node_types,
+      edge_types: edge_types
+    })));
+
+    // Attributed node lookup (last occurrence wins, matching graph_subgraphs)
+    const nodeLookup = $.let(NewDict(StringType, GraphAttributedNode));
+    $.forArray(nodes, ($, node) => {
+      $.insertOrUpdate(nodeLookup, GetField(node, "id"), node);
+    });
+
+    // Attributed edges grouped by from -> to -> type in input order
+    const edgesByKey = $.let(NewDict(StringType, DictType(StringType, DictType(StringType, ArrayType(GraphAttributedEdge)))));
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      const edgeType = $.let(GetField(edge, "type"));
+      $.if(Not(In(edgesByKey, fromId))).then($ => {
+        $.insert(edgesByKey, fromId, NewDict(StringType, DictType(StringType, ArrayType(GraphAttributedEdge))));
+      });
+      const fromEdges = $.let(Get(edgesByKey, fromId));
+      $.if(Not(In(fromEdges, toId))).then($ => {
+        $.insert(fromEdges, toId, NewDict(StringType, ArrayType(GraphAttributedEdge)));
+      });
+      const pairEdges = $.let(Get(fromEdges, toId));
+      $.if(In(pairEdges, edgeType)).then($ => {
+        const keyEdges = $.let(Get(pairEdges, edgeType));
+        $.pushLast(keyEdges, edge);
+      }).else($ => {
+        $.insert(pairEdges, edgeType, NewArray(GraphAttributedEdge, [edge]));
+      });
+    });
+
+    const result = $.let(NewArray(GraphAttributedPathSubgraph));
+    $.forArray(subgraphs, ($, subgraph) => {
+      const attributedNodes = $.let(NewArray(GraphAttributedNode));
+      $.forArray(GetField(subgraph, "nodes"), ($, node) => {
+        $.pushLast(attributedNodes, Get(nodeLookup, GetField(node, "id")));
+      });
+
+      // Each edge key belongs to one component; take its parallel edges in order
+      const keyPositions = $.let(NewDict(StringType, DictType(StringType, DictType(StringType, IntegerType))));
+      const attributedEdges = $.let(NewArray(GraphAttributedEdge));
+      $.forArray(GetField(subgraph, "edges"), ($, edge) => {
+        const fromId = $.let(GetField(edge, "from"));
+        const toId = $.let(GetField(edge, "to"));
+        const edgeType = $.let(GetField(edge, "type"));
+        $.if(Not(In(keyPositions, fromId))).then($ => {
+          $.insert(keyPositions, fromId, NewDict(StringType, DictType(StringType, IntegerType)));
+        });
+        const fromPositions = $.let(Get(keyPositions, fromId));
+        $.if(Not(In(fromPositions, toId))).then($ => {
+          $.insert(fromPositions, toId, NewDict(StringType, IntegerType));
+        });
+        const pairPositions = $.let(Get(fromPositions, toId));
+        const position = $.let(Get(pairPositions, edgeType, Const(0n)));
+        $.pushLast(attributedEdges, Get(Get(Get(Get(edgesByKey, fromId), toId), edgeType), position));
+        $.insertOrUpdate(pairPositions, edgeType, Add(position, Const(1n)));
+      });
+
+      $.pushLast(result, Struct({
+        nodes: attributedNodes,
+        edges: attributedEdges,
+        source_nodes: GetField(subgraph, "source_nodes"),
+        target_nodes: GetField(subgraph, "target_nodes"),
+        node_types: GetField(subgraph, "node_types"),
+        edge_types: GetField(subgraph, "edge_types")
+      }));
+    });
+
+    $.return(result);
+  });
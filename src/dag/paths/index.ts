@@ -3,4 +3,10 @@ export { graph_critical_path } from "./critical_path";
 export { graph_network_extraction } from "./network_extraction";
 export { graph_path_membership } from "./path_membership";
 export { graph_shortest_path } from "./shortest_path";
-export { graph_subgraphs } from "./subgraph_extraction";
\ No newline at end of file
+export { graph_subgraphs } from "./subgraph_extraction";
+export { graph_indexed_critical_path } from "./indexed_critical_path";
+export { graph_attributed_subgraphs } from "./attributed_subgraph_extraction";
+export { graph_attributed_network_extraction } from "./attributed_network_extraction";
+export { graph_path_query } from "./path_query";
+export { graph_ego_network } from "./ego_network";
+export { graph_compile_path_query } from "./path_query_compiler";
\ No newline at end of file
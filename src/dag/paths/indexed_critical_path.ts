@@ -0,0 +1,172 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Duration,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, FloatType, IntegerType, StringType } from "@elaraai/core";
+
+import {
+  GraphCriticalPathResult,
+  GraphIndexedGraph,
+  GraphTemporalNode,
+} from "../types";
+
+/**
+ * Indexed critical path analysis - longest path through a prebuilt integer-indexed (CSR) graph
+ *
+ * Same result as `graph_critical_path`, but reads dependencies directly from the CSR arrays
+ * produced by `graph_build_indexed_graph`. Task durations are supplied separately so the same
+ * indexed graph can be reused with different schedules.
+ *
+ * **Example:**
+ * ```
+ * Input Tasks:                    Critical Path Analysis:
+ *     A(4min) ──┌─────┐        Earliest Start: A=0, B=4, C=4, D=10
+ *               ├─→ B(6min)   Critical Path: [A, B, D] (total: 14min)
+ *               └─→ C(2min)
+ *                   └─┬─→ D(4min)
+ * ```
+ *
+ * **Notes:**
+ * - Durations are matched to the indexed graph by node ID; indexed nodes without a
+ *   temporal entry have zero duration and temporal nodes not in the graph are ignored
+ * - Nodes on cycles are never released by the topological pass and keep earliest start 0
+ *
+ * **Use Cases:**
+ * - Schedule what-ifs: "Recompute the critical path for many duration scenarios on one graph"
+ *
+ * **Algorithm:** Kahn's algorithm over CSR in-degrees computes earliest start times in
+ * topological order, then the path is traced backwards from the node with the latest finish
+ * through predecessors whose finish equals the current node's earliest start.
+ *
+ * **Complexity:** O(V + E) where V is the number of vertices and E is the number of edges
+ *
+ * @param graph Indexed graph built by graph_build_indexed_graph
+ * @param nodes Array of temporal nodes with id, type, start_time, and end_time
+ * @returns Critical path result with path array and total project duration
+ */
+export const graph_indexed_critical_path = new Procedure("graph_indexed_critical_path")
+  .input("graph", GraphIndexedGraph)
+  .input("nodes", ArrayType(GraphTemporalNode))
+  .output(GraphCriticalPathResult)
+  .body(($, { graph, nodes }) => {
+    const nodeIndex = $.let(GetField(graph, "node_index"));
+    const nodeIds = $.let(GetField(graph, "node_ids"));
+    const outOffsets = $.let(GetField(graph, "out_offsets"));
+    const outTargets = $.let(GetField(graph, "out_targets"));
+    const inOffsets = $.let(GetField(graph, "in_offsets"));
+    const inSources = $.let(GetField(graph, "in_sources"));
+
+    // Create duration map by node index
+    const nodeDurations = $.let(NewDict(IntegerType, FloatType));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(In(nodeIndex, nodeId)).then($ => {
+        const duration = $.let(Duration(GetField(node, "start_time"), GetField(node, "end_time"), "minute"));
+        $.insertOrUpdate(nodeDurations, Get(nodeIndex, nodeId), duration);
+      });
+    });
+
+    // Initialize earliest start times and in-degrees from CSR offsets
+    const earliestStart = $.let(NewDict(IntegerType, FloatType));
+    const inDegree = $.let(NewDict(IntegerType, IntegerType));
+    const queue = $.let(NewArray(IntegerType));
+
+    $.forArray(nodeIds, ($, _nodeId, index) => {
+      $.insert(earliestStart, index, Const(0.0));
+      const degree = $.let(Subtract(Get(inOffsets, Add(index, Const(1n))), Get(inOffsets, index)));
+      $.insert(inDegree, index, degree);
+      $.if(Equal(degree, Const(0n))).then($ => {
+        $.pushLast(queue, index);
+      });
+    });
+
+    // Forward pass in topological order
+    $.while(Greater(Size(queue), Const(0n)), $ => {
+      const current = $.let(Get(queue, Const(0n)));
+      $.deleteFirst(queue);
+
+      const currentFinish = $.let(Add(Get(earliestStart, current), Get(nodeDurations, current, Const(0.0))));
+
+      const position = $.let(Get(outOffsets, current));
+      const sliceEnd = $.let(Get(outOffsets, Add(current, Const(1n))));
+      $.while(Less(position, sliceEnd), $ => {
+        const child = $.let(Get(outTargets, position));
+
+        $.if(Greater(currentFinish, Get(earliestStart, child))).then($ => {
+          $.insertOrUpdate(earliestStart, child, currentFinish);
+        });
+
+        const newDegree = $.let(Subtract(Get(inDegree, child), Const(1n)));
+        $.insertOrUpdate(inDegree, child, newDegree);
+        $.if(Equal(newDegree, Const(0n))).then($ => {
+          $.pushLast(queue, child);
+        });
+
+        $.assign(position, Add(position, Const(1n)));
+      });
+    });
+
+    // Find the node with the maximum finish time (project end)
+    const endIndex = $.let(Const(-1n));
+    const maxFinish = $.let(Const(0.0));
+    $.forArray(nodeIds, ($, _nodeId, index) => {
+      const nodeFinish = $.let(Add(Get(earliestStart, index), Get(nodeDurations, index, Const(0.0))));
+      $.if(Greater(nodeFinish, maxFinish)).then($ => {
+        $.assign(maxFinish, nodeFinish);
+        $.assign(endIndex, index);
+      });
+    });
+
+    // Trace backwards from end node to find critical path
+    const pathStack = $.let(NewArray(IntegerType));
+    const current = $.let(endIndex);
+
+    $.while(GreaterEqual(current, Const(0n)), $ => {
+      $.pushLast(pathStack, current);
+
+      // Find predecessor whose finish time equals current's earliest start
+      const predecessor = $.let(Const(-1n));
+      const currentEarliest = $.let(Get(earliestStart, current));
+
+      const position = $.let(Get(inOffsets, current));
+      const sliceEnd = $.let(Get(inOffsets, Add(current, Const(1n))));
+      $.while(Less(position, sliceEnd), $ => {
+        const parent = $.let(Get(inSources, position));
+        const parentFinish = $.let(Add(Get(earliestStart, parent), Get(nodeDurations, parent, Const(0.0))));
+        $.if(Equal(parentFinish, currentEarliest)).then($ => {
+          $.assign(predecessor, parent);
+        });
+        $.assign(position, Add(position, Const(1n)));
+      });
+
+      $.assign(current, predecessor);
+    });
+
+    // Reverse the path stack to get correct order
+    const criticalPath = $.let(NewArray(StringType));
+    $.while(Greater(Size(pathStack), Const(0n)), $ => {
+      const lastIndex = $.let(Get(pathStack, Subtract(Size(pathStack), Const(1n))));
+      $.deleteLast(pathStack);
+      $.pushLast(criticalPath, Get(nodeIds, lastIndex));
+    });
+
+    $.return(Struct({
+      critical_path: criticalPath,
+      total_duration: maxFinish
+    }));
+  });
@@ -0,0 +1,415 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, BooleanType, DictType, IntegerType, SetType, StringType } from "@elaraai/core";
+
+import { GraphEdge, GraphNode, GraphPathQuery, GraphPathQueryMatch, GraphPathQueryResult } from "../types";
+
+/**
+ * Regular path query - finds start/end node pairs connected by a path matching a regular
+ * expression over node and edge types
+ *
+ * A path n0 -e1-> n1 -e2-> ... -ek-> nk is read as the alternating word
+ * `type(n0) type(e1) type(n1) ... type(ek) type(nk)`. The query is a nondeterministic automaton
+ * (the standard form of a regular expression) whose "node" transitions consume a node type,
+ * "edge" transitions consume an edge type and "epsilon" transitions consume nothing. A pair
+ * (start, end) matches when some path from start to end spells a word the automaton accepts.
+ *
+ * **Example:**
+ * ```
+ * Query: input (flow process)* flow output
+ *   q0 ─node[input]→ q1 ─edge[flow]→ q2 ─node[output]→ q3 (accept)
+ *                    q1 ←node[process]─ q2
+ *
+ * Graph:
+ *   I1(input) ─flow→ P1(process) ─flow→ P2(process) ─flow→ O1(output)
+ *   I2(input) ─flow→ O2(output)
+ *   I2(input) ─audit→ P1(process)
+ *
+ * Result:
+ *   I1 → O1  length 3, witness I1 → P1 → P2 → O1
+ *   I2 → O2  length 1, witness I2 → O2
+ *   (I2 does not reach O1 because its edge to P1 is not a flow edge)
+ * ```
+ *
+ * **Query Rules:**
+ * - `graph_compile_path_query` builds the automaton from a pattern such as
+ *   `input ([flow] process)* [flow] output`
+ * - Matched words always start and end with a node type, so useful queries begin and end with
+ *   node transitions and alternate node and edge transitions in between
+ * - A transition with an empty `types` array accepts any node or edge type
+ * - A single-node path matches when the query accepts the start node's type alone
+ * - Cycles in the graph are allowed; each (node, automaton state) pair is explored once
+ *
+ * **Output:**
+ * - One match per (start, end) pair, ordered by start node (input order) and then by path length
+ * - `length` and the witness describe a shortest matching path
+ * - Witness nodes and edges are only filled in when `include_witnesses` is true
+ *
+ * **Use Cases:**
+ * - Typed reachability: "Which outputs does each input reach through process nodes only?"
+ * - Compliance checks: "Is there a route from a supplier to a product that skips inspection?"
+ * - Schema-aware lineage: Restrict traceability to specific edge types
+ *
+ * **Algorithm:** Breadth-first search over the product of the graph and the automaton, from
+ * every start node separately. Epsilon closures and type-indexed step tables are precomputed,
+ * so paths are never enumerated; each product state (node, automaton state) is visited at most
+ * once per start node, and parent pointers give the shortest witness.
+ *
+ * **Error Handling:** A transition kind other than "node", "edge" or "epsilon" fails the
+ * procedure with a descriptive error. Edges to unknown nodes are ignored.
+ *
+ * **Complexity:** O(V × (V + E) × Q) worst case, where Q = automaton states; in practice only
+ * start nodes accepted by the query's first node transition explore anything
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param query Path query automaton
+ * @param include_witnesses Whether to return a shortest witness path for each match
+ * @returns GraphPathQueryResult with the matched start/end pairs
+ */
+export const graph_path_query = new Procedure("graph_path_query")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("query", GraphPathQuery)
+  .input("include_witnesses", BooleanType)
+  .output(GraphPathQueryResult)
+  .body(($, { nodes, edges, query, include_witnesses }) => {
+    const startState = $.let(GetField(query, "start_state"));
+
+    // Step 1: Index the automaton transitions by state and type
+    const automatonStates = $.let(NewSet(StringType, [startState]));
+    const acceptStates = $.let(NewSet(StringType));
+    $.forArray(GetField(query, "accept_states"), ($, state) => {
+      $.if(Not(In(acceptStates, state))).then($ => {
+        $.insert(acceptStates, state);
+      });
+      $.if(Not(In(automatonStates, state))).then($ => {
+        $.insert(automatonStates, state);
+      });
+    });
+
+    const epsilonMoves = $.let(NewDict(StringType, ArrayType(StringType)));
+    const nodeMoves = $.let(NewDict(StringType, DictType(StringType, SetType(StringType)))); // state → type → target states
+    const nodeAnyMoves = $.let(NewDict(StringType, SetType(StringType)));   // state → target states for any type
+    const edgeMoves = $.let(NewDict(StringType, DictType(StringType, SetType(StringType))));
+    const edgeAnyMoves = $.let(NewDict(StringType, SetType(StringType)));
+
+    $.forArray(GetField(query, "transitions"), ($, transition) => {
+      const fromState = $.let(GetField(transition, "from_state"));
+      const toState = $.let(GetField(transition, "to_state"));
+      const kind = $.let(GetField(transition, "kind"));
+      const types = $.let(GetField(transition, "types"));
+
+      $.if(Not(In(automatonStates, fromState))).then($ => {
+        $.insert(automatonStates, fromState);
+      });
+      $.if(Not(In(automatonStates, toState))).then($ => {
+        $.insert(automatonStates, toState);
+      });
+
+      $.if(Equal(kind, Const("epsilon"))).then($ => {
+        $.if(In(epsilonMoves, fromState)).then($ => {
+          const targets = $.let(Get(epsilonMoves, fromState));
+          $.pushLast(targets, toState);
+        }).else($ => {
+          $.insert(epsilonMoves, fromState, NewArray(StringType, [toState]));
+        });
+      }).elseIf(Equal(kind, Const("node"))).then($ => {
+        $.if(Equal(Size(types), Const(0n))).then($ => {
+          $.if(In(nodeAnyMoves, fromState)).then($ => {
+            const targets = $.let(Get(nodeAnyMoves, fromState));
+            $.if(Not(In(targets, toState))).then($ => {
+              $.insert(targets, toState);
+            });
+          }).else($ => {
+            $.insert(nodeAnyMoves, fromState, NewSet(StringType, [toState]));
+          });
+        });
+        $.if(Not(In(nodeMoves, fromState))).then($ => {
+          $.insert(nodeMoves, fromState, NewDict(StringType, SetType(StringType)));
+        });
+        const stateMoves = $.let(Get(nodeMoves, fromState));
+        $.forArray(types, ($, nodeType) => {
+          $.if(In(stateMoves, nodeType)).then($ => {
+            const targets = $.let(Get(stateMoves, nodeType));
+            $.if(Not(In(targets, toState))).then($ => {
+              $.insert(targets, toState);
+            });
+          }).else($ => {
+            $.insert(stateMoves, nodeType, NewSet(StringType, [toState]));
+          });
+        });
+      }).elseIf(Equal(kind, Const("edge"))).then($ => {
+        $.if(Equal(Size(types), Const(0n))).then($ => {
+          $.if(In(edgeAnyMoves, fromState)).then($ => {
+            const targets = $.let(Get(edgeAnyMoves, fromState));
+            $.if(Not(In(targets, toState))).then($ => {
+              $.insert(targets, toState);
+            });
+          }).else($ => {
+            $.insert(edgeAnyMoves, fromState, NewSet(StringType, [toState]));
+          });
+        });
+        $.if(Not(In(edgeMoves, fromState))).then($ => {
+          $.insert(edgeMoves, fromState, NewDict(StringType, SetType(StringType)));
+        });
+        const stateMoves = $.let(Get(edgeMoves, fromState));
+        $.forArray(types, ($, edgeType) => {
+          $.if(In(stateMoves, edgeType)).then($ => {
+            const targets = $.let(Get(stateMoves, edgeType));
+            $.if(Not(In(targets, toState))).then($ => {
+              $.insert(targets, toState);
+            });
+          }).else($ => {
+            $.insert(stateMoves, edgeType, NewSet(StringType, [toState]));
+          });
+        });
+      }).else($ => {
+        $.error(StringJoin([Const("Unknown transition kind \""), kind, Const("\" (expected node, edge or epsilon)")]));
+      });
+    });
+
+    // Step 2: Epsilon closure of every automaton state
+    const closures = $.let(NewDict(StringType, SetType(StringType)));
+    $.forSet(automatonStates, ($, state) => {
+      const closure = $.let(NewSet(StringType, [state]));
+      const frontier = $.let(NewArray(StringType, [state]));
+      $.while(Greater(Size(frontier), Const(0n)), $ => {
+        const current = $.let(Get(frontier, Subtract(Size(frontier), Const(1n))));
+        $.deleteLast(frontier);
+        $.if(In(epsilonMoves, current)).then($ => {
+          $.forArray(Get(epsilonMoves, current), ($, next) => {
+            $.if(Not(In(closure, next))).then($ => {
+              $.insert(closure, next);
+              $.pushLast(frontier, next);
+            });
+          });
+        });
+      });
+      $.insert(closures, state, closure);
+    });
+
+    // Step 3: Graph indices (first occurrence of a node ID wins, edges to unknown nodes ignored)
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    const startNodes = $.let(NewArray(StringType));
+    const graphNodeTypes = $.let(NewSet(StringType));
+    $.forArray(nodes, ($, node) => {
+      $.if(Not(In(nodeTypes, GetField(node, "id")))).then($ => {
+        $.insert(nodeTypes, GetField(node, "id"), GetField(node, "type"));
+        $.pushLast(startNodes, GetField(node, "id"));
+        $.if(Not(In(graphNodeTypes, GetField(node, "type")))).then($ => {
+          $.insert(graphNodeTypes, GetField(node, "type"));
+        });
+      });
+    });
+
+    const outEdges = $.let(NewDict(StringType, ArrayType(GraphEdge)));
+    const graphEdgeTypes = $.let(NewSet(StringType));
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      $.if(And(In(nodeTypes, fromId), In(nodeTypes, GetField(edge, "to")))).then($ => {
+        $.if(In(outEdges, fromId)).then($ => {
+          const fromEdges = $.let(Get(outEdges, fromId));
+          $.pushLast(fromEdges, edge);
+        }).else($ => {
+          $.insert(outEdges, fromId, NewArray(GraphEdge, [edge]));
+        });
+        $.if(Not(In(graphEdgeTypes, GetField(edge, "type")))).then($ => {
+          $.insert(graphEdgeTypes, GetField(edge, "type"));
+        });
+      });
+    });
+
+    // Step 4: Step tables - states reached (after epsilon closure) by consuming one node or edge type,
+    // keyed state → type
+    const nodeSteps = $.let(NewDict(StringType, DictType(StringType, SetType(StringType))));
+    const edgeSteps = $.let(NewDict(StringType, DictType(StringType, SetType(StringType))));
+    const noMoves = $.let(NewDict(StringType, SetType(StringType)));
+    $.forSet(automatonStates, ($, state) => {
+      const stateNodeMoves = $.let(Get(nodeMoves, state, noMoves));
+      const stateEdgeMoves = $.let(Get(edgeMoves, state, noMoves));
+      const stateNodeSteps = $.let(NewDict(StringType, SetType(StringType)));
+      const stateEdgeSteps = $.let(NewDict(StringType, SetType(StringType)));
+      $.forSet(graphNodeTypes, ($, nodeType) => {
+        const reached = $.let(NewSet(StringType));
+        $.if(In(nodeAnyMoves, state)).then($ => {
+          $.forSet(Get(nodeAnyMoves, state), ($, target) => {
+            $.forSet(Get(closures, target), ($, closed) => {
+              $.if(Not(In(reached, closed))).then($ => {
+                $.insert(reached, closed);
+              });
+            });
+          });
+        });
+        $.if(In(stateNodeMoves, nodeType)).then($ => {
+          $.forSet(Get(stateNodeMoves, nodeType), ($, target) => {
+            $.forSet(Get(closures, target), ($, closed) => {
+              $.if(Not(In(reached, closed))).then($ => {
+                $.insert(reached, closed);
+              });
+            });
+          });
+        });
+        $.if(Greater(Size(reached), Const(0n))).then($ => {
+          $.insert(stateNodeSteps, nodeType, reached);
+        });
+      });
+
+      $.forSet(graphEdgeTypes, ($, edgeType) => {
+        const reached = $.let(NewSet(StringType));
+        $.if(In(edgeAnyMoves, state)).then($ => {
+          $.forSet(Get(edgeAnyMoves, state), ($, target) => {
+            $.forSet(Get(closures, target), ($, closed) => {
+              $.if(Not(In(reached, closed))).then($ => {
+                $.insert(reached, closed);
+              });
+            });
+          });
+        });
+        $.if(In(stateEdgeMoves, edgeType)).then($ => {
+          $.forSet(Get(stateEdgeMoves, edgeType), ($, target) => {
+            $.forSet(Get(closures, target), ($, closed) => {
+              $.if(Not(In(reached, closed))).then($ => {
+                $.insert(reached, closed);
+              });
+            });
+          });
+        });
+        $.if(Greater(Size(reached), Const(0n))).then($ => {
+          $.insert(stateEdgeSteps, edgeType, reached);
+        });
+      });
+
+      $.insert(nodeSteps, state, stateNodeSteps);
+      $.insert(edgeSteps, state, stateEdgeSteps);
+    });
+
+    // Step 5: Product breadth-first search from every start node
+    const matches = $.let(NewArray(GraphPathQueryMatch));
+    $.forArray(startNodes, ($, startId) => {
+      // Product states after consuming a node: graph node, automaton state, BFS parent, entering edge, depth
+      const productVisited = $.let(NewDict(StringType, SetType(StringType))); // automaton state → graph node IDs
+      const productNodes = $.let(NewArray(StringType));
+      const productStates = $.let(NewArray(StringType));
+      const productParents = $.let(NewArray(IntegerType));
+      const productEdges = $.let(NewArray(GraphEdge));
+      const productDepths = $.let(NewArray(IntegerType));
+
+      $.forSet(Get(closures, startState), ($, initialState) => {
+        const initialSteps = $.let(Get(nodeSteps, initialState));
+        $.if(In(initialSteps, Get(nodeTypes, startId))).then($ => {
+          $.forSet(Get(initialSteps, Get(nodeTypes, startId)), ($, state) => {
+            $.if(Not(In(productVisited, state))).then($ => {
+              $.insert(productVisited, state, NewSet(StringType));
+            });
+            const visitedNodes = $.let(Get(productVisited, state));
+            $.if(Not(In(visitedNodes, startId))).then($ => {
+              $.insert(visitedNodes, startId);
+              $.pushLast(productNodes, startId);
+              $.pushLast(productStates, state);
+              $.pushLast(productParents, Const(-1n));
+              $.pushLast(productEdges, Struct({ from: startId, to: startId, type: Const("") }));
+              $.pushLast(productDepths, Const(0n));
+            });
+          });
+        });
+      });
+
+      const matchedEnds = $.let(NewSet(StringType));
+      const head = $.let(Const(0n));
+      $.while(Less(head, Size(productNodes)), $ => {
+        const currentId = $.let(Get(productNodes, head));
+        const currentState = $.let(Get(productStates, head));
+        const currentDepth = $.let(Get(productDepths, head));
+
+        // Breadth-first order makes the first accepting visit of a node a shortest match
+        $.if(And(In(acceptStates, currentState), Not(In(matchedEnds, currentId)))).then($ => {
+          $.insert(matchedEnds, currentId);
+
+          const witnessNodes = $.let(NewArray(StringType));
+          const witnessEdges = $.let(NewArray(GraphEdge));
+          $.if(include_witnesses).then($ => {
+            const reversedEdges = $.let(NewArray(GraphEdge));
+            const cursor = $.let(head);
+            $.while(GreaterEqual(Get(productParents, cursor), Const(0n)), $ => {
+              $.pushLast(reversedEdges, Get(productEdges, cursor));
+              $.assign(cursor, Get(productParents, cursor));
+            });
+
+            $.pushLast(witnessNodes, startId);
+            const position = $.let(Subtract(Size(reversedEdges), Const(1n)));
+            $.while(GreaterEqual(position, Const(0n)), $ => {
+              const edge = $.let(Get(reversedEdges, position));
+              $.pushLast(witnessEdges, edge);
+              $.pushLast(witnessNodes, GetField(edge, "to"));
+              $.assign(position, Subtract(position, Const(1n)));
+            });
+          });
+
+          $.pushLast(matches, Struct({
+            start_id: startId,
+            end_id: currentId,
+            length: currentDepth,
+            witness_nodes: witnessNodes,
+            witness_edges: witnessEdges
+          }));
+        });
+
+        // Consume an outgoing edge and the node it leads to
+        $.if(In(outEdges, currentId)).then($ => {
+          $.forArray(Get(outEdges, currentId), ($, edge) => {
+            const currentEdgeSteps = $.let(Get(edgeSteps, currentState));
+            $.if(In(currentEdgeSteps, GetField(edge, "type"))).then($ => {
+              const nextId = $.let(GetField(edge, "to"));
+              $.forSet(Get(currentEdgeSteps, GetField(edge, "type")), ($, edgeState) => {
+                const nextNodeSteps = $.let(Get(nodeSteps, edgeState));
+                $.if(In(nextNodeSteps, Get(nodeTypes, nextId))).then($ => {
+                  $.forSet(Get(nextNodeSteps, Get(nodeTypes, nextId)), ($, nextState) => {
+                    $.if(Not(In(productVisited, nextState))).then($ => {
+                      $.insert(productVisited, nextState, NewSet(StringType));
+                    });
+                    const visitedNodes = $.let(Get(productVisited, nextState));
+                    $.if(Not(In(visitedNodes, nextId))).then($ => {
+                      $.insert(visitedNodes, nextId);
+                      $.pushLast(productNodes, nextId);
+                      $.pushLast(productStates, nextState);
+                      $.pushLast(productParents, head);
+                      $.pushLast(productEdges, edge);
+                      $.pushLast(productDepths, Add(currentDepth, Const(1n)));
+                    });
+                  });
+                });
+              });
+            });
+          });
+        });
+
+        $.assign(head, Add(head, Const(1n)));
+      });
+    });
+
+    $.return(Struct({
+      matches: matches,
+      match_count: Size(matches)
+    }));
+  });
@@ -0,0 +1,295 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  Greater,
+  NewArray,
+  Not,
+  Or,
+  RegexContains,
+  Size,
+  Split,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, StringType } from "@elaraai/core";
+
+import { GraphPathQuery, GraphPathQueryTransition } from "../types";
+
+/**
+ * Path query compiler - compiles a regular expression over node and edge types into the query
+ * automaton taken by graph_path_query
+ *
+ * Node items and bracketed edge items are combined with the usual regular expression operators,
+ * so queries can be written as text instead of as hand-built automata.
+ *
+ * **Example:**
+ * ```
+ * Pattern: input ([flow] process)* [flow] output
+ *
+ * Result: automaton accepting an input node, any number of flow edges into process nodes, then
+ *         a flow edge into an output node (pass it to graph_path_query as the query)
+ * ```
+ *
+ * **Pattern Syntax:**
+ * - `name` - a node of type name; names run until whitespace or one of `( ) [ ] | * + ? "`
+ * - `"text"` - a node type written as a quoted string (escape `"` and `\` with `\`), for types
+ *   containing spaces or operator characters
+ * - `.` - a node of any type
+ * - `[name]` or `["text"]` - an edge of the given type; `[]` or `[.]` - an edge of any type
+ * - `a b` - concatenation, `a | b` - alternation, `( ... )` - grouping
+ * - `*`, `+` and `?` - zero or more, one or more, and zero or one of the preceding item
+ *
+ * **Output:** A Thompson automaton with states "q0", "q1", ..., one accept state and epsilon
+ * transitions joining the parts. Patterns are not checked for alternating node and edge items;
+ * parts that do not alternate never match (see graph_path_query).
+ *
+ * **Use Cases:**
+ * - Typed reachability queries written inline: `input ([flow] process)* [flow] output`
+ * - Queries stored as configuration text rather than as automaton structures
+ *
+ * **Error Handling:** Unterminated strings, unbalanced parentheses or brackets, operators without
+ * an operand and empty patterns fail the procedure with a descriptive error.
+ *
+ * **Complexity:** O(n) where n = pattern length; the automaton has O(n) states and transitions
+ *
+ * @param pattern Regular expression over node and edge types
+ * @returns GraphPathQuery automaton for graph_path_query
+ */
+export const graph_compile_path_query = new Procedure("graph_compile_path_query")
+  .input("pattern", StringType)
+  .output(GraphPathQuery)
+  .body(($, { pattern }) => {
+    // Step 1: Tokenize into bare names, quoted strings and punctuation, ending with a sentinel
+    const rawKinds = $.let(NewArray(StringType));
+    const rawValues = $.let(NewArray(StringType));
+    const inString = $.let(Const(false));
+    const escaped = $.let(Const(false));
+    const buffer = $.let(Const(""));
+
+    $.forArray(Split(pattern, Const("")), ($, character) => {
+      $.if(inString).then($ => {
+        $.if(escaped).then($ => {
+          $.assign(escaped, Const(false));
+          $.assign(buffer, StringJoin([buffer, character]));
+        }).elseIf(Equal(character, Const("\\"))).then($ => {
+          $.assign(escaped, Const(true));
+        }).elseIf(Equal(character, Const("\""))).then($ => {
+          $.assign(inString, Const(false));
+          $.pushLast(rawKinds, Const("string"));
+          $.pushLast(rawValues, buffer);
+          $.assign(buffer, Const(""));
+        }).else($ => {
+          $.assign(buffer, StringJoin([buffer, character]));
+        });
+      }).elseIf(RegexContains(character, Const("^[\\s()\\[\\]|*+?\"]$"))).then($ => {
+        $.if(Not(Equal(buffer, Const("")))).then($ => {
+          $.pushLast(rawKinds, Const("name"));
+          $.pushLast(rawValues, buffer);
+          $.assign(buffer, Const(""));
+        });
+        $.if(Equal(character, Const("\""))).then($ => {
+          $.assign(inString, Const(true));
+        }).elseIf(Not(RegexContains(character, Const("^\\s$")))).then($ => {
+          $.pushLast(rawKinds, Const("punct"));
+          $.pushLast(rawValues, character);
+        });
+      }).else($ => {
+        $.assign(buffer, StringJoin([buffer, character]));
+      });
+    });
+
+    $.if(inString).then($ => {
+      $.error(StringJoin([Const("Unterminated string in path pattern: "), pattern]));
+    });
+    $.if(Not(Equal(buffer, Const("")))).then($ => {
+      $.pushLast(rawKinds, Const("name"));
+      $.pushLast(rawValues, buffer);
+    });
+    $.pushLast(rawKinds, Const("end"));
+    $.pushLast(rawValues, Const(""));
+
+    // Step 2: Items - "node" and "edge" with their types (empty = any), and operators
+    const itemKinds = $.let(NewArray(StringType));
+    const itemTypes = $.let(NewArray(ArrayType(StringType)));
+    const position = $.let(Const(0n));
+    $.while(Not(Equal(Get(rawKinds, position), Const("end"))), $ => {
+      const kind = $.let(Get(rawKinds, position));
+      const value = $.let(Get(rawValues, position));
+      $.if(Equal(kind, Const("string"))).then($ => {
+        $.pushLast(itemKinds, Const("node"));
+        $.pushLast(itemTypes, NewArray(StringType, [value]));
+      }).elseIf(Equal(kind, Const("name"))).then($ => {
+        $.pushLast(itemKinds, Const("node"));
+        $.if(Equal(value, Const("."))).then($ => {
+          $.pushLast(itemTypes, NewArray(StringType));
+        }).else($ => {
+          $.pushLast(itemTypes, NewArray(StringType, [value]));
+        });
+      }).elseIf(Equal(value, Const("["))).then($ => {
+        const edgeTypes = $.let(NewArray(StringType));
+        $.assign(position, Add(position, Const(1n)));
+        $.if(Or(Equal(Get(rawKinds, position), Const("name")), Equal(Get(rawKinds, position), Const("string")))).then($ => {
+          $.if(Not(And(Equal(Get(rawKinds, position), Const("name")), Equal(Get(rawValues, position), Const("."))))).then($ => {
+            $.pushLast(edgeTypes, Get(rawValues, position));
+          });
+          $.assign(position, Add(position, Const(1n)));
+        });
+        $.if(Not(And(Equal(Get(rawKinds, position), Const("punct")), Equal(Get(rawValues, position), Const("]"))))).then($ => {
+          $.error(StringJoin([Const("Expected \"]\" after edge type in path pattern: "), pattern]));
+        });
+        $.pushLast(itemKinds, Const("edge"));
+        $.pushLast(itemTypes, edgeTypes);
+      }).elseIf(Equal(value, Const("]"))).then($ => {
+        $.error(StringJoin([Const("Unexpected \"]\" in path pattern: "), pattern]));
+      }).else($ => {
+        $.pushLast(itemKinds, value);
+        $.pushLast(itemTypes, NewArray(StringType));
+      });
+      $.assign(position, Add(position, Const(1n)));
+    });
+
+    $.if(Equal(Size(itemKinds), Const(0n))).then($ => {
+      $.error(Const("Empty path pattern"));
+    });
+
+    // Step 3: Postfix order (shunting-yard) with explicit concatenation; "(" at the bottom of
+    // the operator stack is a sentinel
+    const postfixKinds = $.let(NewArray(StringType));
+    const postfixTypes = $.let(NewArray(ArrayType(StringType)));
+    const operators = $.let(NewArray(StringType, [Const("(")]));
+    const operandEnded = $.let(Const(false));
+    const depth = $.let(Const(0n));
+
+    $.forArray(itemKinds, ($, kind, index) => {
+      const isAtom = $.let(Or(Equal(kind, Const("node")), Equal(kind, Const("edge"))));
+
+      $.if(And(operandEnded, Or(isAtom, Equal(kind, Const("("))))).then($ => {
+        // Concatenation binds tighter than alternation, so only earlier concatenations are output
+        $.while(Equal(Get(operators, Subtract(Size(operators), Const(1n))), Const("concat")), $ => {
+          $.pushLast(postfixKinds, Const("concat"));
+          $.pushLast(postfixTypes, NewArray(StringType));
+          $.deleteLast(operators);
+        });
+        $.pushLast(operators, Const("concat"));
+      });
+
+      $.if(isAtom).then($ => {
+        $.pushLast(postfixKinds, kind);
+        $.pushLast(postfixTypes, Get(itemTypes, index));
+        $.assign(operandEnded, Const(true));
+      }).elseIf(Equal(kind, Const("("))).then($ => {
+        $.pushLast(operators, kind);
+        $.assign(depth, Add(depth, Const(1n)));
+        $.assign(operandEnded, Const(false));
+      }).elseIf(Or(Not(operandEnded), And(Equal(kind, Const(")")), Equal(depth, Const(0n))))).then($ => {
+        $.error(StringJoin([Const("Unexpected \""), kind, Const("\" in path pattern: "), pattern]));
+      }).elseIf(Equal(kind, Const(")"))).then($ => {
+        $.while(Not(Equal(Get(operators, Subtract(Size(operators), Const(1n))), Const("("))), $ => {
+          $.pushLast(postfixKinds, Get(operators, Subtract(Size(operators), Const(1n))));
+          $.pushLast(postfixTypes, NewArray(StringType));
+          $.deleteLast(operators);
+        });
+        $.deleteLast(operators);
+        $.assign(depth, Subtract(depth, Const(1n)));
+      }).elseIf(Equal(kind, Const("|"))).then($ => {
+        $.while(Not(Equal(Get(operators, Subtract(Size(operators), Const(1n))), Const("("))), $ => {
+          $.pushLast(postfixKinds, Get(operators, Subtract(Size(operators), Const(1n))));
+          $.pushLast(postfixTypes, NewArray(StringType));
+          $.deleteLast(operators);
+        });
+        $.pushLast(operators, kind);
+        $.assign(operandEnded, Const(false));
+      }).else($ => {
+        // Postfix "*", "+" or "?" applies to the operand just output
+        $.pushLast(postfixKinds, kind);
+        $.pushLast(postfixTypes, NewArray(StringType));
+      });
+    });
+
+    $.if(Not(operandEnded)).then($ => {
+      $.error(StringJoin([Const("Unexpected end of path pattern: "), pattern]));
+    });
+    $.if(Greater(depth, Const(0n))).then($ => {
+      $.error(StringJoin([Const("Unclosed \"(\" in path pattern: "), pattern]));
+    });
+    $.while(Greater(Size(operators), Const(1n)), $ => {
+      $.pushLast(postfixKinds, Get(operators, Subtract(Size(operators), Const(1n))));
+      $.pushLast(postfixTypes, NewArray(StringType));
+      $.deleteLast(operators);
+    });
+
+    // Step 4: Thompson construction over a stack of (start, end) fragments
+    const transitions = $.let(NewArray(GraphPathQueryTransition));
+    const fragmentStarts = $.let(NewArray(StringType));
+    const fragmentEnds = $.let(NewArray(StringType));
+    const stateCount = $.let(Const(0n));
+
+    $.forArray(postfixKinds, ($, kind, index) => {
+      $.if(Or(Equal(kind, Const("node")), Equal(kind, Const("edge")))).then($ => {
+        const start = $.let(StringJoin([Const("q"), stateCount]));
+        const end = $.let(StringJoin([Const("q"), Add(stateCount, Const(1n))]));
+        $.assign(stateCount, Add(stateCount, Const(2n)));
+        $.pushLast(transitions, Struct({ from_state: start, to_state: end, kind: kind, types: Get(postfixTypes, index) }));
+        $.pushLast(fragmentStarts, start);
+        $.pushLast(fragmentEnds, end);
+      }).elseIf(Equal(kind, Const("concat"))).then($ => {
+        const secondStart = $.let(Get(fragmentStarts, Subtract(Size(fragmentStarts), Const(1n))));
+        const secondEnd = $.let(Get(fragmentEnds, Subtract(Size(fragmentEnds), Const(1n))));
+        $.deleteLast(fragmentStarts);
+        $.deleteLast(fragmentEnds);
+        const firstEnd = $.let(Get(fragmentEnds, Subtract(Size(fragmentEnds), Const(1n))));
+        $.deleteLast(fragmentEnds);
+        $.pushLast(transitions, Struct({ from_state: firstEnd, to_state: secondStart, kind: Const("epsilon"), types: NewArray(StringType) }));
+        $.pushLast(fragmentEnds, secondEnd);
+      }).elseIf(Equal(kind, Const("|"))).then($ => {
+        const secondStart = $.let(Get(fragmentStarts, Subtract(Size(fragmentStarts), Const(1n))));
+        const secondEnd = $.let(Get(fragmentEnds, Subtract(Size(fragmentEnds), Const(1n))));
+        $.deleteLast(fragmentStarts);
+        $.deleteLast(fragmentEnds);
+        const firstStart = $.let(Get(fragmentStarts, Subtract(Size(fragmentStarts), Const(1n))));
+        const firstEnd = $.let(Get(fragmentEnds, Subtract(Size(fragmentEnds), Const(1n))));
+        $.deleteLast(fragmentStarts);
+        $.deleteLast(fragmentEnds);
+        const start = $.let(StringJoin([Const("q"), stateCount]));
+        const end = $.let(StringJoin([Const("q"), Add(stateCount, Const(1n))]));
+        $.assign(stateCount, Add(stateCount, Const(2n)));
+        $.pushLast(transitions, Struct({ from_state: start, to_state: firstStart, kind: Const("epsilon"), types: NewArray(StringType) }));
+        $.pushLast(transitions, Struct({ from_state: start, to_state: secondStart, kind: Const("epsilon"), types: NewArray(StringType) }));
+        $.pushLast(transitions, Struct({ from_state: firstEnd, to_state: end, kind: Const("epsilon"), types: NewArray(StringType) }));
+        $.pushLast(transitions, Struct({ from_state: secondEnd, to_state: end, kind: Const("epsilon"), types: NewArray(StringType) }));
+        $.pushLast(fragmentStarts, start);
+        $.pushLast(fragmentEnds, end);
+      }).else($ => {
+        // "*" = skip or repeat, "+" = repeat, "?" = skip
+        const innerStart = $.let(Get(fragmentStarts, Subtract(Size(fragmentStarts), Const(1n))));
+        const innerEnd = $.let(Get(fragmentEnds, Subtract(Size(fragmentEnds), Const(1n))));
+        $.deleteLast(fragmentStarts);
+        $.deleteLast(fragmentEnds);
+        const start = $.let(StringJoin([Const("q"), stateCount]));
+        const end = $.let(StringJoin([Const("q"), Add(stateCount, Const(1n))]));
+        $.assign(stateCount, Add(stateCount, Const(2n)));
+        $.pushLast(transitions, Struct({ from_state: start, to_state: innerStart, kind: Const("epsilon"), types: NewArray(StringType) }));
+        $.pushLast(transitions, Struct({ from_state: innerEnd, to_state: end, kind: Const("epsilon"), types: NewArray(StringType) }));
+        $.if(Not(Equal(kind, Const("+")))).then($ => {
+          $.pushLast(transitions, Struct({ from_state: start, to_state: end, kind: Const("epsilon"), types: NewArray(StringType) }));
+        });
+        $.if(Not(Equal(kind, Const("?")))).then($ => {
+          $.pushLast(transitions, Struct({ from_state: innerEnd, to_state: innerStart, kind: Const("epsilon"), types: NewArray(StringType) }));
+        });
+        $.pushLast(fragmentStarts, start);
+        $.pushLast(fragmentEnds, end);
+      });
+    });
+
+    $.return(Struct({
+      start_state: Get(fragmentStarts, Const(0n)),
+      accept_states: NewArray(StringType, [Get(fragmentEnds, Const(0n))]),
+      transitions: transitions
+    }));
+  });
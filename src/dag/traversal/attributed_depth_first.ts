@@ -0,0 +1,82 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Get,
+  GetField,
+  In,
+  NewArray,
+  NewDict,
+  Not,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, StringType } from "@elaraai/core";
+
+import { graph_strip_attributes } from "../core/attributes";
+import { graph_dfs } from "./depth_first";
+import { GraphAttributedEdge, GraphAttributedNode } from "../types";
+
+/**
+ * Attributed depth-first search - DFS over attributed nodes and edges returning the visited nodes with their attributes
+ *
+ * Same traversal as `graph_dfs`, but accepts attributed nodes and edges and returns the
+ * visited nodes themselves (in depth-first order) rather than their IDs, so node attributes
+ * such as quantities, timestamps and locations are not lost.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:                      Result:
+ *     A ──┐                           [A {quantity: 10}, C {quantity: 6}, B {quantity: 4}]
+ *         ├──→ B
+ *         └──→ C
+ * ```
+ *
+ * **Notes:**
+ * - Visited IDs without a node entry (e.g. an unknown start node) are skipped
+ * - Duplicate node IDs return the first occurrence
+ *
+ * **Use Cases:**
+ * - Branch-by-branch reports: "Follow each processing branch to its end with the timestamps of every step"
+ *
+ * **Algorithm:** Removes attributes with `graph_strip_attributes`, traverses with `graph_dfs`
+ * and looks up the attributed node for each visited ID.
+ *
+ * **Complexity:** O(V + E)
+ *
+ * @param nodes Array of attributed graph nodes
+ * @param edges Array of attributed directed edges (from → to)
+ * @param source_node_id ID of the node to begin traversal from
+ * @returns Array of attributed nodes in depth-first order
+ */
+export const graph_attributed_dfs = new Procedure("graph_attributed_dfs")
+  .input("nodes", ArrayType(GraphAttributedNode))
+  .input("edges", ArrayType(GraphAttributedEdge))
+  .input("source_node_id", StringType)
+  .output(ArrayType(GraphAttributedNode))
+  .import(graph_strip_attributes)
+  .import(graph_dfs)
+  .body(($, { nodes, edges, source_node_id }, procs) => {
+    const plainGraph = $.let(procs.graph_strip_attributes(Struct({ nodes, edges })));
+    const visitedIds = $.let(procs.graph_dfs(Struct({
+      nodes: GetField(plainGraph, "nodes"),
+      edges: GetField(plainGraph, "edges"),
+      source_node_id: source_node_id
+    })));
+
+    // Attributed node lookup (first occurrence wins)
+    const nodeLookup = $.let(NewDict(StringType, GraphAttributedNode));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(nodeLookup, nodeId))).then($ => {
+        $.insert(nodeLookup, nodeId, node);
+      });
+    });
+
+    const result = $.let(NewArray(GraphAttributedNode));
+    $.forArray(visitedIds, ($, nodeId) => {
+      $.if(In(nodeLookup, nodeId)).then($ => {
+        $.pushLast(result, Get(nodeLookup, nodeId));
+      });
+    });
+
+    $.return(result);
+  });
@@ -0,0 +1,165 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, StringType } from "@elaraai/core";
+
+import { graph_build_adjacency_lists } from "../core/adjacency_lists";
+import { graph_traversal_edges } from "../core/traversal_edges";
+import { GraphNode, GraphEdge, GraphTraversalOptions } from "../types";
+
+/**
+ * Breadth-First Search (BFS) traversal with options - graph_bfs restricted by direction, type filters and depth
+ * 
+ * Explores neighbors at the current depth before moving to nodes at the next depth level, like
+ * graph_bfs, but only along the edges and through the nodes that the traversal options allow.
+ * 
+ * **Example - Tree Structure:**
+ * ```
+ * Input Graph:           Traversal Order:
+ *     A ──┐               1. A (start)
+ *         ├──→ B           2. B (level 1)
+ *         └──→ C           3. C (level 1) 
+ *             ├──→ D       4. D (level 2)
+ *             └──→ E       5. E (level 2)
+ * 
+ * Result: ["A", "B", "C", "D", "E"]
+ * ```
+ * 
+ * **Example - Diamond Structure:**
+ * ```
+ * Input Graph:           Traversal Order:
+ *         A               1. A (start)
+ *       ┌─┴─┐             2. B (level 1)
+ *       B   C             3. C (level 1)
+ *       └─┬─┘             4. D (level 2, visited only once)
+ *         D
+ * 
+ * Result: ["A", "B", "C", "D"]
+ * ```
+ * 
+ * **Example - Options (upstream via "transfer" edges, stopping at suppliers):**
+ * ```
+ * Input Graph:                              Options:
+ *   S1(supplier) -transfer-> M -transfer-> L   direction: "backward"
+ *   S0(farm) -transfer-> S1                    edge_types: ["transfer"]
+ *   Q(lab) -test-> M                           stop_node_types: ["supplier"]
+ * 
+ * Result from L: ["L", "M", "S1"] (Q: wrong edge type; S0: behind a stop node)
+ * ```
+ * 
+ * **Options:** `direction` and `edge_types` choose the edges to follow (see graph_traversal_edges),
+ * nodes whose type is not in a non-empty `node_types` are not visited, nodes of a
+ * `stop_node_types` type are visited but not expanded, and nodes deeper than `max_depth` are
+ * not visited. The source is always visited and expanded.
+ * 
+ * **Use Cases:**
+ * - Shortest path discovery: "What's the minimum number of hops to reach this node?"
+ * - Level-order processing: "Process all immediate dependencies before their sub-dependencies"
+ * - Social network analysis: "Find connections within N degrees of separation"
+ * 
+ * **Algorithm:** Uses queue for FIFO processing and visited set to prevent cycles.
+ * Handles disconnected nodes by only visiting reachable nodes from the start.
+ * 
+ * **Complexity:** O(V + E) where V = reachable nodes, E = reachable edges
+ * 
+ * @param nodes Array of graph nodes (used for node type options)
+ * @param edges Array of directed edges representing connections (from → to)
+ * @param source_node_id ID of the node to begin traversal from
+ * @param options Traversal options: direction, edge and node type filters, stop types and maximum depth
+ * @returns Array of node IDs in breadth-first order
+ */
+export const graph_bfs_with_options = new Procedure("graph_bfs_with_options")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("source_node_id", StringType)
+  .input("options", GraphTraversalOptions)
+  .output(ArrayType(StringType))
+  .import(graph_build_adjacency_lists)
+  .import(graph_traversal_edges)
+  .body(($, { nodes, edges, source_node_id, options }, procs) => {
+    // Apply the traversal options
+    const traversalEdges = $.let(procs.graph_traversal_edges(Struct({ edges, options })));
+    const allowedNodeTypes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "node_types"), ($, nodeType) => {
+      $.if(Not(In(allowedNodeTypes, nodeType))).then($ => {
+        $.insert(allowedNodeTypes, nodeType);
+      });
+    });
+    const stopNodeTypes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "stop_node_types"), ($, nodeType) => {
+      $.if(Not(In(stopNodeTypes, nodeType))).then($ => {
+        $.insert(stopNodeTypes, nodeType);
+      });
+    });
+    const maxDepth = $.let(GetField(options, "max_depth"));
+    const anyNodeType = $.let(Equal(Size(allowedNodeTypes), Const(0n)));
+
+    const nodeTypeMap = $.let(NewDict(StringType, StringType));
+    $.forArray(nodes, ($, node) => {
+      $.if(Not(In(nodeTypeMap, GetField(node, "id")))).then($ => {
+        $.insert(nodeTypeMap, GetField(node, "id"), GetField(node, "type"));
+      });
+    });
+
+    // Build adjacency lists using shared utility
+    const adjacencyData = $.let(procs.graph_build_adjacency_lists(Struct({ edges: traversalEdges })));
+    const adjacencyList = $.let(GetField(adjacencyData, "adjacency_list"));
+    
+    // BFS using queue (Procedure methods)
+    const queue = $.let(NewArray(StringType, [source_node_id]));
+    const visited = $.let(NewSet(StringType, [source_node_id]));
+    const depthMap = $.let(NewDict(StringType, IntegerType));
+    $.insert(depthMap, source_node_id, Const(0n));
+    const result = $.let(NewArray(StringType));
+    
+    $.while(Greater(Size(queue), Const(0n)), $ => {
+      const current = $.let(Get(queue, Const(0n)));
+      $.deleteFirst(queue);
+      $.pushLast(result, current);
+      
+      // Stop nodes (other than the source) and nodes at the maximum depth are not expanded
+      const currentDepth = $.let(Get(depthMap, current));
+      const expand = $.let(Not(And(
+        Not(Equal(current, source_node_id)),
+        And(In(nodeTypeMap, current), In(stopNodeTypes, Get(nodeTypeMap, current, Const(""))))
+      )));
+      $.ifNull(maxDepth).then(_ => {
+        // No depth limit
+      }).else(($, depthLimit) => {
+        $.if(GreaterEqual(currentDepth, depthLimit)).then($ => {
+          $.assign(expand, Const(false));
+        });
+      });
+      
+      $.if(And(expand, In(adjacencyList, current))).then($ => {
+        const neighbors = $.let(Get(adjacencyList, current));
+        $.forArray(neighbors, ($, neighbor) => {
+          const allowed = $.let(Or(anyNodeType, And(In(nodeTypeMap, neighbor), In(allowedNodeTypes, Get(nodeTypeMap, neighbor, Const(""))))));
+          $.if(And(allowed, Not(In(visited, neighbor)))).then($ => {
+            $.insert(visited, neighbor);
+            $.insert(depthMap, neighbor, Add(currentDepth, Const(1n)));
+            $.pushLast(queue, neighbor);
+          });
+        });
+      });
+    });
+    
+    $.return(result);
+  });
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  GreaterEqual,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, StringType } from "@elaraai/core";
+
+import { graph_build_adjacency_lists } from "../core/adjacency_lists";
+import { graph_traversal_edges } from "../core/traversal_edges";
+import { GraphNode, GraphEdge, GraphTraversalOptions } from "../types";
+
+/**
+ * Depth-First Search (DFS) traversal with options - graph_dfs restricted by direction, type filters and depth
+ * 
+ * Goes deep into the graph before exploring siblings at the same level, like graph_dfs, but only
+ * along the edges and through the nodes that the traversal options allow.
+ * 
+ * **Example - Tree Structure:**
+ * ```
+ * Input Graph:           Traversal Order:
+ *     A ──┐               1. A (start)
+ *         ├──→ B           2. C (go deep first)
+ *         └──→ C           3. B (backtrack, then explore)
+ *             ├──→ D       4. E (continue deep)
+ *             └──→ E       5. D (finish branch)
+ * 
+ * Result: ["A", "C", "B", "E", "D"] (stack reverses order)
+ * ```
+ * 
+ * **Example - Diamond Structure:**
+ * ```
+ * Input Graph:           Traversal Order:
+ *         A               1. A (start)
+ *       ┌─┴─┐             2. C (first neighbor, go deep)
+ *       B   C             3. D (reach bottom via C)
+ *       └─┬─┘             4. B (backtrack, D already visited)
+ *         D
+ * 
+ * Result: ["A", "C", "D", "B"]
+ * ```
+ * 
+ * **Options:** `direction` and `edge_types` choose the edges to follow (see graph_traversal_edges),
+ * nodes whose type is not in a non-empty `node_types` are not visited, nodes of a
+ * `stop_node_types` type are visited but not expanded, and nodes deeper than `max_depth` are
+ * not visited. The source is always visited and expanded. Under `max_depth` a node reached
+ * again by a shorter path is expanded again, so every node within `max_depth` hops of the
+ * source is visited.
+ * 
+ * **Use Cases:**
+ * - Dependency resolution: "Complete all sub-tasks before moving to the next main task"
+ * - Path exploration: "Explore complete paths through decision trees"
+ * - Cycle detection: "Detect cycles by tracking back edges during traversal"
+ * 
+ * **Algorithm:** Uses stack for LIFO processing and visited set to prevent cycles.
+ * The stack-based approach naturally creates depth-first behavior by always processing the most recently added node.
+ * 
+ * **Complexity:** O(V + E) where V = reachable nodes, E = reachable edges
+ * 
+ * @param nodes Array of graph nodes (used for node type options)
+ * @param edges Array of directed edges representing connections (from → to)
+ * @param source_node_id ID of the node to begin traversal from
+ * @param options Traversal options: direction, edge and node type filters, stop types and maximum depth
+ * @returns Array of node IDs in depth-first order
+ */
+export const graph_dfs_with_options = new Procedure("graph_dfs_with_options")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("source_node_id", StringType)
+  .input("options", GraphTraversalOptions)
+  .output(ArrayType(StringType))
+  .import(graph_build_adjacency_lists)
+  .import(graph_traversal_edges)
+  .body(($, { nodes, edges, source_node_id, options }, procs) => {
+    // Apply the traversal options
+    const traversalEdges = $.let(procs.graph_traversal_edges(Struct({ edges, options })));
+    const allowedNodeTypes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "node_types"), ($, nodeType) => {
+      $.if(Not(In(allowedNodeTypes, nodeType))).then($ => {
+        $.insert(allowedNodeTypes, nodeType);
+      });
+    });
+    const stopNodeTypes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "stop_node_types"), ($, nodeType) => {
+      $.if(Not(In(stopNodeTypes, nodeType))).then($ => {
+        $.insert(stopNodeTypes, nodeType);
+      });
+    });
+    const maxDepth = $.let(GetField(options, "max_depth"));
+    const anyNodeType = $.let(Equal(Size(allowedNodeTypes), Const(0n)));
+    const limited = $.let(Const(false));
+    $.ifNull(maxDepth).then(_ => {
+      // No depth limit
+    }).else(($, _depthLimit) => {
+      $.assign(limited, Const(true));
+    });
+
+    const nodeTypeMap = $.let(NewDict(StringType, StringType));
+    $.forArray(nodes, ($, node) => {
+      $.if(Not(In(nodeTypeMap, GetField(node, "id")))).then($ => {
+        $.insert(nodeTypeMap, GetField(node, "id"), GetField(node, "type"));
+      });
+    });
+
+    // Build adjacency lists using shared utility
+    const adjacencyData = $.let(procs.graph_build_adjacency_lists(Struct({ edges: traversalEdges })));
+    const adjacencyList = $.let(GetField(adjacencyData, "adjacency_list"));
+    
+    // DFS using stack (Procedure methods); depths are kept on a parallel stack
+    const stack = $.let(NewArray(StringType, [source_node_id]));
+    const depthStack = $.let(NewArray(IntegerType, [Const(0n)]));
+    const visited = $.let(NewSet(StringType));
+    const expandedDepths = $.let(NewDict(StringType, IntegerType));
+    const result = $.let(NewArray(StringType));
+    
+    $.while(Greater(Size(stack), Const(0n)), $ => {
+      const current = $.let(Get(stack, Subtract(Size(stack), Const(1n))));
+      const currentDepth = $.let(Get(depthStack, Subtract(Size(depthStack), Const(1n))));
+      $.deleteLast(stack);
+      $.deleteLast(depthStack);
+      
+      // Under a depth limit, a node reached again by a shorter path is expanded again so that
+      // the nodes within the limit behind it are not missed
+      const firstVisit = $.let(Not(In(visited, current)));
+      const shallower = $.let(And(limited, Less(currentDepth, Get(expandedDepths, current, currentDepth))));
+      $.if(Or(firstVisit, shallower)).then($ => {
+        $.if(firstVisit).then($ => {
+          $.insert(visited, current);
+          $.pushLast(result, current);
+        });
+        $.insertOrUpdate(expandedDepths, current, currentDepth);
+        
+        // Stop nodes (other than the source) and nodes at the maximum depth are not expanded
+        const expand = $.let(Not(And(
+          Not(Equal(current, source_node_id)),
+          And(In(nodeTypeMap, current), In(stopNodeTypes, Get(nodeTypeMap, current, Const(""))))
+        )));
+        $.ifNull(maxDepth).then(_ => {
+          // No depth limit
+        }).else(($, depthLimit) => {
+          $.if(GreaterEqual(currentDepth, depthLimit)).then($ => {
+            $.assign(expand, Const(false));
+          });
+        });
+        
+        $.if(And(expand, In(adjacencyList, current))).then($ => {
+          const neighbors = $.let(Get(adjacencyList, current));
+          const nextDepth = $.let(Add(currentDepth, Const(1n)));
+          $.forArray(neighbors, ($, neighbor) => {
+            const allowed = $.let(Or(anyNodeType, And(In(nodeTypeMap, neighbor), In(allowedNodeTypes, Get(nodeTypeMap, neighbor, Const(""))))));
+            const reachable = $.let(Or(Not(In(visited, neighbor)), And(limited, Less(nextDepth, Get(expandedDepths, neighbor, nextDepth)))));
+            $.if(And(allowed, reachable)).then($ => {
+              $.pushLast(stack, neighbor);
+              $.pushLast(depthStack, nextDepth);
+            });
+          });
+        });
+      });
+    });
+    
+    $.return(result);
+  });
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  Not,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, Nullable, StringType } from "@elaraai/core";
+
+import { GraphClassifiedEdge, GraphDfsClassification, GraphDfsTimedNode, GraphEdge, GraphNode } from "../types";
+
+/**
+ * DFS edge classification - depth-first search structure with discovery and finish times
+ *
+ * Runs a depth-first search and records, for every node, when it was discovered and when it
+ * finished, and classifies every explored edge relative to the resulting DFS forest. Where
+ * graph_tracked_dfs reports visit order and parents, this exposes the full DFS structure needed
+ * to debug dependency problems: each back edge closes a cycle, so the back edges say exactly
+ * which dependencies have to be broken.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:                  Result (roots: every node, in input order):
+ *     ┌───────────┐               A: discovery 0, finish 5      A → B: tree
+ *     ↓           │               B: discovery 1, finish 4      B → C: tree
+ *     A ──→ B ──→ C ←── D         C: discovery 2, finish 3      C → A: back (cycle A → B → C → A)
+ *     │           ↑               D: discovery 6, finish 7      A → C: forward
+ *     └───────────┘                                             D → C: cross
+ *
+ * Edges: A → B, B → C, C → A, A → C, D → C
+ * forest_edges: [A → B, B → C], back_edges: [C → A]
+ * ```
+ *
+ * **Edge Classes:**
+ * - "tree": Discovered its target; the tree edges form the spanning forest
+ * - "back": Target is an ancestor still being explored (self-loops included); the graph is
+ *   acyclic exactly when there are no back edges
+ * - "forward": Target is a descendant that has already finished (a shortcut)
+ * - "cross": Target finished earlier in another branch or tree
+ *
+ * **Notes:**
+ * - Searches start from `source_node_ids` in order, or from every node in input order when it is
+ *   empty; a root already reached from an earlier root does not start a new tree
+ * - Outgoing edges are explored in input order; one clock is used for discoveries and finishes
+ * - Edges that are never explored (unreachable from the sources) are not returned
+ * - Duplicate node IDs use the first occurrence; edges to unknown nodes and unknown source IDs
+ *   are ignored
+ *
+ * **Use Cases:**
+ * - Cycle reporting: "Which dependency closes each cycle?" (back edges)
+ * - Dependency debugging: Redundant dependencies show up as forward edges
+ * - Ordering: Decreasing finish time is a topological order when there are no back edges
+ *
+ * **Algorithm:** Iterative depth-first search keeping, per node on the stack, the position of
+ * the next outgoing edge to explore, so that finish times match the recursive algorithm.
+ *
+ * **Complexity:** O(V + E)
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param source_node_ids Roots to search from, in order (empty = every node)
+ * @returns GraphDfsClassification with node timestamps, classified edges, and the forest and back edges
+ */
+export const graph_dfs_classification = new Procedure("graph_dfs_classification")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("source_node_ids", ArrayType(StringType))
+  .output(GraphDfsClassification)
+  .body(($, { nodes, edges, source_node_ids }) => {
+    // Node types and order (first occurrence wins)
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    const nodeOrder = $.let(NewArray(StringType));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(nodeTypes, nodeId))).then($ => {
+        $.insert(nodeTypes, nodeId, GetField(node, "type"));
+        $.pushLast(nodeOrder, nodeId);
+      });
+    });
+
+    // Outgoing edge indices per node, in input order
+    const outgoing = $.let(NewDict(StringType, ArrayType(IntegerType)));
+    $.forArray(edges, ($, edge, edgeIndex) => {
+      const fromId = $.let(GetField(edge, "from"));
+      $.if(And(In(nodeTypes, fromId), In(nodeTypes, GetField(edge, "to")))).then($ => {
+        $.if(In(outgoing, fromId)).then($ => {
+          const edgeIndices = $.let(Get(outgoing, fromId));
+          $.pushLast(edgeIndices, edgeIndex);
+        }).else($ => {
+          $.insert(outgoing, fromId, NewArray(IntegerType, [edgeIndex]));
+        });
+      });
+    });
+
+    const roots = $.let(nodeOrder);
+    $.if(Greater(Size(source_node_ids), Const(0n))).then($ => {
+      $.assign(roots, NewArray(StringType));
+      $.forArray(source_node_ids, ($, sourceId) => {
+        $.if(In(nodeTypes, sourceId)).then($ => {
+          $.pushLast(roots, sourceId);
+        });
+      });
+    });
+
+    const discovery = $.let(NewDict(StringType, IntegerType));
+    const finish = $.let(NewDict(StringType, IntegerType));
+    const depths = $.let(NewDict(StringType, IntegerType));
+    const parents = $.let(NewDict(StringType, Nullable(StringType)));
+    const treeRoots = $.let(NewDict(StringType, StringType));
+    const nextPosition = $.let(NewDict(StringType, IntegerType));
+    const classifications = $.let(NewDict(IntegerType, StringType));
+    const discoveryOrder = $.let(NewArray(StringType));
+    const time = $.let(Const(0n));
+
+    $.forArray(roots, ($, root) => {
+      $.if(Not(In(discovery, root))).then($ => {
+        $.insert(discovery, root, time);
+        $.assign(time, Add(time, Const(1n)));
+        $.insert(depths, root, Const(0n));
+        $.insert(parents, root, Const(null, Nullable(StringType)));
+        $.insert(treeRoots, root, root);
+        $.insert(nextPosition, root, Const(0n));
+        $.pushLast(discoveryOrder, root);
+
+        const stack = $.let(NewArray(StringType, [root]));
+        $.while(Greater(Size(stack), Const(0n)), $ => {
+          const current = $.let(Get(stack, Subtract(Size(stack), Const(1n))));
+          const position = $.let(Get(nextPosition, current));
+          const edgeIndices = $.let(Get(outgoing, current, NewArray(IntegerType)));
+
+          $.if(Less(position, Size(edgeIndices))).then($ => {
+            // Explore the next outgoing edge
+            $.insertOrUpdate(nextPosition, current, Add(position, Const(1n)));
+            const edgeIndex = $.let(Get(edgeIndices, position));
+            const target = $.let(GetField(Get(edges, edgeIndex), "to"));
+
+            $.if(Not(In(discovery, target))).then($ => {
+              $.insert(classifications, edgeIndex, Const("tree"));
+              $.insert(discovery, target, time);
+              $.assign(time, Add(time, Const(1n)));
+              $.insert(depths, target, Add(Get(depths, current), Const(1n)));
+              $.insert(parents, target, current);
+              $.insert(treeRoots, target, root);
+              $.insert(nextPosition, target, Const(0n));
+              $.pushLast(discoveryOrder, target);
+              $.pushLast(stack, target);
+            }).elseIf(Not(In(finish, target))).then($ => {
+              $.insert(classifications, edgeIndex, Const("back"));
+            }).elseIf(Less(Get(discovery, current), Get(discovery, target))).then($ => {
+              $.insert(classifications, edgeIndex, Const("forward"));
+            }).else($ => {
+              $.insert(classifications, edgeIndex, Const("cross"));
+            });
+          }).else($ => {
+            // All outgoing edges explored
+            $.insert(finish, current, time);
+            $.assign(time, Add(time, Const(1n)));
+            $.deleteLast(stack);
+          });
+        });
+      });
+    });
+
+    const resultNodes = $.let(NewArray(GraphDfsTimedNode));
+    $.forArray(discoveryOrder, ($, nodeId) => {
+      $.pushLast(resultNodes, Struct({
+        id: nodeId,
+        type: Get(nodeTypes, nodeId),
+        discovery: Get(discovery, nodeId),
+        finish: Get(finish, nodeId),
+        depth: Get(depths, nodeId),
+        parent_id: Get(parents, nodeId),
+        root_id: Get(treeRoots, nodeId)
+      }));
+    });
+
+    const resultEdges = $.let(NewArray(GraphClassifiedEdge));
+    const forestEdges = $.let(NewArray(GraphEdge));
+    const backEdges = $.let(NewArray(GraphEdge));
+    $.forArray(edges, ($, edge, edgeIndex) => {
+      $.if(In(classifications, edgeIndex)).then($ => {
+        const classification = $.let(Get(classifications, edgeIndex));
+        $.pushLast(resultEdges, Struct({
+          from: GetField(edge, "from"),
+          to: GetField(edge, "to"),
+          type: GetField(edge, "type"),
+          classification: classification
+        }));
+        $.if(Equal(classification, Const("tree"))).then($ => {
+          $.pushLast(forestEdges, edge);
+        }).elseIf(Equal(classification, Const("back"))).then($ => {
+          $.pushLast(backEdges, edge);
+        });
+      });
+    });
+
+    $.return(Struct({
+      nodes: resultNodes,
+      edges: resultEdges,
+      forest_edges: forestEdges,
+      back_edges: backEdges
+    }));
+  });
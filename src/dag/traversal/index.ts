@@ -4,4 +4,17 @@ export { graph_cycle_detection } from "./cycle_detection";
 export { graph_dfs } from "./depth_first";
 export { graph_tracked_bfs } from "./tracked_breadth_first";
 export { graph_tracked_dfs } from "./tracked_depth_first";
-export { graph_topological_sort } from "./topological_sort";
\ No newline at end of file
+export { graph_topological_sort } from "./topological_sort";
+export { graph_indexed_bfs } from "./indexed_breadth_first";
+export { graph_indexed_dfs } from "./indexed_depth_first";
+export { graph_attributed_bfs } from "./attributed_breadth_first";
+export { graph_attributed_dfs } from "./attributed_depth_first";
+export { graph_lowest_common_ancestors } from "./lowest_common_ancestors";
+export { graph_coffman_graham_layering } from "./coffman_graham";
+export { graph_multi_source_bfs } from "./multi_source_breadth_first";
+export { graph_dfs_classification } from "./dfs_classification";
+export { graph_topological_sort_report } from "./topological_sort_report";
+export { graph_bfs_with_options } from "./breadth_first_with_options";
+export { graph_dfs_with_options } from "./depth_first_with_options";
+export { graph_tracked_bfs_with_options } from "./tracked_breadth_first_with_options";
+export { graph_tracked_dfs_with_options } from "./tracked_depth_first_with_options";
\ No newline at end of file
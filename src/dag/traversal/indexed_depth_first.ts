@@ -0,0 +1,98 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  Const,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewSet,
+  Not,
+  Size,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, StringType } from "@elaraai/core";
+
+import { GraphIndexedGraph } from "../types";
+
+/**
+ * Indexed Depth-First Search - DFS over a prebuilt integer-indexed (CSR) graph
+ *
+ * Same stack-based traversal as `graph_dfs`, but reads neighbors directly from the
+ * CSR arrays produced by `graph_build_indexed_graph` instead of rebuilding adjacency
+ * lists on every call.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:           Traversal Order:
+ *         A               1. A (start)
+ *       ┌─┴─┐             2. C (last neighbor pushed, explored first)
+ *       B   C             3. D (deep before backtracking)
+ *       └─┬─┘             4. B (backtrack)
+ *         D
+ *
+ * Result: ["A", "C", "D", "B"]
+ * ```
+ *
+ * **Differences from graph_dfs:**
+ * - Start node not in the indexed graph: Returns empty result
+ * - Dangling edges were dropped when the graph was indexed, so missing nodes are never returned
+ *
+ * **Use Cases:**
+ * - Repeated exploration: "Run DFS from many start nodes without rebuilding adjacency"
+ *
+ * **Algorithm:** Stack-based DFS over integer node indices, pushing each node's
+ * outgoing CSR slice in order so the most recently pushed neighbor is explored first.
+ *
+ * **Complexity:** O(V + E) where V = reachable nodes, E = reachable edges (no adjacency rebuild)
+ *
+ * @param graph Indexed graph built by graph_build_indexed_graph
+ * @param source_node_id ID of the node to begin traversal from
+ * @returns Array of node IDs in depth-first order
+ */
+export const graph_indexed_dfs = new Procedure("graph_indexed_dfs")
+  .input("graph", GraphIndexedGraph)
+  .input("source_node_id", StringType)
+  .output(ArrayType(StringType))
+  .body(($, { graph, source_node_id }) => {
+    const nodeIndex = $.let(GetField(graph, "node_index"));
+    const nodeIds = $.let(GetField(graph, "node_ids"));
+    const outOffsets = $.let(GetField(graph, "out_offsets"));
+    const outTargets = $.let(GetField(graph, "out_targets"));
+
+    const result = $.let(NewArray(StringType));
+
+    // Unknown start node has no index, so nothing is reachable
+    $.if(Not(In(nodeIndex, source_node_id))).then($ => {
+      $.return(result);
+    });
+
+    const stack = $.let(NewArray(IntegerType, [Get(nodeIndex, source_node_id)]));
+    const visited = $.let(NewSet(IntegerType));
+
+    $.while(Greater(Size(stack), Const(0n)), $ => {
+      const current = $.let(Get(stack, Subtract(Size(stack), Const(1n))));
+      $.deleteLast(stack);
+
+      $.if(Not(In(visited, current))).then($ => {
+        $.insert(visited, current);
+        $.pushLast(result, Get(nodeIds, current));
+
+        // Push outgoing CSR slice
+        const position = $.let(Get(outOffsets, current));
+        const sliceEnd = $.let(Get(outOffsets, Add(current, Const(1n))));
+        $.while(Less(position, sliceEnd), $ => {
+          const neighbor = $.let(Get(outTargets, position));
+          $.if(Not(In(visited, neighbor))).then($ => {
+            $.pushLast(stack, neighbor);
+          });
+          $.assign(position, Add(position, Const(1n)));
+        });
+      });
+    });
+
+    $.return(result);
+  });
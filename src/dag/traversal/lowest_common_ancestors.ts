@@ -0,0 +1,207 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  Struct,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, SetType, StringType } from "@elaraai/core";
+
+import { GraphCommonAncestor, GraphEdge, GraphLowestCommonAncestors, GraphNode } from "../types";
+
+/**
+ * Lowest common ancestors - the closest shared ancestors of pairs or sets of nodes in a DAG
+ *
+ * For each query (a pair or a larger set of node IDs), finds the common ancestors that are not
+ * ancestors of any other common ancestor. A node counts as its own ancestor, so when one query
+ * node is upstream of all the others it is the answer. DAGs can have several lowest common
+ * ancestors for the same query; all of them are returned, each with its shortest upstream
+ * distance from every query node.
+ *
+ * **Example:**
+ * ```
+ * Input Graph:                   Queries:        Lowest common ancestors:
+ *         R                        [C, D]          A (distances [1, 1])
+ *        ╱ ╲                       [D, E]          B (distances [1, 1])
+ *       A   B                      [C, E]          R (distances [2, 2])
+ *      ╱ ╲ ╱ ╲                     [A, C]          A (distances [0, 1])
+ *     C   D   E
+ * ```
+ *
+ * **Ancestor Types:**
+ * - An empty `ancestor_types` array allows ancestors of any type
+ * - Otherwise only common ancestors of the listed types are candidates, and the lowest of
+ *   those are returned (e.g. "the closest shared supplier", skipping intermediate processes)
+ *
+ * **Notes:**
+ * - Results are returned in query order; ancestors within a query are sorted by node ID
+ * - A query with no nodes, or with a node ID that is not in the graph, has no ancestors
+ * - Edge types are ignored; duplicate node IDs use the first occurrence and edges to unknown
+ *   nodes are ignored
+ * - Nodes on a cycle are ancestors of each other, so a cycle of common ancestors has no lowest
+ *   member; condense cycles first (graph_condensation) when the graph is not a DAG
+ *
+ * **Use Cases:**
+ * - Traceability: "Which shared batch did these two defective lots both come from?"
+ * - Genealogy: Closest common ancestors of animals, varieties or product revisions
+ * - Impact analysis: The nearest shared upstream dependency of a set of failing services
+ *
+ * **Algorithm:**
+ * 1. Reverse breadth-first search from each query node gives its ancestors and distances
+ * 2. Common ancestors are the nodes reached from every query node
+ * 3. Candidates (common ancestors of an allowed type) mark their common-ancestor predecessors,
+ *    transitively; the unmarked candidates are the lowest common ancestors
+ *
+ * **Complexity:** O(Q × K × (V + E)) for Q queries of K nodes each
+ *
+ * @param nodes Array of graph nodes
+ * @param edges Array of directed edges
+ * @param queries Array of node ID sets (pairs or larger sets)
+ * @param ancestor_types Node types allowed as ancestors (empty = any type)
+ * @returns Array of GraphLowestCommonAncestors in query order
+ */
+export const graph_lowest_common_ancestors = new Procedure("graph_lowest_common_ancestors")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("queries", ArrayType(ArrayType(StringType)))
+  .input("ancestor_types", ArrayType(StringType))
+  .output(ArrayType(GraphLowestCommonAncestors))
+  .body(($, { nodes, edges, queries, ancestor_types }) => {
+    // Step 1: Node types (first occurrence wins) and predecessors over known nodes
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    $.forArray(nodes, ($, node) => {
+      $.if(Not(In(nodeTypes, GetField(node, "id")))).then($ => {
+        $.insert(nodeTypes, GetField(node, "id"), GetField(node, "type"));
+      });
+    });
+
+    const predecessors = $.let(NewDict(StringType, SetType(StringType)));
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(And(In(nodeTypes, fromId), In(nodeTypes, toId))).then($ => {
+        $.if(In(predecessors, toId)).then($ => {
+          const sources = $.let(Get(predecessors, toId));
+          $.if(Not(In(sources, fromId))).then($ => {
+            $.insert(sources, fromId);
+          });
+        }).else($ => {
+          $.insert(predecessors, toId, NewSet(StringType, [fromId]));
+        });
+      });
+    });
+
+    const allowedTypes = $.let(NewSet(StringType));
+    $.forArray(ancestor_types, ($, typeName) => {
+      $.if(Not(In(allowedTypes, typeName))).then($ => {
+        $.insert(allowedTypes, typeName);
+      });
+    });
+    const anyType = $.let(Equal(Size(allowedTypes), Const(0n)));
+
+    const results = $.let(NewArray(GraphLowestCommonAncestors));
+    $.forArray(queries, ($, queryIds) => {
+      const ancestors = $.let(NewArray(GraphCommonAncestor));
+
+      const valid = $.let(Greater(Size(queryIds), Const(0n)));
+      $.forArray(queryIds, ($, queryId) => {
+        $.if(Not(In(nodeTypes, queryId))).then($ => {
+          $.assign(valid, Const(false));
+        });
+      });
+
+      $.if(valid).then($ => {
+        // Step 2: Reverse BFS from each query node; distances[n][i] = hops from query node i
+        const distances = $.let(NewDict(StringType, ArrayType(IntegerType)));
+        $.forArray(queryIds, ($, queryId, queryIndex) => {
+          const reached = $.let(NewDict(StringType, IntegerType));
+          $.insert(reached, queryId, Const(0n));
+          const queue = $.let(NewArray(StringType, [queryId]));
+          const head = $.let(Const(0n));
+          $.while(Less(head, Size(queue)), $ => {
+            const current = $.let(Get(queue, head));
+            $.assign(head, Add(head, Const(1n)));
+            $.forSet(Get(predecessors, current, NewSet(StringType)), ($, predecessor) => {
+              $.if(Not(In(reached, predecessor))).then($ => {
+                $.insert(reached, predecessor, Add(Get(reached, current), Const(1n)));
+                $.pushLast(queue, predecessor);
+              });
+            });
+          });
+
+          // Only nodes reached from every earlier query node stay in step
+          $.forDict(reached, ($, distance, nodeId) => {
+            $.if(Equal(queryIndex, Const(0n))).then($ => {
+              $.insert(distances, nodeId, NewArray(IntegerType, [distance]));
+            }).elseIf(In(distances, nodeId)).then($ => {
+              const nodeDistances = $.let(Get(distances, nodeId));
+              $.if(Equal(Size(nodeDistances), queryIndex)).then($ => {
+                $.pushLast(nodeDistances, distance);
+              });
+            });
+          });
+        });
+
+        // Step 3: Common ancestors and the candidates among them
+        const common = $.let(NewSet(StringType));
+        const candidates = $.let(NewArray(StringType));
+        $.forDict(distances, ($, nodeDistances, nodeId) => {
+          $.if(Equal(Size(nodeDistances), Size(queryIds))).then($ => {
+            $.insert(common, nodeId);
+            $.if(Or(anyType, In(allowedTypes, Get(nodeTypes, nodeId)))).then($ => {
+              $.pushLast(candidates, nodeId);
+            });
+          });
+        });
+
+        // Step 4: Mark common ancestors strictly upstream of a candidate
+        const marked = $.let(NewSet(StringType));
+        const queue = $.let(NewArray(StringType));
+        $.forArray(candidates, ($, candidate) => {
+          $.pushLast(queue, candidate);
+        });
+        const head = $.let(Const(0n));
+        $.while(Less(head, Size(queue)), $ => {
+          const current = $.let(Get(queue, head));
+          $.assign(head, Add(head, Const(1n)));
+          $.forSet(Get(predecessors, current, NewSet(StringType)), ($, predecessor) => {
+            $.if(And(In(common, predecessor), Not(In(marked, predecessor)))).then($ => {
+              $.insert(marked, predecessor);
+              $.pushLast(queue, predecessor);
+            });
+          });
+        });
+
+        // Candidates are in node ID order (dictionaries iterate in key order)
+        $.forArray(candidates, ($, candidate) => {
+          $.if(Not(In(marked, candidate))).then($ => {
+            $.pushLast(ancestors, Struct({
+              id: candidate,
+              type: Get(nodeTypes, candidate),
+              distances: Get(distances, candidate)
+            }));
+          });
+        });
+      });
+
+      $.pushLast(results, Struct({
+        node_ids: queryIds,
+        ancestors: ancestors
+      }));
+    });
+
+    $.return(results);
+  });
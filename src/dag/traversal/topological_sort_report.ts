@@ -0,0 +1,288 @@
+import { Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  StringJoin,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, DictType, FloatType, IntegerType, SetType, StringType } from "@elaraai/core";
+
+import { GraphNode, GraphEdge, GraphTopologicalNode, GraphTopologicalSortResult } from "../types";
+
+/**
+ * Topological sort report - orders nodes like graph_topological_sort and reports what could not be ordered
+ *
+ * Produces the same layered ordering as graph_topological_sort, with a choice of how ties within a
+ * layer are broken. Nodes that cannot be ordered because they are on or behind a cycle are listed,
+ * together with one cycle that explains why.
+ *
+ * **Example - Basic DAG:**
+ * ```
+ * Input Graph:           Topological Order:        Layers:
+ *     A ──┐               0: A (no dependencies)     Layer 0: [A]
+ *         ├──→ B           1: B (depends on A)       Layer 1: [B, C]
+ *         └──→ C           2: C (depends on A)       Layer 2: [D]
+ *             └─┬──→ D     3: D (depends on B,C)
+ *               └───→ D
+ *
+ * Result: {order: [{id:"A", topo_order:0, layer:0}, {id:"B", topo_order:1, layer:1}, ...],
+ *          unordered: [], cycle: []}
+ * ```
+ *
+ * **Example - Multiple Roots:**
+ * ```
+ * Input Graph:           Topological Order:        Layers:
+ *     A ──┐               0: A (root 1)             Layer 0: [A, B]
+ *         └──→ C          1: B (root 2)             Layer 1: [C]
+ *     B ──┘               2: C (depends on A,B)
+ *
+ * A and B can execute in parallel (same layer)
+ * ```
+ *
+ * **Example - Cycle:**
+ * ```
+ * Input Graph:                      Result:
+ *     S ──→ B ──→ C ──→ D ──→ X       order:     S (layer 0), T (layer 1)
+ *     │     ↑           │             unordered: [B, C, D, X]
+ *     │     └───────────┘             cycle:     [B, C, D]  (B→C→D→B)
+ *     └──→ T
+ *
+ * X is not on the cycle but sits behind it, so it cannot be ordered either
+ * ```
+ *
+ * **Tie Breaking (order within a layer):**
+ * - "input": Input node order
+ * - "lexicographic": Node ID order
+ * - "type_priority": Position of the node's type in `type_priority`; unlisted types come last
+ * - "numeric_priority": Lower `priorities` values first; nodes without a priority come last
+ * - Ties within the same type or priority are broken by node ID
+ *
+ * **Notes:**
+ * - Duplicate node IDs use the first occurrence; edges to unknown nodes are ignored, whereas
+ *   graph_topological_sort also orders nodes that only appear in edges
+ * - "input" sorts each layer by input position, whereas graph_topological_sort emits nodes in the
+ *   order they become ready
+ * - The cycle witness starts from the first unordered node in input order
+ *
+ * **Use Cases:**
+ * - Task scheduling: "In what order should tasks execute to respect dependencies?"
+ * - Build systems: "Which modules should compile before others?"
+ * - Course prerequisites: "What's a valid sequence to take these classes?"
+ * - Dependency debugging: "Which steps are blocked by a circular dependency, and where is it?"
+ *
+ * **Algorithm:** Uses Kahn's algorithm with in-degree tracking, one layer at a time; each layer is
+ * sorted by the tie-break key before it is emitted. Nodes whose in-degree never reaches zero are
+ * unordered, and each of them has an unordered predecessor, so walking back through unordered
+ * predecessors must revisit a node and close a cycle.
+ *
+ * **Error Handling:** An unknown tie_break fails the procedure with a descriptive error.
+ *
+ * **Complexity:** O(V log V + E) where V is the number of vertices and E is the number of edges.
+ *
+ * @param nodes Array of graph nodes to be ordered
+ * @param edges Array of directed edges representing dependencies (from → to)
+ * @param tie_break "input", "lexicographic", "type_priority" or "numeric_priority"
+ * @param type_priority Node types in priority order (used by "type_priority")
+ * @param priorities Numeric priority per node ID, lowest first (used by "numeric_priority")
+ * @returns GraphTopologicalSortResult with the ordered nodes, unordered nodes and a cycle witness
+ */
+export const graph_topological_sort_report = new Procedure("graph_topological_sort_report")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("tie_break", StringType)
+  .input("type_priority", ArrayType(StringType))
+  .input("priorities", DictType(StringType, FloatType))
+  .output(GraphTopologicalSortResult)
+  .body(($, { nodes, edges, tie_break, type_priority, priorities }) => {
+    $.if(Not(Or(
+      Or(Equal(tie_break, Const("input")), Equal(tie_break, Const("lexicographic"))),
+      Or(Equal(tie_break, Const("type_priority")), Equal(tie_break, Const("numeric_priority")))
+    ))).then($ => {
+      $.error(StringJoin([Const("Unknown tie_break \""), tie_break, Const("\" (expected input, lexicographic, type_priority or numeric_priority)")]));
+    });
+
+    // Node order, types and input positions (first occurrence wins)
+    const nodeOrder = $.let(NewArray(StringType));
+    const nodeTypes = $.let(NewDict(StringType, StringType));
+    const inputPosition = $.let(NewDict(StringType, IntegerType));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      $.if(Not(In(inputPosition, nodeId))).then($ => {
+        $.insert(inputPosition, nodeId, Size(nodeOrder));
+        $.insert(nodeTypes, nodeId, GetField(node, "type"));
+        $.pushLast(nodeOrder, nodeId);
+      });
+    });
+
+    const typeRank = $.let(NewDict(StringType, IntegerType));
+    $.forArray(type_priority, ($, typeName, index) => {
+      $.if(Not(In(typeRank, typeName))).then($ => {
+        $.insert(typeRank, typeName, index);
+      });
+    });
+
+    // Build adjacency lists and in-degree counts over known nodes
+    const adjacencyList = $.let(NewDict(StringType, ArrayType(StringType)));
+    const predecessors = $.let(NewDict(StringType, ArrayType(StringType)));
+    const inDegree = $.let(NewDict(StringType, IntegerType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.insert(inDegree, nodeId, Const(0n));
+    });
+
+    $.forArray(edges, ($, edge) => {
+      const fromId = $.let(GetField(edge, "from"));
+      const toId = $.let(GetField(edge, "to"));
+      $.if(And(In(inputPosition, fromId), In(inputPosition, toId))).then($ => {
+        $.if(In(adjacencyList, fromId)).then($ => {
+          const neighbors = $.let(Get(adjacencyList, fromId));
+          $.pushLast(neighbors, toId);
+        }).else($ => {
+          $.insert(adjacencyList, fromId, NewArray(StringType, [toId]));
+        });
+        $.if(In(predecessors, toId)).then($ => {
+          const sources = $.let(Get(predecessors, toId));
+          $.pushLast(sources, fromId);
+        }).else($ => {
+          $.insert(predecessors, toId, NewArray(StringType, [fromId]));
+        });
+        $.insertOrUpdate(inDegree, toId, Add(Get(inDegree, toId), Const(1n)));
+      });
+    });
+
+    // Nodes with zero in-degree form the first layer
+    const ready = $.let(NewArray(StringType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(Equal(Get(inDegree, nodeId), Const(0n))).then($ => {
+        $.pushLast(ready, nodeId);
+      });
+    });
+
+    const result = $.let(NewArray(GraphTopologicalNode));
+    const topoOrder = $.let(Const(0n));
+    const layerNumber = $.let(Const(0n));
+
+    // Process nodes layer by layer
+    $.while(Greater(Size(ready), Const(0n)), $ => {
+      // Sort the layer by (primary, secondary, node ID); dictionaries and sets iterate in key order
+      const buckets = $.let(NewDict(IntegerType, DictType(FloatType, SetType(StringType))));
+      $.forArray(ready, ($, nodeId) => {
+        const primary = $.let(Const(0n));
+        const secondary = $.let(Const(0.0));
+        $.if(Equal(tie_break, Const("input"))).then($ => {
+          $.assign(primary, Get(inputPosition, nodeId));
+        }).elseIf(Equal(tie_break, Const("type_priority"))).then($ => {
+          $.assign(primary, Get(typeRank, Get(nodeTypes, nodeId), Size(type_priority)));
+        }).elseIf(Equal(tie_break, Const("numeric_priority"))).then($ => {
+          $.if(In(priorities, nodeId)).then($ => {
+            $.assign(secondary, Get(priorities, nodeId));
+          }).else($ => {
+            $.assign(primary, Const(1n));
+          });
+        });
+
+        $.if(Not(In(buckets, primary))).then($ => {
+          $.insert(buckets, primary, NewDict(FloatType, SetType(StringType)));
+        });
+        const group = $.let(Get(buckets, primary));
+        $.if(In(group, secondary)).then($ => {
+          const members = $.let(Get(group, secondary));
+          $.insert(members, nodeId);
+        }).else($ => {
+          $.insert(group, secondary, NewSet(StringType, [nodeId]));
+        });
+      });
+
+      const nextLayer = $.let(NewArray(StringType));
+      $.forDict(buckets, ($, group) => {
+        $.forDict(group, ($, members) => {
+          $.forSet(members, ($, current) => {
+            $.pushLast(result, Struct({
+              id: current,
+              topo_order: topoOrder,
+              layer: layerNumber
+            }));
+            $.assign(topoOrder, Add(topoOrder, Const(1n)));
+
+            // Process neighbors
+            const neighbors = $.let(Get(adjacencyList, current, NewArray(StringType)));
+            $.forArray(neighbors, ($, neighbor) => {
+              const newDegree = $.let(Subtract(Get(inDegree, neighbor), Const(1n)));
+              $.insertOrUpdate(inDegree, neighbor, newDegree);
+
+              $.if(Equal(newDegree, Const(0n))).then($ => {
+                $.pushLast(nextLayer, neighbor);
+              });
+            });
+          });
+        });
+      });
+
+      $.assign(ready, nextLayer);
+      // Increment layer number after processing all nodes in current layer
+      $.assign(layerNumber, Add(layerNumber, Const(1n)));
+    });
+
+    // Nodes whose in-degree never reached zero are on or behind a cycle
+    const unordered = $.let(NewArray(StringType));
+    $.forArray(nodeOrder, ($, nodeId) => {
+      $.if(Greater(Get(inDegree, nodeId), Const(0n))).then($ => {
+        $.pushLast(unordered, nodeId);
+      });
+    });
+
+    // Walk back through unordered predecessors until a node repeats
+    const cycle = $.let(NewArray(StringType));
+    $.if(Greater(Size(unordered), Const(0n))).then($ => {
+      const path = $.let(NewArray(StringType, [Get(unordered, Const(0n))]));
+      const pathIndex = $.let(NewDict(StringType, IntegerType));
+      $.insert(pathIndex, Get(unordered, Const(0n)), Const(0n));
+      const current = $.let(Get(unordered, Const(0n)));
+      const searching = $.let(Const(true));
+      $.while(searching, $ => {
+        const predecessor = $.let(Const(""));
+        const found = $.let(Const(false));
+        $.forArray(Get(predecessors, current, NewArray(StringType)), ($, source) => {
+          $.if(And(Not(found), Greater(Get(inDegree, source), Const(0n)))).then($ => {
+            $.assign(predecessor, source);
+            $.assign(found, Const(true));
+          });
+        });
+
+        $.if(In(pathIndex, predecessor)).then($ => {
+          // The path runs against the edges, so the cycle is its repeated tail reversed
+          const start = $.let(Get(pathIndex, predecessor));
+          $.pushLast(cycle, Get(path, start));
+          const position = $.let(Subtract(Size(path), Const(1n)));
+          $.while(Greater(position, start), $ => {
+            $.pushLast(cycle, Get(path, position));
+            $.assign(position, Subtract(position, Const(1n)));
+          });
+          $.assign(searching, Const(false));
+        }).else($ => {
+          $.insert(pathIndex, predecessor, Size(path));
+          $.pushLast(path, predecessor);
+          $.assign(current, predecessor);
+        });
+      });
+    });
+
+    $.return(Struct({
+      order: result,
+      unordered: unordered,
+      cycle: cycle
+    }));
+  });
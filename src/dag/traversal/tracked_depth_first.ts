@@ -17,8 +17,8 @@ import {
 
 import { ArrayType, IntegerType, Nullable, StringType } from "@elaraai/core";
 
-import { graph_build_adjacency_lists } from "../core/adjacency_lists";
-import { GraphNode, GraphEdge, GraphEnhancedTraversalNode } from "../types";
+import { graph_build_multigraph_adjacency } from "../core/multigraph_adjacency";
+import { GraphNode, GraphEdge, GraphEdgeGroup, GraphEnhancedTraversalNode, GraphMultigraphAdjacency } from "../types";
 
 /**
  * Tracked Depth-First Search - DFS traversal with detailed metadata tracking
@@ -49,6 +49,7 @@ import { GraphNode, GraphEdge, GraphEnhancedTraversalNode } from "../types";
  * @param edges - Array of directed edges with {from: string, to: string, type: string} structure
  * @param source_node_id - ID of the node to begin traversal from
  * @param limit - Optional depth limit for traversal (null = unlimited, integer = max depth)
+ * @param adjacency - Optional prebuilt multigraph adjacency from graph_build_multigraph_adjacency (null = build from edges)
  * 
  * **Output Structure**:
  * @returns Array of GraphEnhancedTraversalNode containing:
@@ -132,12 +133,21 @@ export const graph_tracked_dfs = new Procedure("graph_tracked_dfs")
   .input("edges", ArrayType(GraphEdge))
   .input("source_node_id", StringType)
   .input("limit", Nullable(IntegerType))
+  .input("adjacency", Nullable(GraphMultigraphAdjacency))
   .output(ArrayType(GraphEnhancedTraversalNode))
-  .import(graph_build_adjacency_lists)
-  .body(($, { nodes, edges, source_node_id, limit }, procs) => {
-    // Build adjacency lists using shared utility
-    const adjacencyData = $.let(procs.graph_build_adjacency_lists(Struct({ edges })));
-    const adjacencyList = $.let(GetField(adjacencyData, "adjacency_list"));
+  .import(graph_build_multigraph_adjacency)
+  .body(($, { nodes, edges, source_node_id, limit, adjacency }, procs) => {
+    // Use the prebuilt multigraph adjacency when supplied, otherwise build it from the edges
+    const adjacencyList = $.let(NewDict(StringType, ArrayType(StringType)));
+    const edgeGroups = $.let(NewDict(StringType, DictType(StringType, GraphEdgeGroup)));
+    $.ifNull(adjacency).then($ => {
+      const adjacencyData = $.let(procs.graph_build_multigraph_adjacency(Struct({ edges })));
+      $.assign(adjacencyList, GetField(adjacencyData, "adjacency_list"));
+      $.assign(edgeGroups, GetField(adjacencyData, "edge_groups"));
+    }).else(($, prebuilt) => {
+      $.assign(adjacencyList, GetField(prebuilt, "adjacency_list"));
+      $.assign(edgeGroups, GetField(prebuilt, "edge_groups"));
+    });
     
     // Build node type lookup for efficient access
     const nodeTypeMap = $.let(NewDict(StringType, StringType));
@@ -147,28 +157,6 @@ export const graph_tracked_dfs = new Procedure("graph_tracked_dfs")
       $.insert(nodeTypeMap, nodeId, nodeType);
     });
     
-    // Build edge type mapping: from_node -> to_node -> [edge_types]
-    const edgeTypeMap = $.let(NewDict(StringType, DictType(StringType, ArrayType(StringType))));
-    $.forArray(edges, ($, edge) => {
-      const fromId = $.let(GetField(edge, "from"));
-      const toId = $.let(GetField(edge, "to"));
-      const edgeType = $.let(GetField(edge, "type"));
-      
-      $.if(In(edgeTypeMap, fromId)).then($ => {
-        const toMap = $.let(Get(edgeTypeMap, fromId));
-        $.if(In(toMap, toId)).then($ => {
-          const edgeTypes = $.let(Get(toMap, toId));
-          $.pushLast(edgeTypes, edgeType);
-        }).else($ => {
-          $.insert(toMap, toId, NewArray(StringType, [edgeType]));
-        });
-      }).else($ => {
-        const newToMap = $.let(NewDict(StringType, ArrayType(StringType)));
-        $.insert(newToMap, toId, NewArray(StringType, [edgeType]));
-        $.insert(edgeTypeMap, fromId, newToMap);
-      });
-    });
-    
     // Initialize DFS structures
     const stack = $.let(NewArray(StringType, [source_node_id]));
     const visited = $.let(NewSet(StringType));
@@ -219,10 +207,10 @@ export const graph_tracked_dfs = new Procedure("graph_tracked_dfs")
             $.assign(parentType, Get(nodeTypeMap, nonNullParentId));
             
             // Get edge types from parent to current node
-            $.if(In(edgeTypeMap, nonNullParentId)).then($ => {
-              const parentToMap = $.let(Get(edgeTypeMap, nonNullParentId));
-              $.if(In(parentToMap, current)).then($ => {
-                const edgeTypes = $.let(Get(parentToMap, current));
+            $.if(In(edgeGroups, nonNullParentId)).then($ => {
+              const parentGroups = $.let(Get(edgeGroups, nonNullParentId));
+              $.if(In(parentGroups, current)).then($ => {
+                const edgeTypes = $.let(GetField(Get(parentGroups, current), "edge_types"));
                 $.forArray(edgeTypes, ($, edgeType) => {
                   $.pushLast(parentEdgeTypes, edgeType);
                 });
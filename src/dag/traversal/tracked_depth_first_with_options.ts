@@ -0,0 +1,337 @@
+import { DictType, Procedure } from "@elaraai/core";
+import {
+  Add,
+  And,
+  Const,
+  Equal,
+  Get,
+  GetField,
+  Greater,
+  In,
+  Less,
+  NewArray,
+  NewDict,
+  NewSet,
+  Not,
+  Or,
+  Size,
+  Struct,
+  Subtract,
+} from "@elaraai/core";
+
+import { ArrayType, IntegerType, Nullable, StringType } from "@elaraai/core";
+
+import { graph_build_multigraph_adjacency } from "../core/multigraph_adjacency";
+import { graph_traversal_edges } from "../core/traversal_edges";
+import { GraphNode, GraphEdge, GraphEdgeGroup, GraphEnhancedTraversalNode, GraphMultigraphAdjacency, GraphTraversalOptions } from "../types";
+
+/**
+ * Tracked Depth-First Search with options - graph_tracked_dfs restricted by direction, type filters and depth
+ * 
+ * **Purpose**: Performs depth-first traversal while capturing rich metadata including
+ * visit order, depth from start node, parent relationships, and edge type information.
+ * Essential for cycle detection, dependency resolution, and analyzing deep exploration paths.
+ * 
+ * **Key Assumptions**:
+ * - Graph represents directed connections with typed edges
+ * - Node IDs are unique identifiers
+ * - Multiple edges between same nodes are tracked by collecting all edge types
+ * - Start node must exist in the graph (validated by presence in adjacency list or as target)
+ * 
+ * **Time Complexity**: O(V + E) where:
+ * - V = number of reachable vertices from start node
+ * - E = number of reachable edges from start node
+ * Note: Same complexity as standard DFS with small constant factor for metadata collection
+ * 
+ * **Space Complexity**: O(V + E) for:
+ * - Adjacency list construction: O(V + E)
+ * - DFS stack and visited tracking: O(V)
+ * - Parent and depth tracking maps: O(V)
+ * - Result array with metadata: O(V)
+ * 
+ * **Input Parameters**:
+ * @param nodes - Array of graph nodes with {id: string, type: string} structure
+ * @param edges - Array of directed edges with {from: string, to: string, type: string} structure
+ * @param source_node_id - ID of the node to begin traversal from
+ * @param limit - Optional depth limit for traversal (null = unlimited, integer = max depth)
+ * @param adjacency - Optional prebuilt multigraph adjacency from graph_build_multigraph_adjacency (null = build from edges);
+ *   only reused when the options follow every edge forwards
+ * @param options - Traversal options: direction, edge_types,
+ *   node_types (others are not visited), stop_node_types (visited but not expanded, except the source)
+ *   and max_depth (applied together with limit; a node reached again by a shorter path is expanded again,
+ *   so every node within max_depth hops is visited); see graph_traversal_edges
+ * 
+ * **Output Structure**:
+ * @returns Array of GraphEnhancedTraversalNode containing:
+ * - id: Node identifier
+ * - type: Node type from original graph
+ * - visited_order: Sequential order this node was visited (0-based)
+ * - depth: Distance from start node along the traversal path
+ * - parent_edge_types: Array of edge types used to reach this node from parent
+ * - parent_id: ID of parent node in traversal tree (null for start node)
+ * - parent_type: Type of parent node (null for start node)
+ * 
+ * **Behavior Examples**:
+ * 
+ * ```
+ * Example 1: Deep Path Exploration
+ * Graph: A(input) -flow-> B(process) -output-> C(result) -archive-> D(storage)
+ * Input: source_node_id="A", limit=null
+ * Output:
+ *   A: order=0, depth=0, parent=null, parent_edge_types=[]
+ *   B: order=1, depth=1, parent=A, parent_edge_types=["flow"]
+ *   C: order=2, depth=2, parent=B, parent_edge_types=["output"]
+ *   D: order=3, depth=3, parent=C, parent_edge_types=["archive"]
+ * 
+ * Example 2: Diamond Structure - Deep-First Exploration
+ * Graph: A -flow-> B -process-> D
+ *        A -data-> C -stream-> D  
+ * Input: source_node_id="A", limit=null
+ * Output (assuming B processed before C):
+ *   A: order=0, depth=0, parent=null, parent_edge_types=[]
+ *   C: order=1, depth=1, parent=A, parent_edge_types=["data"] (last neighbor explored first)
+ *   D: order=2, depth=2, parent=C, parent_edge_types=["stream"]
+ *   B: order=3, depth=1, parent=A, parent_edge_types=["flow"] (backtrack)
+ *   Note: D already visited when reached via B, so B->D not traversed
+ * 
+ * Example 3: Branching Tree - Stack-Based Exploration
+ * Graph: A -setup-> B -config-> D
+ *        A -init-> C -deploy-> E
+ * Input: source_node_id="A", limit=null
+ * Output (assuming C processed before B due to stack LIFO):
+ *   A: order=0, depth=0
+ *   C: order=1, depth=1 (last added to stack, processed first)
+ *   E: order=2, depth=2 (explore deep before backtracking)
+ *   B: order=3, depth=1 (backtrack to A, then explore B)
+ *   D: order=4, depth=2 (explore B's path)
+ * 
+ * Example 4: Depth-Limited Exploration
+ * Graph: A -setup-> B -config-> D
+ *        A -init-> C -deploy-> E
+ * Input: source_node_id="A", limit=1
+ * Output: Only processes nodes at depth 0 and 1
+ *   A: order=0, depth=0
+ *   C: order=1, depth=1 (last added to stack, processed first)
+ *   B: order=2, depth=1 (backtrack to A, then explore B)
+ *   Note: D and E not included (would be depth=2, exceeds limit=1)
+ * 
+ * Example 5: Traversal Options (upstream via "transfer" edges, stopping at suppliers)
+ * Graph: S0(farm) -transfer-> S1(supplier) -transfer-> M -transfer-> L
+ *        Q(lab) -test-> M
+ * Input: source_node_id="L", options={direction: "backward", edge_types: ["transfer"],
+ *        node_types: [], stop_node_types: ["supplier"], max_depth: null}
+ * Output:
+ *   L: order=0, depth=0, parent=null, parent_edge_types=[]
+ *   M: order=1, depth=1, parent=L, parent_edge_types=["transfer"]
+ *   S1: order=2, depth=2, parent=M, parent_edge_types=["transfer"]
+ *   Note: Q not included (wrong edge type), S0 not included (S1 is a stop node)
+ * ```
+ * 
+ * **Edge Cases Handled**:
+ * - Start node with no outgoing edges: Returns single-node result
+ * - Start node with no incoming edges: Parent fields are null
+ * - Multiple edges between same nodes: All edge types collected in parent_edge_types
+ * - Disconnected components: Only visits nodes reachable from start
+ * - Self-loops: Handled correctly without infinite loops
+ * - Invalid start node: Returns empty result
+ * - Deep paths: Stack-based approach handles arbitrary depth without recursion limits
+ * - Depth limit 0: Returns only start node
+ * - Depth limit exceeded: Terminates traversal at specified depth
+ * - Null limit: Unlimited traversal (default behavior)
+ * 
+ * **Use Cases**:
+ * - Cycle detection: "Find back edges during DFS traversal"
+ * - Dependency resolution: "Complete all sub-tasks before moving to siblings"
+ * - Path exploration: "Explore complete paths through decision trees"
+ * - Manufacturing process analysis: "What's the deep exploration path through production dependencies?"
+ * - Debugging complex workflows: "Show the depth-first discovery order and parent relationships"
+ * - Spanning forest construction: "Build depth-oriented tree connecting all reachable nodes"
+ * - Limited depth analysis: "Explore only immediate paths (limit=1) or within N steps (limit=N)"
+ * - Performance optimization: "Constrain search depth to avoid exploring too deep from start"
+ */
+export const graph_tracked_dfs_with_options = new Procedure("graph_tracked_dfs_with_options")
+  .input("nodes", ArrayType(GraphNode))
+  .input("edges", ArrayType(GraphEdge))
+  .input("source_node_id", StringType)
+  .input("limit", Nullable(IntegerType))
+  .input("adjacency", Nullable(GraphMultigraphAdjacency))
+  .input("options", GraphTraversalOptions)
+  .output(ArrayType(GraphEnhancedTraversalNode))
+  .import(graph_build_multigraph_adjacency)
+  .import(graph_traversal_edges)
+  .body(($, { nodes, edges, source_node_id, limit, adjacency, options }, procs) => {
+    // Apply the traversal options
+    const traversalEdges = $.let(procs.graph_traversal_edges(Struct({ edges, options })));
+    const followsAllEdges = $.let(And(
+      Equal(GetField(options, "direction"), Const("forward")),
+      Equal(Size(GetField(options, "edge_types")), Const(0n))
+    ));
+    const allowedNodeTypes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "node_types"), ($, nodeType) => {
+      $.if(Not(In(allowedNodeTypes, nodeType))).then($ => {
+        $.insert(allowedNodeTypes, nodeType);
+      });
+    });
+    const stopNodeTypes = $.let(NewSet(StringType));
+    $.forArray(GetField(options, "stop_node_types"), ($, nodeType) => {
+      $.if(Not(In(stopNodeTypes, nodeType))).then($ => {
+        $.insert(stopNodeTypes, nodeType);
+      });
+    });
+    const maxDepthOption = $.let(GetField(options, "max_depth"));
+    const anyNodeType = $.let(Equal(Size(allowedNodeTypes), Const(0n)));
+    const limited = $.let(Const(false));
+    $.ifNull(maxDepthOption).then(_ => {
+      // No max_depth option
+    }).else(($, _maxDepth) => {
+      $.assign(limited, Const(true));
+    });
+
+    // Use the prebuilt multigraph adjacency when supplied and every edge is followed forwards,
+    // otherwise build it from the (filtered, oriented) edges
+    const adjacencyList = $.let(NewDict(StringType, ArrayType(StringType)));
+    const edgeGroups = $.let(NewDict(StringType, DictType(StringType, GraphEdgeGroup)));
+    const usePrebuilt = $.let(Const(false));
+    $.ifNull(adjacency).then(_ => {
+      // Nothing prebuilt
+    }).else(($, prebuilt) => {
+      $.if(followsAllEdges).then($ => {
+        $.assign(adjacencyList, GetField(prebuilt, "adjacency_list"));
+        $.assign(edgeGroups, GetField(prebuilt, "edge_groups"));
+        $.assign(usePrebuilt, Const(true));
+      });
+    });
+    $.if(Not(usePrebuilt)).then($ => {
+      const adjacencyData = $.let(procs.graph_build_multigraph_adjacency(Struct({ edges: traversalEdges })));
+      $.assign(adjacencyList, GetField(adjacencyData, "adjacency_list"));
+      $.assign(edgeGroups, GetField(adjacencyData, "edge_groups"));
+    });
+    
+    // Build node type lookup for efficient access
+    const nodeTypeMap = $.let(NewDict(StringType, StringType));
+    $.forArray(nodes, ($, node) => {
+      const nodeId = $.let(GetField(node, "id"));
+      const nodeType = $.let(GetField(node, "type"));
+      $.insert(nodeTypeMap, nodeId, nodeType);
+    });
+    
+    // Initialize DFS structures
+    const stack = $.let(NewArray(StringType, [source_node_id]));
+    const visited = $.let(NewSet(StringType));
+    const result = $.let(NewArray(GraphEnhancedTraversalNode));
+    const parentMap = $.let(NewDict(StringType, Nullable(StringType)));
+    const depthMap = $.let(NewDict(StringType, IntegerType));
+    const expandedDepths = $.let(NewDict(StringType, IntegerType));
+    const visitOrder = $.let(Const(0n));
+    
+    // Initialize start node metadata
+    $.insert(parentMap, source_node_id, Const(null, Nullable(StringType)));
+    $.insert(depthMap, source_node_id, Const(0n));
+    
+    // DFS traversal with metadata collection
+    $.while(Greater(Size(stack), Const(0n)), $ => {
+      const current = $.let(Get(stack, Subtract(Size(stack), Const(1n))));
+      $.deleteLast(stack);
+      const currentDepth = $.let(Get(depthMap, current));
+      const expandCurrent = $.let(Const(false));
+      
+      $.if(Not(In(visited, current))).then($ => {
+        // Skip processing if current node exceeds depth limit
+        const shouldProcess = $.let(Const(true));
+        
+        $.ifNull(limit).then(_ => {
+          // No limit: continue normally
+        }).else(($, maxDepth) => {
+          $.if(Greater(currentDepth, maxDepth)).then($ => {
+            $.assign(shouldProcess, Const(false));
+          });
+        });
+        $.ifNull(maxDepthOption).then(_ => {
+          // No max_depth option
+        }).else(($, maxDepth) => {
+          $.if(Greater(currentDepth, maxDepth)).then($ => {
+            $.assign(shouldProcess, Const(false));
+          });
+        });
+        
+        $.if(shouldProcess).then($ => {
+          // CRITICAL: Skip if node doesn't exist in graph
+          $.if(In(nodeTypeMap, current)).then($ => {
+          $.insert(visited, current);
+          
+          // Collect metadata for current node
+          const parentId = $.let(Get(parentMap, current));
+          const currentType = $.let(Get(nodeTypeMap, current));
+          
+          // Get parent type and edge types
+          const parentType = $.let(Const(null, Nullable(StringType)));
+          const parentEdgeTypes = $.let(NewArray(StringType));
+          
+          $.ifNull(parentId).then(_ => {
+            // Start node: no parent
+          }).else(($, nonNullParentId) => {
+            $.assign(parentType, Get(nodeTypeMap, nonNullParentId));
+            
+            // Get edge types from parent to current node
+            $.if(In(edgeGroups, nonNullParentId)).then($ => {
+              const parentGroups = $.let(Get(edgeGroups, nonNullParentId));
+              $.if(In(parentGroups, current)).then($ => {
+                const edgeTypes = $.let(GetField(Get(parentGroups, current), "edge_types"));
+                $.forArray(edgeTypes, ($, edgeType) => {
+                  $.pushLast(parentEdgeTypes, edgeType);
+                });
+              });
+            });
+          });
+          
+          // Add to result with full metadata
+          $.pushLast(result, Struct({
+            id: current,
+            type: currentType,
+            visited_order: visitOrder,
+            depth: currentDepth,
+            parent_edge_types: parentEdgeTypes,
+            parent_id: parentId,
+            parent_type: parentType
+          }));
+          
+          $.assign(visitOrder, Add(visitOrder, Const(1n)));
+          
+          // Stop-type nodes are visited but not expanded (except the source)
+          $.assign(expandCurrent, Or(Equal(current, source_node_id), Not(In(stopNodeTypes, currentType))));
+          }); // Close the node exists check
+        }); // Close the shouldProcess check
+      }).elseIf(And(limited, Less(currentDepth, Get(expandedDepths, current, currentDepth)))).then($ => {
+        // Reached again by a shorter path under max_depth: expand again so that the nodes within
+        // the limit behind it are not missed
+        $.assign(expandCurrent, Or(Equal(current, source_node_id), Not(In(stopNodeTypes, Get(nodeTypeMap, current)))));
+      });
+      
+      // Add unvisited neighbors to stack (in reverse order for consistent left-to-right exploration)
+      $.if(expandCurrent).then($ => {
+        $.insertOrUpdate(expandedDepths, current, currentDepth);
+      });
+      $.if(And(expandCurrent, In(adjacencyList, current))).then($ => {
+        const nextDepth = $.let(Add(currentDepth, Const(1n)));
+        const neighbors = $.let(Get(adjacencyList, current));
+        $.forArray(neighbors, ($, neighbor) => {
+          $.if(Or(anyNodeType, In(allowedNodeTypes, Get(nodeTypeMap, neighbor, Const(""))))).then($ => {
+            $.if(Not(In(depthMap, neighbor))).then($ => {
+              $.insert(depthMap, neighbor, nextDepth);
+              $.insert(parentMap, neighbor, current);
+              $.pushLast(stack, neighbor);
+            }).elseIf(And(limited, Less(nextDepth, Get(depthMap, neighbor)))).then($ => {
+              // Shorter path under max_depth: revisit with the smaller depth
+              $.insertOrUpdate(depthMap, neighbor, nextDepth);
+              $.if(Not(In(visited, neighbor))).then($ => {
+                $.insertOrUpdate(parentMap, neighbor, current);
+              });
+              $.pushLast(stack, neighbor);
+            });
+          });
+        });
+      });
+    });
+    
+    $.return(result);
+  });
\ No newline at end of file
@@ -305,3 +305,554 @@ export const GraphPathStatistics = StructType({
     node_type_sequence: ArrayType(StringType)  // Array of node types in traversal order from deepest path
 });
 
+
+
+// Indexed (CSR) graph representation - built once and shared by the indexed procedure variants
+export const GraphIndexedGraph = StructType({
+    node_count: IntegerType,
+    edge_count: IntegerType,
+    node_ids: ArrayType(StringType),                 // node index -> node id
+    node_types: ArrayType(StringType),               // node index -> node type
+    node_index: DictType(StringType, IntegerType),   // node id -> node index
+    edge_types: ArrayType(StringType),               // edge type index -> edge type
+
+    // Forward edges: outgoing slice of node i is [out_offsets[i], out_offsets[i + 1])
+    out_offsets: ArrayType(IntegerType),
+    out_targets: ArrayType(IntegerType),
+    out_edge_types: ArrayType(IntegerType),
+
+    // Reverse edges: incoming slice of node i is [in_offsets[i], in_offsets[i + 1])
+    in_offsets: ArrayType(IntegerType),
+    in_sources: ArrayType(IntegerType),
+    in_edge_types: ArrayType(IntegerType)
+});
+
+// Parallel edges between one (from, to) pair in a multigraph
+export const GraphEdgeGroup = StructType({
+    edge_types: ArrayType(StringType),               // Type of each parallel edge, in input order
+    edge_indices: ArrayType(IntegerType),            // Position of each parallel edge in the input edge array
+    type_counts: DictType(StringType, IntegerType),  // Edge type -> number of parallel edges of that type
+    count: IntegerType                               // Total number of parallel edges
+});
+
+// Multigraph adjacency - simple adjacency lists plus the parallel edges behind each connection
+export const GraphMultigraphAdjacency = StructType({
+    adjacency_list: DictType(StringType, ArrayType(StringType)),
+    reverse_adjacency_list: DictType(StringType, ArrayType(StringType)),
+    edge_groups: DictType(StringType, DictType(StringType, GraphEdgeGroup))  // from -> to -> parallel edges
+});
+
+// Graph cleaning policies (see graph_clean for allowed values)
+export const GraphCleanPolicy = StructType({
+    duplicate_nodes: StringType,   // "keep_first" | "keep_last"
+    dangling_edges: StringType,    // "drop" | "stub"
+    stub_node_type: StringType,    // Node type given to placeholder nodes created by "stub"
+    duplicate_edges: StringType,   // "keep" | "collapse" (same from/to) | "collapse_typed" (same from/to/type)
+    orphaned_nodes: StringType     // "keep" | "drop"
+});
+
+// Graph cleaning change log entry
+export const GraphCleanChange = StructType({
+    action: StringType,            // "removed" | "created"
+    reason: StringType,            // "duplicate_node" | "dangling_edge" | "stub_node" | "duplicate_edge" | "orphaned_node"
+    node: Nullable(GraphNode),     // Affected node (null for edge changes)
+    edge: Nullable(GraphEdge)      // Affected edge (for stub nodes, the edge that required it)
+});
+
+// Graph cleaning result
+export const GraphCleanResult = StructType({
+    nodes: ArrayType(GraphNode),
+    edges: ArrayType(GraphEdge),
+    changes: ArrayType(GraphCleanChange)
+});
+
+// Itemised validation report entries
+export const GraphDanglingEdgeIssue = StructType({
+    edge_index: IntegerType,       // Position in the input edge array
+    from: StringType,
+    to: StringType,
+    type: StringType,
+    missing_from: BooleanType,     // The from node is not in the node list
+    missing_to: BooleanType        // The to node is not in the node list
+});
+
+export const GraphDuplicateNodeIssue = StructType({
+    id: StringType,
+    occurrence_count: IntegerType,
+    types: ArrayType(StringType),  // Distinct types seen for this ID
+    conflicting_types: BooleanType // More than one distinct type
+});
+
+export const GraphDuplicateEdgeIssue = StructType({
+    from: StringType,
+    to: StringType,
+    occurrence_count: IntegerType,
+    types: ArrayType(StringType)   // Distinct edge types seen for this from/to pair
+});
+
+// Itemised validation report - statistics plus the offending IDs (capped per category)
+export const GraphValidationReport = StructType({
+    statistics: GraphValidStatistics,
+    orphaned_node_ids: ArrayType(StringType),
+    dangling_edges: ArrayType(GraphDanglingEdgeIssue),
+    duplicate_nodes: ArrayType(GraphDuplicateNodeIssue),
+    duplicate_edges: ArrayType(GraphDuplicateEdgeIssue)
+});
+
+
+// Graph schema - allowed node types, typed transitions and degree cardinalities (see graph_validate_schema)
+export const GraphSchemaTransition = StructType({
+    from_type: StringType,
+    edge_type: StringType,
+    to_type: StringType
+});
+
+export const GraphSchemaDegreeRule = StructType({
+    node_type: StringType,                 // Node type the rule applies to
+    direction: StringType,                 // "in" | "out"
+    edge_type: Nullable(StringType),       // Only count edges of this type (null = any edge type)
+    neighbor_type: Nullable(StringType),   // Only count edges from/to nodes of this type (null = any node type)
+    min_count: IntegerType,
+    max_count: Nullable(IntegerType)       // null = unbounded
+});
+
+export const GraphSchema = StructType({
+    node_types: ArrayType(StringType),                  // Allowed node types (empty = any node type)
+    transitions: ArrayType(GraphSchemaTransition),      // Allowed (from_type, edge_type, to_type) triples (empty = any)
+    degree_rules: ArrayType(GraphSchemaDegreeRule)
+});
+
+// Schema violation - one entry per broken rule occurrence
+export const GraphSchemaViolation = StructType({
+    rule: StringType,                      // "node_type" | "transition" | "min_degree" | "max_degree"
+    node_id: Nullable(StringType),         // Offending node (null for transition violations)
+    edge_index: Nullable(IntegerType),     // Position of the offending edge in the input edge array
+    edge: Nullable(GraphEdge),             // Offending edge (null for node violations)
+    rule_index: Nullable(IntegerType),     // Position of the broken degree rule in schema.degree_rules
+    actual_count: Nullable(IntegerType),   // Observed degree for degree violations
+    message: StringType
+});
+
+// Graph diff entries
+export const GraphNodeTypeChange = StructType({
+    id: StringType,
+    old_type: StringType,
+    new_type: StringType
+});
+
+export const GraphEdgeTypeChange = StructType({
+    from: StringType,
+    to: StringType,
+    old_type: StringType,
+    new_type: StringType
+});
+
+// Graph diff summary per node type or edge type
+export const GraphDiffTypeSummary = StructType({
+    type: StringType,
+    before_count: IntegerType,
+    after_count: IntegerType,
+    added_count: IntegerType,
+    removed_count: IntegerType,
+    retyped_from_count: IntegerType,   // Items whose type changed away from this type
+    retyped_to_count: IntegerType      // Items whose type changed to this type
+});
+
+// Graph diff result between two snapshots
+export const GraphDiffResult = StructType({
+    added_nodes: ArrayType(GraphNode),
+    removed_nodes: ArrayType(GraphNode),
+    node_type_changes: ArrayType(GraphNodeTypeChange),
+    added_edges: ArrayType(GraphEdge),
+    removed_edges: ArrayType(GraphEdge),
+    edge_type_changes: ArrayType(GraphEdgeTypeChange),
+    node_type_summary: ArrayType(GraphDiffTypeSummary),
+    edge_type_summary: ArrayType(GraphDiffTypeSummary)
+});
+
+// Graph merge input - one source graph with an optional ID prefix
+export const GraphMergeSource = StructType({
+    name: StringType,                      // Source graph name (referenced by merge links and conflicts)
+    id_prefix: Nullable(StringType),       // Prepended to every node ID of this graph (null = keep IDs)
+    nodes: ArrayType(GraphNode),
+    edges: ArrayType(GraphEdge)
+});
+
+// Linking edge between nodes of two source graphs, identified by their original IDs
+export const GraphMergeLink = StructType({
+    from_graph: StringType,
+    from_id: StringType,
+    to_graph: StringType,
+    to_id: StringType,
+    type: StringType
+});
+
+// Graph merge duplicate node policy (see graph_merge for allowed values)
+export const GraphMergePolicy = StructType({
+    duplicate_nodes: StringType,           // "first_wins" | "error" | "type_priority"
+    type_priority: ArrayType(StringType)   // Preferred node types, highest priority first (for "type_priority")
+});
+
+// Graph merge conflict report entry
+export const GraphMergeConflict = StructType({
+    reason: StringType,                    // "duplicate_node" | "type_conflict" | "unresolved_link"
+    node_id: StringType,                   // Merged node ID (for links, the endpoint that could not be resolved)
+    sources: ArrayType(StringType),        // Source graph of each occurrence
+    types: ArrayType(StringType),          // Node type of each occurrence (empty for links)
+    kept_type: Nullable(StringType)        // Type given to the merged node (null for links)
+});
+
+// Graph merge result
+export const GraphMergeResult = StructType({
+    nodes: ArrayType(GraphNode),
+    edges: ArrayType(GraphEdge),
+    conflicts: ArrayType(GraphMergeConflict)
+});
+
+// Attribute bag carried by attributed nodes and edges, one dictionary per value type
+export const GraphAttributes = StructType({
+    strings: DictType(StringType, StringType),       // e.g. location, unit
+    floats: DictType(StringType, FloatType),         // e.g. quantity, weight
+    integers: DictType(StringType, IntegerType),     // e.g. sequence number
+    datetimes: DictType(StringType, DateTimeType),   // e.g. start and end timestamps
+    booleans: DictType(StringType, BooleanType)      // e.g. flags
+});
+
+// Node with attributes (id and type as in GraphNode)
+export const GraphAttributedNode = StructType({
+    id: StringType,
+    type: StringType,
+    attributes: GraphAttributes
+});
+
+// Edge with attributes (from, to and type as in GraphEdge)
+export const GraphAttributedEdge = StructType({
+    from: StringType,
+    to: StringType,
+    type: StringType,
+    attributes: GraphAttributes
+});
+
+// Plain nodes and edges, e.g. attributed nodes and edges with their attributes removed
+export const GraphBasicGraph = StructType({
+    nodes: ArrayType(GraphNode),
+    edges: ArrayType(GraphEdge)
+});
+
+// Path subgraph with attributed nodes and edges (see GraphPathSubgraph)
+export const GraphAttributedPathSubgraph = StructType({
+    nodes: ArrayType(GraphAttributedNode),
+    edges: ArrayType(GraphAttributedEdge),
+    source_nodes: ArrayType(StringType),
+    target_nodes: ArrayType(StringType),
+    node_types: SetType(StringType),
+    edge_types: SetType(StringType)
+});
+
+// Edge reference by endpoints (e.g. for highlighting bridges or critical path edges)
+export const GraphEdgeEndpoints = StructType({
+    from: StringType,
+    to: StringType
+});
+
+// Node to component assignment (as returned by graph_connected_components)
+export const GraphComponentAssignment = StructType({
+    node_id: StringType,
+    component_id: StringType
+});
+
+// Render style for a node type or edge type (empty string = renderer default)
+export const GraphRenderStyle = StructType({
+    color: StringType,        // Outline / line color, e.g. "#1f77b4" or "red"
+    fill_color: StringType,   // Node fill color (ignored for edges)
+    shape: StringType,        // Node shape, e.g. "box", "round", "circle", "diamond" (ignored for edges)
+    line_style: StringType    // "solid" | "dashed" | "dotted" | "bold"
+});
+
+// Options shared by the graph export procedures
+export const GraphRenderOptions = StructType({
+    graph_name: StringType,
+    direction: StringType,                                     // "LR" | "TB" | "RL" | "BT"
+    node_styles: DictType(StringType, GraphRenderStyle),       // node type -> style
+    edge_styles: DictType(StringType, GraphRenderStyle),       // edge type -> style
+    highlight_node_ids: ArrayType(StringType),                 // e.g. critical path or articulation points
+    highlight_edges: ArrayType(GraphEdgeEndpoints),            // e.g. bridges
+    highlight_color: StringType,
+    component_assignments: ArrayType(GraphComponentAssignment) // Cluster nodes by component ID (empty = no clusters)
+});
+
+// Parse error reported by the graph import procedures (1-based line number)
+export const GraphParseError = StructType({
+    line: IntegerType,
+    message: StringType
+});
+
+// Result of a graph import: parsed nodes and edges plus any lines that could not be parsed
+export const GraphImportResult = StructType({
+    nodes: ArrayType(GraphNode),
+    edges: ArrayType(GraphEdge),
+    errors: ArrayType(GraphParseError)
+});
+
+// Column mapping for edge-list CSV import (column names from the header row, empty string = not used)
+export const GraphCsvImportOptions = StructType({
+    delimiter: StringType,          // e.g. "," or "\t"
+    from_column: StringType,
+    to_column: StringType,
+    type_column: StringType,        // Edge type column (empty = default_edge_type)
+    from_type_column: StringType,   // Node type of the from node (empty = default_node_type)
+    to_type_column: StringType,     // Node type of the to node (empty = default_node_type)
+    default_node_type: StringType,
+    default_edge_type: StringType
+});
+
+// Pseudo-random draw: next generator state and a value in [0, bound)
+export const GraphRandomDraw = StructType({
+    state: IntegerType,
+    value: IntegerType
+});
+
+// Canonical structural fingerprint of a typed graph
+export const GraphFingerprintResult = StructType({
+    fingerprint: StringType,   // Hash of the Weisfeiler-Lehman transcript; equal for graphs identical up to node IDs
+    node_count: IntegerType,
+    edge_count: IntegerType,
+    iterations: IntegerType    // Refinement rounds performed before the labels stabilised or the limit was reached
+});
+
+// Group of structurally identical graphs
+export const GraphFingerprintGroup = StructType({
+    fingerprint: StringType,
+    representative_index: IntegerType,      // Index of the first member in the input collection
+    representative: GraphBasicGraph,
+    member_count: IntegerType,
+    member_indices: ArrayType(IntegerType)
+});
+
+// One embedding of a pattern graph: pattern node ID → matched graph node ID
+export const GraphPatternMatch = StructType({
+    mapping: DictType(StringType, StringType)
+});
+
+// Pattern matching result
+export const GraphPatternMatchResult = StructType({
+    matches: ArrayType(GraphPatternMatch),
+    match_count: IntegerType,
+    truncated: BooleanType     // True when more matches exist beyond the limit
+});
+
+// Transition of a path query automaton
+export const GraphPathQueryTransition = StructType({
+    from_state: StringType,
+    to_state: StringType,
+    kind: StringType,                 // "node" (consumes a node), "edge" (consumes an edge) or "epsilon" (consumes nothing)
+    types: ArrayType(StringType)      // Node or edge types accepted by the transition (empty = any type)
+});
+
+// Regular path query as a nondeterministic automaton over alternating node and edge types
+export const GraphPathQuery = StructType({
+    start_state: StringType,
+    accept_states: ArrayType(StringType),
+    transitions: ArrayType(GraphPathQueryTransition)
+});
+
+// Start/end pair matched by a path query with its shortest witness path
+export const GraphPathQueryMatch = StructType({
+    start_id: StringType,
+    end_id: StringType,
+    length: IntegerType,                  // Edges in the shortest matching path
+    witness_nodes: ArrayType(StringType), // Empty unless witnesses are requested
+    witness_edges: ArrayType(GraphEdge)
+});
+
+// Path query result
+export const GraphPathQueryResult = StructType({
+    matches: ArrayType(GraphPathQueryMatch),
+    match_count: IntegerType
+});
+
+// Edge between two strongly connected components of a condensation
+export const GraphCondensationEdge = StructType({
+    from: IntegerType,   // Component index
+    to: IntegerType
+});
+
+// Strongly connected component condensation of a directed graph
+export const GraphCondensation = StructType({
+    components: ArrayType(ArrayType(StringType)),   // Member node IDs per component, in topological order
+    component_of: DictType(StringType, IntegerType),
+    edges: ArrayType(GraphCondensationEdge),        // Distinct edges between different components
+    cyclic: BooleanType                             // True when any component has more than one node or a self-loop
+});
+
+// Transitive reduction result
+export const GraphTransitiveReductionResult = StructType({
+    edges: ArrayType(GraphEdge),           // Kept edges, in input order
+    removed_edges: ArrayType(GraphEdge),   // Redundant edges, in input order
+    cyclic: BooleanType
+});
+
+// Closed range of post-order numbers in a reachability index
+export const GraphReachabilityInterval = StructType({
+    start: IntegerType,
+    end: IntegerType
+});
+
+// Interval-labelled reachability index over the strongly connected component condensation
+export const GraphReachabilityIndex = StructType({
+    component_of: DictType(StringType, IntegerType),
+    post_order: ArrayType(IntegerType),                              // Post-order number per component
+    intervals: ArrayType(ArrayType(GraphReachabilityInterval)),      // Sorted, disjoint intervals per component
+    interval_count: IntegerType                                      // Total intervals stored (index size)
+});
+
+// Reachability question: can from reach to?
+export const GraphReachabilityPair = StructType({
+    from: StringType,
+    to: StringType
+});
+
+// Reachability answer for one pair
+export const GraphReachabilityAnswer = StructType({
+    from: StringType,
+    to: StringType,
+    reachable: BooleanType
+});
+
+// Node of a dominator tree
+export const GraphDominatorNode = StructType({
+    id: StringType,
+    immediate_dominator: Nullable(StringType),   // Null for the root
+    depth: IntegerType,                          // Depth in the dominator tree (root = 0)
+    children: ArrayType(StringType),             // Nodes immediately dominated by this node
+    frontier: ArrayType(StringType)              // Dominance frontier, sorted by node ID
+});
+
+// Dominator (or post-dominator) tree from a root
+export const GraphDominatorResult = StructType({
+    root: StringType,
+    nodes: ArrayType(GraphDominatorNode),        // Nodes reachable from the root, in input order
+    unreachable: ArrayType(StringType)           // Nodes not reachable from the root, in input order
+});
+
+// Common ancestor of a set of query nodes
+export const GraphCommonAncestor = StructType({
+    id: StringType,
+    type: StringType,
+    distances: ArrayType(IntegerType)     // Shortest upstream hops from each query node, in query order
+});
+
+// Lowest common ancestors of one query (a pair or set of nodes)
+export const GraphLowestCommonAncestors = StructType({
+    node_ids: ArrayType(StringType),
+    ancestors: ArrayType(GraphCommonAncestor)   // Sorted by node ID
+});
+
+// Topological sort result with the nodes that could not be ordered
+export const GraphTopologicalSortResult = StructType({
+    order: ArrayType(GraphTopologicalNode),
+    unordered: ArrayType(StringType),     // Nodes on or behind a cycle, in input order
+    cycle: ArrayType(StringType)          // Cycle witness: each node has an edge to the next, the last back to the first (empty when acyclic)
+});
+
+// Bounded-width layering result
+export const GraphBoundedLayeringResult = StructType({
+    nodes: ArrayType(GraphTopologicalNode),   // Schedule order: by layer, highest Coffman-Graham label first
+    layer_count: IntegerType,
+    unbounded_layer_count: IntegerType,       // Longest-path layer count without a width cap
+    added_layers: IntegerType                 // layer_count - unbounded_layer_count
+});
+
+// Hierarchical layout options
+export const GraphLayoutOptions = StructType({
+    crossing_method: StringType,    // "barycenter" or "median"
+    iterations: IntegerType,        // Down-and-up passes for crossing minimisation and coordinate balancing
+    x_spacing: IntegerType,         // Minimum horizontal distance between nodes in a layer
+    y_spacing: IntegerType          // Vertical distance between layers
+});
+
+// Point in layout coordinates
+export const GraphLayoutPoint = StructType({
+    x: IntegerType,
+    y: IntegerType
+});
+
+// Positioned node
+export const GraphLayoutNode = StructType({
+    id: StringType,
+    type: StringType,
+    layer: IntegerType,
+    position: IntegerType,      // Order within the layer, from the left
+    x: IntegerType,
+    y: IntegerType
+});
+
+// Routed edge
+export const GraphLayoutEdge = StructType({
+    from: StringType,
+    to: StringType,
+    type: StringType,
+    points: ArrayType(GraphLayoutPoint)     // Bend points between the endpoints (empty for adjacent layers)
+});
+
+// Hierarchical layout result
+export const GraphLayout = StructType({
+    nodes: ArrayType(GraphLayoutNode),
+    edges: ArrayType(GraphLayoutEdge),
+    layer_count: IntegerType,
+    crossings: IntegerType,         // Edge crossings between adjacent layers after minimisation
+    width: IntegerType,
+    height: IntegerType
+});
+
+// Traversal options for graph_bfs_with_options, graph_dfs_with_options, graph_tracked_bfs_with_options and graph_tracked_dfs_with_options
+export const GraphTraversalOptions = StructType({
+    direction: StringType,                  // "forward" | "backward" | "both"
+    edge_types: ArrayType(StringType),      // Edge types to follow (empty = all)
+    node_types: ArrayType(StringType),      // Node types that may be visited (empty = all; the source is always visited)
+    stop_node_types: ArrayType(StringType), // Node types that are visited but not expanded (except the source)
+    max_depth: Nullable(IntegerType)        // Deepest level to visit (null = unlimited)
+});
+
+// Node reached by a multi-source breadth-first search
+export const GraphMultiSourceNode = StructType({
+    id: StringType,
+    type: StringType,
+    distance: IntegerType,          // Hops from the nearest source (0 for sources)
+    nearest_source: StringType,     // Source whose search reached the node first
+    parent_id: Nullable(StringType) // Previous node on the shortest hop path (null for sources)
+});
+
+// k-hop neighbourhood (ego network) of one or more centre nodes
+export const GraphEgoNetwork = StructType({
+    centre_node_ids: ArrayType(StringType),         // The centre, or every centre for a merged network
+    subgraph: GraphPathSubgraph,
+    distances: DictType(StringType, IntegerType)    // Hops from the nearest centre per node
+});
+
+// Node with depth-first search timestamps
+export const GraphDfsTimedNode = StructType({
+    id: StringType,
+    type: StringType,
+    discovery: IntegerType,             // Time the node was first reached
+    finish: IntegerType,                // Time all of the node's outgoing edges were explored
+    depth: IntegerType,                 // Depth in its DFS tree (0 for roots)
+    parent_id: Nullable(StringType),    // Parent in the DFS forest (null for roots)
+    root_id: StringType                 // Root of the node's DFS tree
+});
+
+// Edge classified by a depth-first search
+export const GraphClassifiedEdge = StructType({
+    from: StringType,
+    to: StringType,
+    type: StringType,
+    classification: StringType          // "tree" | "back" | "forward" | "cross"
+});
+
+// Depth-first search structure: timestamps, edge classes and the spanning forest
+export const GraphDfsClassification = StructType({
+    nodes: ArrayType(GraphDfsTimedNode),        // In discovery order
+    edges: ArrayType(GraphClassifiedEdge),      // In input order
+    forest_edges: ArrayType(GraphEdge),         // Tree edges
+    back_edges: ArrayType(GraphEdge)            // Edges closing a cycle
+});